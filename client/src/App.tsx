@@ -11,8 +11,20 @@ import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import Warehouses from "@/pages/warehouses";
+import WarehouseDetail from "@/pages/warehouse-detail";
+import Products from "@/pages/products";
 import Inventory from "@/pages/inventory";
+import Scan from "@/pages/scan";
+import Expiry from "@/pages/expiry";
+import Transfers from "@/pages/transfers";
+import ReorderSuggestions from "@/pages/reorder-suggestions";
+import PurchaseOrders from "@/pages/purchase-orders";
+import Suppliers from "@/pages/suppliers";
+import Stocktakes from "@/pages/stocktakes";
+import StocktakeDetail from "@/pages/stocktake";
+import Valuation from "@/pages/valuation";
 import Tables from "@/pages/tables";
+import TableEditor from "@/pages/table-editor";
 import ImageUpload from "@/pages/image-upload";
 import Users from "@/pages/users";
 import Settings from "@/pages/settings";
@@ -33,8 +45,20 @@ function AuthenticatedRouter() {
     <Switch>
       <Route path="/" component={Dashboard} />
       <Route path="/warehouses" component={Warehouses} />
+      <Route path="/warehouses/:id" component={WarehouseDetail} />
+      <Route path="/products" component={Products} />
       <Route path="/inventory" component={Inventory} />
+      <Route path="/scan" component={Scan} />
+      <Route path="/expiry" component={Expiry} />
+      <Route path="/transfers" component={Transfers} />
+      <Route path="/reorder-suggestions" component={ReorderSuggestions} />
+      <Route path="/purchase-orders" component={PurchaseOrders} />
+      <Route path="/suppliers" component={Suppliers} />
+      <Route path="/stocktakes" component={Stocktakes} />
+      <Route path="/stocktakes/:id" component={StocktakeDetail} />
+      <Route path="/valuation" component={Valuation} />
       <Route path="/tables" component={Tables} />
+      <Route path="/tables/:id" component={TableEditor} />
       <Route path="/image-upload" component={ImageUpload} />
       <Route path="/users" component={Users} />
       <Route path="/settings" component={Settings} />
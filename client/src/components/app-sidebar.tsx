@@ -2,11 +2,20 @@ import {
   LayoutDashboard,
   Package,
   Warehouse,
+  ArrowLeftRight,
+  ShoppingCart,
+  ClipboardList,
+  ClipboardCheck,
+  Building2,
+  Coins,
+  Tags,
   Table2,
   Image,
   Users,
   Settings,
   LogOut,
+  ScanLine,
+  CalendarClock,
 } from "lucide-react";
 import {
   Sidebar,
@@ -27,7 +36,16 @@ import { Link, useLocation } from "wouter";
 const mainMenuItems = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard, testId: "link-dashboard" },
   { title: "Warehouses", url: "/warehouses", icon: Warehouse, testId: "link-warehouses" },
+  { title: "Products", url: "/products", icon: Tags, testId: "link-products" },
   { title: "Inventory", url: "/inventory", icon: Package, testId: "link-inventory" },
+  { title: "Scan", url: "/scan", icon: ScanLine, testId: "link-scan" },
+  { title: "Expiry", url: "/expiry", icon: CalendarClock, testId: "link-expiry" },
+  { title: "Transfers", url: "/transfers", icon: ArrowLeftRight, testId: "link-transfers" },
+  { title: "Reorder Suggestions", url: "/reorder-suggestions", icon: ShoppingCart, testId: "link-reorder-suggestions" },
+  { title: "Purchase Orders", url: "/purchase-orders", icon: ClipboardList, testId: "link-purchase-orders" },
+  { title: "Suppliers", url: "/suppliers", icon: Building2, testId: "link-suppliers" },
+  { title: "Stocktakes", url: "/stocktakes", icon: ClipboardCheck, testId: "link-stocktakes" },
+  { title: "Stock Valuation", url: "/valuation", icon: Coins, testId: "link-valuation" },
 ];
 
 const toolsMenuItems = [
@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from "react";
+import { CameraOff } from "lucide-react";
+
+// The browser's Shape Detection API decodes on the device; it isn't in the
+// DOM typings yet, so only the parts used here are declared.
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetector {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): BarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// What our labels print, plus the retail codes found on supplier packaging
+const wantedFormats = ["code_128", "ean_13", "qr_code", "ean_8", "upc_a", "upc_e", "code_39", "data_matrix"];
+
+const SCAN_INTERVAL_MS = 250;
+
+// Reads the video's current frame; null or a throw means no code was found
+type FrameDecoder = (video: HTMLVideoElement) => Promise<string | null>;
+
+/**
+ * Uses the native detector where the browser has one. Elsewhere (Firefox,
+ * Safari before 17) ZXing decodes the frames in JavaScript; it's only
+ * downloaded when needed.
+ */
+async function createDecoder(): Promise<FrameDecoder> {
+  if (Detector) {
+    const supported = await Detector.getSupportedFormats();
+    const detector = new Detector({ formats: wantedFormats.filter((format) => supported.includes(format)) });
+    return async (video) => (await detector.detect(video))[0]?.rawValue ?? null;
+  }
+  const { BarcodeFormat, BrowserMultiFormatReader } = await import("@zxing/browser");
+  const reader = new BrowserMultiFormatReader();
+  reader.possibleFormats = wantedFormats.map((format) => BarcodeFormat[format.toUpperCase() as keyof typeof BarcodeFormat]);
+  return async (video) => reader.decode(video).getText();
+}
+
+export const isCameraScanningSupported = !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Live camera preview that reports the first code it decodes. The camera is
+ * only on while `active`; callers turn it off once a code is reported.
+ */
+export function BarcodeScanner({ active, onDetected }: { active: boolean; onDetected: (code: string) => void }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!active || !isCameraScanningSupported) return;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+
+    (async () => {
+      try {
+        setError(null);
+        const decode = await createDecoder();
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" }, audio: false });
+        if (stopped || !videoRef.current) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        let detecting = false;
+        timer = setInterval(async () => {
+          const video = videoRef.current;
+          if (detecting || !video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+          detecting = true;
+          try {
+            const code = await decode(video);
+            if (code && !stopped) onDetectedRef.current(code.trim());
+          } catch {
+            // A frame that can't be read yet; the next tick tries again
+          } finally {
+            detecting = false;
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (e: any) {
+        if (!stopped) {
+          setError(
+            e?.name === "NotAllowedError"
+              ? "Camera access was denied. Allow it in the browser's site settings to scan."
+              : e?.message || "The camera could not be started"
+          );
+        }
+      }
+    })();
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [active]);
+
+  if (!isCameraScanningSupported || error) {
+    return (
+      <div className="flex aspect-video flex-col items-center justify-center gap-2 rounded-md bg-muted p-6 text-center">
+        <CameraOff className="h-8 w-8 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground" data-testid="text-scanner-unavailable">
+          {error ?? "This browser can't open the camera. Type the code or use a handheld scanner below."}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-md bg-black">
+      <video ref={videoRef} className="aspect-video w-full object-cover" muted playsInline data-testid="video-scanner" />
+      {active ? (
+        <div className="pointer-events-none absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-red-500/80" />
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60 text-sm text-white">Paused</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { Warehouse } from "@shared/schema";
+
+interface ImportReport {
+  summary: { create: number; update: number; unchanged: number; errors: number };
+  ignoredColumns: string[];
+  rows: Array<{
+    line: number;
+    action: "create" | "update" | "unchanged";
+    warehouseId: string;
+    sku: string;
+    name: string;
+    changes: Record<string, { from: unknown; to: unknown }>;
+  }>;
+  errors: Array<{
+    line: number;
+    formErrors: string[];
+    fieldErrors: Record<string, string[] | undefined>;
+  }>;
+}
+
+const NO_DEFAULT = "__none__";
+
+const fieldLabels: Record<string, string> = {
+  name: "Name",
+  category: "Category",
+  quantity: "Quantity",
+  unit: "Unit",
+  batchNumber: "Batch",
+  expirationDate: "Expiry",
+  location: "Location",
+  description: "Description",
+  warehouseId: "Warehouse",
+  sku: "SKU",
+};
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "expirationDate") return new Date(value as string).toLocaleDateString();
+  return String(value);
+}
+
+async function postImport(file: File, fields: Record<string, string>) {
+  const formData = new FormData();
+  formData.append("file", file);
+  for (const [key, value] of Object.entries(fields)) {
+    formData.append(key, value);
+  }
+
+  const response = await fetch("/api/inventory/import", {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  const body = await response.json().catch(() => ({}));
+
+  // Row-level validation failures come back as a 400 with a report attached
+  if (!response.ok && !body.summary) {
+    throw new Error(body.message || "Import failed");
+  }
+  return body;
+}
+
+export function InventoryImportDialog({
+  warehouses,
+  open,
+  onOpenChange,
+}: {
+  warehouses: Warehouse[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [defaultWarehouseId, setDefaultWarehouseId] = useState<string>(NO_DEFAULT);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const close = () => {
+    setFile(null);
+    setDefaultWarehouseId(NO_DEFAULT);
+    setReport(null);
+    onOpenChange(false);
+  };
+
+  const importFields = (dryRun: boolean) => ({
+    ...(defaultWarehouseId !== NO_DEFAULT ? { warehouseId: defaultWarehouseId } : {}),
+    dryRun: String(dryRun),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => (await postImport(file!, importFields(true))) as ImportReport,
+    onSuccess: setReport,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to read import file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => postImport(file!, importFields(false)),
+    onSuccess: (result) => {
+      if (result.summary) {
+        setReport(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: `Created ${result.created} and updated ${result.updated} item(s)`,
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import inventory",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const warehouseName = (id: string) => warehouses.find((w) => w.id === id)?.name ?? id;
+  const isBusy = previewMutation.isPending || importMutation.isPending;
+  const hasChanges = !!report && report.summary.create + report.summary.update > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-3xl" data-testid="dialog-import-inventory">
+        <DialogHeader>
+          <DialogTitle>Import Inventory</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file. Items are matched by warehouse and SKU; preview the changes before applying them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="inventory-import-file">File</Label>
+              <Input
+                id="inventory-import-file"
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setReport(null);
+                }}
+                disabled={isBusy}
+                data-testid="input-inventory-import-file"
+              />
+            </div>
+            <div>
+              <Label>Default warehouse</Label>
+              <Select
+                value={defaultWarehouseId}
+                onValueChange={(value) => {
+                  setDefaultWarehouseId(value);
+                  setReport(null);
+                }}
+              >
+                <SelectTrigger data-testid="select-import-warehouse">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DEFAULT}>From file</SelectItem>
+                  {warehouses.map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Recognised columns: SKU, Name, Warehouse, Category, Quantity, Unit, Batch Number, Expiration Date,
+            Location, Description. Blank cells keep the current value.
+          </p>
+
+          {report && (
+            <div className="flex flex-wrap gap-2" data-testid="text-import-summary">
+              <Badge variant="secondary">{report.summary.create} new</Badge>
+              <Badge variant="secondary">{report.summary.update} updated</Badge>
+              <Badge variant="outline">{report.summary.unchanged} unchanged</Badge>
+              {report.summary.errors > 0 && (
+                <Badge variant="destructive">{report.summary.errors} invalid</Badge>
+              )}
+              {report.ignoredColumns.length > 0 && (
+                <Badge variant="outline">Ignored: {report.ignoredColumns.join(", ")}</Badge>
+              )}
+            </div>
+          )}
+
+          {report && report.summary.errors > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <p className="font-medium" data-testid="text-import-errors">
+                  {report.summary.errors} row(s) failed validation; nothing was imported.
+                </p>
+                <ScrollArea className="mt-2 max-h-40">
+                  <ul className="space-y-1 text-xs">
+                    {report.errors.map((error) => (
+                      <li key={error.line}>
+                        Line {error.line}:{" "}
+                        {[
+                          ...error.formErrors,
+                          ...Object.entries(error.fieldErrors).map(
+                            ([field, messages]) => `${fieldLabels[field] ?? field}: ${(messages ?? []).join(", ")}`
+                          ),
+                        ].join("; ")}
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {report && report.summary.errors === 0 && !hasChanges && (
+            <Alert>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>The file matches current inventory; there is nothing to import.</AlertDescription>
+            </Alert>
+          )}
+
+          {report && report.rows.length > 0 && (
+            <ScrollArea className="max-h-64 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map((row) => (
+                    <TableRow key={row.line} data-testid={`row-import-${row.line}`}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>
+                        <div className="font-medium" dir="auto">{row.name}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{row.sku}</div>
+                      </TableCell>
+                      <TableCell>{warehouseName(row.warehouseId)}</TableCell>
+                      <TableCell className="text-xs">
+                        {row.action === "create" && <Badge className="mb-1 text-xs">New</Badge>}
+                        {Object.entries(row.changes).map(([field, change]) => (
+                          <div key={field} dir="auto">
+                            <span className="text-muted-foreground">{fieldLabels[field] ?? field}:</span>{" "}
+                            {row.action === "update" && (
+                              <>
+                                <span className="line-through">{formatValue(field, change.from)}</span> →{" "}
+                              </>
+                            )}
+                            {formatValue(field, change.to)}
+                          </div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close} data-testid="button-cancel-inventory-import">
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => previewMutation.mutate()}
+            disabled={!file || isBusy}
+            data-testid="button-preview-inventory-import"
+          >
+            {previewMutation.isPending ? "Checking..." : "Preview Changes"}
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!hasChanges || report?.summary.errors !== 0 || isBusy}
+            data-testid="button-apply-inventory-import"
+          >
+            {importMutation.isPending ? "Importing..." : "Apply Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
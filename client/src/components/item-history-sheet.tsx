@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { adjustmentReasonLabels } from "@/components/stock-movement-dialog";
+import { formatMoney } from "@/lib/format";
+import type { InventoryItem, ProductHistoryAction, ProductHistoryEntry } from "@shared/schema";
+
+const actionLabels: Record<ProductHistoryAction, string> = {
+  in: "Received",
+  out: "Issued",
+  adjust: "Adjusted",
+  transfer_in: "Transfer in",
+  transfer_out: "Transfer out",
+};
+
+const chartConfig = {
+  quantity: { label: "Quantity", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+// Date inputs are local calendar days; the range covers both days in full.
+function rangeQuery(from: string, to: string) {
+  const params = new URLSearchParams();
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  return params.toString();
+}
+
+export function ItemHistorySheet({
+  item,
+  onOpenChange,
+}: {
+  item: InventoryItem | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  useEffect(() => {
+    setFrom("");
+    setTo("");
+  }, [item?.id]);
+
+  const query = rangeQuery(from, to);
+  const { data: history, isLoading } = useQuery<ProductHistoryEntry[]>({
+    queryKey: ["/api/inventory", item?.id, "history", query],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/inventory/${item!.id}/history${query ? `?${query}` : ""}`);
+      return res.json();
+    },
+    enabled: !!item,
+  });
+
+  // Step series: the level before the first movement, then the level after each one
+  const points = history?.length
+    ? [
+        {
+          time: from ? new Date(`${from}T00:00:00`).getTime() : new Date(history[0].timestamp).getTime(),
+          quantity: history[0].previousQuantity,
+        },
+        ...history.map((entry) => ({ time: new Date(entry.timestamp).getTime(), quantity: entry.newQuantity })),
+      ]
+    : [];
+
+  return (
+    <Sheet open={!!item} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col sm:max-w-xl" data-testid="sheet-item-history">
+        <SheetHeader>
+          <SheetTitle>Stock History</SheetTitle>
+          <SheetDescription>
+            {item?.name} ({item?.sku}) — {item?.quantity} {item?.unit} on hand
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="history-from" className="text-xs">From</Label>
+            <Input
+              id="history-from"
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              data-testid="input-history-from"
+            />
+          </div>
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="history-to" className="text-xs">To</Label>
+            <Input
+              id="history-to"
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              data-testid="input-history-to"
+            />
+          </div>
+          {(from || to) && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setFrom("");
+                setTo("");
+              }}
+              data-testid="button-clear-history-range"
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-48 w-full" />
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : !history || history.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">No movements in this period</p>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full" data-testid="chart-item-history">
+              <LineChart data={points} margin={{ left: 0, right: 12, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={(value) => new Date(value).toLocaleDateString()}
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={32}
+                />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) =>
+                        payload[0] ? new Date(payload[0].payload.time).toLocaleString() : ""
+                      }
+                    />
+                  }
+                />
+                <Line
+                  dataKey="quantity"
+                  type="stepAfter"
+                  stroke="var(--color-quantity)"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </LineChart>
+            </ChartContainer>
+
+            <ScrollArea className="flex-1">
+              <ul className="space-y-2 pr-3">
+                {[...history].reverse().map((entry) => (
+                  <li key={entry.id} className="rounded-md border p-3 text-sm" data-testid={`history-entry-${entry.id}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{actionLabels[entry.actionType]}</Badge>
+                        {entry.reasonCode && (
+                          <Badge variant="secondary">{adjustmentReasonLabels[entry.reasonCode]}</Badge>
+                        )}
+                        {entry.lotNumber && (
+                          <span className="font-mono text-xs text-muted-foreground">Lot {entry.lotNumber}</span>
+                        )}
+                        {entry.unitCost !== null && (
+                          <span className="text-xs text-muted-foreground">@ {formatMoney(entry.unitCost)}</span>
+                        )}
+                      </div>
+                      <span
+                        className={`font-mono font-medium ${entry.quantityChange < 0 ? "text-destructive" : ""}`}
+                      >
+                        {entry.quantityChange > 0 ? "+" : ""}
+                        {entry.quantityChange}
+                      </span>
+                    </div>
+                    <div className="mt-1 flex items-center justify-between text-xs text-muted-foreground">
+                      <span>
+                        {new Date(entry.timestamp).toLocaleString()} · {entry.userName ?? "System"}
+                      </span>
+                      <span>
+                        {entry.previousQuantity} → {entry.newQuantity}
+                      </span>
+                    </div>
+                    {entry.notes && <p className="mt-2 text-muted-foreground">{entry.notes}</p>}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MAX_LABEL_COPIES,
+  labelSymbologies,
+  labelSymbologyNames,
+  labelTemplateIds,
+  labelTemplates,
+  type LabelKind,
+  type LabelSymbology,
+  type LabelTemplateId,
+} from "@shared/labels";
+
+const kindNames: Record<LabelKind, string> = {
+  items: "One per item, encoding its SKU",
+  lots: "One per lot in stock, encoding its lot number",
+  bins: "One per bin, encoding its code",
+};
+
+export function LabelPrintDialog({
+  kinds,
+  ids,
+  open,
+  onOpenChange,
+}: {
+  // The first is the default; only offered as a choice when there are several
+  kinds: LabelKind[];
+  ids: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<LabelKind>(kinds[0]);
+  const [symbology, setSymbology] = useState<LabelSymbology>("code128");
+  const [template, setTemplate] = useState<LabelTemplateId>("avery-5160");
+  const [copies, setCopies] = useState("1");
+
+  const printMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/labels", { kind, ids, symbology, template, copies: Number(copies) });
+      return res.blob();
+    },
+    onSuccess: (pdf) => {
+      const url = URL.createObjectURL(pdf);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `labels-${kind}.pdf`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorBody(error)?.message || "Failed to print labels",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyCount = Number(copies);
+  const isValid = Number.isInteger(copyCount) && copyCount >= 1 && copyCount <= MAX_LABEL_COPIES;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-print-labels">
+        <DialogHeader>
+          <DialogTitle>Print Labels</DialogTitle>
+          <DialogDescription>
+            A PDF sheet of barcode labels for the {ids.length} selected{" "}
+            {kinds.includes("bins") ? "warehouse(s)" : "item(s)"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {kinds.length > 1 && (
+            <div className="space-y-2">
+              <Label>Labels</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as LabelKind)}>
+                <SelectTrigger data-testid="select-label-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {kinds.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {kindNames[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Barcode</Label>
+            <Select value={symbology} onValueChange={(value) => setSymbology(value as LabelSymbology)}>
+              <SelectTrigger data-testid="select-label-symbology">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {labelSymbologies.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {labelSymbologyNames[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Label sheet</Label>
+            <Select value={template} onValueChange={(value) => setTemplate(value as LabelTemplateId)}>
+              <SelectTrigger data-testid="select-label-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {labelTemplateIds.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {labelTemplates[option].name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="label-copies">Copies of each label</Label>
+            <Input
+              id="label-copies"
+              type="number"
+              min={1}
+              max={MAX_LABEL_COPIES}
+              value={copies}
+              onChange={(e) => setCopies(e.target.value)}
+              data-testid="input-label-copies"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-labels">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => printMutation.mutate()}
+            disabled={!isValid || ids.length === 0 || printMutation.isPending}
+            data-testid="button-download-labels"
+          >
+            <Printer className="mr-2 h-4 w-4" />
+            {printMutation.isPending ? "Generating..." : "Download PDF"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
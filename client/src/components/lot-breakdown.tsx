@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { InventoryItem, InventoryLot } from "@shared/schema";
+
+function formatLotDate(value: string | Date | null) {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+// Lots in picking order (FEFO); the first one not in quarantine is issued next
+export function LotBreakdown({ item, lowStock }: { item: InventoryItem; lowStock: boolean }) {
+  const [open, setOpen] = useState(false);
+  const { data: lots, isLoading } = useQuery<InventoryLot[]>({
+    queryKey: ["/api/inventory", item.id, "lots"],
+    enabled: open,
+  });
+  const next = lots?.find((lot) => !lot.quarantinedAt);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-auto px-2 py-1 ${lowStock ? "text-destructive font-medium" : ""}`}
+          title="Show lots"
+          data-testid={`button-lots-${item.id}`}
+        >
+          {item.quantity}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="start">
+        <div className="border-b px-4 py-2 text-sm font-medium">Lots — picked first-expired-first-out</div>
+        {isLoading ? (
+          <div className="space-y-2 p-4">
+            <Skeleton className="h-6 w-full" />
+            <Skeleton className="h-6 w-full" />
+          </div>
+        ) : !lots || lots.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">No stock on hand</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lot</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lots.map((lot) => (
+                <TableRow key={lot.id} data-testid={`row-lot-${lot.id}`}>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <span className={lot.lotNumber ? "font-mono text-xs" : "text-xs text-muted-foreground"}>
+                        {lot.lotNumber ?? "Unassigned"}
+                      </span>
+                      {lot === next && (
+                        <Badge variant="secondary" className="text-xs">
+                          Next
+                        </Badge>
+                      )}
+                      {lot.quarantinedAt && (
+                        <Badge variant="destructive" className="text-xs">
+                          Quarantined
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-xs">{formatLotDate(lot.expirationDate)}</TableCell>
+                  <TableCell className="text-xs">{formatLotDate(lot.receivedAt)}</TableCell>
+                  <TableCell className="text-right">{lot.quantity}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { UnitSelect } from "@/components/unit-select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { conversionLabel } from "@shared/units";
+import type { Product, ProductUnitConversion } from "@shared/schema";
+
+export function ProductUnitsDialog({
+  product,
+  onOpenChange,
+}: {
+  product: Product | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [unit, setUnit] = useState("");
+  const [factor, setFactor] = useState("");
+
+  useEffect(() => {
+    setUnit("");
+    setFactor("");
+  }, [product?.id]);
+
+  const unitsKey = ["/api/products", product?.id, "units"];
+  const { data: conversions } = useQuery<ProductUnitConversion[]>({
+    queryKey: unitsKey,
+    enabled: !!product,
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorBody(error)?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/products/${product!.id}/units`, { unit, factor: Number(factor) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: unitsKey });
+      toast({ title: "Success", description: `1 ${unit} = ${factor} ${product?.unit} saved` });
+      setUnit("");
+      setFactor("");
+    },
+    onError: handleError("Failed to save conversion"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/products/${product!.id}/units/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: unitsKey });
+      toast({ title: "Success", description: "Conversion removed" });
+    },
+    onError: handleError("Failed to remove conversion"),
+  });
+
+  const amount = Number(factor);
+  const isValid = !!unit && Number.isInteger(amount) && amount >= 2;
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-product-units">
+        <DialogHeader>
+          <DialogTitle>Units for {product?.name}</DialogTitle>
+          <DialogDescription>
+            Stock is kept in {product?.unit}; these units can be used to receive, issue, adjust and transfer it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!conversions || conversions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No other units yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Unit</TableHead>
+                  <TableHead>Conversion</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {conversions.map((conversion) => (
+                  <TableRow key={conversion.id} data-testid={`row-conversion-${conversion.id}`}>
+                    <TableCell className="font-medium">{conversion.unit}</TableCell>
+                    <TableCell>{conversionLabel(product?.unit ?? "", conversion)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(conversion.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-conversion-${conversion.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="grid items-end gap-3 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Unit</Label>
+              <UnitSelect
+                value={unit}
+                onValueChange={setUnit}
+                exclude={product ? [product.unit] : []}
+                testId="select-conversion-unit"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="conversion-factor" className="text-xs">
+                {product?.unit} per {unit || "unit"}
+              </Label>
+              <Input
+                id="conversion-factor"
+                type="number"
+                min={2}
+                step={1}
+                value={factor}
+                onChange={(e) => setFactor(e.target.value)}
+                data-testid="input-conversion-factor"
+              />
+            </div>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!isValid || saveMutation.isPending}
+              data-testid="button-save-conversion"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-close-units">
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Gauge, Pencil, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useInventorySettings } from "@/hooks/useInventorySettings";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { stockLevelFields, stockLevelLabels, type StockLevelField } from "@shared/stock-levels";
+import type { StockLevelDefault, Warehouse } from "@shared/schema";
+
+type Scope = "category" | "warehouse";
+type LevelInputs = Record<StockLevelField, string>;
+
+const emptyLevels: LevelInputs = { minQuantity: "", reorderPoint: "", maxQuantity: "" };
+
+function handleError(toast: ReturnType<typeof useToast>["toast"], error: Error, fallback: string) {
+  if (isUnauthorizedError(error)) {
+    toast({
+      title: "Unauthorized",
+      description: "You are logged out. Logging in again...",
+      variant: "destructive",
+    });
+    setTimeout(() => {
+      window.location.href = "/api/login";
+    }, 500);
+    return;
+  }
+  toast({
+    title: "Error",
+    description: getApiErrorBody(error)?.message || fallback,
+    variant: "destructive",
+  });
+}
+
+export function StockLevelSettings() {
+  const { toast } = useToast();
+  const [scope, setScope] = useState<Scope>("category");
+  const [target, setTarget] = useState("");
+  const [levels, setLevels] = useState<LevelInputs>(emptyLevels);
+  const { lowStockThreshold } = useInventorySettings();
+
+  const { data: defaults, isLoading } = useQuery<StockLevelDefault[]>({
+    queryKey: ["/api/stock-levels"],
+  });
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+  const { data: categories } = useQuery<string[]>({
+    queryKey: ["/api/inventory/categories"],
+  });
+
+  const warehouseName = (id: string | null) => warehouses?.find((warehouse) => warehouse.id === id)?.name ?? "—";
+
+  const reset = () => {
+    setTarget("");
+    setLevels(emptyLevels);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-levels"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const parsed = Object.fromEntries(
+        stockLevelFields.map((field) => [field, levels[field] === "" ? null : Number(levels[field])])
+      );
+      await apiRequest("PUT", "/api/stock-levels", {
+        ...(scope === "category" ? { category: target } : { warehouseId: target }),
+        ...parsed,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      reset();
+      toast({ title: "Success", description: "Stock levels saved" });
+    },
+    onError: (error: Error) => handleError(toast, error, "Failed to save stock levels"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/stock-levels/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Stock level default removed" });
+    },
+    onError: (error: Error) => handleError(toast, error, "Failed to remove stock levels"),
+  });
+
+  const edit = (row: StockLevelDefault) => {
+    setScope(row.category ? "category" : "warehouse");
+    setTarget(row.category ?? row.warehouseId ?? "");
+    setLevels({
+      minQuantity: row.minQuantity?.toString() ?? "",
+      reorderPoint: row.reorderPoint?.toString() ?? "",
+      maxQuantity: row.maxQuantity?.toString() ?? "",
+    });
+  };
+
+  const levelsValid = stockLevelFields.every(
+    (field) => levels[field] === "" || (Number.isInteger(Number(levels[field])) && Number(levels[field]) >= 0)
+  );
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
+            <Gauge className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Stock Levels</CardTitle>
+            <CardDescription>
+              Defaults for items without their own levels. A category's default wins over a warehouse's; the
+              reorder point is the low stock threshold ({lowStockThreshold}) when neither sets one.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid items-end gap-3 md:grid-cols-6">
+          <div className="space-y-1">
+            <Label className="text-xs">Applies to</Label>
+            <Select
+              value={scope}
+              onValueChange={(value) => {
+                setScope(value as Scope);
+                setTarget("");
+              }}
+            >
+              <SelectTrigger data-testid="select-stock-level-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="category">Category</SelectItem>
+                <SelectItem value="warehouse">Warehouse</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{scope === "category" ? "Category" : "Warehouse"}</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger data-testid="select-stock-level-target">
+                <SelectValue placeholder="Select" />
+              </SelectTrigger>
+              <SelectContent>
+                {scope === "category"
+                  ? categories?.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))
+                  : warehouses?.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {stockLevelFields.map((field) => (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`stock-level-${field}`} className="text-xs">
+                {stockLevelLabels[field]}
+              </Label>
+              <Input
+                id={`stock-level-${field}`}
+                type="number"
+                min={0}
+                placeholder="Inherit"
+                value={levels[field]}
+                onChange={(e) => setLevels((current) => ({ ...current, [field]: e.target.value }))}
+                data-testid={`input-stock-level-${field}`}
+              />
+            </div>
+          ))}
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!target || !levelsValid || saveMutation.isPending}
+            data-testid="button-save-stock-level"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+
+        {isLoading ? null : !defaults || defaults.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No defaults yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies to</TableHead>
+                {stockLevelFields.map((field) => (
+                  <TableHead key={field} className="text-right">
+                    {stockLevelLabels[field]}
+                  </TableHead>
+                ))}
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {defaults.map((row) => (
+                <TableRow key={row.id} data-testid={`row-stock-level-${row.id}`}>
+                  <TableCell>
+                    {row.category ? `Category: ${row.category}` : `Warehouse: ${warehouseName(row.warehouseId)}`}
+                  </TableCell>
+                  {stockLevelFields.map((field) => (
+                    <TableCell key={field} className="text-right">
+                      {row[field] ?? "—"}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => edit(row)}
+                        data-testid={`button-edit-stock-level-${row.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(row.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-stock-level-${row.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  adjustmentReasons,
+  type AdjustmentReason,
+  type InventoryItem,
+  type InventoryLot,
+  type Product,
+  type ProductUnitConversion,
+  type Warehouse,
+  type WarehouseUtilization,
+} from "@shared/schema";
+import { capacityWarning, stockSpace } from "@shared/capacity";
+import { unitChoices } from "@shared/units";
+
+type MovementType = "receive" | "issue" | "adjust" | "transfer";
+
+export const adjustmentReasonLabels: Record<AdjustmentReason, string> = {
+  count_correction: "Count correction",
+  damaged: "Damaged",
+  expired: "Expired",
+  lost: "Lost",
+  found: "Found",
+  other: "Other",
+};
+
+// Select value for adjustments that follow the default FEFO lot order
+const FEFO_LOT = "fefo";
+
+const movementLabels: Record<MovementType, string> = {
+  receive: "Receive",
+  issue: "Issue",
+  adjust: "Adjust",
+  transfer: "Transfer",
+};
+
+export function StockMovementDialog({
+  item,
+  warehouses,
+  onOpenChange,
+}: {
+  item: InventoryItem | null;
+  warehouses: Warehouse[];
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [type, setType] = useState<MovementType>("receive");
+  const [quantity, setQuantity] = useState("");
+  const [unit, setUnit] = useState("");
+  const [reasonCode, setReasonCode] = useState<AdjustmentReason>("count_correction");
+  const [toWarehouseId, setToWarehouseId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lotNumber, setLotNumber] = useState("");
+  const [expirationDate, setExpirationDate] = useState("");
+  const [unitCost, setUnitCost] = useState("");
+  const [lotId, setLotId] = useState(FEFO_LOT);
+
+  useEffect(() => {
+    setType("receive");
+    setQuantity("");
+    setUnit(item?.unit ?? "");
+    setReasonCode("count_correction");
+    setToWarehouseId("");
+    setNotes("");
+    setLotNumber("");
+    setExpirationDate("");
+    setUnitCost("");
+    setLotId(FEFO_LOT);
+  }, [item?.id]);
+
+  const { data: lots } = useQuery<InventoryLot[]>({
+    queryKey: ["/api/inventory", item?.id, "lots"],
+    enabled: !!item && type === "adjust",
+  });
+
+  const { data: utilization } = useQuery<WarehouseUtilization[]>({
+    queryKey: ["/api/warehouses/utilization"],
+    enabled: !!item && type === "receive",
+  });
+
+  const { data: product } = useQuery<Product>({
+    queryKey: ["/api/products", item?.productId],
+    enabled: !!item && type === "receive",
+  });
+
+  const { data: conversions } = useQuery<ProductUnitConversion[]>({
+    queryKey: ["/api/products", item?.productId, "units"],
+    enabled: !!item,
+  });
+
+  const choices = item ? unitChoices(item.unit, conversions ?? []) : [];
+  const factor = choices.find((choice) => choice.unit === unit)?.factor ?? 1;
+  const amount = Number(quantity);
+  // Stock is kept in the item's unit
+  const baseAmount = amount * factor;
+  const delta = type === "receive" || type === "adjust" ? baseAmount : -baseAmount;
+  const resulting = item ? item.quantity + (Number.isFinite(delta) ? delta : 0) : 0;
+  const isValid =
+    quantity.trim() !== "" &&
+    Number.isInteger(amount) &&
+    (type === "adjust" ? amount !== 0 : amount > 0) &&
+    resulting >= 0 &&
+    (type !== "receive" || unitCost === "" || Number(unitCost) >= 0) &&
+    (type !== "transfer" || !!toWarehouseId);
+
+  const moveMutation = useMutation({
+    mutationFn: async () => {
+      const entered = unit && unit !== item!.unit ? { unit } : {};
+      const fields =
+        type === "adjust"
+          ? {
+              quantityChange: amount,
+              reasonCode,
+              lotId: lotId === FEFO_LOT ? undefined : lotId,
+              notes: notes || undefined,
+            }
+          : type === "transfer"
+            ? { toWarehouseId, quantity: amount, notes: notes || undefined }
+            : type === "receive"
+              ? {
+                  quantity: amount,
+                  lotNumber: lotNumber.trim() || undefined,
+                  expirationDate: expirationDate ? new Date(`${expirationDate}T00:00:00`).toISOString() : undefined,
+                  unitCost: unitCost === "" ? undefined : Number(unitCost),
+                  notes: notes || undefined,
+                }
+              : { quantity: amount, notes: notes || undefined };
+      await apiRequest("POST", `/api/inventory/${item!.id}/${type}`, { ...fields, ...entered });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: `${movementLabels[type]} recorded for ${item?.name}`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorBody(error)?.message || "Failed to record stock movement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const otherWarehouses = warehouses.filter((warehouse) => warehouse.id !== item?.warehouseId);
+  const warehouse = warehouses.find((warehouse) => warehouse.id === item?.warehouseId);
+  const usage = utilization?.find((entry) => entry.warehouseId === item?.warehouseId);
+  const overCapacity =
+    type === "receive" && warehouse && usage && amount > 0
+      ? capacityWarning(warehouse, usage, stockSpace(warehouse.capacityMode, baseAmount, product?.unitVolume) ?? 0)
+      : null;
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-stock-movement">
+        <DialogHeader>
+          <DialogTitle>Move Stock</DialogTitle>
+          <DialogDescription>
+            {item?.name} ({item?.sku}) — {item?.quantity} {item?.unit} on hand
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={type} onValueChange={(value) => setType(value as MovementType)}>
+          <TabsList className="grid w-full grid-cols-4">
+            {(Object.keys(movementLabels) as MovementType[]).map((movement) => (
+              <TabsTrigger key={movement} value={movement} data-testid={`tab-movement-${movement}`}>
+                {movementLabels[movement]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="space-y-4">
+          {type === "transfer" && (
+            <div className="space-y-2">
+              <Label>Destination warehouse</Label>
+              <Select value={toWarehouseId} onValueChange={setToWarehouseId}>
+                <SelectTrigger data-testid="select-movement-warehouse">
+                  <SelectValue placeholder="Select warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherWarehouses.map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="movement-quantity">
+                {type === "adjust" ? "Quantity change (+/-)" : "Quantity"}
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id="movement-quantity"
+                  type="number"
+                  step={1}
+                  min={type === "adjust" ? undefined : 1}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  data-testid="input-movement-quantity"
+                />
+                {choices.length > 1 && (
+                  <Select value={unit} onValueChange={setUnit}>
+                    <SelectTrigger className="w-28" data-testid="select-movement-unit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {choices.map((choice) => (
+                        <SelectItem key={choice.unit} value={choice.unit}>
+                          {choice.unit}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              {factor > 1 && quantity.trim() !== "" && Number.isInteger(amount) && (
+                <p className="text-xs text-muted-foreground" data-testid="text-movement-base-quantity">
+                  = {Math.abs(baseAmount)} {item?.unit}
+                </p>
+              )}
+            </div>
+            {type === "adjust" && (
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as AdjustmentReason)}>
+                  <SelectTrigger data-testid="select-movement-reason">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {adjustmentReasons.map((reason) => (
+                      <SelectItem key={reason} value={reason}>
+                        {adjustmentReasonLabels[reason]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {type === "receive" && (
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="movement-lot-number">Lot number</Label>
+                <Input
+                  id="movement-lot-number"
+                  value={lotNumber}
+                  placeholder="Optional"
+                  onChange={(e) => setLotNumber(e.target.value)}
+                  data-testid="input-movement-lot-number"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="movement-expiration">Expiration date</Label>
+                <Input
+                  id="movement-expiration"
+                  type="date"
+                  value={expirationDate}
+                  onChange={(e) => setExpirationDate(e.target.value)}
+                  data-testid="input-movement-expiration"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="movement-unit-cost">Cost per {unit || item?.unit}</Label>
+                <Input
+                  id="movement-unit-cost"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={unitCost}
+                  placeholder="Optional"
+                  onChange={(e) => setUnitCost(e.target.value)}
+                  data-testid="input-movement-unit-cost"
+                />
+              </div>
+            </div>
+          )}
+
+          {type === "adjust" && (
+            <div className="space-y-2">
+              <Label>Lot</Label>
+              <Select value={lotId} onValueChange={setLotId}>
+                <SelectTrigger data-testid="select-movement-lot">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FEFO_LOT}>First expiring (FEFO)</SelectItem>
+                  {lots?.map((lot) => (
+                    <SelectItem key={lot.id} value={lot.id}>
+                      {lot.lotNumber ?? "Unassigned"}
+                      {lot.expirationDate ? ` · exp. ${new Date(lot.expirationDate).toLocaleDateString()}` : ""}
+                      {` · ${lot.quantity} ${item?.unit}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {(type === "issue" || type === "transfer") && (
+            <p className="text-sm text-muted-foreground">
+              Stock is taken from the earliest-expiring lots first.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="movement-notes">Notes</Label>
+            <Textarea
+              id="movement-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              data-testid="input-movement-notes"
+            />
+          </div>
+
+          {item && quantity.trim() !== "" && (
+            <p className={`text-sm ${resulting < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+              {resulting < 0
+                ? "Not enough stock on hand"
+                : `New quantity: ${resulting} ${item.unit}`}
+            </p>
+          )}
+
+          {overCapacity && (
+            <Alert data-testid="alert-movement-capacity">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{overCapacity}. The receipt can still be recorded.</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-movement">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => moveMutation.mutate()}
+            disabled={!isValid || moveMutation.isPending}
+            data-testid="button-submit-movement"
+          >
+            {moveMutation.isPending ? "Saving..." : movementLabels[type]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
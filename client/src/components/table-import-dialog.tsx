@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertTriangle, CheckCircle2, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table as DataTable,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { Table } from "@shared/schema";
+
+interface ImportPreview {
+  encoding: string;
+  delimiter: string;
+  headers: string[];
+  sampleRows: string[][];
+  totalRows: number;
+  suggestedMapping: Record<string, string | null>;
+}
+
+interface ImportReport {
+  validCount: number;
+  errorCount: number;
+  errors?: Array<{
+    line: number;
+    formErrors: string[];
+    fieldErrors: Record<string, string[] | undefined>;
+  }>;
+}
+
+const SKIP = "__skip__";
+
+const delimiterLabels: Record<string, string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+  "|": "Pipe",
+};
+
+async function postCsv(url: string, file: File, fields: Record<string, string> = {}) {
+  const formData = new FormData();
+  formData.append("file", file);
+  for (const [key, value] of Object.entries(fields)) {
+    formData.append(key, value);
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  const body = await response.json().catch(() => ({}));
+
+  // Row-level validation failures come back as a 400 with an error list;
+  // those are a report to show, not a failed request.
+  if (!response.ok && !Array.isArray(body.errors)) {
+    throw new Error(body.message || "Import failed");
+  }
+  return body;
+}
+
+export function TableImportDialog({
+  table,
+  open,
+  onOpenChange,
+}: {
+  table: Table;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const columns = table.columnsMetadata?.columns ?? [];
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setMapping({});
+    setReport(null);
+  };
+
+  const close = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  const importFields = (dryRun: boolean) => ({
+    mapping: JSON.stringify(mapping),
+    delimiter: preview?.delimiter ?? ",",
+    dryRun: String(dryRun),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (selected: File) =>
+      (await postCsv(`/api/tables/${table.id}/import/preview`, selected)) as ImportPreview,
+    onSuccess: (result) => {
+      setPreview(result);
+      setMapping(result.suggestedMapping);
+      setReport(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to read CSV file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const validateMutation = useMutation({
+    mutationFn: async () =>
+      (await postCsv(`/api/tables/${table.id}/import`, file!, importFields(true))) as ImportReport,
+    onSuccess: setReport,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to validate CSV file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => postCsv(`/api/tables/${table.id}/import`, file!, importFields(false)),
+    onSuccess: (result) => {
+      if (Array.isArray(result.errors)) {
+        setReport(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/tables", table.id] });
+      toast({
+        title: "Success",
+        description: `Imported ${result.imported} row(s)`,
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import CSV file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setFile(selected);
+    previewMutation.mutate(selected);
+  };
+
+  const columnName = (columnId: string) =>
+    columns.find((column) => column.id === columnId)?.name ?? columnId;
+
+  const hasMappedColumn = Object.values(mapping).some(Boolean);
+  const isBusy = previewMutation.isPending || validateMutation.isPending || importMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-3xl" data-testid="dialog-import-csv">
+        <DialogHeader>
+          <DialogTitle>Import CSV into {table.name}</DialogTitle>
+          <DialogDescription>
+            Rows are validated against the table's columns before anything is saved
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="csv-file">CSV file</Label>
+            <Input
+              id="csv-file"
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv"
+              onChange={handleFileSelect}
+              disabled={isBusy}
+              data-testid="input-csv-file"
+            />
+          </div>
+
+          {previewMutation.isPending && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading file...
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">Encoding: {preview.encoding.toUpperCase()}</Badge>
+                <Badge variant="outline">
+                  Delimiter: {delimiterLabels[preview.delimiter] ?? preview.delimiter}
+                </Badge>
+                <Badge variant="secondary">{preview.totalRows} row(s)</Badge>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Column mapping</Label>
+                <div className="grid gap-2 md:grid-cols-2">
+                  {preview.headers.map((header, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="w-1/2 truncate text-sm" dir="auto" title={header}>
+                        {header || `Column ${index + 1}`}
+                      </span>
+                      <Select
+                        value={mapping[String(index)] ?? SKIP}
+                        onValueChange={(value) => {
+                          setMapping({ ...mapping, [String(index)]: value === SKIP ? null : value });
+                          setReport(null);
+                        }}
+                      >
+                        <SelectTrigger className="w-1/2" data-testid={`select-mapping-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={SKIP}>Skip</SelectItem>
+                          {columns.map((column) => (
+                            <SelectItem key={column.id} value={column.id}>
+                              {column.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <ScrollArea className="max-h-56 rounded-md border">
+                <DataTable>
+                  <TableHeader>
+                    <TableRow>
+                      {preview.headers.map((header, index) => (
+                        <TableHead key={index} dir="auto">
+                          {header}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.sampleRows.map((record, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {preview.headers.map((_, index) => (
+                          <TableCell key={index} dir="auto" className="whitespace-nowrap">
+                            {record[index]}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </DataTable>
+              </ScrollArea>
+            </>
+          )}
+
+          {report && report.errorCount === 0 && (
+            <Alert>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription data-testid="text-import-valid">
+                All {report.validCount} row(s) are valid and ready to import.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {report && report.errorCount > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <p className="font-medium" data-testid="text-import-errors">
+                  {report.errorCount} row(s) failed validation; nothing was imported.
+                </p>
+                <ScrollArea className="mt-2 max-h-40">
+                  <ul className="space-y-1 text-xs">
+                    {report.errors?.map((error) => (
+                      <li key={error.line}>
+                        Line {error.line}:{" "}
+                        {[
+                          ...error.formErrors,
+                          ...Object.entries(error.fieldErrors).map(
+                            ([columnId, messages]) => `${columnName(columnId)}: ${(messages ?? []).join(", ")}`
+                          ),
+                        ].join("; ")}
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close} data-testid="button-cancel-import">
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => validateMutation.mutate()}
+            disabled={!preview || !hasMappedColumn || isBusy}
+            data-testid="button-validate-import"
+          >
+            {validateMutation.isPending ? "Validating..." : "Validate"}
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!report || report.errorCount > 0 || isBusy}
+            data-testid="button-confirm-import"
+          >
+            {importMutation.isPending ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
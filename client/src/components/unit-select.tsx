@@ -0,0 +1,48 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { UnitOfMeasure } from "@shared/schema";
+
+export function UnitSelect({
+  value,
+  onValueChange,
+  exclude = [],
+  placeholder = "Select unit",
+  testId,
+}: {
+  value: string | undefined;
+  onValueChange: (unit: string) => void;
+  // Codes not offered, e.g. a product's base unit when adding a conversion
+  exclude?: string[];
+  placeholder?: string;
+  testId?: string;
+}) {
+  const { data: units } = useQuery<UnitOfMeasure[]>({
+    queryKey: ["/api/units"],
+  });
+
+  const options = (units ?? []).filter((unit) => !exclude.includes(unit.code));
+  // Records from before the registry may use a unit it doesn't have
+  const unregistered = value && units && !units.some((unit) => unit.code === value) ? value : null;
+
+  return (
+    <Select value={value || undefined} onValueChange={onValueChange}>
+      <SelectTrigger data-testid={testId}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {unregistered && <SelectItem value={unregistered}>{unregistered}</SelectItem>}
+        {options.map((unit) => (
+          <SelectItem key={unit.id} value={unit.code}>
+            {unit.code === unit.name ? unit.code : `${unit.code} · ${unit.name}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
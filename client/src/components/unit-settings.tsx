@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Pencil, Ruler, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { UnitOfMeasure } from "@shared/schema";
+
+function handleError(toast: ReturnType<typeof useToast>["toast"], error: Error, fallback: string) {
+  if (isUnauthorizedError(error)) {
+    toast({
+      title: "Unauthorized",
+      description: "You are logged out. Logging in again...",
+      variant: "destructive",
+    });
+    setTimeout(() => {
+      window.location.href = "/api/login";
+    }, 500);
+    return;
+  }
+  toast({
+    title: "Error",
+    description: getApiErrorBody(error)?.message || fallback,
+    variant: "destructive",
+  });
+}
+
+export function UnitSettings() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<UnitOfMeasure | null>(null);
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+
+  const { data: units, isLoading } = useQuery<UnitOfMeasure[]>({
+    queryKey: ["/api/units"],
+  });
+
+  const reset = () => {
+    setEditing(null);
+    setCode("");
+    setName("");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (editing) {
+        await apiRequest("PATCH", `/api/units/${editing.id}`, { name });
+      } else {
+        await apiRequest("POST", "/api/units", { code, name });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/units"] });
+      toast({ title: "Success", description: editing ? "Unit updated" : "Unit added" });
+      reset();
+    },
+    onError: (error: Error) => handleError(toast, error, "Failed to save unit"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/units/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/units"] });
+      toast({ title: "Success", description: "Unit removed" });
+    },
+    onError: (error: Error) => handleError(toast, error, "Failed to remove unit"),
+  });
+
+  const edit = (unit: UnitOfMeasure) => {
+    setEditing(unit);
+    setCode(unit.code);
+    setName(unit.name);
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
+            <Ruler className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Units of Measure</CardTitle>
+            <CardDescription>
+              Units products can be stocked in. Each product's conversions, such as 1 box = 12 pcs, are set on the
+              Products page.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid items-end gap-3 md:grid-cols-4">
+          <div className="space-y-1">
+            <Label htmlFor="unit-code" className="text-xs">
+              Code
+            </Label>
+            <Input
+              id="unit-code"
+              value={code}
+              placeholder="box"
+              disabled={!!editing}
+              onChange={(e) => setCode(e.target.value)}
+              data-testid="input-unit-code"
+            />
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="unit-name" className="text-xs">
+              Name
+            </Label>
+            <Input
+              id="unit-name"
+              value={name}
+              placeholder="Box"
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-unit-name"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              className="flex-1"
+              onClick={() => saveMutation.mutate()}
+              disabled={!code.trim() || !name.trim() || saveMutation.isPending}
+              data-testid="button-save-unit"
+            >
+              {saveMutation.isPending ? "Saving..." : editing ? "Save" : "Add"}
+            </Button>
+            {editing && (
+              <Button variant="outline" onClick={reset} data-testid="button-cancel-unit">
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isLoading ? null : !units || units.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No units yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {units.map((unit) => (
+                <TableRow key={unit.id} data-testid={`row-unit-${unit.id}`}>
+                  <TableCell className="font-mono">{unit.code}</TableCell>
+                  <TableCell>{unit.name}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => edit(unit)}
+                        data-testid={`button-edit-unit-${unit.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(unit.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-unit-${unit.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
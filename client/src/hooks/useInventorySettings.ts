@@ -0,0 +1,10 @@
+import { useQuery } from "@tanstack/react-query";
+import { defaultSystemSettings, inventorySettings, type InventorySettings } from "@shared/system-settings";
+
+// Falls back to the built-in defaults until the saved settings have loaded
+export function useInventorySettings(): InventorySettings {
+  const { data } = useQuery<InventorySettings>({
+    queryKey: ["/api/settings/inventory"],
+  });
+  return data ?? inventorySettings(defaultSystemSettings);
+}
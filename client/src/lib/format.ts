@@ -0,0 +1,11 @@
+import type { ValuationMethod } from "@shared/system-settings";
+
+// Costs carry no currency; they are shown with two decimals in the user's locale
+export function formatMoney(value: number): string {
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export const valuationMethodLabels: Record<ValuationMethod, string> = {
+  fifo: "FIFO (first in, first out)",
+  weighted_average: "Weighted average",
+};
@@ -7,6 +7,18 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Recovers the JSON body of a failed request from the error thrown by
+// throwIfResNotOk, e.g. `{ message, errors }` from a validation failure.
+export function getApiErrorBody(error: Error): Record<string, any> | null {
+  const match = error.message.match(/^\d{3}: ([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -1,18 +1,26 @@
 import { useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useInventorySettings } from "@/hooks/useInventorySettings";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { Package, Warehouse, AlertTriangle, TrendingUp, TrendingDown } from "lucide-react";
+import { Package, Warehouse, AlertTriangle, TrendingUp, TrendingDown, Coins, CalendarX } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { formatMoney } from "@/lib/format";
+import type { CapacityTrendPoint } from "@shared/schema";
 
 interface DashboardStats {
   totalWarehouses: number;
   totalInventoryItems: number;
   lowStockCount: number;
+  // Lots in stock, not items
+  expiredCount: number;
   expiringCount: number;
+  totalStockValue: number;
   recentActivity: {
     type: string;
     description: string;
@@ -20,9 +28,14 @@ interface DashboardStats {
   }[];
 }
 
+const utilizationChartConfig = {
+  percent: { label: "Capacity used (%)", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
 export default function Dashboard() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { expiryWarningDays } = useInventorySettings();
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -42,6 +55,13 @@ export default function Dashboard() {
     enabled: isAuthenticated,
   });
 
+  const { data: utilizationTrend, isLoading: trendLoading } = useQuery<CapacityTrendPoint[]>({
+    queryKey: ["/api/warehouses/utilization", "trend?days=30"],
+    enabled: isAuthenticated,
+  });
+
+  const latestUtilization = utilizationTrend?.[utilizationTrend.length - 1];
+
   if (authLoading || !isAuthenticated) {
     return null;
   }
@@ -53,7 +73,7 @@ export default function Dashboard() {
         <p className="text-muted-foreground">Welcome back! Here's an overview of your warehouse operations.</p>
       </div>
 
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Warehouses</CardTitle>
@@ -92,6 +112,25 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Stock Value</CardTitle>
+            <Coins className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-8 w-20" />
+            ) : (
+              <>
+                <div className="text-3xl font-bold" data-testid="stat-stock-value">
+                  {formatMoney(stats?.totalStockValue || 0)}
+                </div>
+                <p className="text-xs text-muted-foreground">On hand, at cost</p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Low Stock Items</CardTitle>
@@ -124,23 +163,88 @@ export default function Dashboard() {
                 <div className="text-3xl font-bold text-destructive" data-testid="stat-expiring">
                   {stats?.expiringCount || 0}
                 </div>
-                <p className="text-xs text-muted-foreground">Within 30 days</p>
+                <p className="text-xs text-muted-foreground">Lots within {expiryWarningDays} days</p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Expired</CardTitle>
+            <CalendarX className="h-4 w-4 text-destructive" />
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-8 w-20" />
+            ) : (
+              <>
+                <div className="text-3xl font-bold text-destructive" data-testid="stat-expired">
+                  {stats?.expiredCount || 0}
+                </div>
+                <p className="text-xs text-muted-foreground">Lots past their expiry date</p>
               </>
             )}
           </CardContent>
         </Card>
       </div>
 
-      {!isLoading && ((stats?.lowStockCount || 0) > 0 || (stats?.expiringCount || 0) > 0) && (
+      {!isLoading &&
+        ((stats?.lowStockCount || 0) > 0 || (stats?.expiringCount || 0) > 0 || (stats?.expiredCount || 0) > 0) && (
         <Alert variant="destructive">
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription>
-            You have {stats?.lowStockCount || 0} low stock item(s) and {stats?.expiringCount || 0} item(s) expiring soon.
-            Please review your inventory.
+            You have {stats?.lowStockCount || 0} low stock item(s), {stats?.expiredCount || 0} expired lot(s) and{" "}
+            {stats?.expiringCount || 0} lot(s) expiring soon. Please review your inventory.
           </AlertDescription>
         </Alert>
       )}
 
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Warehouse Utilization</CardTitle>
+          {latestUtilization?.percent != null && (
+            <span className="text-sm text-muted-foreground" data-testid="stat-utilization">
+              {latestUtilization.percent}% of capacity in use
+            </span>
+          )}
+        </CardHeader>
+        <CardContent>
+          {trendLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : !latestUtilization || latestUtilization.capacity === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Set a capacity on your warehouses to track utilization</p>
+          ) : (
+            <ChartContainer
+              config={utilizationChartConfig}
+              className="aspect-auto h-48 w-full"
+              data-testid="chart-utilization-trend"
+            >
+              <LineChart data={utilizationTrend} margin={{ left: 0, right: 12, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={(value) => new Date(`${value}T00:00:00`).toLocaleDateString()}
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={32}
+                />
+                <YAxis tickLine={false} axisLine={false} width={40} unit="%" />
+                <ReferenceLine y={100} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(value) => new Date(`${value}T00:00:00`).toLocaleDateString()}
+                    />
+                  }
+                />
+                <Line dataKey="percent" type="monotone" stroke="var(--color-percent)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Recent Activity</CardTitle>
@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useInventorySettings } from "@/hooks/useInventorySettings";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, CalendarX, ShieldAlert, ShieldCheck, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ExpiryLot, Warehouse } from "@shared/schema";
+import type { ExpiryStatus } from "@shared/expiry";
+
+function formatDaysRemaining(days: number) {
+  if (days < 0) return `${-days} day(s) ago`;
+  if (days === 0) return "Today";
+  return `${days} day(s)`;
+}
+
+export default function Expiry() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { expiryWarningDays } = useInventorySettings();
+  const [warehouseId, setWarehouseId] = useState("all");
+  const [status, setStatus] = useState<ExpiryStatus | "all">("all");
+  // Empty means the configured warning window
+  const [days, setDays] = useState("");
+  const [writingOff, setWritingOff] = useState<ExpiryLot | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: isAuthenticated,
+  });
+
+  const daysValid = days === "" || (Number.isInteger(Number(days)) && Number(days) >= 0 && Number(days) <= 365);
+  const params = new URLSearchParams();
+  if (days !== "") params.set("days", days);
+  if (warehouseId !== "all") params.set("warehouseId", warehouseId);
+  const query = params.toString();
+
+  const { data: lots, isLoading } = useQuery<ExpiryLot[]>({
+    queryKey: ["/api/expiry", query],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/expiry?${query}`);
+      return res.json();
+    },
+    enabled: isAuthenticated && daysValid,
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorBody(error)?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/expiry"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  const quarantineMutation = useMutation({
+    mutationFn: async ({ lotId, quarantined }: { lotId: string; quarantined: boolean }) => {
+      await apiRequest("POST", `/api/lots/${lotId}/quarantine`, { quarantined });
+    },
+    onSuccess: (_, { quarantined }) => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: quarantined ? "Lot quarantined; it won't be issued" : "Lot released from quarantine",
+      });
+    },
+    onError: handleError("Failed to update quarantine"),
+  });
+
+  const writeOffMutation = useMutation({
+    mutationFn: async (lotId: string) => {
+      await apiRequest("POST", `/api/lots/${lotId}/write-off`, {});
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
+      setWritingOff(null);
+      toast({ title: "Success", description: "Lot written off as expired" });
+    },
+    onError: handleError("Failed to write off lot"),
+  });
+
+  const warehouseName = (id: string) => warehouses?.find((warehouse) => warehouse.id === id)?.name ?? "—";
+  const expiredCount = lots?.filter((entry) => entry.status === "expired").length ?? 0;
+  const expiringCount = lots?.filter((entry) => entry.status === "expiring").length ?? 0;
+  const shown = lots?.filter((entry) => status === "all" || entry.status === status);
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold">Expiry</h1>
+        <p className="text-muted-foreground">Lots in stock that have expired or expire soon, soonest first</p>
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 pt-6 md:grid-cols-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Warehouse</Label>
+            <Select value={warehouseId} onValueChange={setWarehouseId}>
+              <SelectTrigger data-testid="select-expiry-warehouse">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All warehouses</SelectItem>
+                {warehouses?.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as ExpiryStatus | "all")}>
+              <SelectTrigger data-testid="select-expiry-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Expired and expiring</SelectItem>
+                <SelectItem value="expired">Expired</SelectItem>
+                <SelectItem value="expiring">Expiring soon</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="expiry-days" className="text-xs">
+              Expiring within (days)
+            </Label>
+            <Input
+              id="expiry-days"
+              type="number"
+              min={0}
+              max={365}
+              placeholder={String(expiryWarningDays)}
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+              data-testid="input-expiry-days"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Expired Lots</CardTitle>
+            <CalendarX className="h-4 w-4 text-destructive" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-destructive" data-testid="text-expired-lots">{expiredCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Expiring Soon</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-expiring-lots">{expiringCount}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {!daysValid ? (
+            <div className="py-16 text-center text-sm text-muted-foreground">
+              The window must be a whole number of days up to 365
+            </div>
+          ) : isLoading ? (
+            <div className="space-y-2 p-6">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !shown || shown.length === 0 ? (
+            <div className="py-16 text-center text-sm text-muted-foreground">No lots expired or expiring</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Days Remaining</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shown.map((entry) => {
+                  const { lot, item } = entry;
+                  return (
+                    <TableRow key={lot.id} data-testid={`row-expiry-${lot.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{item.name}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{item.sku}</div>
+                      </TableCell>
+                      <TableCell className={lot.lotNumber ? "font-mono text-xs" : "text-xs text-muted-foreground"}>
+                        {lot.lotNumber ?? "Unassigned"}
+                      </TableCell>
+                      <TableCell>{warehouseName(item.warehouseId)}</TableCell>
+                      <TableCell>{new Date(lot.expirationDate!).toLocaleDateString()}</TableCell>
+                      <TableCell className={entry.status === "expired" ? "text-destructive" : ""}>
+                        {formatDaysRemaining(entry.daysRemaining)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {lot.quantity} {item.unit}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          {entry.status === "expired" ? (
+                            <Badge variant="destructive" className="text-xs">
+                              Expired
+                            </Badge>
+                          ) : (
+                            <Badge variant="secondary" className="text-xs">
+                              Expiring
+                            </Badge>
+                          )}
+                          {lot.quarantinedAt && (
+                            <Badge variant="outline" className="text-xs">
+                              Quarantined
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => quarantineMutation.mutate({ lotId: lot.id, quarantined: !lot.quarantinedAt })}
+                            disabled={quarantineMutation.isPending}
+                            data-testid={`button-quarantine-${lot.id}`}
+                          >
+                            {lot.quarantinedAt ? (
+                              <>
+                                <ShieldCheck className="mr-2 h-4 w-4" />
+                                Release
+                              </>
+                            ) : (
+                              <>
+                                <ShieldAlert className="mr-2 h-4 w-4" />
+                                Quarantine
+                              </>
+                            )}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setWritingOff(entry)}
+                            data-testid={`button-write-off-${lot.id}`}
+                          >
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Write off
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!writingOff} onOpenChange={(open) => !open && setWritingOff(null)}>
+        <DialogContent data-testid="dialog-write-off-lot">
+          <DialogHeader>
+            <DialogTitle>Write Off Lot</DialogTitle>
+            <DialogDescription>
+              Remove all {writingOff?.lot.quantity} {writingOff?.item.unit} of "{writingOff?.item.name}"
+              {writingOff?.lot.lotNumber ? ` in lot ${writingOff.lot.lotNumber}` : ""} from stock as expired? The
+              adjustment is recorded in the item's history.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWritingOff(null)} data-testid="button-cancel-write-off">
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => writingOff && writeOffMutation.mutate(writingOff.lot.id)}
+              disabled={writeOffMutation.isPending}
+              data-testid="button-confirm-write-off"
+            >
+              {writeOffMutation.isPending ? "Writing off..." : "Write off"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,16 +1,18 @@
 import { useEffect, useState, useCallback } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useInventorySettings } from "@/hooks/useInventorySettings";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Upload, Image as ImageIcon, Loader2, CheckCircle2, XCircle } from "lucide-react";
+import { Upload, Image as ImageIcon, Loader2, CheckCircle2, XCircle, RotateCcw } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import type { ImageProcessingState } from "@shared/schema";
 
 interface ExtractionResult {
   productName?: string;
@@ -22,12 +24,20 @@ interface ExtractionResult {
   confidence?: number;
 }
 
+// How often the page checks on an image while it is queued or processing
+const STATUS_POLL_MS = 2000;
+
+function isFinished(state?: ImageProcessingState) {
+  return state?.processingStatus === "completed" || state?.processingStatus === "failed";
+}
+
 export default function ImageUpload() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { maxImageUploadMb } = useInventorySettings();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [extractedData, setExtractedData] = useState<ExtractionResult | null>(null);
+  const [imageId, setImageId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -42,8 +52,57 @@ export default function ImageUpload() {
     }
   }, [isAuthenticated, authLoading, toast]);
 
+  // Processing runs in the background; poll until it finishes
+  const { data: job } = useQuery<ImageProcessingState>({
+    queryKey: ["/api/images", imageId],
+    enabled: isAuthenticated && !!imageId,
+    refetchInterval: (query) => (isFinished(query.state.data) ? false : STATUS_POLL_MS),
+  });
+  const status = job?.processingStatus;
+  const extractedData = status === "completed" ? (job!.extractedData as ExtractionResult) : null;
+  const isProcessing = status === "pending" || status === "processing";
+
+  useEffect(() => {
+    if (status === "completed") {
+      toast({
+        title: "Success",
+        description: "Image processed successfully",
+      });
+    } else if (status === "failed") {
+      toast({
+        title: "Error",
+        description: "Failed to process image",
+        variant: "destructive",
+      });
+    }
+  }, [status, toast]);
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorBody(error)?.message || error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const showJob = (state: ImageProcessingState) => {
+    queryClient.setQueryData(["/api/images", state.id], state);
+    setImageId(state.id);
+  };
+
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async (file: File): Promise<ImageProcessingState> => {
       const formData = new FormData();
       formData.append("image", file);
 
@@ -60,31 +119,17 @@ export default function ImageUpload() {
 
       return response.json();
     },
-    onSuccess: (data) => {
-      setExtractedData(data.extractedData || {});
-      toast({
-        title: "Success",
-        description: "Image processed successfully",
-      });
-    },
-    onError: (error: Error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-      toast({
-        title: "Error",
-        description: error.message || "Failed to process image",
-        variant: "destructive",
-      });
+    onSuccess: showJob,
+    onError: handleError("Failed to upload image"),
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string): Promise<ImageProcessingState> => {
+      const res = await apiRequest("POST", `/api/images/${id}/retry`);
+      return res.json();
     },
+    onSuccess: showJob,
+    onError: handleError("Failed to retry processing"),
   });
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -98,9 +143,17 @@ export default function ImageUpload() {
         });
         return;
       }
+      if (file.size > maxImageUploadMb * 1024 * 1024) {
+        toast({
+          title: "File too large",
+          description: `Images can be up to ${maxImageUploadMb}MB`,
+          variant: "destructive",
+        });
+        return;
+      }
 
       setSelectedFile(file);
-      setExtractedData(null);
+      setImageId(null);
 
       const reader = new FileReader();
       reader.onloadend = () => {
@@ -108,7 +161,7 @@ export default function ImageUpload() {
       };
       reader.readAsDataURL(file);
     }
-  }, [toast]);
+  }, [toast, maxImageUploadMb]);
 
   const handleUpload = () => {
     if (selectedFile) {
@@ -119,7 +172,7 @@ export default function ImageUpload() {
   const handleReset = () => {
     setSelectedFile(null);
     setPreviewUrl(null);
-    setExtractedData(null);
+    setImageId(null);
   };
 
   if (authLoading || !isAuthenticated) {
@@ -147,7 +200,7 @@ export default function ImageUpload() {
               >
                 <ImageIcon className="h-12 w-12 text-muted-foreground" />
                 <p className="mt-4 text-sm font-medium">Click to upload image</p>
-                <p className="mt-2 text-xs text-muted-foreground">PNG, JPG, or JPEG up to 10MB</p>
+                <p className="mt-2 text-xs text-muted-foreground">PNG, JPG, or JPEG up to {maxImageUploadMb}MB</p>
                 <input
                   id="image-upload"
                   type="file"
@@ -170,11 +223,11 @@ export default function ImageUpload() {
                 <div className="flex gap-2">
                   <Button
                     onClick={handleUpload}
-                    disabled={uploadMutation.isPending}
+                    disabled={uploadMutation.isPending || isProcessing}
                     className="flex-1"
                     data-testid="button-process-image"
                   >
-                    {uploadMutation.isPending ? (
+                    {uploadMutation.isPending || isProcessing ? (
                       <>
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                         Processing...
@@ -205,10 +258,40 @@ export default function ImageUpload() {
             <CardTitle>Extracted Data</CardTitle>
           </CardHeader>
           <CardContent>
-            {uploadMutation.isPending ? (
-              <div className="flex flex-col items-center justify-center py-12">
+            {uploadMutation.isPending || isProcessing ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center" data-testid="status-processing">
                 <Loader2 className="h-12 w-12 animate-spin text-primary" />
-                <p className="mt-4 text-sm text-muted-foreground">Analyzing image with AI...</p>
+                <p className="mt-4 text-sm text-muted-foreground">
+                  {uploadMutation.isPending
+                    ? "Uploading image..."
+                    : status === "pending" && !job?.processingError
+                      ? "Queued for AI processing..."
+                      : "Analyzing image with AI..."}
+                </p>
+                {job?.processingError && (
+                  <p className="mt-2 max-w-sm text-xs text-muted-foreground" data-testid="text-processing-retry">
+                    Attempt {job.attempts} failed ({job.processingError}). Retrying automatically.
+                  </p>
+                )}
+              </div>
+            ) : status === "failed" ? (
+              <div className="space-y-4">
+                <Alert variant="destructive">
+                  <XCircle className="h-4 w-4" />
+                  <AlertDescription data-testid="text-processing-error">
+                    Processing failed after {job!.attempts} attempt(s): {job!.processingError || "Unknown error"}
+                  </AlertDescription>
+                </Alert>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => retryMutation.mutate(job!.id)}
+                  disabled={retryMutation.isPending}
+                  data-testid="button-retry-processing"
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  {retryMutation.isPending ? "Retrying..." : "Retry"}
+                </Button>
               </div>
             ) : extractedData ? (
               <div className="space-y-4">
@@ -1,14 +1,34 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useLocation, useSearch } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Search, Package, AlertTriangle, Edit, Trash2 } from "lucide-react";
-import type { InventoryItem, Warehouse } from "@shared/schema";
+import {
+  Plus,
+  Search,
+  Package,
+  AlertTriangle,
+  Edit,
+  Trash2,
+  Upload,
+  Download,
+  SlidersHorizontal,
+  ArrowUp,
+  ArrowDown,
+  ChevronLeft,
+  ChevronRight,
+  ArrowLeftRight,
+  History,
+  Printer,
+} from "lucide-react";
+import type { InventoryItem, InventorySortField, StockLevelDefault, Warehouse } from "@shared/schema";
+import { resolveStockLevels, stockLevelFields, stockLevelLabels, stockStatus } from "@shared/stock-levels";
+import { expiryStatus } from "@shared/expiry";
 import {
   Dialog,
   DialogContent,
@@ -29,7 +49,7 @@ import {
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertInventoryItemSchema, type InsertInventoryItem } from "@shared/schema";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import {
   Table,
@@ -40,14 +60,62 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { InventoryImportDialog } from "@/components/inventory-import-dialog";
+import { StockMovementDialog } from "@/components/stock-movement-dialog";
+import { ItemHistorySheet } from "@/components/item-history-sheet";
+import { LotBreakdown } from "@/components/lot-breakdown";
+import { LabelPrintDialog } from "@/components/label-print-dialog";
+import { useInventorySettings } from "@/hooks/useInventorySettings";
+import { UnitSelect } from "@/components/unit-select";
+
+interface InventoryPage {
+  items: InventoryItem[];
+  total: number;
+  page: number;
+  limit: number;
+  nextCursor: string | null;
+}
+
+const PAGE_SIZE = 50;
+
+// URL parameters that narrow the result set; shared by the list and export
+const filterKeys = [
+  "warehouseId",
+  "category",
+  "lowStock",
+  "expiring",
+  "expired",
+  "minQuantity",
+  "maxQuantity",
+  "expiresFrom",
+  "expiresTo",
+  "q",
+] as const;
 
 export default function Inventory() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
-  const [searchQuery, setSearchQuery] = useState("");
+  const [location, setLocation] = useLocation();
+  const search = useSearch();
+  const params = useMemo(() => new URLSearchParams(search), [search]);
+  const [searchInput, setSearchInput] = useState(params.get("q") ?? "");
   const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
   const [deletingItem, setDeletingItem] = useState<InventoryItem | null>(null);
+  const [movingItem, setMovingItem] = useState<InventoryItem | null>(null);
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+  // Kept across pages so labels can be printed for items on several of them
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLabelsOpen, setIsLabelsOpen] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -62,8 +130,87 @@ export default function Inventory() {
     }
   }, [isAuthenticated, authLoading, toast]);
 
-  const { data: items, isLoading } = useQuery<InventoryItem[]>({
-    queryKey: ["/api/inventory"],
+  // Filters, sorting and paging live in the URL so views can be shared and
+  // survive a reload. Changing anything but the page returns to page 1.
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(search);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null || value === "") next.delete(key);
+      else next.set(key, value);
+    }
+    if (!("page" in changes)) next.delete("page");
+    const query = next.toString();
+    setLocation(query ? `${location}?${query}` : location, { replace: true });
+  };
+
+  const urlQuery = params.get("q") ?? "";
+  useEffect(() => {
+    setSearchInput((current) => (current.trim() === urlQuery ? current : urlQuery));
+  }, [urlQuery]);
+
+  useEffect(() => {
+    if (searchInput.trim() === urlQuery) return;
+    const timeout = setTimeout(() => updateParams({ q: searchInput.trim() }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput, urlQuery]);
+
+  const filterParams = new URLSearchParams();
+  for (const key of filterKeys) {
+    const value = params.get(key);
+    if (value) filterParams.set(key, value);
+  }
+  const filterQuery = filterParams.toString();
+  const hasFilters = filterQuery !== "";
+
+  const sort = (params.get("sort") as InventorySortField | null) ?? "name";
+  const order = params.get("order") === "desc" ? "desc" : "asc";
+  const page = Math.max(1, Number(params.get("page")) || 1);
+
+  const listParams = new URLSearchParams(filterParams);
+  listParams.set("sort", sort);
+  listParams.set("order", order);
+  listParams.set("page", String(page));
+  listParams.set("limit", String(PAGE_SIZE));
+  const listQuery = listParams.toString();
+
+  const { data: inventoryPage, isLoading } = useQuery<InventoryPage>({
+    queryKey: ["/api/inventory", listQuery],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/inventory?${listQuery}`);
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
+    enabled: isAuthenticated,
+  });
+
+  const items = inventoryPage?.items;
+  const total = inventoryPage?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const toggleSort = (field: InventorySortField) => {
+    updateParams({
+      sort: field,
+      order: sort === field && order === "asc" ? "desc" : "asc",
+    });
+  };
+
+  const sortHeader = (field: InventorySortField, label: string) => (
+    <TableHead>
+      <button
+        type="button"
+        className="flex items-center gap-1 hover:text-foreground"
+        onClick={() => toggleSort(field)}
+        data-testid={`button-sort-${field}`}
+      >
+        {label}
+        {sort === field &&
+          (order === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  );
+
+  const { data: categories } = useQuery<string[]>({
+    queryKey: ["/api/inventory", "categories"],
     enabled: isAuthenticated,
   });
 
@@ -72,6 +219,12 @@ export default function Inventory() {
     enabled: isAuthenticated,
   });
 
+  const { data: levelDefaults = [] } = useQuery<StockLevelDefault[]>({
+    queryKey: ["/api/stock-levels"],
+    enabled: isAuthenticated,
+  });
+  const { lowStockThreshold, expiryWarningDays, defaultUnit } = useInventorySettings();
+
   const form = useForm<InsertInventoryItem>({
     resolver: zodResolver(insertInventoryItemSchema),
     defaultValues: {
@@ -84,15 +237,32 @@ export default function Inventory() {
       lotNumber: "",
       unitPrice: "0",
       description: "",
+      minQuantity: null,
+      reorderPoint: null,
+      maxQuantity: null,
     },
   });
 
+  // What the item gets from its category or warehouse when a level is left empty
+  const inheritedLevels = resolveStockLevels(
+    {
+      category: form.watch("category") || null,
+      warehouseId: form.watch("warehouseId"),
+      minQuantity: null,
+      reorderPoint: null,
+      maxQuantity: null,
+    },
+    levelDefaults,
+    lowStockThreshold
+  );
+
   const createMutation = useMutation({
     mutationFn: async (data: InsertInventoryItem) => {
       await apiRequest("POST", "/api/inventory", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       setIsCreateOpen(false);
       form.reset();
@@ -122,11 +292,12 @@ export default function Inventory() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: InsertInventoryItem }) => {
+    mutationFn: async ({ id, data: { quantity, ...data } }: { id: string; data: InsertInventoryItem }) => {
       await apiRequest("PATCH", `/api/inventory/${id}`, data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       setEditingItem(null);
       form.reset();
@@ -161,7 +332,9 @@ export default function Inventory() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setSelectedIds((ids) => ids.filter((id) => id !== deletingItem?.id));
       setDeletingItem(null);
       toast({
         title: "Success",
@@ -203,32 +376,19 @@ export default function Inventory() {
       sku: item.sku,
       category: item.category || "",
       quantity: item.quantity,
+      unit: item.unit,
       warehouseId: item.warehouseId,
       batchNumber: item.batchNumber || "",
       lotNumber: item.lotNumber || "",
       expirationDate: item.expirationDate ? new Date(item.expirationDate).toISOString().split('T')[0] : undefined,
       unitPrice: item.unitPrice || "0",
       description: item.description || "",
+      minQuantity: item.minQuantity,
+      reorderPoint: item.reorderPoint,
+      maxQuantity: item.maxQuantity,
     });
   };
 
-  const filteredItems = items?.filter((item) => {
-    const query = searchQuery.toLowerCase();
-    return (
-      item.productName.toLowerCase().includes(query) ||
-      item.sku.toLowerCase().includes(query) ||
-      item.category?.toLowerCase().includes(query)
-    );
-  });
-
-  const isExpiring = (date: string | null) => {
-    if (!date) return false;
-    const expiryDate = new Date(date);
-    const thirtyDaysFromNow = new Date();
-    thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
-    return expiryDate <= thirtyDaysFromNow;
-  };
-
   if (authLoading || !isAuthenticated) {
     return null;
   }
@@ -240,23 +400,202 @@ export default function Inventory() {
           <h1 className="text-3xl font-semibold">Inventory</h1>
           <p className="text-muted-foreground">Manage your inventory items across all warehouses</p>
         </div>
-        <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create-inventory">
-          <Plus className="mr-2 h-4 w-4" />
-          Add Item
-        </Button>
+        <div className="flex gap-2">
+          {selectedIds.length > 0 && (
+            <>
+              <Button variant="ghost" onClick={() => setSelectedIds([])} data-testid="button-clear-selection">
+                Clear selection
+              </Button>
+              <Button variant="outline" onClick={() => setIsLabelsOpen(true)} data-testid="button-print-labels">
+                <Printer className="mr-2 h-4 w-4" />
+                Print labels ({selectedIds.length})
+              </Button>
+            </>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" data-testid="button-export-inventory">
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {[
+                { format: "csv", label: "CSV" },
+                { format: "xlsx", label: "Excel (XLSX)" },
+                { format: "pdf", label: "PDF stock report" },
+              ].map(({ format, label }) => (
+                <DropdownMenuItem key={format} asChild>
+                  <a
+                    href={`/api/inventory/export?format=${format}${hasFilters ? `&${filterQuery}` : ""}`}
+                    download
+                    data-testid={`link-export-inventory-${format}`}
+                  >
+                    {label}
+                  </a>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)} data-testid="button-import-inventory">
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create-inventory">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Item
+          </Button>
+        </div>
       </div>
 
+      <InventoryImportDialog
+        warehouses={warehouses ?? []}
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+      />
+
+      <StockMovementDialog
+        item={movingItem}
+        warehouses={warehouses ?? []}
+        onOpenChange={(open) => !open && setMovingItem(null)}
+      />
+
+      <ItemHistorySheet item={historyItem} onOpenChange={(open) => !open && setHistoryItem(null)} />
+
+      <LabelPrintDialog
+        kinds={["items", "lots"]}
+        ids={selectedIds}
+        open={isLabelsOpen}
+        onOpenChange={setIsLabelsOpen}
+      />
+
       <div className="flex items-center gap-4">
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
           <Input
             placeholder="Search by product name, SKU, or category..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
             className="pl-9"
             data-testid="input-search-inventory"
           />
         </div>
+        <Select
+          value={params.get("warehouseId") ?? "all"}
+          onValueChange={(value) => updateParams({ warehouseId: value === "all" ? null : value })}
+        >
+          <SelectTrigger className="w-48" data-testid="select-filter-warehouse">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All warehouses</SelectItem>
+            {warehouses?.map((warehouse) => (
+              <SelectItem key={warehouse.id} value={warehouse.id}>
+                {warehouse.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={params.get("category") ?? "all"}
+          onValueChange={(value) => updateParams({ category: value === "all" ? null : value })}
+        >
+          <SelectTrigger className="w-44" data-testid="select-filter-category">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All categories</SelectItem>
+            {categories?.map((category) => (
+              <SelectItem key={category} value={category}>
+                {category}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="filter-low-stock"
+            checked={params.get("lowStock") === "true"}
+            onCheckedChange={(checked) => updateParams({ lowStock: checked === true ? "true" : null })}
+            data-testid="checkbox-filter-low-stock"
+          />
+          <Label htmlFor="filter-low-stock" className="whitespace-nowrap">Low stock</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="filter-expiring"
+            checked={params.get("expiring") === "true"}
+            onCheckedChange={(checked) => updateParams({ expiring: checked === true ? "true" : null })}
+            data-testid="checkbox-filter-expiring"
+          />
+          <Label htmlFor="filter-expiring" className="whitespace-nowrap">Expiring</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="filter-expired"
+            checked={params.get("expired") === "true"}
+            onCheckedChange={(checked) => updateParams({ expired: checked === true ? "true" : null })}
+            data-testid="checkbox-filter-expired"
+          />
+          <Label htmlFor="filter-expired" className="whitespace-nowrap">Expired</Label>
+        </div>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" data-testid="button-more-filters">
+              <SlidersHorizontal className="mr-2 h-4 w-4" />
+              More
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 space-y-4">
+            <div className="space-y-2">
+              <Label>Quantity</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  placeholder="Min"
+                  value={params.get("minQuantity") ?? ""}
+                  onChange={(e) => updateParams({ minQuantity: e.target.value })}
+                  data-testid="input-filter-min-quantity"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="number"
+                  placeholder="Max"
+                  value={params.get("maxQuantity") ?? ""}
+                  onChange={(e) => updateParams({ maxQuantity: e.target.value })}
+                  data-testid="input-filter-max-quantity"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Expiry date</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={params.get("expiresFrom") ?? ""}
+                  onChange={(e) => updateParams({ expiresFrom: e.target.value })}
+                  data-testid="input-filter-expires-from"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="date"
+                  value={params.get("expiresTo") ?? ""}
+                  onChange={(e) => updateParams({ expiresTo: e.target.value })}
+                  data-testid="input-filter-expires-to"
+                />
+              </div>
+            </div>
+          </PopoverContent>
+        </Popover>
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            onClick={() => updateParams(Object.fromEntries(filterKeys.map((key) => [key, null])))}
+            data-testid="button-clear-filters"
+          >
+            Clear
+          </Button>
+        )}
       </div>
 
       {isLoading ? (
@@ -269,21 +608,21 @@ export default function Inventory() {
             </div>
           </CardContent>
         </Card>
-      ) : !filteredItems || filteredItems.length === 0 ? (
+      ) : !items || items.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-16">
             <div className="flex h-20 w-20 items-center justify-center rounded-full bg-muted">
               <Package className="h-10 w-10 text-muted-foreground" />
             </div>
             <h3 className="mt-6 text-lg font-medium">
-              {searchQuery ? "No items found" : "No inventory items yet"}
+              {hasFilters ? "No items found" : "No inventory items yet"}
             </h3>
             <p className="mt-2 text-center text-sm text-muted-foreground">
-              {searchQuery
+              {hasFilters
                 ? "Try adjusting your search criteria"
                 : "Get started by adding your first inventory item"}
             </p>
-            {!searchQuery && (
+            {!hasFilters && (
               <Button onClick={() => setIsCreateOpen(true)} className="mt-6" data-testid="button-create-first-inventory">
                 <Plus className="mr-2 h-4 w-4" />
                 Add Inventory Item
@@ -297,46 +636,88 @@ export default function Inventory() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Product Name</TableHead>
-                  <TableHead>SKU</TableHead>
-                  <TableHead>Category</TableHead>
-                  <TableHead>Quantity</TableHead>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={items.every((item) => selectedIds.includes(item.id))}
+                      onCheckedChange={(checked) => {
+                        const pageIds = items.map((item) => item.id);
+                        setSelectedIds((ids) =>
+                          checked === true
+                            ? Array.from(new Set([...ids, ...pageIds]))
+                            : ids.filter((id) => !pageIds.includes(id))
+                        );
+                      }}
+                      aria-label="Select all on this page"
+                      data-testid="checkbox-select-all-inventory"
+                    />
+                  </TableHead>
+                  {sortHeader("name", "Product Name")}
+                  {sortHeader("sku", "SKU")}
+                  {sortHeader("category", "Category")}
+                  {sortHeader("quantity", "Quantity")}
                   <TableHead>Warehouse</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredItems.map((item) => {
+                {items.map((item) => {
                   const warehouse = warehouses?.find((w) => w.id === item.warehouseId);
-                  const expiring = isExpiring(item.expirationDate);
-                  const lowStock = item.quantity < 10;
+                  const expiry = expiryStatus(item.expirationDate, { expiryWarningDays });
+                  const status = stockStatus(item.quantity, resolveStockLevels(item, levelDefaults, lowStockThreshold));
+                  const lowStock = status === "below_min" || status === "low";
 
                   return (
                     <TableRow key={item.id} data-testid={`row-inventory-${item.id}`}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(item.id)}
+                          onCheckedChange={(checked) =>
+                            setSelectedIds((ids) =>
+                              checked === true ? [...ids, item.id] : ids.filter((id) => id !== item.id)
+                            )
+                          }
+                          aria-label={`Select ${item.productName}`}
+                          data-testid={`checkbox-select-${item.id}`}
+                        />
+                      </TableCell>
                       <TableCell className="font-medium">{item.productName}</TableCell>
                       <TableCell className="font-mono text-sm">{item.sku}</TableCell>
                       <TableCell>{item.category || "—"}</TableCell>
                       <TableCell>
-                        <span className={lowStock ? "text-destructive font-medium" : ""}>
-                          {item.quantity}
-                        </span>
+                        <LotBreakdown item={item} lowStock={lowStock} />
                       </TableCell>
                       <TableCell>{warehouse?.name || "—"}</TableCell>
                       <TableCell>
                         <div className="flex gap-1">
-                          {lowStock && (
+                          {status === "below_min" && (
+                            <Badge variant="destructive" className="text-xs">
+                              Below Minimum
+                            </Badge>
+                          )}
+                          {status === "low" && (
                             <Badge variant="destructive" className="text-xs">
                               Low Stock
                             </Badge>
                           )}
-                          {expiring && (
+                          {status === "over" && (
+                            <Badge variant="secondary" className="text-xs">
+                              Overstock
+                            </Badge>
+                          )}
+                          {expiry === "expired" && (
+                            <Badge variant="destructive" className="text-xs">
+                              <AlertTriangle className="mr-1 h-3 w-3" />
+                              Expired
+                            </Badge>
+                          )}
+                          {expiry === "expiring" && (
                             <Badge variant="destructive" className="text-xs">
                               <AlertTriangle className="mr-1 h-3 w-3" />
                               Expiring
                             </Badge>
                           )}
-                          {!lowStock && !expiring && (
+                          {status === "ok" && !expiry && (
                             <Badge variant="outline" className="text-xs">
                               Good
                             </Badge>
@@ -345,6 +726,24 @@ export default function Inventory() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setMovingItem(item)}
+                            title="Move stock"
+                            data-testid={`button-move-${item.id}`}
+                          >
+                            <ArrowLeftRight className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryItem(item)}
+                            title="Stock history"
+                            data-testid={`button-history-${item.id}`}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -372,6 +771,37 @@ export default function Inventory() {
         </Card>
       )}
 
+      {total > 0 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span data-testid="text-inventory-total">
+            Showing {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, total)} of {total} item(s)
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={page <= 1}
+              onClick={() => updateParams({ page: String(page - 1) })}
+              data-testid="button-previous-page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>
+              Page {page} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={page >= pageCount}
+              onClick={() => updateParams({ page: String(page + 1) })}
+              data-testid="button-next-page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
       <Dialog open={isCreateOpen || !!editingItem} onOpenChange={(open) => {
         if (!open) {
           setIsCreateOpen(false);
@@ -457,7 +887,7 @@ export default function Inventory() {
                 />
               </div>
 
-              <div className="grid gap-4 md:grid-cols-3">
+              <div className="grid gap-4 md:grid-cols-4">
                 <FormField
                   control={form.control}
                   name="quantity"
@@ -470,9 +900,24 @@ export default function Inventory() {
                           placeholder="0"
                           {...field}
                           onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          disabled={!!editingItem}
                           data-testid="input-quantity"
                         />
                       </FormControl>
+                      {editingItem && <FormDescription>Change stock with an adjustment under Move stock</FormDescription>}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="unit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit</FormLabel>
+                      <FormControl>
+                        <UnitSelect value={field.value ?? defaultUnit} onValueChange={field.onChange} testId="select-unit" />
+                      </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -515,6 +960,33 @@ export default function Inventory() {
                 />
               </div>
 
+              <div className="grid gap-4 md:grid-cols-3">
+                {stockLevelFields.map((level) => (
+                  <FormField
+                    key={level}
+                    control={form.control}
+                    name={level}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{stockLevelLabels[level]}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            placeholder={`Default (${inheritedLevels[level] ?? "none"})`}
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value))}
+                            data-testid={`input-${level}`}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+
               <div className="grid gap-4 md:grid-cols-2">
                 <FormField
                   control={form.control}
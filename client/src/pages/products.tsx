@@ -0,0 +1,443 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useInventorySettings } from "@/hooks/useInventorySettings";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Search, Tags, Edit, Trash2, Ruler } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertProductSchema, type InsertProduct, type ProductWithStock } from "@shared/schema";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { UnitSelect } from "@/components/unit-select";
+import { ProductUnitsDialog } from "@/components/product-units-dialog";
+
+const emptyProduct: InsertProduct = {
+  sku: "",
+  name: "",
+  category: "",
+  description: "",
+  unit: "pcs",
+  unitVolume: null,
+};
+
+export default function Products() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<ProductWithStock | null>(null);
+  const [deletingProduct, setDeletingProduct] = useState<ProductWithStock | null>(null);
+  const [unitsProduct, setUnitsProduct] = useState<ProductWithStock | null>(null);
+  const { defaultUnit } = useInventorySettings();
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const { data: products, isLoading } = useQuery<ProductWithStock[]>({
+    queryKey: ["/api/products", debouncedSearch],
+    queryFn: async () => {
+      const query = debouncedSearch ? `?q=${encodeURIComponent(debouncedSearch)}` : "";
+      const res = await apiRequest("GET", `/api/products${query}`);
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
+    enabled: isAuthenticated,
+  });
+
+  const form = useForm<InsertProduct>({
+    resolver: zodResolver(insertProductSchema),
+    defaultValues: emptyProduct,
+  });
+
+  const closeForm = () => {
+    setIsCreateOpen(false);
+    setEditingProduct(null);
+    form.reset(emptyProduct);
+  };
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorBody(error)?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  // Catalog edits are copied onto every warehouse's stock records
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertProduct) => {
+      if (editingProduct) {
+        await apiRequest("PATCH", `/api/products/${editingProduct.id}`, data);
+      } else {
+        await apiRequest("POST", "/api/products", data);
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: editingProduct ? "Product updated successfully" : "Product created successfully",
+      });
+      closeForm();
+    },
+    onError: handleError("Failed to save product"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/products/${id}`, {});
+    },
+    onSuccess: () => {
+      invalidate();
+      setDeletingProduct(null);
+      toast({
+        title: "Success",
+        description: "Product deleted successfully",
+      });
+    },
+    onError: handleError("Failed to delete product"),
+  });
+
+  const handleEdit = (product: ProductWithStock) => {
+    setEditingProduct(product);
+    form.reset({
+      sku: product.sku,
+      name: product.name,
+      category: product.category || "",
+      description: product.description || "",
+      unit: product.unit,
+      unitVolume: product.unitVolume,
+    });
+  };
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Products</h1>
+          <p className="text-muted-foreground">Catalog shared by every warehouse's stock</p>
+        </div>
+        <Button
+          onClick={() => {
+            form.reset({ ...emptyProduct, unit: defaultUnit });
+            setIsCreateOpen(true);
+          }}
+          data-testid="button-create-product"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Product
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Search by name, SKU, or category..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+          data-testid="input-search-products"
+        />
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="space-y-2 p-6">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !products || products.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16">
+              <div className="flex h-20 w-20 items-center justify-center rounded-full bg-muted">
+                <Tags className="h-10 w-10 text-muted-foreground" />
+              </div>
+              <h3 className="mt-6 text-lg font-medium">
+                {debouncedSearch ? "No matching products" : "No products yet"}
+              </h3>
+              <p className="mt-2 text-center text-sm text-muted-foreground">
+                Products are also added automatically when stock arrives for a new SKU
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Unit</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products.map((product) => (
+                  <TableRow key={product.id} data-testid={`row-product-${product.id}`}>
+                    <TableCell className="font-mono text-sm">{product.sku}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{product.name}</div>
+                      {product.description && (
+                        <div className="line-clamp-1 text-xs text-muted-foreground">{product.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {product.category ? <Badge variant="outline">{product.category}</Badge> : "—"}
+                    </TableCell>
+                    <TableCell>{product.unit}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="font-medium">
+                        {product.totalQuantity} {product.unit}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        in {product.warehouseCount} warehouse(s)
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setUnitsProduct(product)}
+                          title="Units of measure"
+                          data-testid={`button-units-${product.id}`}
+                        >
+                          <Ruler className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleEdit(product)}
+                          data-testid={`button-edit-${product.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeletingProduct(product)}
+                          disabled={product.warehouseCount > 0}
+                          title={product.warehouseCount > 0 ? "Remove its stock records first" : "Delete product"}
+                          data-testid={`button-delete-${product.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateOpen || !!editingProduct} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent data-testid="dialog-product-form">
+          <DialogHeader>
+            <DialogTitle>{editingProduct ? "Edit Product" : "Create Product"}</DialogTitle>
+            <DialogDescription>
+              {editingProduct
+                ? `Changes apply to ${editingProduct.name} in all ${editingProduct.warehouseCount} warehouse(s)`
+                : "Add a product to the catalog"}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="sku"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>SKU</FormLabel>
+                      <FormControl>
+                        <Input placeholder="SKU-001" {...field} data-testid="input-product-sku" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="unit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Base unit</FormLabel>
+                      <FormControl>
+                        <UnitSelect value={field.value} onValueChange={field.onChange} testId="select-product-unit" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="unitVolume"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit volume</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          placeholder="Optional"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value === "" ? null : e.target.valueAsNumber)}
+                          data-testid="input-product-unit-volume"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Product name" {...field} data-testid="input-product-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Electronics"
+                        {...field}
+                        value={field.value || ""}
+                        data-testid="input-product-category"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} value={field.value || ""} data-testid="input-product-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeForm} data-testid="button-cancel-product">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-product">
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deletingProduct} onOpenChange={(open) => !open && setDeletingProduct(null)}>
+        <DialogContent data-testid="dialog-delete-product">
+          <DialogHeader>
+            <DialogTitle>Delete Product</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete "{deletingProduct?.name}" from the catalog? This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingProduct(null)} data-testid="button-cancel-delete">
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deletingProduct && deleteMutation.mutate(deletingProduct.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ProductUnitsDialog product={unitsProduct} onOpenChange={(open) => !open && setUnitsProduct(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,789 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatMoney } from "@/lib/format";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, ClipboardList, Eye, Lock, PackageCheck, Plus, Send, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type {
+  ProductWithStock,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  PurchaseOrderWithLines,
+  Supplier,
+  Warehouse,
+  WarehouseUtilization,
+} from "@shared/schema";
+import { capacityWarning, stockSpace } from "@shared/capacity";
+
+const statusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  closed: "Closed",
+};
+
+const statusVariants: Record<PurchaseOrderStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  draft: "outline",
+  sent: "default",
+  partially_received: "secondary",
+  closed: "secondary",
+};
+
+type DraftLine = { productId: string; quantity: string; unitCost: string };
+type ReceiptDraft = { quantity: string; lotNumber: string; expirationDate: string };
+
+const emptyLine: DraftLine = { productId: "", quantity: "", unitCost: "" };
+
+function formatDate(value: string | Date | null) {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+function outstanding(line: PurchaseOrderLine) {
+  return Math.max(line.quantity - line.receivedQuantity, 0);
+}
+
+function orderValue(order: PurchaseOrderWithLines) {
+  return order.lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+}
+
+export default function PurchaseOrders() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | "all">("all");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [supplierId, setSupplierId] = useState("");
+  const [warehouseId, setWarehouseId] = useState("");
+  const [expectedAt, setExpectedAt] = useState("");
+  const [draftLines, setDraftLines] = useState<DraftLine[]>([emptyLine]);
+  const [notes, setNotes] = useState("");
+  const [viewing, setViewing] = useState<PurchaseOrderWithLines | null>(null);
+  const [receipts, setReceipts] = useState<Record<string, ReceiptDraft>>({});
+  const [acceptOverReceipt, setAcceptOverReceipt] = useState(false);
+  const [closeShort, setCloseShort] = useState(false);
+  const [receiptNotes, setReceiptNotes] = useState("");
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: orders, isLoading } = useQuery<PurchaseOrderWithLines[]>({
+    queryKey: ["/api/purchase-orders"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: products } = useQuery<ProductWithStock[]>({
+    queryKey: ["/api/products"],
+    enabled: isAuthenticated && (isCreateOpen || !!viewing),
+  });
+
+  const { data: utilization } = useQuery<WarehouseUtilization[]>({
+    queryKey: ["/api/warehouses/utilization"],
+    enabled: isAuthenticated && !!viewing,
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorBody(error)?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  const resetCreate = () => {
+    setIsCreateOpen(false);
+    setSupplierId("");
+    setWarehouseId("");
+    setExpectedAt("");
+    setDraftLines([emptyLine]);
+    setNotes("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/purchase-orders", {
+        supplierId,
+        warehouseId,
+        expectedAt: expectedAt ? new Date(`${expectedAt}T00:00:00`).toISOString() : undefined,
+        notes: notes || undefined,
+        lines: draftLines.map((line) => ({
+          productId: line.productId,
+          quantity: Number(line.quantity),
+          unitCost: Number(line.unitCost),
+        })),
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      resetCreate();
+      toast({ title: "Success", description: "Purchase order created" });
+    },
+    onError: handleError("Failed to create purchase order"),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "send" | "close" | "delete" }) => {
+      if (action === "delete") {
+        await apiRequest("DELETE", `/api/purchase-orders/${id}`);
+      } else {
+        await apiRequest("POST", `/api/purchase-orders/${id}/${action}`);
+      }
+    },
+    onSuccess: (_, { action }) => {
+      invalidate();
+      const messages = {
+        send: "Purchase order marked as sent",
+        close: "Purchase order closed",
+        delete: "Draft purchase order deleted",
+      };
+      toast({ title: "Success", description: messages[action] });
+    },
+    onError: handleError("Failed to update purchase order"),
+  });
+
+  const receiving = viewing && (viewing.status === "sent" || viewing.status === "partially_received");
+  const receiptLines =
+    viewing?.lines
+      .map((line) => ({ line, receipt: receipts[line.id] }))
+      .filter(({ receipt }) => receipt && receipt.quantity !== "" && Number(receipt.quantity) > 0) ?? [];
+  const overReceived = receiptLines.some(({ line, receipt }) => Number(receipt.quantity) > outstanding(line));
+  const leavesShort =
+    !!viewing &&
+    viewing.lines.some((line) => {
+      const receiving = Number(receipts[line.id]?.quantity) || 0;
+      return line.receivedQuantity + receiving < line.quantity;
+    });
+
+  const receiptWarehouse = warehouses?.find((warehouse) => warehouse.id === viewing?.warehouseId);
+  const receiptUsage = utilization?.find((entry) => entry.warehouseId === viewing?.warehouseId);
+  const receiptSpace = receiptLines.reduce((sum, { line, receipt }) => {
+    const unitVolume = products?.find((product) => product.id === line.productId)?.unitVolume;
+    return sum + (receiptWarehouse ? stockSpace(receiptWarehouse.capacityMode, Number(receipt.quantity), unitVolume) ?? 0 : 0);
+  }, 0);
+  const overCapacity =
+    receiving && receiptWarehouse && receiptUsage ? capacityWarning(receiptWarehouse, receiptUsage, receiptSpace) : null;
+
+  const receiveMutation = useMutation({
+    mutationFn: async (order: PurchaseOrderWithLines) => {
+      await apiRequest("POST", `/api/purchase-orders/${order.id}/receive`, {
+        lines: receiptLines.map(({ line, receipt }) => ({
+          lineId: line.id,
+          quantity: Number(receipt.quantity),
+          lotNumber: receipt.lotNumber.trim() || undefined,
+          expirationDate: receipt.expirationDate
+            ? new Date(`${receipt.expirationDate}T00:00:00`).toISOString()
+            : undefined,
+        })),
+        acceptOverReceipt: overReceived && acceptOverReceipt,
+        closeShort: leavesShort && closeShort,
+        notes: receiptNotes || undefined,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setViewing(null);
+      toast({ title: "Success", description: "Receipt posted to inventory" });
+    },
+    onError: handleError("Failed to receive purchase order"),
+  });
+
+  const openOrder = (order: PurchaseOrderWithLines) => {
+    setViewing(order);
+    setReceipts(
+      Object.fromEntries(
+        order.lines.map((line) => [
+          line.id,
+          { quantity: outstanding(line) > 0 ? String(outstanding(line)) : "", lotNumber: "", expirationDate: "" },
+        ])
+      )
+    );
+    setAcceptOverReceipt(false);
+    setCloseShort(false);
+    setReceiptNotes("");
+  };
+
+  const updateReceipt = (lineId: string, changes: Partial<ReceiptDraft>) =>
+    setReceipts({ ...receipts, [lineId]: { ...receipts[lineId], ...changes } });
+
+  const supplierName = (id: string) => suppliers?.find((supplier) => supplier.id === id)?.name ?? "—";
+  const warehouseName = (id: string) => warehouses?.find((warehouse) => warehouse.id === id)?.name ?? "—";
+  const visibleOrders = orders?.filter((order) => statusFilter === "all" || order.status === statusFilter);
+  const openOrders = orders?.filter((order) => order.status === "sent" || order.status === "partially_received") ?? [];
+  const unitsOutstanding = openOrders.reduce(
+    (sum, order) => sum + order.lines.reduce((lineSum, line) => lineSum + outstanding(line), 0),
+    0
+  );
+  const valueOutstanding = openOrders.reduce(
+    (sum, order) => sum + order.lines.reduce((lineSum, line) => lineSum + outstanding(line) * line.unitCost, 0),
+    0
+  );
+
+  const draftTotal = draftLines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unitCost) || 0), 0);
+  const canCreate =
+    !!supplierId &&
+    !!warehouseId &&
+    draftLines.length > 0 &&
+    draftLines.every(
+      (line) =>
+        line.productId &&
+        Number.isInteger(Number(line.quantity)) &&
+        Number(line.quantity) > 0 &&
+        line.unitCost !== "" &&
+        Number(line.unitCost) >= 0
+    ) &&
+    new Set(draftLines.map((line) => line.productId)).size === draftLines.length;
+
+  const receiptValid =
+    receiptLines.length > 0 &&
+    receiptLines.every(({ receipt }) => Number.isInteger(Number(receipt.quantity))) &&
+    (!overReceived || acceptOverReceipt);
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Purchase Orders</h1>
+          <p className="text-muted-foreground">Order stock from suppliers and receive it into warehouses</p>
+        </div>
+        <Button
+          onClick={() => setIsCreateOpen(true)}
+          disabled={!suppliers || suppliers.length === 0}
+          title={suppliers && suppliers.length === 0 ? "Add a supplier first" : undefined}
+          data-testid="button-create-purchase-order"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          New Purchase Order
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Orders</CardTitle>
+            <ClipboardList className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-open-purchase-orders">{openOrders.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Units Outstanding</CardTitle>
+            <PackageCheck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-units-outstanding">{unitsOutstanding}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Value Outstanding</CardTitle>
+            <ClipboardList className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-value-outstanding">{formatMoney(valueOutstanding)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as PurchaseOrderStatus | "all")}>
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          {(Object.keys(statusLabels) as PurchaseOrderStatus[]).map((status) => (
+            <TabsTrigger key={status} value={status} data-testid={`tab-purchase-orders-${status}`}>
+              {statusLabels[status]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="space-y-2 p-6">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !visibleOrders || visibleOrders.length === 0 ? (
+            <div className="py-16 text-center text-sm text-muted-foreground">No purchase orders</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Deliver To</TableHead>
+                  <TableHead>Lines</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleOrders.map((order) => {
+                  const isOpen = order.status === "sent" || order.status === "partially_received";
+                  const isShort = order.status === "closed" && order.lines.some((line) => outstanding(line) > 0);
+                  return (
+                    <TableRow key={order.id} data-testid={`row-purchase-order-${order.id}`}>
+                      <TableCell>{formatDate(order.createdAt)}</TableCell>
+                      <TableCell className="font-medium">{supplierName(order.supplierId)}</TableCell>
+                      <TableCell>{warehouseName(order.warehouseId)}</TableCell>
+                      <TableCell>
+                        {order.lines.length} item(s), {order.lines.reduce((sum, line) => sum + line.quantity, 0)} unit(s)
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(orderValue(order))}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Badge variant={statusVariants[order.status]}>{statusLabels[order.status]}</Badge>
+                          {isShort && <Badge variant="destructive">Short</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatDate(order.expectedAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {order.status === "draft" && (
+                            <>
+                              <Button
+                                size="sm"
+                                onClick={() => actionMutation.mutate({ id: order.id, action: "send" })}
+                                disabled={actionMutation.isPending}
+                                data-testid={`button-send-${order.id}`}
+                              >
+                                <Send className="mr-2 h-4 w-4" />
+                                Mark Sent
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => actionMutation.mutate({ id: order.id, action: "delete" })}
+                                disabled={actionMutation.isPending}
+                                title="Delete draft"
+                                data-testid={`button-delete-${order.id}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          {isOpen ? (
+                            <>
+                              <Button size="sm" onClick={() => openOrder(order)} data-testid={`button-receive-${order.id}`}>
+                                <PackageCheck className="mr-2 h-4 w-4" />
+                                Receive
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => actionMutation.mutate({ id: order.id, action: "close" })}
+                                disabled={actionMutation.isPending}
+                                title="Close without receiving the rest"
+                                data-testid={`button-close-${order.id}`}
+                              >
+                                <Lock className="h-4 w-4" />
+                              </Button>
+                            </>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openOrder(order)}
+                              title="View lines"
+                              data-testid={`button-view-${order.id}`}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateOpen} onOpenChange={(open) => !open && resetCreate()}>
+        <DialogContent className="max-w-3xl" data-testid="dialog-create-purchase-order">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+            <DialogDescription>Stock is added to the warehouse as the order is received</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Supplier</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger data-testid="select-purchase-supplier">
+                    <SelectValue placeholder="Select supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers?.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Deliver to</Label>
+                <Select value={warehouseId} onValueChange={setWarehouseId}>
+                  <SelectTrigger data-testid="select-purchase-warehouse">
+                    <SelectValue placeholder="Select warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses?.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="purchase-expected">Expected delivery</Label>
+                <Input
+                  id="purchase-expected"
+                  type="date"
+                  value={expectedAt}
+                  onChange={(e) => setExpectedAt(e.target.value)}
+                  data-testid="input-purchase-expected"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Lines</Label>
+              {draftLines.map((line, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={line.productId}
+                    onValueChange={(value) =>
+                      setDraftLines(draftLines.map((draft, i) => (i === index ? { ...draft, productId: value } : draft)))
+                    }
+                  >
+                    <SelectTrigger className="flex-1" data-testid={`select-purchase-product-${index}`}>
+                      <SelectValue placeholder="Select product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products?.map((product) => (
+                        <SelectItem key={product.id} value={product.id}>
+                          {product.name} ({product.sku})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-24"
+                    placeholder="Qty"
+                    value={line.quantity}
+                    onChange={(e) =>
+                      setDraftLines(draftLines.map((draft, i) => (i === index ? { ...draft, quantity: e.target.value } : draft)))
+                    }
+                    data-testid={`input-purchase-quantity-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className="w-28"
+                    placeholder="Unit cost"
+                    value={line.unitCost}
+                    onChange={(e) =>
+                      setDraftLines(draftLines.map((draft, i) => (i === index ? { ...draft, unitCost: e.target.value } : draft)))
+                    }
+                    data-testid={`input-purchase-cost-${index}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDraftLines(draftLines.filter((_, i) => i !== index))}
+                    disabled={draftLines.length === 1}
+                    data-testid={`button-remove-line-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraftLines([...draftLines, emptyLine])}
+                  data-testid="button-add-line"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Line
+                </Button>
+                <span className="text-sm text-muted-foreground" data-testid="text-purchase-total">
+                  Total {formatMoney(draftTotal)}
+                </span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="purchase-notes">Notes</Label>
+              <Textarea
+                id="purchase-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="input-purchase-notes"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={resetCreate} data-testid="button-cancel-create-purchase-order">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!canCreate || createMutation.isPending}
+              data-testid="button-submit-purchase-order"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Draft"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-5xl" data-testid="dialog-purchase-order-details">
+          <DialogHeader>
+            <DialogTitle>{receiving ? "Receive Purchase Order" : "Purchase Order Details"}</DialogTitle>
+            <DialogDescription>
+              {viewing && `${supplierName(viewing.supplierId)} → ${warehouseName(viewing.warehouseId)}`}
+              {viewing?.notes && ` — ${viewing.notes}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {viewing && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  {receiving && (
+                    <>
+                      <TableHead>Receive Now</TableHead>
+                      <TableHead>Lot</TableHead>
+                      <TableHead>Expires</TableHead>
+                    </>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {viewing.lines.map((line) => {
+                  const receipt = receipts[line.id];
+                  const isOver = receiving && Number(receipt?.quantity) > outstanding(line);
+                  return (
+                    <TableRow key={line.id} data-testid={`row-purchase-line-${line.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{line.itemName}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{line.sku}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(line.unitCost)}</TableCell>
+                      <TableCell className="text-right">
+                        {line.quantity} {line.unit}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-1">
+                          {line.receivedQuantity}
+                          {line.receivedQuantity > line.quantity && (
+                            <Badge variant="destructive">+{line.receivedQuantity - line.quantity}</Badge>
+                          )}
+                          {viewing.status === "closed" && outstanding(line) > 0 && (
+                            <Badge variant="destructive">-{outstanding(line)}</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      {receiving && (
+                        <>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                type="number"
+                                min={0}
+                                className="w-24"
+                                value={receipt?.quantity ?? ""}
+                                onChange={(e) => updateReceipt(line.id, { quantity: e.target.value })}
+                                data-testid={`input-receive-quantity-${line.id}`}
+                              />
+                              {isOver && <Badge variant="destructive">Over</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-28"
+                              placeholder="Optional"
+                              value={receipt?.lotNumber ?? ""}
+                              onChange={(e) => updateReceipt(line.id, { lotNumber: e.target.value })}
+                              data-testid={`input-receive-lot-${line.id}`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="date"
+                              className="w-40"
+                              value={receipt?.expirationDate ?? ""}
+                              onChange={(e) => updateReceipt(line.id, { expirationDate: e.target.value })}
+                              data-testid={`input-receive-expiration-${line.id}`}
+                            />
+                          </TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {receiving && (
+            <div className="space-y-3">
+              {overCapacity && (
+                <Alert data-testid="alert-receipt-capacity">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>{overCapacity}. The receipt can still be posted.</AlertDescription>
+                </Alert>
+              )}
+              {overReceived && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="accept-over-receipt"
+                    checked={acceptOverReceipt}
+                    onCheckedChange={(checked) => setAcceptOverReceipt(checked === true)}
+                    data-testid="checkbox-accept-over-receipt"
+                  />
+                  <Label htmlFor="accept-over-receipt">
+                    Accept the over-receipt; more than the outstanding quantity is booked into stock
+                  </Label>
+                </div>
+              )}
+              {leavesShort && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="close-short"
+                    checked={closeShort}
+                    onCheckedChange={(checked) => setCloseShort(checked === true)}
+                    data-testid="checkbox-close-short"
+                  />
+                  <Label htmlFor="close-short">Close the order short; the rest will not be delivered</Label>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="receipt-notes">Receipt notes</Label>
+                <Input
+                  id="receipt-notes"
+                  placeholder="Delivery note number, condition, ..."
+                  value={receiptNotes}
+                  onChange={(e) => setReceiptNotes(e.target.value)}
+                  data-testid="input-receipt-notes"
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setViewing(null)} data-testid="button-close-purchase-order">
+              Close
+            </Button>
+            {receiving && (
+              <Button
+                onClick={() => receiveMutation.mutate(viewing)}
+                disabled={!receiptValid || receiveMutation.isPending}
+                data-testid="button-confirm-receipt"
+              >
+                {receiveMutation.isPending ? "Posting..." : "Post Receipt"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Download, ShoppingCart, PackagePlus } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ReplenishmentSuggestion, Warehouse } from "@shared/schema";
+
+type PlanningField = "windowDays" | "leadTimeDays" | "safetyStockDays" | "coverDays";
+
+const planningFields: Array<{ field: PlanningField; label: string; min: number }> = [
+  { field: "windowDays", label: "Usage window (days)", min: 1 },
+  { field: "leadTimeDays", label: "Lead time (days)", min: 0 },
+  { field: "safetyStockDays", label: "Safety stock (days)", min: 0 },
+  { field: "coverDays", label: "Order cover (days)", min: 1 },
+];
+
+const defaultPlanning: Record<PlanningField, string> = {
+  windowDays: "30",
+  leadTimeDays: "7",
+  safetyStockDays: "7",
+  coverDays: "30",
+};
+
+export default function ReorderSuggestions() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [warehouseId, setWarehouseId] = useState("all");
+  const [category, setCategory] = useState("all");
+  const [planning, setPlanning] = useState(defaultPlanning);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: categories } = useQuery<string[]>({
+    queryKey: ["/api/inventory/categories"],
+    enabled: isAuthenticated,
+  });
+
+  const planningValid = planningFields.every(({ field, min }) => {
+    const value = Number(planning[field]);
+    return planning[field] !== "" && Number.isInteger(value) && value >= min && value <= 365;
+  });
+
+  const params = new URLSearchParams(planning);
+  if (warehouseId !== "all") params.set("warehouseId", warehouseId);
+  if (category !== "all") params.set("category", category);
+  const query = params.toString();
+
+  const { data: suggestions, isLoading } = useQuery<ReplenishmentSuggestion[]>({
+    queryKey: ["/api/reports/replenishment", query],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/reports/replenishment?${query}`);
+      return res.json();
+    },
+    enabled: isAuthenticated && planningValid,
+  });
+
+  const warehouseName = (id: string) => warehouses?.find((warehouse) => warehouse.id === id)?.name ?? "—";
+  const unitsSuggested = suggestions?.reduce((sum, suggestion) => sum + suggestion.suggestedQuantity, 0) ?? 0;
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Reorder Suggestions</h1>
+          <p className="text-muted-foreground">Items projected to run short, based on recent usage</p>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" disabled={!planningValid} data-testid="button-export-replenishment">
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {[
+              { format: "csv", label: "CSV" },
+              { format: "xlsx", label: "Excel (XLSX)" },
+            ].map(({ format, label }) => (
+              <DropdownMenuItem key={format} asChild>
+                <a
+                  href={`/api/reports/replenishment/export?format=${format}&${query}`}
+                  download
+                  data-testid={`link-export-replenishment-${format}`}
+                >
+                  {label}
+                </a>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 pt-6 md:grid-cols-6">
+          <div className="space-y-1">
+            <Label className="text-xs">Warehouse</Label>
+            <Select value={warehouseId} onValueChange={setWarehouseId}>
+              <SelectTrigger data-testid="select-replenishment-warehouse">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All warehouses</SelectItem>
+                {warehouses?.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger data-testid="select-replenishment-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {categories?.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {planningFields.map(({ field, label, min }) => (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`replenishment-${field}`} className="text-xs">
+                {label}
+              </Label>
+              <Input
+                id={`replenishment-${field}`}
+                type="number"
+                min={min}
+                max={365}
+                value={planning[field]}
+                onChange={(e) => setPlanning((current) => ({ ...current, [field]: e.target.value }))}
+                data-testid={`input-replenishment-${field}`}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Items To Reorder</CardTitle>
+            <ShoppingCart className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-items-to-reorder">{suggestions?.length ?? 0}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Units Suggested</CardTitle>
+            <PackagePlus className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-units-suggested">{unitsSuggested}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {!planningValid ? (
+            <div className="py-16 text-center text-sm text-muted-foreground">
+              Planning values must be whole numbers of days up to 365
+            </div>
+          ) : isLoading ? (
+            <div className="space-y-2 p-6">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !suggestions || suggestions.length === 0 ? (
+            <div className="py-16 text-center text-sm text-muted-foreground">Nothing needs reordering</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Avg / Day</TableHead>
+                  <TableHead className="text-right">Days of Cover</TableHead>
+                  <TableHead className="text-right">Reorder Point</TableHead>
+                  <TableHead className="text-right">Target</TableHead>
+                  <TableHead className="text-right">Suggested Order</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suggestions.map((suggestion) => (
+                  <TableRow
+                    key={suggestion.inventoryItemId}
+                    data-testid={`row-replenishment-${suggestion.inventoryItemId}`}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{suggestion.name}</div>
+                      <div className="font-mono text-xs text-muted-foreground">{suggestion.sku}</div>
+                    </TableCell>
+                    <TableCell>{warehouseName(suggestion.warehouseId)}</TableCell>
+                    <TableCell className="text-right">
+                      {suggestion.quantity} {suggestion.unit}
+                    </TableCell>
+                    <TableCell className="text-right">{suggestion.averageDailyUsage}</TableCell>
+                    <TableCell className="text-right">{suggestion.daysOfCover ?? "—"}</TableCell>
+                    <TableCell className="text-right">{suggestion.reorderPoint}</TableCell>
+                    <TableCell className="text-right">{suggestion.targetLevel}</TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {suggestion.suggestedQuantity} {suggestion.unit}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
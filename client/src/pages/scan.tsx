@@ -0,0 +1,266 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Camera, PackageCheck, PackageMinus, ClipboardCheck, ScanLine, Search } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { BarcodeScanner, isCameraScanningSupported } from "@/components/barcode-scanner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { InventoryItem, InventoryLookup, Warehouse } from "@shared/schema";
+
+type QuickAction = "receive" | "issue" | "count";
+
+const actionLabels: Record<QuickAction, string> = {
+  receive: "Receive",
+  issue: "Issue",
+  count: "Count",
+};
+
+const actionIcons = {
+  receive: PackageCheck,
+  issue: PackageMinus,
+  count: ClipboardCheck,
+};
+
+export default function Scan() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [isScanning, setIsScanning] = useState(isCameraScanningSupported);
+  const [code, setCode] = useState<string | null>(null);
+  const [typedCode, setTypedCode] = useState("");
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [action, setAction] = useState<QuickAction>("receive");
+  const [quantity, setQuantity] = useState("");
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: isAuthenticated,
+  });
+
+  const {
+    data: lookup,
+    error: lookupError,
+    isFetching: isLookingUp,
+  } = useQuery<InventoryLookup>({
+    queryKey: ["/api/inventory/lookup", code],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/inventory/lookup?sku=${encodeURIComponent(code!)}`);
+      return res.json();
+    },
+    enabled: isAuthenticated && !!code,
+    retry: false,
+  });
+
+  const selectedItem: InventoryItem | undefined =
+    lookup?.items.find((item) => item.id === selectedItemId) ?? lookup?.items[0];
+
+  const lookUp = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    setIsScanning(false);
+    setCode(trimmed);
+    setSelectedItemId(null);
+    setQuantity("");
+  };
+
+  const scanNext = () => {
+    setCode(null);
+    setTypedCode("");
+    setQuantity("");
+    setIsScanning(isCameraScanningSupported);
+  };
+
+  const movementMutation = useMutation({
+    mutationFn: async () => {
+      const amount = Number(quantity);
+      const body = action === "count" ? { countedQuantity: amount } : { quantity: amount };
+      await apiRequest("POST", `/api/inventory/${selectedItem!.id}/${action}`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/lookup"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({ title: "Success", description: `${actionLabels[action]} recorded for ${selectedItem?.name}` });
+      scanNext();
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorBody(error)?.message || "Failed to record stock movement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  const amount = Number(quantity);
+  const isValidQuantity = quantity !== "" && Number.isInteger(amount) && (action === "count" ? amount >= 0 : amount > 0);
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold">Scan</h1>
+        <p className="text-muted-foreground">Scan a label to look up an item and receive, issue or count it</p>
+      </div>
+
+      <Card>
+        <CardContent className="space-y-4 pt-6">
+          <BarcodeScanner active={isScanning} onDetected={lookUp} />
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              lookUp(typedCode);
+            }}
+          >
+            <Input
+              placeholder="SKU or lot number"
+              value={typedCode}
+              onChange={(e) => setTypedCode(e.target.value)}
+              className="font-mono"
+              autoComplete="off"
+              data-testid="input-scan-code"
+            />
+            <Button type="submit" variant="outline" disabled={!typedCode.trim()} data-testid="button-lookup-code">
+              <Search className="mr-2 h-4 w-4" />
+              Look up
+            </Button>
+            {isCameraScanningSupported && !isScanning && (
+              <Button type="button" onClick={scanNext} data-testid="button-scan-next">
+                <Camera className="mr-2 h-4 w-4" />
+                Scan
+              </Button>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      {code && isLookingUp && !lookup ? (
+        <Skeleton className="h-48 w-full" />
+      ) : code && lookupError ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-10 text-center">
+            <ScanLine className="h-8 w-8 text-muted-foreground" />
+            <p className="font-medium" data-testid="text-lookup-not-found">
+              {getApiErrorBody(lookupError as Error)?.message || `Nothing found for ${code}`}
+            </p>
+          </CardContent>
+        </Card>
+      ) : code && lookup && selectedItem ? (
+        <Card>
+          <CardHeader>
+            <CardTitle data-testid="text-scanned-item">{selectedItem.name}</CardTitle>
+            <CardDescription className="font-mono">
+              {selectedItem.sku}
+              {lookup.matchedBy === "lot" && ` · lot ${lookup.code}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              {lookup.items.map((item) => {
+                const warehouse = warehouses?.find((w) => w.id === item.warehouseId);
+                const isSelected = item.id === selectedItem.id;
+                return (
+                  <button
+                    key={item.id}
+                    type="button"
+                    onClick={() => setSelectedItemId(item.id)}
+                    className={`flex w-full items-center justify-between rounded-md border p-3 text-left hover-elevate ${
+                      isSelected ? "border-primary" : ""
+                    }`}
+                    data-testid={`button-select-item-${item.id}`}
+                  >
+                    <div>
+                      <p className="font-medium">{warehouse?.name ?? "—"}</p>
+                      {item.location && <p className="text-xs text-muted-foreground">{item.location}</p>}
+                    </div>
+                    <Badge variant={isSelected ? "default" : "outline"}>
+                      {item.quantity} {item.unit}
+                    </Badge>
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(actionLabels) as QuickAction[]).map((option) => {
+                const Icon = actionIcons[option];
+                return (
+                  <Button
+                    key={option}
+                    variant={action === option ? "default" : "outline"}
+                    onClick={() => setAction(option)}
+                    data-testid={`button-action-${option}`}
+                  >
+                    <Icon className="mr-2 h-4 w-4" />
+                    {actionLabels[option]}
+                  </Button>
+                );
+              })}
+            </div>
+
+            <form
+              className="flex items-end gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (isValidQuantity) movementMutation.mutate();
+              }}
+            >
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="scan-quantity">
+                  {action === "count" ? `Counted quantity (${selectedItem.unit})` : `Quantity (${selectedItem.unit})`}
+                </Label>
+                <Input
+                  id="scan-quantity"
+                  type="number"
+                  inputMode="numeric"
+                  min={action === "count" ? 0 : 1}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  data-testid="input-scan-quantity"
+                />
+              </div>
+              <Button type="submit" disabled={!isValidQuantity || movementMutation.isPending} data-testid="button-submit-action">
+                {movementMutation.isPending ? "Saving..." : actionLabels[action]}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
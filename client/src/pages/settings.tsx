@@ -1,14 +1,68 @@
 import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Shield, Database, Bell, Lock } from "lucide-react";
+import { Shield, Bell, Sparkles, Upload, Package } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StockLevelSettings } from "@/components/stock-level-settings";
+import { UnitSettings } from "@/components/unit-settings";
+import { UnitSelect } from "@/components/unit-select";
+import { valuationMethodLabels } from "@/lib/format";
+import {
+  MAX_UPLOAD_MB,
+  aiModels,
+  defaultSystemSettings,
+  valuationMethods,
+  systemSettingsSchema,
+  type SystemSettingKey,
+  type SystemSettings,
+} from "@shared/system-settings";
+
+function SettingsCardHeader({
+  icon: Icon,
+  title,
+  description,
+}: {
+  icon: typeof Shield;
+  title: string;
+  description: string;
+}) {
+  return (
+    <CardHeader>
+      <div className="flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
+          <Icon className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+      </div>
+    </CardHeader>
+  );
+}
 
 export default function Settings() {
   const { toast } = useToast();
   const { user: currentUser, isAuthenticated, isLoading: authLoading } = useAuth();
+  const isAdmin = currentUser?.role === "super_admin" || currentUser?.role === "admin";
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -23,11 +77,63 @@ export default function Settings() {
     }
   }, [isAuthenticated, authLoading, toast]);
 
+  const { data: settings, isLoading } = useQuery<SystemSettings>({
+    queryKey: ["/api/settings"],
+    enabled: isAdmin,
+  });
+
+  const form = useForm<SystemSettings>({
+    resolver: zodResolver(systemSettingsSchema),
+    defaultValues: defaultSystemSettings,
+  });
+
+  useEffect(() => {
+    if (settings) form.reset(settings);
+  }, [settings, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SystemSettings) => {
+      // Only send what changed so the audit log records just those keys
+      const dirty = Object.keys(form.formState.dirtyFields) as SystemSettingKey[];
+      const changes = Object.fromEntries(dirty.map((key) => [key, data[key]]));
+      const res = await apiRequest("PATCH", "/api/settings", changes);
+      return (await res.json()) as SystemSettings;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings"], saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: "Settings saved",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorBody(error)?.message || "Failed to save settings",
+        variant: "destructive",
+      });
+    },
+  });
+
   if (authLoading || !isAuthenticated) {
     return null;
   }
 
-  if (currentUser?.role !== "super_admin" && currentUser?.role !== "admin") {
+  if (!isAdmin) {
     return (
       <div className="flex h-[calc(100vh-200px)] items-center justify-center">
         <Card className="max-w-md">
@@ -43,26 +149,157 @@ export default function Settings() {
     );
   }
 
+  const numberField = (name: SystemSettingKey, label: string, description: string, max?: number) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              min={0}
+              max={max}
+              {...field}
+              value={Number.isNaN(field.value) ? "" : field.value}
+              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+              data-testid={`input-setting-${name}`}
+            />
+          </FormControl>
+          <FormDescription>{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-semibold">Settings</h1>
-        <p className="text-muted-foreground">Configure system settings and preferences</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Settings</h1>
+          <p className="text-muted-foreground">Configure system settings and preferences</p>
+        </div>
+        <Button
+          onClick={form.handleSubmit((data) => saveMutation.mutate(data))}
+          disabled={isLoading || !form.formState.isDirty || saveMutation.isPending}
+          data-testid="button-save-settings"
+        >
+          {saveMutation.isPending ? "Saving..." : "Save Settings"}
+        </Button>
       </div>
 
+      {isLoading ? (
+        <div className="grid gap-6 md:grid-cols-2">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-56 w-full" />
+          ))}
+        </div>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <SettingsCardHeader icon={Bell} title="Alerts" description="When items count as low stock or expiring" />
+              <CardContent className="space-y-4">
+                {numberField(
+                  "lowStockThreshold",
+                  "Low stock threshold",
+                  "Reorder point for items without their own or a category/warehouse default"
+                )}
+                {numberField("expiryWarningDays", "Expiry warning window (days)", "Items expiring within this many days are flagged", 365)}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <SettingsCardHeader icon={Sparkles} title="AI Processing" description="Model used to read product images" />
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="aiModel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>AI model</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-setting-aiModel">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {aiModels.map((model) => (
+                            <SelectItem key={model} value={model}>
+                              {model}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <SettingsCardHeader icon={Upload} title="Uploads" description={`Size limits, up to ${MAX_UPLOAD_MB} MB`} />
+              <CardContent className="space-y-4">
+                {numberField("maxImageUploadMb", "Image upload limit (MB)", "Largest product image accepted for AI processing", MAX_UPLOAD_MB)}
+                {numberField("maxImportFileMb", "Import file limit (MB)", "Largest spreadsheet or CSV accepted for imports", MAX_UPLOAD_MB)}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <SettingsCardHeader icon={Package} title="Inventory Defaults" description="Values used for new records" />
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="defaultUnit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Default unit</FormLabel>
+                      <FormControl>
+                        <UnitSelect value={field.value} onValueChange={field.onChange} testId="select-setting-defaultUnit" />
+                      </FormControl>
+                      <FormDescription>Unit for new products that don't specify one</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="valuationMethod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valuation method</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-setting-valuationMethod">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {valuationMethods.map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {valuationMethodLabels[method]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>How stock value is costed on the dashboard and valuation report</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+          </form>
+        </Form>
+      )}
+
       <div className="grid gap-6 md:grid-cols-2">
         <Card>
-          <CardHeader>
-            <div className="flex items-center gap-3">
-              <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
-                <Shield className="h-5 w-5 text-primary" />
-              </div>
-              <div>
-                <CardTitle>Security & Access</CardTitle>
-                <CardDescription>Manage authentication and permissions</CardDescription>
-              </div>
-            </div>
-          </CardHeader>
+          <SettingsCardHeader icon={Shield} title="Security & Access" description="Manage authentication and permissions" />
           <CardContent className="space-y-3">
             <div className="flex items-center justify-between">
               <span className="text-sm">Authentication Provider</span>
@@ -81,95 +318,9 @@ export default function Settings() {
           </CardContent>
         </Card>
 
-        <Card>
-          <CardHeader>
-            <div className="flex items-center gap-3">
-              <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
-                <Database className="h-5 w-5 text-primary" />
-              </div>
-              <div>
-                <CardTitle>Data Management</CardTitle>
-                <CardDescription>Database and storage settings</CardDescription>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Database Type</span>
-              <Badge variant="outline">PostgreSQL</Badge>
-            </div>
-            <Separator />
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Backup Schedule</span>
-              <Badge variant="secondary">Daily</Badge>
-            </div>
-            <Separator />
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Data Retention</span>
-              <Badge variant="outline">90 days</Badge>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader>
-            <div className="flex items-center gap-3">
-              <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
-                <Bell className="h-5 w-5 text-primary" />
-              </div>
-              <div>
-                <CardTitle>Notifications & Alerts</CardTitle>
-                <CardDescription>Configure system alerts</CardDescription>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Low Stock Alerts</span>
-              <Badge variant="default">Enabled</Badge>
-            </div>
-            <Separator />
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Expiration Warnings</span>
-              <Badge variant="default">Enabled</Badge>
-            </div>
-            <Separator />
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Alert Threshold</span>
-              <Badge variant="outline">30 days</Badge>
-            </div>
-          </CardContent>
-        </Card>
+        <StockLevelSettings />
 
-        <Card>
-          <CardHeader>
-            <div className="flex items-center gap-3">
-              <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
-                <Lock className="h-5 w-5 text-primary" />
-              </div>
-              <div>
-                <CardTitle>AI Configuration</CardTitle>
-                <CardDescription>OpenAI and processing settings</CardDescription>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            <div className="flex items-center justify-between">
-              <span className="text-sm">AI Model</span>
-              <Badge variant="outline">GPT-5</Badge>
-            </div>
-            <Separator />
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Vision Processing</span>
-              <Badge variant="default">Active</Badge>
-            </div>
-            <Separator />
-            <div className="flex items-center justify-between">
-              <span className="text-sm">OCR Confidence</span>
-              <Badge variant="outline">80%</Badge>
-            </div>
-          </CardContent>
-        </Card>
+        <UnitSettings />
       </div>
     </div>
   );
@@ -0,0 +1,476 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { adjustmentReasonLabels } from "@/components/stock-movement-dialog";
+import { stocktakeScopeLabel, stocktakeStatusLabels, stocktakeStatusVariants } from "@/pages/stocktakes";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, Search } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  adjustmentReasons,
+  type AdjustmentReason,
+  type StocktakeLine,
+  type StocktakeWithLines,
+  type Warehouse,
+} from "@shared/schema";
+
+type View = "count" | "review";
+
+type Approval = { approved: boolean; reasonCode: AdjustmentReason };
+
+function variance(line: StocktakeLine) {
+  return line.countedQuantity === null ? null : line.countedQuantity - line.expectedQuantity;
+}
+
+export default function StocktakeDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [view, setView] = useState<View>("count");
+  const [search, setSearch] = useState("");
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [approvals, setApprovals] = useState<Record<string, Approval>>({});
+  const [isCancelOpen, setIsCancelOpen] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const stocktakeKey = ["/api/stocktakes", id];
+  const { data: stocktake, isLoading } = useQuery<StocktakeWithLines>({
+    queryKey: stocktakeKey,
+    enabled: isAuthenticated && !!id,
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: isAuthenticated,
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorBody(error)?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const countMutation = useMutation({
+    mutationFn: async ({ lineId, countedQuantity }: { lineId: string; countedQuantity: number | null }) => {
+      const res = await apiRequest("PATCH", `/api/stocktakes/${id}/lines/${lineId}`, { countedQuantity });
+      return (await res.json()) as StocktakeLine;
+    },
+    onSuccess: (line) => {
+      queryClient.setQueryData<StocktakeWithLines>(stocktakeKey, (current) =>
+        current ? { ...current, lines: current.lines.map((existing) => (existing.id === line.id ? line : existing)) } : current
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"], exact: true });
+      setDrafts(({ [line.id]: _, ...rest }) => rest);
+    },
+    onError: handleError("Failed to save count"),
+  });
+
+  const postMutation = useMutation({
+    mutationFn: async (lines: { lineId: string; reasonCode: AdjustmentReason }[]) => {
+      await apiRequest("POST", `/api/stocktakes/${id}/post`, { lines });
+    },
+    onSuccess: (_, lines) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setApprovals({});
+      toast({
+        title: "Success",
+        description:
+          lines.length === 0
+            ? "Stocktake closed without changes"
+            : `Posted ${lines.length} ${lines.length === 1 ? "variance" : "variances"}`,
+      });
+    },
+    onError: handleError("Failed to post stocktake"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/stocktakes/${id}/cancel`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+      setIsCancelOpen(false);
+      toast({
+        title: "Success",
+        description: "Stocktake cancelled",
+      });
+    },
+    onError: handleError("Failed to cancel stocktake"),
+  });
+
+  // Saves the draft for a line when the input loses focus, if it changed
+  const saveCount = (line: StocktakeLine) => {
+    const draft = drafts[line.id];
+    if (draft === undefined) return;
+    const countedQuantity = draft.trim() === "" ? null : Number(draft);
+    if (countedQuantity !== null && (!Number.isInteger(countedQuantity) || countedQuantity < 0)) {
+      toast({
+        title: "Error",
+        description: "Counts must be whole numbers of zero or more",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (countedQuantity === line.countedQuantity) {
+      setDrafts(({ [line.id]: _, ...rest }) => rest);
+      return;
+    }
+    countMutation.mutate({ lineId: line.id, countedQuantity });
+  };
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  if (!isLoading && !stocktake) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-16">
+          <h3 className="text-lg font-medium">Stocktake not found</h3>
+          <Button variant="outline" asChild className="mt-6">
+            <Link href="/stocktakes">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to stocktakes
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const lines = stocktake?.lines ?? [];
+  const isCounting = stocktake?.status === "counting";
+  const counted = lines.filter((line) => line.countedQuantity !== null);
+  const varianceLines = counted.filter((line) => variance(line) !== 0);
+  const term = search.trim().toLowerCase();
+  const countLines = term
+    ? lines.filter((line) =>
+        [line.sku, line.itemName, line.location ?? ""].some((value) => value.toLowerCase().includes(term))
+      )
+    : lines;
+  const approvalFor = (line: StocktakeLine): Approval =>
+    approvals[line.id] ?? { approved: false, reasonCode: "count_correction" };
+  const approved = varianceLines.filter((line) => line.postedQuantity === null && approvalFor(line).approved);
+  const warehouseName = warehouses?.find((warehouse) => warehouse.id === stocktake?.warehouseId)?.name ?? "—";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/stocktakes" data-testid="link-back-to-stocktakes">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            {isLoading || !stocktake ? (
+              <Skeleton className="h-8 w-48" />
+            ) : (
+              <>
+                <div className="flex items-center gap-2">
+                  <h1 className="text-3xl font-semibold" data-testid="text-stocktake-title">
+                    {warehouseName}
+                  </h1>
+                  <Badge variant={stocktakeStatusVariants[stocktake.status]}>
+                    {stocktakeStatusLabels[stocktake.status]}
+                  </Badge>
+                </div>
+                <p className="text-muted-foreground">
+                  {stocktakeScopeLabel(stocktake)} · started {new Date(stocktake.createdAt).toLocaleString()}
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+        {isCounting && (
+          <Button variant="outline" onClick={() => setIsCancelOpen(true)} data-testid="button-cancel-stocktake">
+            Cancel Stocktake
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Counted</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-stocktake-counted">
+              {counted.length} / {lines.length}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Variances</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-stocktake-variances">{varianceLines.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Net Variance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-stocktake-net">
+              {varianceLines.reduce((sum, line) => sum + (variance(line) ?? 0), 0)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs value={view} onValueChange={(value) => setView(value as View)}>
+        <TabsList>
+          <TabsTrigger value="count" data-testid="tab-stocktake-count">
+            Count
+          </TabsTrigger>
+          <TabsTrigger value="review" data-testid="tab-stocktake-review">
+            Review Variances
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {view === "count" ? (
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search SKU, name or location..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+              data-testid="input-stocktake-search"
+            />
+          </div>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : countLines.length === 0 ? (
+            <div className="py-16 text-center text-sm text-muted-foreground">No lines match your search</div>
+          ) : (
+            countLines.map((line) => (
+              <Card key={line.id} data-testid={`card-stocktake-line-${line.id}`}>
+                <CardContent className="flex items-center justify-between gap-4 p-4">
+                  <div className="min-w-0">
+                    <div className="truncate font-medium">{line.itemName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      <span className="font-mono">{line.sku}</span>
+                      {line.location && ` · ${line.location}`}
+                      {` · expected ${line.expectedQuantity} ${line.unit}`}
+                    </div>
+                  </div>
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    min={0}
+                    step={1}
+                    className="h-12 w-28 shrink-0 text-right text-lg"
+                    placeholder="—"
+                    disabled={!isCounting}
+                    value={drafts[line.id] ?? (line.countedQuantity === null ? "" : String(line.countedQuantity))}
+                    onChange={(e) => setDrafts((current) => ({ ...current, [line.id]: e.target.value }))}
+                    onBlur={() => saveCount(line)}
+                    onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                    data-testid={`input-count-${line.id}`}
+                  />
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            {varianceLines.length === 0 ? (
+              <div className="py-16 text-center text-sm text-muted-foreground">No counted line differs from its expected quantity</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {varianceLines.map((line) => {
+                    const approval = approvalFor(line);
+                    const isPosted = line.postedQuantity !== null;
+                    const change = variance(line) ?? 0;
+                    return (
+                      <TableRow key={line.id} data-testid={`row-variance-${line.id}`}>
+                        <TableCell>
+                          <Checkbox
+                            checked={isPosted || approval.approved}
+                            disabled={!isCounting || isPosted}
+                            onCheckedChange={(checked) =>
+                              setApprovals((current) => ({ ...current, [line.id]: { ...approval, approved: checked === true } }))
+                            }
+                            data-testid={`checkbox-approve-${line.id}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{line.itemName}</div>
+                          <div className="font-mono text-xs text-muted-foreground">{line.sku}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{line.expectedQuantity}</TableCell>
+                        <TableCell className="text-right">{line.countedQuantity}</TableCell>
+                        <TableCell className={`text-right font-semibold ${change < 0 ? "text-destructive" : ""}`}>
+                          {change > 0 ? `+${change}` : change} {line.unit}
+                        </TableCell>
+                        <TableCell>
+                          {isPosted ? (
+                            <span className="text-sm">
+                              {line.reasonCode ? adjustmentReasonLabels[line.reasonCode] : "—"} · posted{" "}
+                              {line.postedQuantity! > 0 ? `+${line.postedQuantity}` : line.postedQuantity}
+                            </span>
+                          ) : (
+                            <Select
+                              value={approval.reasonCode}
+                              disabled={!isCounting}
+                              onValueChange={(value) =>
+                                setApprovals((current) => ({
+                                  ...current,
+                                  [line.id]: { ...approval, reasonCode: value as AdjustmentReason },
+                                }))
+                              }
+                            >
+                              <SelectTrigger className="w-44" data-testid={`select-reason-${line.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {adjustmentReasons.map((reason) => (
+                                  <SelectItem key={reason} value={reason}>
+                                    {adjustmentReasonLabels[reason]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+          {isCounting && (
+            <div className="flex items-center justify-between gap-4 border-t p-4">
+              <p className="text-sm text-muted-foreground">
+                Posting closes the stocktake. Approved variances are applied to current stock; other lines are left
+                unchanged.
+              </p>
+              <Button
+                onClick={() =>
+                  postMutation.mutate(
+                    approved.map((line) => ({ lineId: line.id, reasonCode: approvalFor(line).reasonCode }))
+                  )
+                }
+                disabled={postMutation.isPending}
+                data-testid="button-post-stocktake"
+              >
+                {postMutation.isPending
+                  ? "Posting..."
+                  : approved.length === 0
+                    ? "Close Without Changes"
+                    : `Post ${approved.length} Approved`}
+              </Button>
+            </div>
+          )}
+        </Card>
+      )}
+
+      <Dialog open={isCancelOpen} onOpenChange={setIsCancelOpen}>
+        <DialogContent data-testid="dialog-cancel-stocktake">
+          <DialogHeader>
+            <DialogTitle>Cancel Stocktake</DialogTitle>
+            <DialogDescription>
+              Counts are kept for reference but no variances will be posted. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCancelOpen(false)} data-testid="button-keep-stocktake">
+              Keep Counting
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancelMutation.mutate()}
+              disabled={cancelMutation.isPending}
+              data-testid="button-confirm-cancel-stocktake"
+            >
+              {cancelMutation.isPending ? "Cancelling..." : "Cancel Stocktake"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ClipboardCheck, Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { StocktakeStatus, StocktakeWithLines, Warehouse } from "@shared/schema";
+
+export const stocktakeStatusLabels: Record<StocktakeStatus, string> = {
+  counting: "Counting",
+  posted: "Posted",
+  cancelled: "Cancelled",
+};
+
+export const stocktakeStatusVariants: Record<StocktakeStatus, "default" | "secondary" | "outline"> = {
+  counting: "default",
+  posted: "secondary",
+  cancelled: "outline",
+};
+
+export function stocktakeScopeLabel(stocktake: StocktakeWithLines) {
+  const parts = [stocktake.location && `Location ${stocktake.location}`, stocktake.category].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "Whole warehouse";
+}
+
+export default function Stocktakes() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const [statusFilter, setStatusFilter] = useState<StocktakeStatus | "all">("all");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [warehouseId, setWarehouseId] = useState("");
+  const [location, setScopeLocation] = useState("");
+  const [category, setCategory] = useState("all");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: stocktakes, isLoading } = useQuery<StocktakeWithLines[]>({
+    queryKey: ["/api/stocktakes"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: categories } = useQuery<string[]>({
+    queryKey: ["/api/inventory/categories"],
+    enabled: isAuthenticated,
+  });
+
+  const closeCreate = () => {
+    setIsCreateOpen(false);
+    setWarehouseId("");
+    setScopeLocation("");
+    setCategory("all");
+    setNotes("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/stocktakes", {
+        warehouseId,
+        location: location.trim() || undefined,
+        category: category === "all" ? undefined : category,
+        notes: notes.trim() || undefined,
+      });
+      return (await res.json()) as StocktakeWithLines;
+    },
+    onSuccess: (stocktake) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+      toast({
+        title: "Success",
+        description: `Stocktake started with ${stocktake.lines.length} lines to count`,
+      });
+      closeCreate();
+      setLocation(`/stocktakes/${stocktake.id}`);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorBody(error)?.message || "Failed to start stocktake",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const warehouseName = (id: string) => warehouses?.find((warehouse) => warehouse.id === id)?.name ?? "—";
+  const visible = (stocktakes ?? []).filter((stocktake) => statusFilter === "all" || stocktake.status === statusFilter);
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Stocktakes</h1>
+          <p className="text-muted-foreground">Count stock on hand and post the differences</p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create-stocktake">
+          <Plus className="mr-2 h-4 w-4" />
+          New Stocktake
+        </Button>
+      </div>
+
+      <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as StocktakeStatus | "all")}>
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          {(Object.keys(stocktakeStatusLabels) as StocktakeStatus[]).map((status) => (
+            <TabsTrigger key={status} value={status} data-testid={`tab-stocktakes-${status}`}>
+              {stocktakeStatusLabels[status]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="space-y-2 p-6">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : visible.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16">
+              <div className="flex h-20 w-20 items-center justify-center rounded-full bg-muted">
+                <ClipboardCheck className="h-10 w-10 text-muted-foreground" />
+              </div>
+              <h3 className="mt-6 text-lg font-medium">No stocktakes</h3>
+              <p className="mt-2 text-center text-sm text-muted-foreground">
+                Start a stocktake to count a warehouse, location or category
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Counted</TableHead>
+                  <TableHead className="text-right">Variances</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((stocktake) => {
+                  const counted = stocktake.lines.filter((line) => line.countedQuantity !== null);
+                  const variances = counted.filter((line) => line.countedQuantity !== line.expectedQuantity);
+                  return (
+                    <TableRow key={stocktake.id} data-testid={`row-stocktake-${stocktake.id}`}>
+                      <TableCell className="font-medium">{warehouseName(stocktake.warehouseId)}</TableCell>
+                      <TableCell>{stocktakeScopeLabel(stocktake)}</TableCell>
+                      <TableCell>
+                        <Badge variant={stocktakeStatusVariants[stocktake.status]}>
+                          {stocktakeStatusLabels[stocktake.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {counted.length} / {stocktake.lines.length}
+                      </TableCell>
+                      <TableCell className="text-right">{variances.length}</TableCell>
+                      <TableCell>{new Date(stocktake.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" asChild data-testid={`button-open-${stocktake.id}`}>
+                          <Link href={`/stocktakes/${stocktake.id}`}>
+                            {stocktake.status === "counting" ? "Count" : "View"}
+                          </Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateOpen} onOpenChange={(open) => !open && closeCreate()}>
+        <DialogContent data-testid="dialog-create-stocktake">
+          <DialogHeader>
+            <DialogTitle>New Stocktake</DialogTitle>
+            <DialogDescription>
+              Expected quantities are frozen when the stocktake starts; movements during counting are not lost.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Warehouse</Label>
+              <Select value={warehouseId} onValueChange={setWarehouseId}>
+                <SelectTrigger data-testid="select-stocktake-warehouse">
+                  <SelectValue placeholder="Select warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses?.map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="stocktake-location">Location</Label>
+                <Input
+                  id="stocktake-location"
+                  value={location}
+                  placeholder="All locations"
+                  onChange={(e) => setScopeLocation(e.target.value)}
+                  data-testid="input-stocktake-location"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger data-testid="select-stocktake-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All categories</SelectItem>
+                    {categories?.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stocktake-notes">Notes</Label>
+              <Textarea
+                id="stocktake-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="input-stocktake-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeCreate} data-testid="button-cancel-stocktake">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!warehouseId || createMutation.isPending}
+              data-testid="button-start-stocktake"
+            >
+              {createMutation.isPending ? "Starting..." : "Start Counting"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
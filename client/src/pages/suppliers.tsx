@@ -0,0 +1,353 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Building2, Edit, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertSupplierSchema, type InsertSupplier, type Supplier } from "@shared/schema";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+const emptySupplier: InsertSupplier = {
+  name: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  address: "",
+  notes: "",
+};
+
+const textFields = [
+  { name: "contactName", label: "Contact", placeholder: "Jane Doe" },
+  { name: "email", label: "Email", placeholder: "orders@supplier.com" },
+  { name: "phone", label: "Phone", placeholder: "+1 555 0100" },
+] as const;
+
+export default function Suppliers() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [deletingSupplier, setDeletingSupplier] = useState<Supplier | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: suppliers, isLoading } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+    enabled: isAuthenticated,
+  });
+
+  const form = useForm<InsertSupplier>({
+    resolver: zodResolver(insertSupplierSchema),
+    defaultValues: emptySupplier,
+  });
+
+  const closeForm = () => {
+    setIsCreateOpen(false);
+    setEditingSupplier(null);
+    form.reset(emptySupplier);
+  };
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorBody(error)?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertSupplier) => {
+      if (editingSupplier) {
+        await apiRequest("PATCH", `/api/suppliers/${editingSupplier.id}`, data);
+      } else {
+        await apiRequest("POST", "/api/suppliers", data);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({
+        title: "Success",
+        description: editingSupplier ? "Supplier updated successfully" : "Supplier created successfully",
+      });
+      closeForm();
+    },
+    onError: handleError("Failed to save supplier"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/suppliers/${id}`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      setDeletingSupplier(null);
+      toast({
+        title: "Success",
+        description: "Supplier deleted successfully",
+      });
+    },
+    onError: handleError("Failed to delete supplier"),
+  });
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    form.reset({
+      name: supplier.name,
+      contactName: supplier.contactName || "",
+      email: supplier.email || "",
+      phone: supplier.phone || "",
+      address: supplier.address || "",
+      notes: supplier.notes || "",
+    });
+  };
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Suppliers</h1>
+          <p className="text-muted-foreground">Vendors that purchase orders are placed with</p>
+        </div>
+        <Button
+          onClick={() => {
+            form.reset(emptySupplier);
+            setIsCreateOpen(true);
+          }}
+          data-testid="button-create-supplier"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Supplier
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="space-y-2 p-6">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !suppliers || suppliers.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16">
+              <div className="flex h-20 w-20 items-center justify-center rounded-full bg-muted">
+                <Building2 className="h-10 w-10 text-muted-foreground" />
+              </div>
+              <h3 className="mt-6 text-lg font-medium">No suppliers yet</h3>
+              <p className="mt-2 text-center text-sm text-muted-foreground">
+                Add a supplier to start placing purchase orders
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suppliers.map((supplier) => (
+                  <TableRow key={supplier.id} data-testid={`row-supplier-${supplier.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{supplier.name}</div>
+                      {supplier.address && (
+                        <div className="line-clamp-1 text-xs text-muted-foreground">{supplier.address}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{supplier.contactName || "—"}</TableCell>
+                    <TableCell>{supplier.email || "—"}</TableCell>
+                    <TableCell>{supplier.phone || "—"}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleEdit(supplier)}
+                          data-testid={`button-edit-${supplier.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeletingSupplier(supplier)}
+                          data-testid={`button-delete-${supplier.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateOpen || !!editingSupplier} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent data-testid="dialog-supplier-form">
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? "Edit Supplier" : "Create Supplier"}</DialogTitle>
+            <DialogDescription>
+              {editingSupplier ? `Update ${editingSupplier.name}` : "Add a supplier to order stock from"}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Supplier name" {...field} data-testid="input-supplier-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid gap-4 md:grid-cols-3">
+                {textFields.map(({ name, label, placeholder }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder={placeholder}
+                            {...field}
+                            value={field.value || ""}
+                            data-testid={`input-supplier-${name}`}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ""} data-testid="input-supplier-address" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} value={field.value || ""} data-testid="input-supplier-notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeForm} data-testid="button-cancel-supplier">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-supplier">
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deletingSupplier} onOpenChange={(open) => !open && setDeletingSupplier(null)}>
+        <DialogContent data-testid="dialog-delete-supplier">
+          <DialogHeader>
+            <DialogTitle>Delete Supplier</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete "{deletingSupplier?.name}"? Suppliers with purchase orders cannot be
+              deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingSupplier(null)} data-testid="button-cancel-delete">
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deletingSupplier && deleteMutation.mutate(deletingSupplier.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,1035 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { parseTsv, toTsv } from "@/lib/clipboard";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { TableImportDialog } from "@/components/table-import-dialog";
+import {
+  ArrowLeft,
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  MoreVertical,
+  Pencil,
+  Plus,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { cn } from "@/lib/utils";
+import type { InventoryItem, Table, TableRow } from "@shared/schema";
+import { tableColumnTypes, type TableColumn, type TableColumnType } from "@shared/table-columns";
+
+const PAGE_SIZE = 100;
+
+interface RowsPage {
+  rows: TableRow[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+interface CellPosition {
+  row: number;
+  col: number;
+}
+
+interface NewRowForm {
+  afterRowId?: string;
+  data: Record<string, unknown>;
+}
+
+interface ColumnForm {
+  id?: string;
+  name: string;
+  type: TableColumnType;
+  required: boolean;
+  options: string;
+}
+
+const columnTypeLabels: Record<TableColumnType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  boolean: "Yes / No",
+  enum: "Choice list",
+  reference: "Inventory item",
+};
+
+function formatCellValue(column: TableColumn, value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (column.type === "date" && typeof value === "string") return value.slice(0, 10);
+  if (column.type === "boolean") return value ? "true" : "false";
+  return String(value);
+}
+
+export default function TableEditor() {
+  const { id: tableId } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [page, setPage] = useState(1);
+  const [active, setActive] = useState<CellPosition | null>(null);
+  const [anchor, setAnchor] = useState<CellPosition | null>(null);
+  const [editing, setEditing] = useState<CellPosition | null>(null);
+  const [draft, setDraft] = useState("");
+  const [columnForm, setColumnForm] = useState<ColumnForm | null>(null);
+  const [newRow, setNewRow] = useState<NewRowForm | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const tableKey = ["/api/tables", tableId];
+  const rowsKey = ["/api/tables", tableId, `rows?page=${page}&limit=${PAGE_SIZE}`];
+
+  const { data: table, isLoading: tableLoading } = useQuery<Table>({
+    queryKey: tableKey,
+    enabled: isAuthenticated,
+  });
+
+  const { data: rowsPage, isLoading: rowsLoading } = useQuery<RowsPage>({
+    queryKey: rowsKey,
+    enabled: isAuthenticated,
+  });
+
+  const columns = table?.columnsMetadata?.columns ?? [];
+  const rows = rowsPage?.rows ?? [];
+  const total = rowsPage?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasReferenceColumn = columns.some((column) => column.type === "reference");
+
+  const { data: inventoryItems } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory", "sort=name&limit=500"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/inventory?sort=name&limit=500");
+      return (await res.json()).items;
+    },
+    enabled: isAuthenticated && hasReferenceColumn,
+  });
+
+  const inventoryLabels = useMemo(
+    () => new Map((inventoryItems ?? []).map((item) => [item.id, `${item.name} (${item.sku})`])),
+    [inventoryItems]
+  );
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+
+    const body = getApiErrorBody(error);
+    const fieldErrors: Record<string, string[]> = body?.errors?.fieldErrors ?? {};
+    const details = [
+      ...(body?.errors?.formErrors ?? []),
+      ...Object.entries(fieldErrors).map(
+        ([columnId, messages]) =>
+          `${columns.find((column) => column.id === columnId)?.name ?? columnId}: ${messages.join(", ")}`
+      ),
+    ];
+    toast({
+      title: "Error",
+      description: details.length > 0 ? details.join("; ") : body?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const updateRowMutation = useMutation({
+    mutationFn: async ({ rowId, data }: { rowId: string; data: Record<string, unknown> }) => {
+      const res = await apiRequest("PATCH", `/api/tables/${tableId}/rows/${rowId}`, { data });
+      return (await res.json()) as TableRow;
+    },
+    onMutate: async ({ rowId, data }) => {
+      await queryClient.cancelQueries({ queryKey: rowsKey });
+      const previous = queryClient.getQueryData<RowsPage>(rowsKey);
+      queryClient.setQueryData<RowsPage>(rowsKey, (current) =>
+        current && {
+          ...current,
+          rows: current.rows.map((row) =>
+            row.id === rowId ? { ...row, data: { ...row.data, ...data } } : row
+          ),
+        }
+      );
+      return { previous };
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData<RowsPage>(rowsKey, (current) =>
+        current && {
+          ...current,
+          rows: current.rows.map((row) => (row.id === saved.id ? saved : row)),
+        }
+      );
+    },
+    onError: (error: Error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(rowsKey, context.previous);
+      }
+      handleError(error, "Failed to save cell");
+    },
+  });
+
+  const createRowMutation = useMutation({
+    mutationFn: async ({ afterRowId, data }: NewRowForm) => {
+      await apiRequest("POST", `/api/tables/${tableId}/rows`, { data, afterRowId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tables", tableId] });
+      setNewRow(null);
+    },
+    onError: (error: Error) => handleError(error, "Failed to insert row"),
+  });
+
+  const bulkCreateMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>[]) => {
+      await apiRequest("POST", `/api/tables/${tableId}/rows/bulk`, {
+        rows: data.map((rowData) => ({ data: rowData })),
+      });
+    },
+    onSuccess: (_result, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tables", tableId] });
+      toast({
+        title: "Success",
+        description: `Added ${data.length} row(s)`,
+      });
+    },
+    onError: (error: Error) => {
+      const body = getApiErrorBody(error);
+      if (Array.isArray(body?.errors)) {
+        toast({
+          title: "Error",
+          description: `${body.errors.length} pasted row(s) failed validation. No rows were added.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      handleError(error, "Failed to add rows");
+    },
+  });
+
+  const deleteRowMutation = useMutation({
+    mutationFn: async (rowId: string) => {
+      await apiRequest("DELETE", `/api/tables/${tableId}/rows/${rowId}`, {});
+    },
+    onMutate: async (rowId) => {
+      await queryClient.cancelQueries({ queryKey: rowsKey });
+      const previous = queryClient.getQueryData<RowsPage>(rowsKey);
+      queryClient.setQueryData<RowsPage>(rowsKey, (current) =>
+        current && {
+          ...current,
+          total: current.total - 1,
+          rows: current.rows.filter((row) => row.id !== rowId),
+        }
+      );
+      return { previous };
+    },
+    onError: (error: Error, _rowId, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(rowsKey, context.previous);
+      }
+      handleError(error, "Failed to delete row");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tables", tableId] });
+    },
+  });
+
+  const updateColumnsMutation = useMutation({
+    mutationFn: async (nextColumns: Array<Omit<TableColumn, "id"> & { id?: string }>) => {
+      const res = await apiRequest("PATCH", `/api/tables/${tableId}`, {
+        columnsMetadata: { columns: nextColumns },
+      });
+      return (await res.json()) as Table;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(tableKey, saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
+      setColumnForm(null);
+    },
+    onError: (error: Error) => handleError(error, "Failed to update columns"),
+  });
+
+  const selection = useMemo(() => {
+    if (!active) return null;
+    const start = anchor ?? active;
+    return {
+      top: Math.min(start.row, active.row),
+      bottom: Math.max(start.row, active.row),
+      left: Math.min(start.col, active.col),
+      right: Math.max(start.col, active.col),
+    };
+  }, [active, anchor]);
+
+  useEffect(() => {
+    if (!active) return;
+    gridRef.current
+      ?.querySelector(`[data-cell="${active.row}-${active.col}"]`)
+      ?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }, [active]);
+
+  const focusGrid = () => gridRef.current?.focus();
+
+  const moveTo = (row: number, col: number, extend = false) => {
+    if (rows.length === 0 || columns.length === 0) return;
+    const next = {
+      row: Math.min(Math.max(row, 0), rows.length - 1),
+      col: Math.min(Math.max(col, 0), columns.length - 1),
+    };
+    if (extend) {
+      setAnchor((current) => current ?? active);
+    } else {
+      setAnchor(null);
+    }
+    setActive(next);
+  };
+
+  const startEditing = (position: CellPosition, initial?: string) => {
+    const column = columns[position.col];
+    const row = rows[position.row];
+    if (!column || !row) return;
+    if (column.type === "boolean") {
+      saveCell(position, !row.data[column.id]);
+      return;
+    }
+    setEditing(position);
+    setDraft(initial ?? formatCellValue(column, row.data[column.id]));
+  };
+
+  const saveCell = (position: CellPosition, value: unknown) => {
+    const column = columns[position.col];
+    const row = rows[position.row];
+    if (!column || !row) return;
+    if (formatCellValue(column, row.data[column.id]) === formatCellValue(column, value)) return;
+    updateRowMutation.mutate({
+      rowId: row.id,
+      data: { [column.id]: value === "" ? null : value },
+    });
+  };
+
+  const commitEdit = (move?: { row: number; col: number }) => {
+    if (!editing) return;
+    saveCell(editing, draft);
+    setEditing(null);
+    if (move) moveTo(editing.row + move.row, editing.col + move.col);
+    focusGrid();
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    focusGrid();
+  };
+
+  const clearSelection = () => {
+    if (!selection) return;
+    for (let r = selection.top; r <= selection.bottom; r++) {
+      const row = rows[r];
+      if (!row) continue;
+      const data: Record<string, unknown> = {};
+      for (let c = selection.left; c <= selection.right; c++) {
+        const column = columns[c];
+        if (column && row.data[column.id] !== undefined && row.data[column.id] !== null) {
+          data[column.id] = null;
+        }
+      }
+      if (Object.keys(data).length > 0) {
+        updateRowMutation.mutate({ rowId: row.id, data });
+      }
+    }
+  };
+
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (editing || !active) return;
+
+    switch (e.key) {
+      case "ArrowUp":
+        moveTo(active.row - 1, active.col, e.shiftKey);
+        break;
+      case "ArrowDown":
+        moveTo(active.row + 1, active.col, e.shiftKey);
+        break;
+      case "ArrowLeft":
+        moveTo(active.row, active.col - 1, e.shiftKey);
+        break;
+      case "ArrowRight":
+        moveTo(active.row, active.col + 1, e.shiftKey);
+        break;
+      case "Tab":
+        moveTo(active.row, active.col + (e.shiftKey ? -1 : 1));
+        break;
+      case "Enter":
+      case "F2":
+        startEditing(active);
+        break;
+      case "Delete":
+      case "Backspace":
+        clearSelection();
+        break;
+      case "Escape":
+        setAnchor(null);
+        break;
+      default:
+        if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+          startEditing(active, e.key);
+          break;
+        }
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      commitEdit({ row: 1, col: 0 });
+    } else if (e.key === "Tab") {
+      e.preventDefault();
+      commitEdit({ row: 0, col: e.shiftKey ? -1 : 1 });
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      cancelEdit();
+    }
+  };
+
+  const handleCopy = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (editing || !selection) return;
+    const cells: string[][] = [];
+    for (let r = selection.top; r <= selection.bottom; r++) {
+      const line: string[] = [];
+      for (let c = selection.left; c <= selection.right; c++) {
+        const column = columns[c];
+        line.push(column ? formatCellValue(column, rows[r]?.data[column.id]) : "");
+      }
+      cells.push(line);
+    }
+    e.clipboardData.setData("text/plain", toTsv(cells));
+    e.preventDefault();
+  };
+
+  // Pasting a range overwrites cells starting at the active cell; lines that
+  // run past the last row on this page are appended as new rows.
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (editing || !active) return;
+    const cells = parseTsv(e.clipboardData.getData("text/plain"));
+    if (cells.length === 0) return;
+    e.preventDefault();
+
+    const newRows: Record<string, unknown>[] = [];
+    cells.forEach((line, offset) => {
+      const data: Record<string, unknown> = {};
+      line.forEach((value, c) => {
+        const column = columns[active.col + c];
+        if (column) data[column.id] = value === "" ? null : value;
+      });
+      if (Object.keys(data).length === 0) return;
+
+      const row = rows[active.row + offset];
+      if (row) {
+        updateRowMutation.mutate({ rowId: row.id, data });
+      } else {
+        newRows.push(data);
+      }
+    });
+
+    if (newRows.length > 0) {
+      bulkCreateMutation.mutate(newRows);
+    }
+    setAnchor({ row: active.row, col: active.col });
+    setActive({
+      row: Math.min(active.row + cells.length - 1, Math.max(rows.length - 1, 0)),
+      col: Math.min(active.col + Math.max(...cells.map((line) => line.length)) - 1, columns.length - 1),
+    });
+  };
+
+  // Blank rows would fail validation when a column is required, so those
+  // tables collect the new row's values in a dialog first.
+  const requestNewRow = (afterRowId?: string) => {
+    if (columns.some((column) => column.validation.required)) {
+      setNewRow({ afterRowId, data: {} });
+    } else {
+      createRowMutation.mutate({ afterRowId, data: {} });
+    }
+  };
+
+  const moveColumn = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= columns.length) return;
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateColumnsMutation.mutate(next);
+  };
+
+  const deleteColumn = (index: number) => {
+    updateColumnsMutation.mutate(columns.filter((_, i) => i !== index));
+    setActive(null);
+    setAnchor(null);
+  };
+
+  const saveColumnForm = () => {
+    if (!columnForm) return;
+    const column = {
+      name: columnForm.name.trim(),
+      type: columnForm.type,
+      validation: {
+        required: columnForm.required,
+        ...(columnForm.type === "enum" && {
+          options: columnForm.options
+            .split(",")
+            .map((option) => option.trim())
+            .filter(Boolean),
+        }),
+      },
+    };
+    updateColumnsMutation.mutate(
+      columnForm.id
+        ? columns.map((existing) =>
+            existing.id === columnForm.id
+              ? { ...existing, ...column, validation: { ...existing.validation, ...column.validation } }
+              : existing
+          )
+        : [...columns, column]
+    );
+  };
+
+  const renderCellContent = (column: TableColumn, value: unknown) => {
+    if (value === null || value === undefined || value === "") {
+      return <span className="text-muted-foreground">&nbsp;</span>;
+    }
+    switch (column.type) {
+      case "boolean":
+        return <Checkbox checked={!!value} tabIndex={-1} className="pointer-events-none" />;
+      case "date":
+        return new Date(String(value)).toLocaleDateString();
+      case "reference":
+        return inventoryLabels.get(String(value)) ?? <span className="font-mono text-xs">{String(value)}</span>;
+      case "number":
+        return <span className="block text-right tabular-nums">{String(value)}</span>;
+      default:
+        return String(value);
+    }
+  };
+
+  const renderEditor = (column: TableColumn) => {
+    const editorClass =
+      "h-full w-full rounded-none border-0 bg-background px-2 text-sm outline-none ring-2 ring-inset ring-primary";
+
+    if (column.type === "enum" || column.type === "reference") {
+      const options =
+        column.type === "enum"
+          ? (column.validation.options ?? []).map((option) => ({ value: option, label: option }))
+          : (inventoryItems ?? []).map((item) => ({ value: item.id, label: `${item.name} (${item.sku})` }));
+      return (
+        <select
+          autoFocus
+          className={editorClass}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => commitEdit()}
+          onKeyDown={handleEditorKeyDown}
+          data-testid="cell-editor"
+        >
+          <option value="" />
+          {options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        autoFocus
+        type={column.type === "date" ? "date" : "text"}
+        inputMode={column.type === "number" ? "decimal" : undefined}
+        className={editorClass}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => commitEdit()}
+        onKeyDown={handleEditorKeyDown}
+        data-testid="cell-editor"
+      />
+    );
+  };
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  if (!tableLoading && !table) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-16">
+          <h3 className="text-lg font-medium">Table not found</h3>
+          <Button variant="outline" asChild className="mt-6">
+            <Link href="/tables">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to tables
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/tables" data-testid="link-back-to-tables">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            {tableLoading ? (
+              <Skeleton className="h-8 w-48" />
+            ) : (
+              <h1 className="text-3xl font-semibold" data-testid="text-table-name">{table?.name}</h1>
+            )}
+            <p className="text-muted-foreground">
+              Click a cell or use the arrow keys to navigate. Enter edits, Ctrl+C / Ctrl+V copy and paste ranges.
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsImportOpen(true)}
+            disabled={columns.length === 0}
+            data-testid="button-import-csv"
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Import CSV
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/tables/${tableId}/export`} download data-testid="button-export-csv">
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setColumnForm({ name: "", type: "text", required: false, options: "" })}
+            data-testid="button-add-column"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Column
+          </Button>
+          <Button
+            onClick={() => requestNewRow()}
+            disabled={columns.length === 0 || createRowMutation.isPending}
+            data-testid="button-add-row"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Row
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {tableLoading || rowsLoading ? (
+            <div className="space-y-2 p-6">
+              {[1, 2, 3, 4].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : columns.length === 0 ? (
+            <p className="py-16 text-center text-sm text-muted-foreground">
+              This table has no columns yet. Add a column to start entering data.
+            </p>
+          ) : (
+            <div
+              ref={gridRef}
+              tabIndex={0}
+              role="grid"
+              aria-rowcount={total}
+              aria-colcount={columns.length}
+              className="max-h-[70vh] overflow-auto outline-none"
+              onKeyDown={handleGridKeyDown}
+              onCopy={handleCopy}
+              onPaste={handlePaste}
+              data-testid="grid-table"
+            >
+              <table className="w-full border-collapse text-sm">
+                <thead className="sticky top-0 z-10 bg-muted">
+                  <tr>
+                    <th className="w-12 border-b border-r px-2 py-2 text-xs font-medium text-muted-foreground">#</th>
+                    {columns.map((column, index) => (
+                      <th
+                        key={column.id}
+                        className="min-w-40 border-b border-r px-2 py-1 text-left font-medium"
+                        data-testid={`header-column-${column.id}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="truncate">
+                            {column.name}
+                            {column.validation.required && <span className="text-destructive"> *</span>}
+                            <span className="ml-2 text-xs font-normal text-muted-foreground">
+                              {columnTypeLabels[column.type]}
+                            </span>
+                          </div>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-7 w-7" data-testid={`button-column-menu-${column.id}`}>
+                                <MoreVertical className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  setColumnForm({
+                                    id: column.id,
+                                    name: column.name,
+                                    type: column.type,
+                                    required: !!column.validation.required,
+                                    options: (column.validation.options ?? []).join(", "),
+                                  })
+                                }
+                              >
+                                <Pencil className="mr-2 h-4 w-4" />
+                                Rename / edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem disabled={index === 0} onClick={() => moveColumn(index, -1)}>
+                                <ArrowLeftToLine className="mr-2 h-4 w-4" />
+                                Move left
+                              </DropdownMenuItem>
+                              <DropdownMenuItem disabled={index === columns.length - 1} onClick={() => moveColumn(index, 1)}>
+                                <ArrowRightToLine className="mr-2 h-4 w-4" />
+                                Move right
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem className="text-destructive" onClick={() => deleteColumn(index)}>
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete column
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={columns.length + 1} className="py-12 text-center text-muted-foreground">
+                        No rows yet. Add a row or paste a range from a spreadsheet.
+                      </td>
+                    </tr>
+                  ) : (
+                    rows.map((row, rowIndex) => (
+                      <tr key={row.id} data-testid={`row-${row.id}`}>
+                        <td className="group border-b border-r px-1 text-center text-xs text-muted-foreground">
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <button
+                                type="button"
+                                className="w-full py-2"
+                                data-testid={`button-row-menu-${row.id}`}
+                              >
+                                {(page - 1) * PAGE_SIZE + rowIndex + 1}
+                              </button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="start">
+                              <DropdownMenuItem onClick={() => requestNewRow(row.id)}>
+                                <Plus className="mr-2 h-4 w-4" />
+                                Insert row below
+                              </DropdownMenuItem>
+                              <DropdownMenuItem className="text-destructive" onClick={() => deleteRowMutation.mutate(row.id)}>
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete row
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </td>
+                        {columns.map((column, colIndex) => {
+                          const isActive = active?.row === rowIndex && active?.col === colIndex;
+                          const isSelected =
+                            !!selection &&
+                            rowIndex >= selection.top &&
+                            rowIndex <= selection.bottom &&
+                            colIndex >= selection.left &&
+                            colIndex <= selection.right;
+                          const isEditing = editing?.row === rowIndex && editing?.col === colIndex;
+
+                          return (
+                            <td
+                              key={column.id}
+                              role="gridcell"
+                              data-cell={`${rowIndex}-${colIndex}`}
+                              className={cn(
+                                "h-9 max-w-xs cursor-cell truncate border-b border-r px-2",
+                                isSelected && "bg-primary/10",
+                                isActive && !isEditing && "ring-2 ring-inset ring-primary",
+                                isEditing && "p-0"
+                              )}
+                              onMouseDown={(e) => {
+                                if (isEditing) return;
+                                e.preventDefault();
+                                if (editing) commitEdit();
+                                moveTo(rowIndex, colIndex, e.shiftKey);
+                                focusGrid();
+                              }}
+                              onDoubleClick={() => startEditing({ row: rowIndex, col: colIndex })}
+                            >
+                              {isEditing ? renderEditor(column) : renderCellContent(column, row.data[column.id])}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span data-testid="text-row-count">{total} row(s)</span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={page <= 1}
+            onClick={() => {
+              setPage(page - 1);
+              setActive(null);
+              setAnchor(null);
+            }}
+            data-testid="button-previous-page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>
+            Page {page} of {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={page >= pageCount}
+            onClick={() => {
+              setPage(page + 1);
+              setActive(null);
+              setAnchor(null);
+            }}
+            data-testid="button-next-page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {table && (
+        <TableImportDialog table={table} open={isImportOpen} onOpenChange={setIsImportOpen} />
+      )}
+
+      <Dialog open={!!newRow} onOpenChange={(open) => !open && setNewRow(null)}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-new-row">
+          <DialogHeader>
+            <DialogTitle>New Row</DialogTitle>
+            <DialogDescription>Fill in the required columns to add the row</DialogDescription>
+          </DialogHeader>
+          {newRow && (
+            <div className="grid gap-4 md:grid-cols-2">
+              {columns.map((column) => {
+                const value = newRow.data[column.id];
+                const setValue = (next: unknown) =>
+                  setNewRow({ ...newRow, data: { ...newRow.data, [column.id]: next } });
+
+                return (
+                  <div key={column.id}>
+                    <Label>
+                      {column.name}
+                      {column.validation.required && <span className="text-destructive"> *</span>}
+                    </Label>
+                    {column.type === "boolean" ? (
+                      <div className="flex h-9 items-center">
+                        <Checkbox
+                          checked={!!value}
+                          onCheckedChange={(checked) => setValue(checked === true)}
+                          data-testid={`new-row-${column.id}`}
+                        />
+                      </div>
+                    ) : column.type === "enum" || column.type === "reference" ? (
+                      <Select value={(value as string) ?? ""} onValueChange={setValue}>
+                        <SelectTrigger data-testid={`new-row-${column.id}`}>
+                          <SelectValue placeholder="Select..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {column.type === "enum"
+                            ? (column.validation.options ?? []).map((option) => (
+                                <SelectItem key={option} value={option}>
+                                  {option}
+                                </SelectItem>
+                              ))
+                            : (inventoryItems ?? []).map((item) => (
+                                <SelectItem key={item.id} value={item.id}>
+                                  {item.name} ({item.sku})
+                                </SelectItem>
+                              ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        type={column.type === "date" ? "date" : "text"}
+                        inputMode={column.type === "number" ? "decimal" : undefined}
+                        value={(value as string) ?? ""}
+                        onChange={(e) => setValue(e.target.value)}
+                        data-testid={`new-row-${column.id}`}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewRow(null)} data-testid="button-cancel-new-row">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => newRow && createRowMutation.mutate(newRow)}
+              disabled={createRowMutation.isPending}
+              data-testid="button-save-new-row"
+            >
+              {createRowMutation.isPending ? "Adding..." : "Add Row"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!columnForm} onOpenChange={(open) => !open && setColumnForm(null)}>
+        <DialogContent data-testid="dialog-column-form">
+          <DialogHeader>
+            <DialogTitle>{columnForm?.id ? "Edit Column" : "Add Column"}</DialogTitle>
+            <DialogDescription>
+              {columnForm?.id
+                ? "Renaming a column keeps the data already stored in it"
+                : "Define the name and type of the new column"}
+            </DialogDescription>
+          </DialogHeader>
+          {columnForm && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="column-name">Name</Label>
+                <Input
+                  id="column-name"
+                  value={columnForm.name}
+                  onChange={(e) => setColumnForm({ ...columnForm, name: e.target.value })}
+                  data-testid="input-column-name"
+                />
+              </div>
+              <div>
+                <Label>Type</Label>
+                <Select
+                  value={columnForm.type}
+                  onValueChange={(type) => setColumnForm({ ...columnForm, type: type as TableColumnType })}
+                >
+                  <SelectTrigger data-testid="select-column-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tableColumnTypes.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {columnTypeLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {columnForm.type === "enum" && (
+                <div>
+                  <Label htmlFor="column-options">Options</Label>
+                  <Input
+                    id="column-options"
+                    placeholder="Comma separated"
+                    value={columnForm.options}
+                    onChange={(e) => setColumnForm({ ...columnForm, options: e.target.value })}
+                    data-testid="input-column-options"
+                  />
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={columnForm.required}
+                  onCheckedChange={(checked) => setColumnForm({ ...columnForm, required: checked === true })}
+                  data-testid="checkbox-column-required"
+                />
+                Required
+              </label>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setColumnForm(null)} data-testid="button-cancel-column">
+              Cancel
+            </Button>
+            <Button
+              onClick={saveColumnForm}
+              disabled={
+                !columnForm?.name.trim() ||
+                (columnForm.type === "enum" && !columnForm.options.trim()) ||
+                updateColumnsMutation.isPending
+              }
+              data-testid="button-save-column"
+            >
+              {updateColumnsMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
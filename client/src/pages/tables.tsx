@@ -7,8 +7,9 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/componen
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Table2, FileText, Trash2, Download } from "lucide-react";
+import { Plus, Table2, FileText, Trash2, Download, X, Grid3x3 } from "lucide-react";
 import type { Table } from "@shared/schema";
+import { tableColumnTypes, type TableColumnType } from "@shared/table-columns";
 import {
   Dialog,
   DialogContent,
@@ -19,13 +20,46 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { Link } from "wouter";
+
+interface ColumnDraft {
+  name: string;
+  type: TableColumnType;
+  required: boolean;
+  options: string;
+}
+
+const columnTypeLabels: Record<TableColumnType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  boolean: "Yes / No",
+  enum: "Choice list",
+  reference: "Inventory item",
+};
+
+const emptyColumn = (index: number): ColumnDraft => ({
+  name: `Column ${index}`,
+  type: "text",
+  required: false,
+  options: "",
+});
 
 export default function Tables() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [newTableName, setNewTableName] = useState("");
+  const [columnDrafts, setColumnDrafts] = useState<ColumnDraft[]>([emptyColumn(1)]);
   const [deletingTable, setDeletingTable] = useState<Table | null>(null);
 
   useEffect(() => {
@@ -47,17 +81,29 @@ export default function Tables() {
   });
 
   const createMutation = useMutation({
-    mutationFn: async (name: string) => {
+    mutationFn: async ({ name, columns }: { name: string; columns: ColumnDraft[] }) => {
       await apiRequest("POST", "/api/tables", {
         name,
-        columnsMetadata: { columns: [{ name: "Column 1", type: "text", validation: {} }] },
-        sourceType: "manual",
+        columnsMetadata: {
+          columns: columns.map((column) => ({
+            name: column.name.trim(),
+            type: column.type,
+            validation: {
+              required: column.required,
+              ...(column.type === "enum" && {
+                options: column.options
+                  .split(",")
+                  .map((option) => option.trim())
+                  .filter(Boolean),
+              }),
+            },
+          })),
+        },
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
-      setIsCreateOpen(false);
-      setNewTableName("");
+      resetCreateForm();
       toast({
         title: "Success",
         description: "Table created successfully",
@@ -77,7 +123,7 @@ export default function Tables() {
       }
       toast({
         title: "Error",
-        description: "Failed to create table",
+        description: error.message || "Failed to create table",
         variant: "destructive",
       });
     },
@@ -115,24 +161,28 @@ export default function Tables() {
     },
   });
 
-  const handleCreateTable = () => {
-    if (newTableName.trim()) {
-      createMutation.mutate(newTableName);
-    }
+  const resetCreateForm = () => {
+    setIsCreateOpen(false);
+    setNewTableName("");
+    setColumnDrafts([emptyColumn(1)]);
   };
 
-  const getSourceTypeColor = (sourceType: string) => {
-    switch (sourceType) {
-      case "manual":
-        return "default";
-      case "ocr":
-        return "secondary";
-      case "auto_capture":
-        return "outline";
-      case "import":
-        return "outline";
-      default:
-        return "default";
+  const updateColumnDraft = (index: number, changes: Partial<ColumnDraft>) => {
+    setColumnDrafts((drafts) =>
+      drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft))
+    );
+  };
+
+  const canCreateTable =
+    newTableName.trim() !== "" &&
+    columnDrafts.length > 0 &&
+    columnDrafts.every(
+      (column) => column.name.trim() !== "" && (column.type !== "enum" || column.options.trim() !== "")
+    );
+
+  const handleCreateTable = () => {
+    if (canCreateTable) {
+      createMutation.mutate({ name: newTableName, columns: columnDrafts });
     }
   };
 
@@ -194,10 +244,8 @@ export default function Tables() {
               </CardHeader>
               <CardContent className="space-y-3">
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-muted-foreground">Source:</span>
-                  <Badge variant={getSourceTypeColor(table.sourceType)}>
-                    {table.sourceType.replace("_", " ")}
-                  </Badge>
+                  <span className="text-muted-foreground">Columns:</span>
+                  <Badge variant="outline">{table.columnsMetadata?.columns.length ?? 0}</Badge>
                 </div>
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-muted-foreground">Created:</span>
@@ -205,9 +253,17 @@ export default function Tables() {
                 </div>
               </CardContent>
               <CardFooter className="flex gap-2">
-                <Button variant="outline" size="sm" className="flex-1" data-testid={`button-export-${table.id}`}>
-                  <Download className="mr-2 h-4 w-4" />
-                  Export
+                <Button variant="outline" size="sm" asChild className="flex-1">
+                  <Link href={`/tables/${table.id}`} data-testid={`button-open-table-${table.id}`}>
+                    <Grid3x3 className="mr-2 h-4 w-4" />
+                    Open
+                  </Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild className="flex-1">
+                  <a href={`/api/tables/${table.id}/export`} download data-testid={`button-export-${table.id}`}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </a>
                 </Button>
                 <Button
                   variant="ghost"
@@ -223,8 +279,8 @@ export default function Tables() {
         </div>
       )}
 
-      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-        <DialogContent data-testid="dialog-create-table">
+      <Dialog open={isCreateOpen} onOpenChange={(open) => (open ? setIsCreateOpen(true) : resetCreateForm())}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-create-table">
           <DialogHeader>
             <DialogTitle>Create New Table</DialogTitle>
             <DialogDescription>
@@ -242,21 +298,82 @@ export default function Tables() {
                 data-testid="input-table-name"
               />
             </div>
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              {columnDrafts.map((column, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2" data-testid={`column-draft-${index}`}>
+                  <Input
+                    className="flex-1"
+                    placeholder="Column name"
+                    value={column.name}
+                    onChange={(e) => updateColumnDraft(index, { name: e.target.value })}
+                    data-testid={`input-column-name-${index}`}
+                  />
+                  <Select
+                    value={column.type}
+                    onValueChange={(type) => updateColumnDraft(index, { type: type as TableColumnType })}
+                  >
+                    <SelectTrigger className="w-40" data-testid={`select-column-type-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tableColumnTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {columnTypeLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={column.required}
+                      onCheckedChange={(checked) => updateColumnDraft(index, { required: checked === true })}
+                      data-testid={`checkbox-column-required-${index}`}
+                    />
+                    Required
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={columnDrafts.length === 1}
+                    onClick={() => setColumnDrafts((drafts) => drafts.filter((_, i) => i !== index))}
+                    data-testid={`button-remove-column-${index}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                  {column.type === "enum" && (
+                    <Input
+                      className="basis-full"
+                      placeholder="Options, comma separated"
+                      value={column.options}
+                      onChange={(e) => updateColumnDraft(index, { options: e.target.value })}
+                      data-testid={`input-column-options-${index}`}
+                    />
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setColumnDrafts((drafts) => [...drafts, emptyColumn(drafts.length + 1)])}
+                data-testid="button-add-column"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Column
+              </Button>
+            </div>
           </div>
           <DialogFooter>
             <Button
               variant="outline"
-              onClick={() => {
-                setIsCreateOpen(false);
-                setNewTableName("");
-              }}
+              onClick={resetCreateForm}
               data-testid="button-cancel-table"
             >
               Cancel
             </Button>
             <Button
               onClick={handleCreateTable}
-              disabled={!newTableName.trim() || createMutation.isPending}
+              disabled={!canCreateTable || createMutation.isPending}
               data-testid="button-save-table"
             >
               {createMutation.isPending ? "Creating..." : "Create"}
@@ -0,0 +1,629 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowRight, Plus, Trash2, Truck, PackageCheck, XCircle, Eye } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { adjustmentReasonLabels } from "@/components/stock-movement-dialog";
+import {
+  adjustmentReasons,
+  type AdjustmentReason,
+  type InventoryItem,
+  type TransferOrderStatus,
+  type TransferOrderWithLines,
+  type Warehouse,
+} from "@shared/schema";
+
+const statusVariants: Record<TransferOrderStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  draft: "outline",
+  shipped: "default",
+  received: "secondary",
+  cancelled: "destructive",
+};
+
+const statusLabels: Record<TransferOrderStatus, string> = {
+  draft: "Draft",
+  shipped: "In transit",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+type DraftLine = { inventoryItemId: string; quantity: string };
+type ReceiptDraft = { receivedQuantity: string; discrepancyReason?: AdjustmentReason };
+
+function formatDate(value: string | Date | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export default function Transfers() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<TransferOrderStatus | "all">("all");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [sourceWarehouseId, setSourceWarehouseId] = useState("");
+  const [destinationWarehouseId, setDestinationWarehouseId] = useState("");
+  const [draftLines, setDraftLines] = useState<DraftLine[]>([{ inventoryItemId: "", quantity: "" }]);
+  const [notes, setNotes] = useState("");
+  const [viewing, setViewing] = useState<TransferOrderWithLines | null>(null);
+  const [receipts, setReceipts] = useState<Record<string, ReceiptDraft>>({});
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: transfers, isLoading } = useQuery<TransferOrderWithLines[]>({
+    queryKey: ["/api/transfers"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: isAuthenticated,
+  });
+
+  const sourceQuery = `warehouseId=${sourceWarehouseId}&sort=name&limit=500`;
+  const { data: sourceItems } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory", sourceQuery],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/inventory?${sourceQuery}`);
+      return (await res.json()).items;
+    },
+    enabled: isAuthenticated && !!sourceWarehouseId,
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorBody(error)?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  const resetCreate = () => {
+    setIsCreateOpen(false);
+    setSourceWarehouseId("");
+    setDestinationWarehouseId("");
+    setDraftLines([{ inventoryItemId: "", quantity: "" }]);
+    setNotes("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/transfers", {
+        sourceWarehouseId,
+        destinationWarehouseId,
+        notes: notes || undefined,
+        lines: draftLines.map((line) => ({
+          inventoryItemId: line.inventoryItemId,
+          quantity: Number(line.quantity),
+        })),
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      resetCreate();
+      toast({ title: "Success", description: "Transfer order created" });
+    },
+    onError: handleError("Failed to create transfer order"),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "ship" | "cancel" }) => {
+      await apiRequest("POST", `/api/transfers/${id}/${action}`);
+    },
+    onSuccess: (_, { action }) => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: action === "ship" ? "Transfer shipped; stock is now in transit" : "Transfer cancelled",
+      });
+    },
+    onError: handleError("Failed to update transfer order"),
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async (order: TransferOrderWithLines) => {
+      await apiRequest("POST", `/api/transfers/${order.id}/receive`, {
+        lines: order.lines.map((line) => ({
+          lineId: line.id,
+          receivedQuantity: Number(receipts[line.id]?.receivedQuantity),
+          discrepancyReason: receipts[line.id]?.discrepancyReason,
+        })),
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setViewing(null);
+      toast({ title: "Success", description: "Transfer received" });
+    },
+    onError: handleError("Failed to receive transfer"),
+  });
+
+  const openTransfer = (order: TransferOrderWithLines) => {
+    setViewing(order);
+    setReceipts(
+      Object.fromEntries(order.lines.map((line) => [line.id, { receivedQuantity: String(line.quantity) }]))
+    );
+  };
+
+  const warehouseName = (id: string) => warehouses?.find((w) => w.id === id)?.name ?? "—";
+  const visibleTransfers = transfers?.filter((order) => statusFilter === "all" || order.status === statusFilter);
+  const inTransit = transfers?.filter((order) => order.status === "shipped") ?? [];
+  const unitsInTransit = inTransit.reduce(
+    (sum, order) => sum + order.lines.reduce((lineSum, line) => lineSum + line.quantity, 0),
+    0
+  );
+
+  const canCreate =
+    !!sourceWarehouseId &&
+    !!destinationWarehouseId &&
+    sourceWarehouseId !== destinationWarehouseId &&
+    draftLines.length > 0 &&
+    draftLines.every((line) => line.inventoryItemId && Number.isInteger(Number(line.quantity)) && Number(line.quantity) > 0) &&
+    new Set(draftLines.map((line) => line.inventoryItemId)).size === draftLines.length;
+
+  const receiptsValid =
+    !!viewing &&
+    viewing.lines.every((line) => {
+      const receipt = receipts[line.id];
+      const received = Number(receipt?.receivedQuantity);
+      if (!receipt || receipt.receivedQuantity === "" || !Number.isInteger(received) || received < 0) return false;
+      return received === line.quantity || !!receipt.discrepancyReason;
+    });
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold">Transfers</h1>
+          <p className="text-muted-foreground">Move stock between warehouses</p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create-transfer">
+          <Plus className="mr-2 h-4 w-4" />
+          New Transfer
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Transfers In Transit</CardTitle>
+            <Truck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-transfers-in-transit">{inTransit.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Units In Transit</CardTitle>
+            <Truck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-units-in-transit">{unitsInTransit}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as TransferOrderStatus | "all")}>
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          {(Object.keys(statusLabels) as TransferOrderStatus[]).map((status) => (
+            <TabsTrigger key={status} value={status} data-testid={`tab-transfers-${status}`}>
+              {statusLabels[status]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="space-y-2 p-6">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !visibleTransfers || visibleTransfers.length === 0 ? (
+            <div className="py-16 text-center text-sm text-muted-foreground">No transfer orders</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Lines</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Shipped</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleTransfers.map((order) => {
+                  const hasDiscrepancy = order.lines.some(
+                    (line) => line.receivedQuantity !== null && line.receivedQuantity !== line.quantity
+                  );
+                  return (
+                    <TableRow key={order.id} data-testid={`row-transfer-${order.id}`}>
+                      <TableCell>{formatDate(order.createdAt)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {warehouseName(order.sourceWarehouseId)}
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          {warehouseName(order.destinationWarehouseId)}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {order.lines.length} item(s), {order.lines.reduce((sum, line) => sum + line.quantity, 0)} unit(s)
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Badge variant={statusVariants[order.status]}>{statusLabels[order.status]}</Badge>
+                          {hasDiscrepancy && <Badge variant="destructive">Discrepancy</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatDate(order.shippedAt)}</TableCell>
+                      <TableCell>{formatDate(order.receivedAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {order.status === "draft" && (
+                            <>
+                              <Button
+                                size="sm"
+                                onClick={() => actionMutation.mutate({ id: order.id, action: "ship" })}
+                                disabled={actionMutation.isPending}
+                                data-testid={`button-ship-${order.id}`}
+                              >
+                                <Truck className="mr-2 h-4 w-4" />
+                                Ship
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => actionMutation.mutate({ id: order.id, action: "cancel" })}
+                                disabled={actionMutation.isPending}
+                                title="Cancel transfer"
+                                data-testid={`button-cancel-${order.id}`}
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          {order.status === "shipped" ? (
+                            <Button size="sm" onClick={() => openTransfer(order)} data-testid={`button-receive-${order.id}`}>
+                              <PackageCheck className="mr-2 h-4 w-4" />
+                              Receive
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openTransfer(order)}
+                              title="View lines"
+                              data-testid={`button-view-${order.id}`}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateOpen} onOpenChange={(open) => !open && resetCreate()}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-create-transfer">
+          <DialogHeader>
+            <DialogTitle>New Transfer</DialogTitle>
+            <DialogDescription>
+              Stock leaves the source warehouse when the transfer is shipped
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Select
+                  value={sourceWarehouseId}
+                  onValueChange={(value) => {
+                    setSourceWarehouseId(value);
+                    setDraftLines([{ inventoryItemId: "", quantity: "" }]);
+                  }}
+                >
+                  <SelectTrigger data-testid="select-transfer-source">
+                    <SelectValue placeholder="Source warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses?.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Select value={destinationWarehouseId} onValueChange={setDestinationWarehouseId}>
+                  <SelectTrigger data-testid="select-transfer-destination">
+                    <SelectValue placeholder="Destination warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses
+                      ?.filter((warehouse) => warehouse.id !== sourceWarehouseId)
+                      .map((warehouse) => (
+                        <SelectItem key={warehouse.id} value={warehouse.id}>
+                          {warehouse.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Lines</Label>
+              {draftLines.map((line, index) => {
+                const item = sourceItems?.find((candidate) => candidate.id === line.inventoryItemId);
+                return (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={line.inventoryItemId}
+                      onValueChange={(value) =>
+                        setDraftLines(draftLines.map((draft, i) => (i === index ? { ...draft, inventoryItemId: value } : draft)))
+                      }
+                      disabled={!sourceWarehouseId}
+                    >
+                      <SelectTrigger className="flex-1" data-testid={`select-transfer-item-${index}`}>
+                        <SelectValue placeholder="Select item" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sourceItems?.map((candidate) => (
+                          <SelectItem key={candidate.id} value={candidate.id}>
+                            {candidate.name} ({candidate.sku}) — {candidate.quantity} {candidate.unit}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={item?.quantity}
+                      className="w-28"
+                      placeholder="Qty"
+                      value={line.quantity}
+                      onChange={(e) =>
+                        setDraftLines(draftLines.map((draft, i) => (i === index ? { ...draft, quantity: e.target.value } : draft)))
+                      }
+                      data-testid={`input-transfer-quantity-${index}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDraftLines(draftLines.filter((_, i) => i !== index))}
+                      disabled={draftLines.length === 1}
+                      data-testid={`button-remove-line-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraftLines([...draftLines, { inventoryItemId: "", quantity: "" }])}
+                disabled={!sourceWarehouseId}
+                data-testid="button-add-line"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Line
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="transfer-notes">Notes</Label>
+              <Textarea
+                id="transfer-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="input-transfer-notes"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={resetCreate} data-testid="button-cancel-create-transfer">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!canCreate || createMutation.isPending}
+              data-testid="button-submit-transfer"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Draft"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl" data-testid="dialog-transfer-details">
+          <DialogHeader>
+            <DialogTitle>
+              {viewing?.status === "shipped" ? "Receive Transfer" : "Transfer Details"}
+            </DialogTitle>
+            <DialogDescription>
+              {viewing && `${warehouseName(viewing.sourceWarehouseId)} → ${warehouseName(viewing.destinationWarehouseId)}`}
+              {viewing?.notes && ` — ${viewing.notes}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {viewing && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Shipped</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Discrepancy</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {viewing.lines.map((line) => {
+                  const receipt = receipts[line.id];
+                  const received =
+                    viewing.status === "shipped" ? Number(receipt?.receivedQuantity) : line.receivedQuantity;
+                  const differs = received !== null && !Number.isNaN(received) && received !== line.quantity;
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        <div className="font-medium">{line.itemName}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{line.sku}</div>
+                      </TableCell>
+                      <TableCell>
+                        {line.quantity} {line.unit}
+                      </TableCell>
+                      <TableCell>
+                        {viewing.status === "shipped" ? (
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-24"
+                            value={receipt?.receivedQuantity ?? ""}
+                            onChange={(e) =>
+                              setReceipts({ ...receipts, [line.id]: { ...receipt, receivedQuantity: e.target.value } })
+                            }
+                            data-testid={`input-received-${line.id}`}
+                          />
+                        ) : (
+                          line.receivedQuantity ?? "—"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {viewing.status === "shipped" && differs ? (
+                          <Select
+                            value={receipt?.discrepancyReason ?? ""}
+                            onValueChange={(value) =>
+                              setReceipts({
+                                ...receipts,
+                                [line.id]: { ...receipt, discrepancyReason: value as AdjustmentReason },
+                              })
+                            }
+                          >
+                            <SelectTrigger className="w-44" data-testid={`select-discrepancy-${line.id}`}>
+                              <SelectValue placeholder="Reason required" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {adjustmentReasons.map((reason) => (
+                                <SelectItem key={reason} value={reason}>
+                                  {adjustmentReasonLabels[reason]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : line.discrepancyReason ? (
+                          <Badge variant="destructive">
+                            {(line.receivedQuantity ?? 0) - line.quantity > 0 ? "+" : ""}
+                            {(line.receivedQuantity ?? 0) - line.quantity} · {adjustmentReasonLabels[line.discrepancyReason]}
+                          </Badge>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setViewing(null)} data-testid="button-close-transfer">
+              Close
+            </Button>
+            {viewing?.status === "shipped" && (
+              <Button
+                onClick={() => receiveMutation.mutate(viewing)}
+                disabled={!receiptsValid || receiveMutation.isPending}
+                data-testid="button-confirm-receive"
+              >
+                {receiveMutation.isPending ? "Receiving..." : "Confirm Receipt"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
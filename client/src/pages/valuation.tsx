@@ -0,0 +1,326 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMoney, valuationMethodLabels } from "@/lib/format";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Coins, Package, PackageX, Truck } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { StockValuation, StockValuationLine, Warehouse } from "@shared/schema";
+import { valuationMethods, type ValuationMethod } from "@shared/system-settings";
+
+type GroupBy = "warehouse" | "category" | "item";
+
+type ValuationGroup = { key: string; label: string; items: number; quantity: number; value: number };
+
+function today() {
+  const now = new Date();
+  now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+  return now.toISOString().slice(0, 10);
+}
+
+function groupLines(
+  lines: StockValuationLine[],
+  keyOf: (line: StockValuationLine) => string,
+  labelOf: (key: string) => string
+): ValuationGroup[] {
+  const groups = new Map<string, ValuationGroup>();
+  for (const line of lines) {
+    const key = keyOf(line);
+    const group = groups.get(key) ?? { key, label: labelOf(key), items: 0, quantity: 0, value: 0 };
+    group.items += 1;
+    group.quantity += line.quantity;
+    group.value += line.value;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.value - a.value || a.label.localeCompare(b.label));
+}
+
+export default function Valuation() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [asOf, setAsOf] = useState(today());
+  const [method, setMethod] = useState<ValuationMethod | "">("");
+  const [warehouseId, setWarehouseId] = useState("all");
+  const [category, setCategory] = useState("all");
+  const [groupBy, setGroupBy] = useState<GroupBy>("warehouse");
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: categories } = useQuery<string[]>({
+    queryKey: ["/api/inventory/categories"],
+    enabled: isAuthenticated,
+  });
+
+  // The report is as of the end of the chosen day
+  const params = new URLSearchParams();
+  if (asOf) params.set("asOf", new Date(`${asOf}T23:59:59.999`).toISOString());
+  if (method) params.set("method", method);
+  if (warehouseId !== "all") params.set("warehouseId", warehouseId);
+  if (category !== "all") params.set("category", category);
+  const query = params.toString();
+
+  const { data: valuation, isLoading } = useQuery<StockValuation>({
+    queryKey: ["/api/reports/valuation", query],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/reports/valuation?${query}`);
+      return res.json();
+    },
+    enabled: isAuthenticated && !!asOf,
+  });
+
+  const warehouseName = (id: string) => warehouses?.find((warehouse) => warehouse.id === id)?.name ?? "—";
+  const lines = valuation?.lines ?? [];
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const uncostedQuantity = lines.reduce((sum, line) => sum + line.uncostedQuantity, 0);
+  const groups =
+    groupBy === "warehouse"
+      ? groupLines(lines, (line) => line.warehouseId, warehouseName)
+      : groupLines(lines, (line) => line.category || "Uncategorized", (key) => key);
+  const share = (value: number) =>
+    valuation && valuation.totalValue > 0 ? `${((value / valuation.totalValue) * 100).toFixed(1)}%` : "—";
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold">Stock Valuation</h1>
+        <p className="text-muted-foreground">Value of stock on hand at cost, as of any date</p>
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 pt-6 md:grid-cols-4">
+          <div className="space-y-1">
+            <Label htmlFor="valuation-as-of" className="text-xs">
+              As of
+            </Label>
+            <Input
+              id="valuation-as-of"
+              type="date"
+              max={today()}
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              data-testid="input-valuation-as-of"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Method</Label>
+            <Select value={method || valuation?.method || ""} onValueChange={(value) => setMethod(value as ValuationMethod)}>
+              <SelectTrigger data-testid="select-valuation-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {valuationMethods.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {valuationMethodLabels[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Warehouse</Label>
+            <Select value={warehouseId} onValueChange={setWarehouseId}>
+              <SelectTrigger data-testid="select-valuation-warehouse">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All warehouses</SelectItem>
+                {warehouses?.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger data-testid="select-valuation-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {categories?.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Stock Value</CardTitle>
+            <Coins className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-valuation-total">
+              {formatMoney(valuation?.totalValue ?? 0)}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Units On Hand</CardTitle>
+            <Package className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-valuation-units">{totalQuantity}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Units Without Cost</CardTitle>
+            <PackageX className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-valuation-uncosted">{uncostedQuantity}</div>
+            <p className="text-xs text-muted-foreground">Received without a unit cost; not valued</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">In Transit</CardTitle>
+            <Truck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-valuation-in-transit">
+              {formatMoney(valuation?.inTransitValue ?? 0)}
+            </div>
+            <p className="text-xs text-muted-foreground">Shipped transfers, all warehouses</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+        <TabsList>
+          <TabsTrigger value="warehouse" data-testid="tab-valuation-warehouse">
+            By Warehouse
+          </TabsTrigger>
+          <TabsTrigger value="category" data-testid="tab-valuation-category">
+            By Category
+          </TabsTrigger>
+          <TabsTrigger value="item" data-testid="tab-valuation-item">
+            By Item
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="space-y-2 p-6">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : lines.length === 0 ? (
+            <div className="py-16 text-center text-sm text-muted-foreground">No stock on hand at this date</div>
+          ) : groupBy === "item" ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.inventoryItemId} data-testid={`row-valuation-${line.inventoryItemId}`}>
+                    <TableCell>
+                      <div className="font-medium">{line.name}</div>
+                      <div className="font-mono text-xs text-muted-foreground">{line.sku}</div>
+                    </TableCell>
+                    <TableCell>{warehouseName(line.warehouseId)}</TableCell>
+                    <TableCell>{line.category || "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {line.quantity} {line.unit}
+                      {line.uncostedQuantity > 0 && (
+                        <div className="text-xs text-muted-foreground">{line.uncostedQuantity} without cost</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.unitCost === null ? "—" : formatMoney(line.unitCost)}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">{formatMoney(line.value)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{groupBy === "warehouse" ? "Warehouse" : "Category"}</TableHead>
+                  <TableHead className="text-right">Items</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map((group) => (
+                  <TableRow key={group.key} data-testid={`row-valuation-group-${group.key}`}>
+                    <TableCell className="font-medium">{group.label}</TableCell>
+                    <TableCell className="text-right">{group.items}</TableCell>
+                    <TableCell className="text-right">{group.quantity}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatMoney(group.value)}</TableCell>
+                    <TableCell className="text-right">{share(group.value)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
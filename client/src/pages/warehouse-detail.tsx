@@ -0,0 +1,627 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, ArrowRightLeft, Edit, Grid3x3, PackagePlus, Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { BinStock, InventoryItem, Warehouse, WarehouseBin } from "@shared/schema";
+
+interface InventoryPage {
+  items: InventoryItem[];
+  total: number;
+}
+
+type BinForm = { zone: string; aisle: string; rack: string; bin: string; description: string };
+
+const emptyBinForm: BinForm = { zone: "", aisle: "", rack: "", bin: "", description: "" };
+
+const binSegments = [
+  { key: "zone", label: "Zone" },
+  { key: "aisle", label: "Aisle" },
+  { key: "rack", label: "Rack" },
+  { key: "bin", label: "Bin" },
+] as const;
+
+// Stock going into a bin: a putaway from unplaced stock, or a move out of another bin
+type Placement = { item: InventoryItem; from?: WarehouseBin; available: number };
+
+function rackLabel(bin: WarehouseBin) {
+  return `Zone ${bin.zone} · Aisle ${bin.aisle} · Rack ${bin.rack}`;
+}
+
+export default function WarehouseDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [isBinFormOpen, setIsBinFormOpen] = useState(false);
+  const [editingBin, setEditingBin] = useState<WarehouseBin | null>(null);
+  const [binForm, setBinForm] = useState<BinForm>(emptyBinForm);
+  const [deletingBin, setDeletingBin] = useState<WarehouseBin | null>(null);
+  const [placement, setPlacement] = useState<Placement | null>(null);
+  const [targetBinId, setTargetBinId] = useState("");
+  const [quantity, setQuantity] = useState("");
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: warehouse, isLoading } = useQuery<Warehouse>({
+    queryKey: ["/api/warehouses", id],
+    enabled: isAuthenticated && !!id,
+  });
+
+  const { data: bins, isLoading: binsLoading } = useQuery<WarehouseBin[]>({
+    queryKey: ["/api/warehouses", id, "bins"],
+    enabled: isAuthenticated && !!id,
+  });
+
+  const { data: binStock } = useQuery<BinStock[]>({
+    queryKey: ["/api/warehouses", id, "bin-stock"],
+    enabled: isAuthenticated && !!id,
+    // Issues elsewhere empty bins without touching this query
+    refetchOnMount: "always",
+  });
+
+  const itemsQuery = `warehouseId=${id}&sort=name&limit=500`;
+  const { data: inventoryPage } = useQuery<InventoryPage>({
+    queryKey: ["/api/inventory", itemsQuery],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/inventory?${itemsQuery}`);
+      return res.json();
+    },
+    enabled: isAuthenticated && !!id,
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorBody(error)?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const closeBinForm = () => {
+    setIsBinFormOpen(false);
+    setEditingBin(null);
+    setBinForm(emptyBinForm);
+  };
+
+  const openBinForm = (bin?: WarehouseBin) => {
+    setEditingBin(bin ?? null);
+    setBinForm(
+      bin
+        ? { zone: bin.zone, aisle: bin.aisle, rack: bin.rack, bin: bin.bin, description: bin.description ?? "" }
+        : emptyBinForm
+    );
+    setIsBinFormOpen(true);
+  };
+
+  const closePlacement = () => {
+    setPlacement(null);
+    setTargetBinId("");
+    setQuantity("");
+  };
+
+  const openPlacement = (next: Placement) => {
+    setPlacement(next);
+    // Putaway suggests the item's home bin
+    const home = next.from ? undefined : bins?.find((bin) => bin.code === next.item.location);
+    setTargetBinId(home?.id ?? "");
+    setQuantity(String(next.available));
+  };
+
+  const binMutation = useMutation({
+    mutationFn: async () => {
+      const body = { ...binForm, description: binForm.description.trim() || null };
+      const res = editingBin
+        ? await apiRequest("PATCH", `/api/bins/${editingBin.id}`, body)
+        : await apiRequest("POST", `/api/warehouses/${id}/bins`, body);
+      return (await res.json()) as WarehouseBin;
+    },
+    onSuccess: (bin) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses", id, "bins"] });
+      // Renaming a bin relocates the stock records that name it
+      if (editingBin && editingBin.code !== bin.code) {
+        queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      }
+      toast({
+        title: "Success",
+        description: editingBin ? `Bin ${bin.code} updated` : `Bin ${bin.code} created`,
+      });
+      closeBinForm();
+    },
+    onError: handleError("Failed to save bin"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (binId: string) => {
+      await apiRequest("DELETE", `/api/bins/${binId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses", id, "bins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      toast({
+        title: "Success",
+        description: "Bin deleted",
+      });
+      setDeletingBin(null);
+    },
+    onError: handleError("Failed to delete bin"),
+  });
+
+  const placeMutation = useMutation({
+    mutationFn: async () => {
+      if (!placement) return;
+      const amount = Number(quantity);
+      if (placement.from) {
+        await apiRequest("POST", `/api/inventory/${placement.item.id}/move-bin`, {
+          fromBinId: placement.from.id,
+          toBinId: targetBinId,
+          quantity: amount,
+        });
+      } else {
+        await apiRequest("POST", `/api/inventory/${placement.item.id}/putaway`, {
+          binId: targetBinId,
+          quantity: amount,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses", id, "bin-stock"] });
+      toast({
+        title: "Success",
+        description: placement?.from ? "Stock moved" : "Stock put away",
+      });
+      closePlacement();
+    },
+    onError: handleError("Failed to place stock"),
+  });
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  if (!isLoading && !warehouse) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-16">
+          <h3 className="text-lg font-medium">Warehouse not found</h3>
+          <Button variant="outline" asChild className="mt-6">
+            <Link href="/warehouses">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to warehouses
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const items = inventoryPage?.items ?? [];
+  const itemById = new Map(items.map((item) => [item.id, item]));
+  const placements = binStock ?? [];
+  const placedOf = (itemId: string) =>
+    placements.filter((entry) => entry.inventoryItemId === itemId).reduce((sum, entry) => sum + entry.quantity, 0);
+  const unplaced = items
+    .map((item) => ({ item, quantity: item.quantity - placedOf(item.id) }))
+    .filter((entry) => entry.quantity > 0);
+  const placedTotal = placements.reduce((sum, entry) => sum + entry.quantity, 0);
+
+  // Bins arrive in walking order, so each rack's bins are contiguous
+  const racks: Array<{ label: string; bins: WarehouseBin[] }> = [];
+  for (const bin of bins ?? []) {
+    const label = rackLabel(bin);
+    const last = racks[racks.length - 1];
+    if (last?.label === label) {
+      last.bins.push(bin);
+    } else {
+      racks.push({ label, bins: [bin] });
+    }
+  }
+
+  const targetBins = (bins ?? []).filter((bin) => bin.id !== placement?.from?.id);
+  const amount = Number(quantity);
+  const canPlace =
+    !!placement && !!targetBinId && Number.isInteger(amount) && amount > 0 && amount <= placement.available;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/warehouses" data-testid="link-back-to-warehouses">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            {isLoading || !warehouse ? (
+              <Skeleton className="h-8 w-48" />
+            ) : (
+              <>
+                <h1 className="text-3xl font-semibold" data-testid="text-warehouse-title">
+                  {warehouse.name}
+                </h1>
+                <p className="text-muted-foreground">{warehouse.location}</p>
+              </>
+            )}
+          </div>
+        </div>
+        <Button onClick={() => openBinForm()} data-testid="button-create-bin">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Bin
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Bins</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-bin-count">
+              {bins?.length ?? 0}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Units in Bins</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-placed-units">
+              {placedTotal.toLocaleString()}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Awaiting Putaway</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-unplaced-units">
+              {unplaced.reduce((sum, entry) => sum + entry.quantity, 0).toLocaleString()}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {(bins?.length ?? 0) > 0 && unplaced.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Awaiting Putaway</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Home Bin</TableHead>
+                  <TableHead className="text-right">Unplaced</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unplaced.map(({ item, quantity: available }) => (
+                  <TableRow key={item.id} data-testid={`row-unplaced-${item.id}`}>
+                    <TableCell className="font-mono text-sm">{item.sku}</TableCell>
+                    <TableCell className="font-medium">{item.name}</TableCell>
+                    <TableCell className="font-mono text-sm">{item.location || "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {available} {item.unit}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openPlacement({ item, available })}
+                        data-testid={`button-putaway-${item.id}`}
+                      >
+                        <PackagePlus className="mr-2 h-4 w-4" />
+                        Put Away
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {binsLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : racks.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <div className="flex h-20 w-20 items-center justify-center rounded-full bg-muted">
+              <Grid3x3 className="h-10 w-10 text-muted-foreground" />
+            </div>
+            <h3 className="mt-6 text-lg font-medium">No bins yet</h3>
+            <p className="mt-2 text-center text-sm text-muted-foreground">
+              Add bins to lay out this warehouse by zone, aisle and rack. Locations stay free text until then.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        racks.map((rack) => (
+          <Card key={rack.label}>
+            <CardHeader>
+              <CardTitle className="text-base">{rack.label}</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-40">Bin</TableHead>
+                    <TableHead>Contents</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rack.bins.map((bin) => {
+                    const contents = placements.filter((entry) => entry.binId === bin.id);
+                    return (
+                      <TableRow key={bin.id} data-testid={`row-bin-${bin.id}`}>
+                        <TableCell className="align-top">
+                          <div className="font-mono font-medium">{bin.code}</div>
+                          {bin.description && (
+                            <div className="text-xs text-muted-foreground">{bin.description}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {contents.length === 0 ? (
+                            <span className="text-sm text-muted-foreground">Empty</span>
+                          ) : (
+                            <div className="space-y-1">
+                              {contents.map((entry) => {
+                                const item = itemById.get(entry.inventoryItemId);
+                                if (!item) return null;
+                                return (
+                                  <div
+                                    key={entry.id}
+                                    className="flex items-center justify-between gap-2"
+                                    data-testid={`bin-content-${entry.id}`}
+                                  >
+                                    <span className="text-sm">
+                                      <span className="font-mono">{item.sku}</span> · {item.name}
+                                    </span>
+                                    <div className="flex items-center gap-2">
+                                      <span className="text-sm font-medium">
+                                        {entry.quantity} {item.unit}
+                                      </span>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-7 w-7"
+                                        onClick={() => openPlacement({ item, from: bin, available: entry.quantity })}
+                                        title="Move to another bin"
+                                        data-testid={`button-move-${entry.id}`}
+                                      >
+                                        <ArrowRightLeft className="h-3 w-3" />
+                                      </Button>
+                                    </div>
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right align-top">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openBinForm(bin)}
+                              data-testid={`button-edit-bin-${bin.id}`}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setDeletingBin(bin)}
+                              data-testid={`button-delete-bin-${bin.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={isBinFormOpen} onOpenChange={(open) => !open && closeBinForm()}>
+        <DialogContent data-testid="dialog-bin">
+          <DialogHeader>
+            <DialogTitle>{editingBin ? `Edit Bin ${editingBin.code}` : "Add Bin"}</DialogTitle>
+            <DialogDescription>
+              {editingBin
+                ? "Renaming a bin updates the location of stock records that name it."
+                : "Bins are coded zone-aisle-rack-bin; stock locations in this warehouse must name one."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-3">
+              {binSegments.map(({ key, label }) => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={`bin-${key}`}>{label}</Label>
+                  <Input
+                    id={`bin-${key}`}
+                    value={binForm[key]}
+                    onChange={(e) => setBinForm({ ...binForm, [key]: e.target.value })}
+                    data-testid={`input-bin-${key}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bin-description">Description</Label>
+              <Input
+                id="bin-description"
+                value={binForm.description}
+                placeholder="Optional"
+                onChange={(e) => setBinForm({ ...binForm, description: e.target.value })}
+                data-testid="input-bin-description"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeBinForm} data-testid="button-cancel-bin">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => binMutation.mutate()}
+              disabled={binSegments.some(({ key }) => !binForm[key].trim()) || binMutation.isPending}
+              data-testid="button-save-bin"
+            >
+              {binMutation.isPending ? "Saving..." : editingBin ? "Save" : "Add Bin"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!placement} onOpenChange={(open) => !open && closePlacement()}>
+        <DialogContent data-testid="dialog-place-stock">
+          <DialogHeader>
+            <DialogTitle>{placement?.from ? `Move from ${placement.from.code}` : "Put Away Stock"}</DialogTitle>
+            <DialogDescription>
+              {placement && (
+                <>
+                  {placement.item.sku} · {placement.item.name} — {placement.available} {placement.item.unit}{" "}
+                  {placement.from ? "in this bin" : "not yet in a bin"}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>To Bin</Label>
+              <Select value={targetBinId} onValueChange={setTargetBinId}>
+                <SelectTrigger data-testid="select-target-bin">
+                  <SelectValue placeholder="Select bin" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targetBins.map((bin) => (
+                    <SelectItem key={bin.id} value={bin.id}>
+                      {bin.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="place-quantity">Quantity</Label>
+              <Input
+                id="place-quantity"
+                type="number"
+                min={1}
+                max={placement?.available}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                data-testid="input-place-quantity"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closePlacement} data-testid="button-cancel-place">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => placeMutation.mutate()}
+              disabled={!canPlace || placeMutation.isPending}
+              data-testid="button-confirm-place"
+            >
+              {placeMutation.isPending ? "Saving..." : placement?.from ? "Move" : "Put Away"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deletingBin} onOpenChange={(open) => !open && setDeletingBin(null)}>
+        <DialogContent data-testid="dialog-delete-bin">
+          <DialogHeader>
+            <DialogTitle>Delete Bin</DialogTitle>
+            <DialogDescription>
+              Delete bin {deletingBin?.code}? Stock records with it as their location will have no location. Bins that
+              still hold stock can't be deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingBin(null)} data-testid="button-cancel-delete-bin">
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deletingBin && deleteMutation.mutate(deletingBin.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete-bin"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
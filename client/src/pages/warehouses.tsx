@@ -7,8 +7,9 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/componen
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { Plus, MapPin, Package, Edit, Trash2 } from "lucide-react";
-import type { Warehouse } from "@shared/schema";
+import { Progress } from "@/components/ui/progress";
+import { Plus, MapPin, Package, Edit, Trash2, Printer } from "lucide-react";
+import type { Warehouse, WarehouseUtilization } from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -20,12 +21,22 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertWarehouseSchema, type InsertWarehouse } from "@shared/schema";
+import { capacityModes, insertWarehouseSchema, type InsertWarehouse } from "@shared/schema";
+import { capacityModeLabels } from "@shared/capacity";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Link } from "wouter";
+import { Checkbox } from "@/components/ui/checkbox";
+import { LabelPrintDialog } from "@/components/label-print-dialog";
 
 export default function Warehouses() {
   const { toast } = useToast();
@@ -33,6 +44,8 @@ export default function Warehouses() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingWarehouse, setEditingWarehouse] = useState<Warehouse | null>(null);
   const [deletingWarehouse, setDeletingWarehouse] = useState<Warehouse | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLabelsOpen, setIsLabelsOpen] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -52,13 +65,19 @@ export default function Warehouses() {
     enabled: isAuthenticated,
   });
 
+  const { data: utilization } = useQuery<WarehouseUtilization[]>({
+    queryKey: ["/api/warehouses/utilization"],
+    enabled: isAuthenticated,
+  });
+
   const form = useForm<InsertWarehouse>({
     resolver: zodResolver(insertWarehouseSchema),
     defaultValues: {
       name: "",
       location: "",
       timezone: "UTC",
-      managerId: null,
+      capacity: 0,
+      capacityMode: "units",
     },
   });
 
@@ -68,6 +87,7 @@ export default function Warehouses() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/warehouses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
       setIsCreateOpen(false);
       form.reset();
       toast({
@@ -101,6 +121,7 @@ export default function Warehouses() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/warehouses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses/utilization"] });
       setEditingWarehouse(null);
       form.reset();
       toast({
@@ -134,6 +155,7 @@ export default function Warehouses() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/warehouses"] });
+      setSelectedIds((ids) => ids.filter((id) => id !== deletingWarehouse?.id));
       setDeletingWarehouse(null);
       toast({
         title: "Success",
@@ -174,7 +196,8 @@ export default function Warehouses() {
       name: warehouse.name,
       location: warehouse.location || "",
       timezone: warehouse.timezone || "UTC",
-      managerId: warehouse.managerId,
+      capacity: warehouse.capacity,
+      capacityMode: warehouse.capacityMode,
     });
   };
 
@@ -189,12 +212,22 @@ export default function Warehouses() {
           <h1 className="text-3xl font-semibold">Warehouses</h1>
           <p className="text-muted-foreground">Manage your warehouse locations</p>
         </div>
-        <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create-warehouse">
-          <Plus className="mr-2 h-4 w-4" />
-          Add Warehouse
-        </Button>
+        <div className="flex gap-2">
+          {selectedIds.length > 0 && (
+            <Button variant="outline" onClick={() => setIsLabelsOpen(true)} data-testid="button-print-labels">
+              <Printer className="mr-2 h-4 w-4" />
+              Print bin labels ({selectedIds.length})
+            </Button>
+          )}
+          <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create-warehouse">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Warehouse
+          </Button>
+        </div>
       </div>
 
+      <LabelPrintDialog kinds={["bins"]} ids={selectedIds} open={isLabelsOpen} onOpenChange={setIsLabelsOpen} />
+
       {isLoading ? (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           {[1, 2, 3].map((i) => (
@@ -226,50 +259,82 @@ export default function Warehouses() {
         </Card>
       ) : (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {warehouses.map((warehouse) => (
-            <Card key={warehouse.id} className="hover-elevate" data-testid={`card-warehouse-${warehouse.id}`}>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <MapPin className="h-5 w-5" />
-                  {warehouse.name}
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                {warehouse.location && (
-                  <p className="text-sm text-muted-foreground">{warehouse.location}</p>
-                )}
-                <div className="flex items-center gap-2">
-                  <Badge variant="outline">
-                    {warehouse.timezone || "UTC"}
-                  </Badge>
-                </div>
-              </CardContent>
-              <CardFooter className="flex gap-2">
-                <Button variant="outline" size="sm" asChild className="flex-1">
-                  <Link href={`/warehouses/${warehouse.id}`} data-testid={`button-view-${warehouse.id}`}>
-                    <Package className="mr-2 h-4 w-4" />
-                    View Details
-                  </Link>
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => handleEdit(warehouse)}
-                  data-testid={`button-edit-${warehouse.id}`}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => setDeletingWarehouse(warehouse)}
-                  data-testid={`button-delete-${warehouse.id}`}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </CardFooter>
-            </Card>
-          ))}
+          {warehouses.map((warehouse) => {
+            const usage = utilization?.find((entry) => entry.warehouseId === warehouse.id);
+            const isOver = usage?.percent != null && usage.percent > 100;
+            return (
+              <Card key={warehouse.id} className="hover-elevate" data-testid={`card-warehouse-${warehouse.id}`}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <MapPin className="h-5 w-5" />
+                    <span className="flex-1">{warehouse.name}</span>
+                    <Checkbox
+                      checked={selectedIds.includes(warehouse.id)}
+                      onCheckedChange={(checked) =>
+                        setSelectedIds((ids) =>
+                          checked === true ? [...ids, warehouse.id] : ids.filter((id) => id !== warehouse.id)
+                        )
+                      }
+                      aria-label={`Select ${warehouse.name} for bin labels`}
+                      data-testid={`checkbox-select-${warehouse.id}`}
+                    />
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {warehouse.location && (
+                    <p className="text-sm text-muted-foreground">{warehouse.location}</p>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">
+                      {warehouse.timezone || "UTC"}
+                    </Badge>
+                  </div>
+                  {usage && usage.percent !== null ? (
+                    <div className="space-y-1 pt-2" data-testid={`utilization-${warehouse.id}`}>
+                      <div className="flex justify-between text-xs">
+                        <span className="text-muted-foreground">Capacity used</span>
+                        <span className={isOver ? "font-medium text-destructive" : "font-medium"}>{usage.percent}%</span>
+                      </div>
+                      <Progress
+                        value={Math.min(usage.percent, 100)}
+                        className={`h-2 ${isOver ? "[&>div]:bg-destructive" : ""}`}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {usage.used} of {usage.capacity} {usage.mode === "units" ? "units" : "volume"}
+                        {usage.unmeasuredQuantity > 0 && ` · ${usage.unmeasuredQuantity} units have no volume`}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="pt-2 text-xs text-muted-foreground">No capacity set</p>
+                  )}
+                </CardContent>
+                <CardFooter className="flex gap-2">
+                  <Button variant="outline" size="sm" asChild className="flex-1">
+                    <Link href={`/warehouses/${warehouse.id}`} data-testid={`button-view-${warehouse.id}`}>
+                      <Package className="mr-2 h-4 w-4" />
+                      View Details
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleEdit(warehouse)}
+                    data-testid={`button-edit-${warehouse.id}`}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeletingWarehouse(warehouse)}
+                    data-testid={`button-delete-${warehouse.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </CardFooter>
+              </Card>
+            );
+          })}
         </div>
       )}
 
@@ -338,6 +403,55 @@ export default function Warehouses() {
                   </FormItem>
                 )}
               />
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="capacity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Capacity</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={1}
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          data-testid="input-warehouse-capacity"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="capacityMode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Measured by</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-warehouse-capacity-mode">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {capacityModes.map((mode) => (
+                            <SelectItem key={mode} value={mode}>
+                              {capacityModeLabels[mode]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave capacity at 0 for no limit. Volume uses each product's unit volume.
+              </p>
               <DialogFooter>
                 <Button
                   type="button"
@@ -0,0 +1,3 @@
+-- Column definitions for custom tables; row data is keyed by column id
+ALTER TABLE "tables"
+  ADD COLUMN IF NOT EXISTS "columns_metadata" jsonb NOT NULL DEFAULT '{"columns": []}';
@@ -0,0 +1,13 @@
+-- Explicit row order for the grid editor; fractional positions allow inserts between rows
+ALTER TABLE "table_rows"
+  ADD COLUMN IF NOT EXISTS "position" double precision NOT NULL DEFAULT 0;
+
+UPDATE "table_rows"
+SET "position" = ordered."row_number"
+FROM (
+  SELECT "id", row_number() OVER (PARTITION BY "table_id" ORDER BY "created_at", "id") AS "row_number"
+  FROM "table_rows"
+) AS ordered
+WHERE "table_rows"."id" = ordered."id" AND "table_rows"."position" = 0;
+
+CREATE INDEX IF NOT EXISTS "table_rows_table_id_position_idx" ON "table_rows" ("table_id", "position");
@@ -0,0 +1,11 @@
+-- Indexes backing server-side filtering, sorting and search of inventory
+CREATE INDEX IF NOT EXISTS "inventory_items_warehouse_id_idx" ON "inventory_items" ("warehouse_id");
+CREATE INDEX IF NOT EXISTS "inventory_items_category_idx" ON "inventory_items" ("category");
+CREATE INDEX IF NOT EXISTS "inventory_items_name_idx" ON "inventory_items" ("name", "id");
+CREATE INDEX IF NOT EXISTS "inventory_items_quantity_idx" ON "inventory_items" ("quantity");
+CREATE INDEX IF NOT EXISTS "inventory_items_expiration_date_idx" ON "inventory_items" ("expiration_date");
+
+-- Same expression as inventorySearchVector in server/db-storage.ts
+CREATE INDEX IF NOT EXISTS "inventory_items_search_idx" ON "inventory_items" USING gin (
+  to_tsvector('simple', coalesce("name", '') || ' ' || "sku" || ' ' || coalesce("category", '') || ' ' || coalesce("description", ''))
+);
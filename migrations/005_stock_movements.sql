@@ -0,0 +1,15 @@
+-- Typed stock movements: adjustment reason codes and the counterpart item of a transfer
+ALTER TABLE "product_history"
+  ADD COLUMN IF NOT EXISTS "reason_code" text,
+  ADD COLUMN IF NOT EXISTS "related_item_id" uuid REFERENCES "inventory_items"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "product_history_inventory_item_id_idx" ON "product_history" ("inventory_item_id", "timestamp");
+
+-- Backstop for the application checks; movements never take stock below zero
+DO $$
+BEGIN
+  ALTER TABLE "inventory_items"
+    ADD CONSTRAINT "inventory_items_quantity_nonnegative" CHECK ("quantity" >= 0);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
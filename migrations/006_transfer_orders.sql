@@ -0,0 +1,35 @@
+-- Transfer orders move stock between warehouses: draft -> shipped (in transit) -> received
+CREATE TABLE IF NOT EXISTS "transfer_orders" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "source_warehouse_id" uuid NOT NULL REFERENCES "warehouses"("id") ON DELETE RESTRICT,
+  "destination_warehouse_id" uuid NOT NULL REFERENCES "warehouses"("id") ON DELETE RESTRICT,
+  "status" text NOT NULL DEFAULT 'draft',
+  "notes" text,
+  "created_by" text,
+  "shipped_by" text,
+  "shipped_at" timestamp,
+  "received_by" text,
+  "received_at" timestamp,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "transfer_orders_status_idx" ON "transfer_orders" ("status", "created_at");
+
+CREATE TABLE IF NOT EXISTS "transfer_order_lines" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "transfer_order_id" uuid NOT NULL REFERENCES "transfer_orders"("id") ON DELETE CASCADE,
+  "inventory_item_id" uuid NOT NULL REFERENCES "inventory_items"("id") ON DELETE RESTRICT,
+  "sku" text NOT NULL,
+  "item_name" text NOT NULL,
+  "unit" text NOT NULL,
+  "quantity" integer NOT NULL,
+  "destination_item_id" uuid REFERENCES "inventory_items"("id") ON DELETE SET NULL,
+  "received_quantity" integer,
+  "discrepancy_reason" text
+);
+
+CREATE INDEX IF NOT EXISTS "transfer_order_lines_transfer_order_id_idx" ON "transfer_order_lines" ("transfer_order_id");
+
+ALTER TABLE "product_history"
+  ADD COLUMN IF NOT EXISTS "transfer_order_id" uuid REFERENCES "transfer_orders"("id") ON DELETE SET NULL;
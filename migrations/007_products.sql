@@ -0,0 +1,37 @@
+-- Product catalog: one row per SKU, referenced by per-warehouse stock records
+CREATE TABLE IF NOT EXISTS "products" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "sku" text NOT NULL UNIQUE,
+  "name" text NOT NULL,
+  "category" text,
+  "description" text,
+  "unit" text NOT NULL DEFAULT 'pcs',
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+ALTER TABLE "inventory_items"
+  ADD COLUMN IF NOT EXISTS "product_id" uuid REFERENCES "products"("id") ON DELETE RESTRICT;
+
+-- De-duplicate existing stock rows by SKU; the most recently updated row's
+-- master data becomes the catalog entry
+INSERT INTO "products" ("sku", "name", "category", "description", "unit", "created_at", "updated_at")
+SELECT DISTINCT ON ("sku") "sku", "name", "category", "description", "unit", "created_at", "updated_at"
+FROM "inventory_items"
+WHERE "product_id" IS NULL
+ORDER BY "sku", "updated_at" DESC
+ON CONFLICT ("sku") DO NOTHING;
+
+-- Link stock rows and align their copies of the master data with the catalog
+UPDATE "inventory_items" AS i
+SET "product_id" = p."id",
+    "name" = p."name",
+    "category" = p."category",
+    "description" = p."description",
+    "unit" = p."unit"
+FROM "products" AS p
+WHERE i."product_id" IS NULL AND p."sku" = i."sku";
+
+ALTER TABLE "inventory_items" ALTER COLUMN "product_id" SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "inventory_items_product_id_idx" ON "inventory_items" ("product_id");
@@ -0,0 +1,35 @@
+-- Lot-level stock under each inventory item, consumed First-Expired-First-Out
+CREATE TABLE IF NOT EXISTS "inventory_lots" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "inventory_item_id" uuid NOT NULL REFERENCES "inventory_items"("id") ON DELETE CASCADE,
+  "lot_number" text,
+  "expiration_date" timestamp,
+  "quantity" integer NOT NULL DEFAULT 0,
+  "received_at" timestamp NOT NULL DEFAULT now(),
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "inventory_lots_item_expiry_idx"
+  ON "inventory_lots" ("inventory_item_id", "expiration_date");
+
+DO $$
+BEGIN
+  ALTER TABLE "inventory_lots"
+    ADD CONSTRAINT "inventory_lots_quantity_nonnegative" CHECK ("quantity" >= 0);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "product_history"
+  ADD COLUMN IF NOT EXISTS "lot_id" uuid REFERENCES "inventory_lots"("id") ON DELETE SET NULL;
+
+ALTER TABLE "transfer_order_lines"
+  ADD COLUMN IF NOT EXISTS "lots" jsonb NOT NULL DEFAULT '[]';
+
+-- Existing stock becomes a single lot per item, from its batch number and expiry
+INSERT INTO "inventory_lots" ("inventory_item_id", "lot_number", "expiration_date", "quantity", "received_at")
+SELECT i."id", i."batch_number", i."expiration_date", i."quantity", i."created_at"
+FROM "inventory_items" AS i
+WHERE i."quantity" > 0
+  AND NOT EXISTS (SELECT 1 FROM "inventory_lots" AS l WHERE l."inventory_item_id" = i."id");
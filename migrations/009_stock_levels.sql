@@ -0,0 +1,25 @@
+-- Per-item stock levels; null falls back to the category, then warehouse default
+ALTER TABLE "inventory_items" ADD COLUMN IF NOT EXISTS "min_quantity" integer;
+ALTER TABLE "inventory_items" ADD COLUMN IF NOT EXISTS "reorder_point" integer;
+ALTER TABLE "inventory_items" ADD COLUMN IF NOT EXISTS "max_quantity" integer;
+
+CREATE TABLE IF NOT EXISTS "stock_level_defaults" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "category" text,
+  "warehouse_id" uuid REFERENCES "warehouses"("id") ON DELETE CASCADE,
+  "min_quantity" integer,
+  "reorder_point" integer,
+  "max_quantity" integer,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT "stock_level_defaults_category_unique" UNIQUE ("category"),
+  CONSTRAINT "stock_level_defaults_warehouse_id_unique" UNIQUE ("warehouse_id")
+);
+
+DO $$
+BEGIN
+  ALTER TABLE "stock_level_defaults"
+    ADD CONSTRAINT "stock_level_defaults_one_scope" CHECK (("category" IS NULL) <> ("warehouse_id" IS NULL));
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,7 @@
+-- Settings edited from the settings page; missing keys use the built-in defaults
+CREATE TABLE IF NOT EXISTS "system_settings" (
+  "key" text PRIMARY KEY,
+  "value" jsonb NOT NULL,
+  "updated_by" text,
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
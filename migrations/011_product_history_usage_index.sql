@@ -0,0 +1,3 @@
+-- Issue totals per item over a recent window, for replenishment suggestions
+CREATE INDEX IF NOT EXISTS "product_history_action_timestamp_idx"
+  ON "product_history" ("action_type", "timestamp");
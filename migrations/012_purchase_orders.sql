@@ -0,0 +1,48 @@
+-- Suppliers and purchase orders: draft -> sent -> partially_received -> closed
+CREATE TABLE IF NOT EXISTS "suppliers" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name" text NOT NULL,
+  "contact_name" text,
+  "email" text,
+  "phone" text,
+  "address" text,
+  "notes" text,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "purchase_orders" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "supplier_id" uuid NOT NULL REFERENCES "suppliers"("id") ON DELETE RESTRICT,
+  "warehouse_id" uuid NOT NULL REFERENCES "warehouses"("id") ON DELETE RESTRICT,
+  "status" text NOT NULL DEFAULT 'draft',
+  "expected_at" timestamp,
+  "notes" text,
+  "created_by" text,
+  "sent_by" text,
+  "sent_at" timestamp,
+  "closed_by" text,
+  "closed_at" timestamp,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "purchase_orders_status_idx" ON "purchase_orders" ("status", "created_at");
+
+CREATE TABLE IF NOT EXISTS "purchase_order_lines" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "purchase_order_id" uuid NOT NULL REFERENCES "purchase_orders"("id") ON DELETE CASCADE,
+  "product_id" uuid NOT NULL REFERENCES "products"("id") ON DELETE RESTRICT,
+  "sku" text NOT NULL,
+  "item_name" text NOT NULL,
+  "unit" text NOT NULL,
+  "quantity" integer NOT NULL,
+  "unit_cost" double precision NOT NULL,
+  "received_quantity" integer NOT NULL DEFAULT 0,
+  "inventory_item_id" uuid REFERENCES "inventory_items"("id") ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "purchase_order_lines_purchase_order_id_idx" ON "purchase_order_lines" ("purchase_order_id");
+
+ALTER TABLE "product_history"
+  ADD COLUMN IF NOT EXISTS "purchase_order_id" uuid REFERENCES "purchase_orders"("id") ON DELETE SET NULL;
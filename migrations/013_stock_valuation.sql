@@ -0,0 +1,4 @@
+-- Unit cost of received stock, replayed by the valuation report
+ALTER TABLE "product_history" ADD COLUMN IF NOT EXISTS "unit_cost" double precision;
+
+CREATE INDEX IF NOT EXISTS "product_history_timestamp_idx" ON "product_history" ("timestamp");
@@ -0,0 +1,37 @@
+-- Stocktake sessions: counted against frozen expected quantities, variances posted as adjustments
+CREATE TABLE IF NOT EXISTS "stocktakes" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "warehouse_id" uuid NOT NULL REFERENCES "warehouses"("id") ON DELETE CASCADE,
+  "location" text,
+  "category" text,
+  "status" text NOT NULL DEFAULT 'counting',
+  "notes" text,
+  "created_by" text,
+  "posted_by" text,
+  "posted_at" timestamp,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "stocktakes_status_idx" ON "stocktakes" ("status", "created_at");
+
+CREATE TABLE IF NOT EXISTS "stocktake_lines" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "stocktake_id" uuid NOT NULL REFERENCES "stocktakes"("id") ON DELETE CASCADE,
+  "inventory_item_id" uuid NOT NULL REFERENCES "inventory_items"("id") ON DELETE CASCADE,
+  "sku" text NOT NULL,
+  "item_name" text NOT NULL,
+  "unit" text NOT NULL,
+  "location" text,
+  "expected_quantity" integer NOT NULL,
+  "counted_quantity" integer,
+  "counted_by" text,
+  "counted_at" timestamp,
+  "reason_code" text,
+  "posted_quantity" integer
+);
+
+CREATE INDEX IF NOT EXISTS "stocktake_lines_stocktake_id_idx" ON "stocktake_lines" ("stocktake_id");
+
+ALTER TABLE "product_history"
+  ADD COLUMN IF NOT EXISTS "stocktake_id" uuid REFERENCES "stocktakes"("id") ON DELETE SET NULL;
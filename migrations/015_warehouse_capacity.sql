@@ -0,0 +1,4 @@
+-- Capacity is measured in units on hand or, per warehouse, in total unit volume
+ALTER TABLE "warehouses" ADD COLUMN IF NOT EXISTS "capacity_mode" text DEFAULT 'units' NOT NULL;
+
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "unit_volume" double precision;
@@ -0,0 +1,25 @@
+-- Structured storage locations (zone -> aisle -> rack -> bin) and the stock put away in them
+CREATE TABLE IF NOT EXISTS "warehouse_bins" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "warehouse_id" uuid NOT NULL REFERENCES "warehouses"("id") ON DELETE CASCADE,
+  "zone" text NOT NULL,
+  "aisle" text NOT NULL,
+  "rack" text NOT NULL,
+  "bin" text NOT NULL,
+  "code" text NOT NULL,
+  "description" text,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  UNIQUE ("warehouse_id", "code")
+);
+
+CREATE TABLE IF NOT EXISTS "bin_stock" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "bin_id" uuid NOT NULL REFERENCES "warehouse_bins"("id") ON DELETE CASCADE,
+  "inventory_item_id" uuid NOT NULL REFERENCES "inventory_items"("id") ON DELETE CASCADE,
+  "quantity" integer NOT NULL,
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  UNIQUE ("bin_id", "inventory_item_id")
+);
+
+CREATE INDEX IF NOT EXISTS "bin_stock_inventory_item_idx" ON "bin_stock" ("inventory_item_id");
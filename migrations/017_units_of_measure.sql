@@ -0,0 +1,31 @@
+-- Units of measure and per-product conversions to a product's base unit
+CREATE TABLE IF NOT EXISTS "units_of_measure" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "code" text NOT NULL UNIQUE,
+  "name" text NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "product_unit_conversions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "product_id" uuid NOT NULL REFERENCES "products"("id") ON DELETE CASCADE,
+  "unit" text NOT NULL,
+  "factor" integer NOT NULL CHECK ("factor" >= 2),
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  UNIQUE ("product_id", "unit")
+);
+
+-- Register the default units and every unit already in use
+INSERT INTO "units_of_measure" ("code", "name")
+VALUES ('pcs', 'Pieces'), ('box', 'Box'), ('case', 'Case'), ('pallet', 'Pallet')
+ON CONFLICT ("code") DO NOTHING;
+
+INSERT INTO "units_of_measure" ("code", "name")
+SELECT DISTINCT "unit", "unit" FROM "products"
+ON CONFLICT ("code") DO NOTHING;
+
+INSERT INTO "units_of_measure" ("code", "name")
+SELECT DISTINCT "unit", "unit" FROM "inventory_items"
+ON CONFLICT ("code") DO NOTHING;
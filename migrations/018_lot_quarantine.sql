@@ -0,0 +1,7 @@
+-- Quarantined lots stay on hand but are skipped when stock is picked
+ALTER TABLE "inventory_lots" ADD COLUMN IF NOT EXISTS "quarantined_at" timestamp;
+
+-- The expiry page and dashboard scan lots in stock by expiry date
+CREATE INDEX IF NOT EXISTS "inventory_lots_expiration_idx"
+  ON "inventory_lots" ("expiration_date")
+  WHERE "quantity" > 0 AND "expiration_date" IS NOT NULL;
@@ -0,0 +1,10 @@
+-- Image AI processing runs from a queue kept on the captured images themselves
+ALTER TABLE "captured_images" ADD COLUMN IF NOT EXISTS "processing_error" text;
+ALTER TABLE "captured_images" ADD COLUMN IF NOT EXISTS "processing_attempts" integer NOT NULL DEFAULT 0;
+ALTER TABLE "captured_images" ADD COLUMN IF NOT EXISTS "next_attempt_at" timestamp NOT NULL DEFAULT now();
+ALTER TABLE "captured_images" ADD COLUMN IF NOT EXISTS "processing_started_at" timestamp;
+
+-- Workers poll for due and abandoned jobs
+CREATE INDEX IF NOT EXISTS "captured_images_queue_idx"
+  ON "captured_images" ("next_attempt_at")
+  WHERE "processing_status" IN ('pending', 'processing');
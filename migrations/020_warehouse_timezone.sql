@@ -0,0 +1,2 @@
+-- Time zone the warehouse works in, shown with it in the warehouse list
+ALTER TABLE "warehouses" ADD COLUMN IF NOT EXISTS "timezone" text DEFAULT 'UTC' NOT NULL;
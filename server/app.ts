@@ -12,6 +12,7 @@ import * as client from "openid-client";
 import { storage } from "./db-storage";
 
 import { registerRoutes } from "./routes";
+import { runImageJobs } from "./image-processing";
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -214,5 +215,7 @@ export default async function runApp(
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    // Picks up images queued or interrupted before this start
+    void runImageJobs();
   });
 }
@@ -0,0 +1,413 @@
+import type { LabelSymbology } from "@shared/labels";
+
+// Barcode encoders for printed labels. Each returns the symbol as plain
+// geometry (bar widths or a module grid) so the PDF writer can draw it.
+
+/** Alternating bar/space widths in modules, starting with a bar. */
+export type LinearBarcode = { kind: "linear"; widths: number[]; text: string };
+
+/** Square grid of dark (true) and light modules, without the quiet zone. */
+export type MatrixBarcode = { kind: "matrix"; modules: boolean[][] };
+
+export type Barcode = LinearBarcode | MatrixBarcode;
+
+export function encodeBarcode(symbology: LabelSymbology, value: string): Barcode {
+  switch (symbology) {
+    case "code128":
+      return encodeCode128(value);
+    case "ean13":
+      return encodeEan13(value);
+    case "qr":
+      return { kind: "matrix", modules: encodeQr(value) };
+  }
+}
+
+// Code 128
+
+// Bar/space widths of symbol values 0-105, then the stop pattern
+const code128Patterns = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+/**
+ * Code 128 using code set C for all-digit values of even length (half as
+ * wide) and code set B, printable ASCII, for everything else.
+ */
+export function encodeCode128(value: string): LinearBarcode {
+  if (value.length === 0) {
+    throw new Error("Code 128 needs a value to encode");
+  }
+  const symbols: number[] = [];
+  if (/^(\d\d)+$/.test(value)) {
+    symbols.push(CODE128_START_C);
+    for (let i = 0; i < value.length; i += 2) {
+      symbols.push(Number(value.slice(i, i + 2)));
+    }
+  } else {
+    symbols.push(CODE128_START_B);
+    for (const char of value) {
+      const code = char.charCodeAt(0);
+      if (char.length !== 1 || code < 32 || code > 126) {
+        throw new Error(`Code 128 can't encode "${char}" in "${value}"`);
+      }
+      symbols.push(code - 32);
+    }
+  }
+  const checksum = symbols.reduce((sum, symbol, i) => sum + symbol * Math.max(i, 1), 0) % 103;
+  symbols.push(checksum, CODE128_STOP);
+
+  const widths = symbols.flatMap((symbol) => Array.from(code128Patterns[symbol], Number));
+  return { kind: "linear", widths, text: value };
+}
+
+// EAN-13
+
+const eanLeft = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+// Odd (L) or even (G) parity of digits 2-7, chosen by the first digit
+const eanParity = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+export function ean13CheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(digits[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/** EAN-13 from 12 digits (check digit added) or 13 (check digit verified). */
+export function encodeEan13(value: string): LinearBarcode {
+  if (!/^\d{12,13}$/.test(value)) {
+    throw new Error(`EAN-13 needs 12 or 13 digits; "${value}" isn't`);
+  }
+  const check = ean13CheckDigit(value);
+  if (value.length === 13 && Number(value[12]) !== check) {
+    throw new Error(`"${value}" has an invalid EAN-13 check digit; expected ${check}`);
+  }
+  const digits = value.slice(0, 12) + check;
+
+  const parity = eanParity[Number(digits[0])];
+  let bits = "101";
+  for (let i = 1; i <= 6; i++) {
+    const left = eanLeft[Number(digits[i])];
+    // G codes are the L codes inverted and reversed
+    bits += parity[i - 1] === "L" ? left : Array.from(invertBits(left)).reverse().join("");
+  }
+  bits += "01010";
+  for (let i = 7; i <= 12; i++) {
+    bits += invertBits(eanLeft[Number(digits[i])]);
+  }
+  bits += "101";
+
+  return { kind: "linear", widths: runLengths(bits), text: digits };
+}
+
+function invertBits(bits: string): string {
+  return bits.replace(/[01]/g, (bit) => (bit === "0" ? "1" : "0"));
+}
+
+function runLengths(bits: string): number[] {
+  const widths: number[] = [];
+  let run = 1;
+  for (let i = 1; i <= bits.length; i++) {
+    if (bits[i] === bits[i - 1]) {
+      run++;
+    } else {
+      widths.push(run);
+      run = 1;
+    }
+  }
+  return widths;
+}
+
+// QR code: byte mode at error correction level M, versions 1-10, which
+// holds up to 213 bytes; plenty for a SKU, lot or bin code.
+
+const QR_MAX_VERSION = 10;
+// Indexed by version; level M
+const qrEccPerBlock = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const qrBlocks = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+// Level M format bits
+const QR_ECL_BITS = 0;
+
+function qrRawModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function qrDataCodewords(version: number): number {
+  return Math.floor(qrRawModules(version) / 8) - qrEccPerBlock[version] * qrBlocks[version];
+}
+
+function qrAlignmentPositions(version: number, size: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+function qrCodewords(bytes: number[], version: number): number[] {
+  const countBits = version <= 9 ? 8 : 16;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, countBits);
+  for (const byte of bytes) append(byte, 8);
+
+  const capacity = qrDataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  // Split into blocks, add error correction to each and interleave them
+  const blockCount = qrBlocks[version];
+  const eccLength = qrEccPerBlock[version];
+  const rawCodewords = Math.floor(qrRawModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const blockData = data.slice(offset, offset + shortLength - eccLength + (i < shortBlocks ? 0 : 1));
+    offset += blockData.length;
+    const ecc = reedSolomonRemainder(blockData, divisor);
+    if (i < shortBlocks) blockData.push(0);
+    blocks.push(blockData.concat(ecc));
+  }
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding that evens out the short blocks
+      if (i !== shortLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function qrMasked(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+// Penalty rules from the QR specification that mask selection minimises
+function qrPenalty(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+  const finderLike = (line: boolean[], i: number) =>
+    [true, false, true, true, true, false, true].every((dark, k) => line[i + k] === dark) &&
+    ([0, 1, 2, 3].every((k) => line[i - 1 - k] === false) || [0, 1, 2, 3].every((k) => line[i + 7 + k] === false));
+
+  const lines = [...modules, ...modules.map((_, x) => modules.map((row) => row[x]))];
+  for (const line of lines) {
+    for (let i = 0; i < size; ) {
+      let run = 1;
+      while (i + run < size && line[i + run] === line[i]) run++;
+      if (run >= 5) penalty += run - 2;
+      i += run;
+    }
+    for (let i = 0; i + 7 <= size; i++) {
+      if (finderLike(line, i)) penalty += 40;
+    }
+  }
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const dark = modules[y][x];
+      if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) penalty += 3;
+    }
+  }
+  const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+}
+
+/** QR code modules for `value`, encoded as UTF-8 bytes. */
+export function encodeQr(value: string): boolean[][] {
+  const bytes = Array.from(Buffer.from(value, "utf8"));
+  let version = 1;
+  while (4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > qrDataCodewords(version) * 8) {
+    if (++version > QR_MAX_VERSION) {
+      const maxBytes = Math.floor((qrDataCodewords(QR_MAX_VERSION) * 8 - 20) / 8);
+      throw new Error(`"${value.slice(0, 20)}..." is too long for a QR label (max ${maxBytes} bytes)`);
+    }
+  }
+
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  // Timing patterns, finders with their separators, then alignment patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+  const alignments = qrAlignmentPositions(version, size);
+  const last = alignments.length - 1;
+  alignments.forEach((cx, i) => {
+    alignments.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  const drawFormat = (mask: number) => {
+    const data = (QR_ECL_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+    for (let i = 0; i <= 5; i++) setFunction(8, i, bit(i));
+    setFunction(8, 7, bit(6));
+    setFunction(8, 8, bit(7));
+    setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(i));
+    setFunction(8, size - 8, true);
+  };
+  drawFormat(0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+
+  // Data in two-module columns zigzagging up and down from the right edge
+  const codewords = qrCodewords(bytes, version);
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!reserved[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) !== 0;
+          bitIndex++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!reserved[y][x] && qrMasked(mask, x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(mask);
+    drawFormat(mask);
+    const penalty = qrPenalty(modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(mask);
+  }
+  applyMask(bestMask);
+  drawFormat(bestMask);
+  return modules;
+}
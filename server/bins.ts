@@ -0,0 +1,57 @@
+import type { BinStock, InventoryItem, WarehouseBin } from "@shared/schema";
+
+export function binCode(bin: Pick<WarehouseBin, "zone" | "aisle" | "rack" | "bin">): string {
+  return [bin.zone, bin.aisle, bin.rack, bin.bin].join("-");
+}
+
+/** Walking order: zone, aisle, rack, then bin, with numbered segments in numeric order. */
+export function compareBins(a: WarehouseBin, b: WarehouseBin): number {
+  const segments = ["zone", "aisle", "rack", "bin"] as const;
+  for (const segment of segments) {
+    const order = a[segment].localeCompare(b[segment], undefined, { numeric: true });
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+export function duplicateBinMessage(code: string): string {
+  return `Bin ${code} already exists in this warehouse`;
+}
+
+/**
+ * Placements to shrink once an item holds less stock than its bins say.
+ * Stock is taken from the unplaced remainder first, then from the most
+ * recently filled bins.
+ */
+export function trimBinStock(placements: BinStock[], quantity: number): Array<{ placement: BinStock; quantity: number }> {
+  let excess = placements.reduce((sum, placement) => sum + placement.quantity, 0) - quantity;
+  const changes: Array<{ placement: BinStock; quantity: number }> = [];
+  const newestFirst = [...placements].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  for (const placement of newestFirst) {
+    if (excess <= 0) break;
+    const take = Math.min(placement.quantity, excess);
+    changes.push({ placement, quantity: placement.quantity - take });
+    excess -= take;
+  }
+  return changes;
+}
+
+/** Checks a putaway or bin move before any placement changes. */
+export function checkBinMove(
+  item: InventoryItem,
+  placements: BinStock[],
+  to: WarehouseBin,
+  quantity: number,
+  from?: WarehouseBin
+): void {
+  for (const bin of from ? [from, to] : [to]) {
+    if (bin.warehouseId !== item.warehouseId) throw new Error(`Bin ${bin.code} is in a different warehouse`);
+  }
+  if (from) {
+    const held = placements.find((placement) => placement.binId === from.id)?.quantity ?? 0;
+    if (held < quantity) throw new Error(`Bin ${from.code} holds only ${held} ${item.unit} of ${item.sku}`);
+    return;
+  }
+  const unplaced = item.quantity - placements.reduce((sum, placement) => sum + placement.quantity, 0);
+  if (unplaced < quantity) throw new Error(`Only ${Math.max(unplaced, 0)} unplaced ${item.unit} of ${item.sku} to put away`);
+}
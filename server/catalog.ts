@@ -0,0 +1,60 @@
+import type {
+  InsertInventoryItem,
+  InsertProduct,
+  InventoryItem,
+  Product,
+} from "@shared/schema";
+
+/** Catalog fields a stock record copies from its product. */
+export function productFields(product: Product) {
+  return {
+    productId: product.id,
+    sku: product.sku,
+    name: product.name,
+    category: product.category,
+    description: product.description,
+    unit: product.unit,
+  };
+}
+
+/** Catalog entry for a SKU that is first seen on a stock record. */
+export function productFromItem(item: InsertInventoryItem): InsertProduct {
+  return {
+    sku: item.sku,
+    name: item.name,
+    category: item.category ?? null,
+    description: item.description ?? null,
+    unit: item.unit ?? "pcs",
+  };
+}
+
+/**
+ * Catalog fields changed by a stock record update. They are applied to the
+ * product, and through it to every warehouse's stock, rather than to one row.
+ */
+export function productChanges(
+  item: InventoryItem,
+  changes: Partial<InsertInventoryItem>
+): Partial<InsertProduct> {
+  const result: Partial<InsertProduct> = {};
+  if (changes.name !== undefined && changes.name !== item.name) result.name = changes.name;
+  if (changes.category !== undefined && changes.category !== item.category) result.category = changes.category;
+  if (changes.description !== undefined && changes.description !== item.description) {
+    result.description = changes.description;
+  }
+  if (changes.unit !== undefined && changes.unit !== item.unit) result.unit = changes.unit;
+  return result;
+}
+
+/**
+ * Fields an update sets directly on the stock record. Catalog fields go through
+ * the product; quantity, batch number and expiry go through the item's lots.
+ */
+export function stockChanges(changes: Partial<InsertInventoryItem>): Partial<InsertInventoryItem> {
+  const { productId, sku, name, category, description, unit, quantity, batchNumber, expirationDate, ...rest } = changes;
+  return rest;
+}
+
+export function duplicateSkuMessage(sku: string): string {
+  return `A product with SKU ${sku} already exists`;
+}
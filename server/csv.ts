@@ -0,0 +1,130 @@
+// CSV helpers shared by the table and inventory import/export endpoints.
+
+export type CsvEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1256";
+
+const delimiterCandidates = [",", ";", "\t", "|"] as const;
+
+/**
+ * Decodes an uploaded CSV file. A byte order mark wins; otherwise the bytes
+ * are tried as UTF-8 and fall back to Windows-1256, the code page Excel uses
+ * for Arabic text on Windows.
+ */
+export function decodeCsvBuffer(buffer: Buffer): { text: string; encoding: CsvEncoding } {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: new TextDecoder("utf-8").decode(buffer.subarray(3)), encoding: "utf-8" };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: new TextDecoder("utf-16le").decode(buffer.subarray(2)), encoding: "utf-16le" };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { text: new TextDecoder("utf-16be").decode(buffer.subarray(2)), encoding: "utf-16be" };
+  }
+
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(buffer), encoding: "utf-8" };
+  } catch {
+    return { text: new TextDecoder("windows-1256").decode(buffer), encoding: "windows-1256" };
+  }
+}
+
+/**
+ * Picks the delimiter that splits the first lines into the most columns,
+ * preferring candidates that give every line the same column count.
+ */
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).filter((line) => line.trim() !== "").slice(0, 10);
+  let best: string = ",";
+  let bestScore = 0;
+
+  for (const delimiter of delimiterCandidates) {
+    const counts = sample.map((line) => parseCsv(line, delimiter)[0]?.cells.length ?? 0);
+    if (counts.length === 0 || counts[0] < 2) continue;
+    const consistent = counts.every((count) => count === counts[0]);
+    const score = counts[0] * (consistent ? 2 : 1);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** A parsed CSV row and the 1-based source line it starts on. */
+export type CsvRecord = { line: number; cells: string[] };
+
+/**
+ * RFC 4180 parser; quoted fields may contain delimiters, quotes and newlines.
+ * Blank rows are dropped, so each record keeps the line it starts on for
+ * error messages.
+ */
+export function parseCsv(text: string, delimiter = ","): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) line++;
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+        line++;
+      }
+      row.push(field);
+      records.push({ line: recordLine, cells: row });
+      row = [];
+      field = "";
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    records.push({ line: recordLine, cells: row });
+  }
+  return records.filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function formatCsvField(value: unknown, delimiter: string): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Keep spreadsheet apps from evaluating text cells as formulas.
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text) && Number.isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+  if (text.includes(delimiter) || /["\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function formatCsvRow(values: unknown[], delimiter = ","): string {
+  return values.map((value) => formatCsvField(value, delimiter)).join(delimiter) + "\r\n";
+}
+
+/** UTF-8 byte order mark; lets Excel open exported Arabic text correctly. */
+export const CSV_BOM = "\uFEFF";
+
+export function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
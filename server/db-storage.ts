@@ -1,22 +1,68 @@
 import { db } from "./db";
-import { eq, and, lt, sql } from "drizzle-orm";
+import { eq, and, or, gt, gte, lt, lte, ilike, inArray, isNotNull, asc, desc, sql, type SQL } from "drizzle-orm";
 import {
   users,
   warehouses,
+  products,
   inventoryItems,
+  inventoryLots,
+  stockLevelDefaults,
   productHistory,
+  transferOrders,
+  transferOrderLines,
+  suppliers,
+  purchaseOrders,
+  purchaseOrderLines,
+  stocktakes,
+  stocktakeLines,
+  warehouseBins,
+  binStock,
+  unitsOfMeasure,
+  productUnitConversions,
   tables,
   tableRows,
   capturedImages,
   auditLogs,
+  systemSettings,
   type User,
   type UpsertUser,
   type Warehouse,
   type InsertWarehouse,
+  type Product,
+  type InsertProduct,
+  type ProductWithStock,
   type InventoryItem,
   type InsertInventoryItem,
+  type InventoryLot,
+  type StockLevelDefault,
+  type InsertStockLevelDefault,
   type ProductHistory,
+  type ProductHistoryEntry,
   type InsertProductHistory,
+  type TransferOrder,
+  type InsertTransferOrder,
+  type TransferOrderLine,
+  type TransferOrderStatus,
+  type TransferOrderWithLines,
+  type Supplier,
+  type InsertSupplier,
+  type PurchaseOrder,
+  type InsertPurchaseOrder,
+  type PurchaseOrderLine,
+  type PurchaseOrderStatus,
+  type PurchaseOrderWithLines,
+  type Stocktake,
+  type InsertStocktake,
+  type StocktakeLine,
+  type StocktakeStatus,
+  type StocktakeWithLines,
+  type WarehouseBin,
+  type InsertWarehouseBin,
+  type BinStock,
+  type UnitOfMeasure,
+  type InsertUnitOfMeasure,
+  type ProductUnitConversion,
+  type WarehouseStockSpace,
   type Table as DataTable,
   type InsertTable,
   type TableRow,
@@ -27,7 +73,99 @@ import {
   type InsertAuditLog,
   type UpdateUserRole,
 } from "@shared/schema";
-import type { IStorage } from "./storage";
+import {
+  decodeInventoryCursor,
+  encodeInventoryCursor,
+  removedColumnIds,
+  insufficientStockMessage,
+  movementLotOptions,
+  movementActions,
+  movementDelta,
+  userDisplayName,
+  type IStorage,
+  type InventoryFilters,
+  type InventoryPage,
+  type InventoryQuery,
+  type LotWithItem,
+  type ProductHistoryRange,
+  type StockMovement,
+  type StockMovementResult,
+  type TableRowQuery,
+} from "./storage";
+import { duplicateSkuMessage, productChanges, productFields, productFromItem, stockChanges } from "./catalog";
+import {
+  checkTransferLines,
+  checkTransferReceipts,
+  discrepancyNote,
+  transferLineValues,
+  transferDestinationItem,
+  type TransferOrderLineInput,
+  type TransferReceipt,
+} from "./transfers";
+import {
+  compareFefo,
+  lineLots,
+  lotAllocation,
+  lotFieldChanges,
+  lotIdentity,
+  lotSummary,
+  nextLot,
+  planLotChanges,
+  stepHistory,
+  stockSteps,
+  type LotOptions,
+  type StockStep,
+} from "./lots";
+import {
+  checkPurchaseLines,
+  checkPurchaseOrderStatus,
+  checkPurchaseReceipt,
+  purchaseLineValues,
+  purchaseReceiptItem,
+  purchaseReceiptNote,
+  receiptStatus,
+  type PurchaseOrderChanges,
+  type PurchaseOrderLineInput,
+  type PurchaseReceipt,
+} from "./purchasing";
+import {
+  checkStocktakeApprovals,
+  stocktakeLineValues,
+  stocktakeNote,
+  stocktakeScope,
+  stocktakeVariance,
+  type StocktakeApproval,
+} from "./stocktakes";
+import { binCode, checkBinMove, compareBins, duplicateBinMessage, trimBinStock } from "./bins";
+import {
+  baseUnitConversionMessage,
+  duplicateUnitMessage,
+  unitInUseMessage,
+  type UnitConversionInput,
+} from "./unit-conversions";
+import type { StockLevelField } from "@shared/stock-levels";
+import { expiryCutoff, parseSystemSettings, type SystemSettings } from "@shared/system-settings";
+import { startOfExpiryDay } from "@shared/expiry";
+import { importHistoryEntry, type InventoryImportOperation } from "./inventory-import";
+
+// Must match the expression of inventory_items_search_idx (migrations/004)
+const inventorySearchVector = sql`to_tsvector('simple', coalesce(${inventoryItems.name}, '') || ' ' || ${inventoryItems.sku} || ' ' || coalesce(${inventoryItems.category}, '') || ' ' || coalesce(${inventoryItems.description}, ''))`;
+
+// An item's effective stock level, resolved like resolveStockLevels
+function stockLevel(field: StockLevelField): SQL {
+  const column = stockLevelDefaults[field];
+  return sql`coalesce(
+    ${inventoryItems[field]},
+    (select ${column} from ${stockLevelDefaults} where ${stockLevelDefaults.category} = ${inventoryItems.category}),
+    (select ${column} from ${stockLevelDefaults} where ${stockLevelDefaults.warehouseId} = ${inventoryItems.warehouseId})
+  )`;
+}
+
+function lowStockCondition(settings: SystemSettings): SQL {
+  return sql`(${inventoryItems.quantity} < coalesce(${stockLevel("reorderPoint")}, ${settings.lowStockThreshold}) OR ${inventoryItems.quantity} < ${stockLevel("minQuantity")})`;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export class DatabaseStorage implements IStorage {
   async upsertUser(user: UpsertUser): Promise<User> {
@@ -113,19 +251,230 @@ export class DatabaseStorage implements IStorage {
     await db.delete(warehouses).where(eq(warehouses.id, id));
   }
 
-  async createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem> {
-    const [created] = await db
+  private async resolveProduct(tx: Transaction, item: InsertInventoryItem): Promise<Product> {
+    if (item.productId) {
+      const [product] = await tx.select().from(products).where(eq(products.id, item.productId));
+      if (!product) throw new Error("Product not found");
+      return product;
+    }
+    // Two requests seeing a new SKU at once race on the unique index; the loser reads the winner's row
+    await tx.insert(products).values(productFromItem(item)).onConflictDoNothing({ target: products.sku });
+    const [product] = await tx.select().from(products).where(eq(products.sku, item.sku));
+    return product;
+  }
+
+  private async insertInventoryItem(tx: Transaction, item: InsertInventoryItem): Promise<InventoryItem> {
+    const product = await this.resolveProduct(tx, item);
+    const [created] = await tx
       .insert(inventoryItems)
-      .values({
-        ...item,
-        expirationDate: item.expirationDate ? new Date(item.expirationDate) : null,
-      })
+      .values({ ...item, ...productFields(product), quantity: 0, batchNumber: null, expirationDate: null })
       .returning();
-    return created;
+    if (!item.quantity) return created;
+    const { item: stocked } = await this.changeStock(tx, created, item.quantity, {
+      into: { lotNumber: item.batchNumber, expirationDate: item.expirationDate ? new Date(item.expirationDate) : null },
+    });
+    return stocked;
   }
 
-  async getInventoryItems(): Promise<InventoryItem[]> {
-    return db.select().from(inventoryItems);
+  // Callers lock the item row first
+  private async changeStock(
+    tx: Transaction,
+    item: InventoryItem,
+    delta: number,
+    options: LotOptions = {}
+  ): Promise<{ item: InventoryItem; steps: StockStep[] }> {
+    const lots = await tx.select().from(inventoryLots).where(eq(inventoryLots.inventoryItemId, item.id)).for("update");
+    const applied: Array<{ lot: InventoryLot; quantity: number }> = [];
+    for (const change of planLotChanges(lots, delta, options)) {
+      const [lot] = change.lot
+        ? await tx
+            .update(inventoryLots)
+            .set({ quantity: change.lot.quantity + change.quantity, updatedAt: new Date() })
+            .where(eq(inventoryLots.id, change.lot.id))
+            .returning()
+        : await tx
+            .insert(inventoryLots)
+            .values({
+              inventoryItemId: item.id,
+              lotNumber: change.values.lotNumber ?? null,
+              expirationDate: change.values.expirationDate ?? null,
+              receivedAt: change.values.receivedAt,
+              quantity: change.quantity,
+            })
+            .returning();
+      applied.push({ lot, quantity: change.quantity });
+    }
+    const updated = await this.syncLotSummary(tx, item.id);
+    for (const { placement, quantity } of trimBinStock(await this.placementsOf(tx, item.id), updated.quantity)) {
+      await tx.update(binStock).set({ quantity, updatedAt: new Date() }).where(eq(binStock.id, placement.id));
+    }
+    return { item: updated, steps: stockSteps(item.quantity, applied) };
+  }
+
+  private async placementsOf(tx: Transaction, inventoryItemId: string): Promise<BinStock[]> {
+    return tx
+      .select()
+      .from(binStock)
+      .where(and(eq(binStock.inventoryItemId, inventoryItemId), gt(binStock.quantity, 0)))
+      .for("update");
+  }
+
+  private async syncLotSummary(tx: Transaction, inventoryItemId: string): Promise<InventoryItem> {
+    const lots = await tx.select().from(inventoryLots).where(eq(inventoryLots.inventoryItemId, inventoryItemId));
+    const [updated] = await tx
+      .update(inventoryItems)
+      .set({ ...lotSummary(lots), updatedAt: new Date() })
+      .where(eq(inventoryItems.id, inventoryItemId))
+      .returning();
+    return updated;
+  }
+
+  async getInventoryLots(inventoryItemId: string): Promise<InventoryLot[]> {
+    const lots = await db
+      .select()
+      .from(inventoryLots)
+      .where(and(eq(inventoryLots.inventoryItemId, inventoryItemId), gt(inventoryLots.quantity, 0)));
+    return lots.sort(compareFefo);
+  }
+
+  private async writeInventoryUpdate(
+    tx: Transaction,
+    current: InventoryItem,
+    changes: Partial<InsertInventoryItem>
+  ): Promise<InventoryItem> {
+    const relink =
+      (changes.productId !== undefined && changes.productId !== current.productId) ||
+      (changes.sku !== undefined && changes.sku !== current.sku);
+    const product = relink
+      ? await this.resolveProduct(tx, { ...current, ...changes, productId: changes.productId })
+      : await this.writeProductUpdate(tx, current.productId, productChanges(current, changes));
+    let [updated] = await tx
+      .update(inventoryItems)
+      .set({ ...stockChanges(changes), ...productFields(product), updatedAt: new Date() })
+      .where(eq(inventoryItems.id, current.id))
+      .returning();
+    // Bins belong to one warehouse; stock moved to another starts out unplaced
+    if (updated.warehouseId !== current.warehouseId) {
+      await tx.delete(binStock).where(eq(binStock.inventoryItemId, current.id));
+    }
+
+    const lots = await tx.select().from(inventoryLots).where(eq(inventoryLots.inventoryItemId, current.id)).for("update");
+    const shown = nextLot(lots);
+    const lotChanges = lotFieldChanges(current, changes);
+    if (lotChanges && shown) {
+      await tx
+        .update(inventoryLots)
+        .set({ ...lotChanges, updatedAt: new Date() })
+        .where(eq(inventoryLots.id, shown.id));
+      updated = await this.syncLotSummary(tx, current.id);
+    }
+    if (changes.quantity === undefined || changes.quantity === updated.quantity) return updated;
+    // Increases go to the lot the record shows; decreases are FEFO
+    const { item } = await this.changeStock(
+      tx,
+      updated,
+      changes.quantity - updated.quantity,
+      shown ? { lotId: shown.id } : { into: lotChanges ?? {} }
+    );
+    return item;
+  }
+
+  async createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem> {
+    return db.transaction((tx) => this.insertInventoryItem(tx, item));
+  }
+
+  private inventoryConditions(filters: InventoryFilters, settings: SystemSettings): SQL | undefined {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.warehouseId) conditions.push(eq(inventoryItems.warehouseId, filters.warehouseId));
+    if (filters.category) conditions.push(eq(inventoryItems.category, filters.category));
+    if (filters.lowStock) conditions.push(lowStockCondition(settings));
+    if (filters.expiring) {
+      conditions.push(
+        gte(inventoryItems.expirationDate, startOfExpiryDay()),
+        lte(inventoryItems.expirationDate, expiryCutoff(settings))
+      );
+    }
+    if (filters.expired) conditions.push(lt(inventoryItems.expirationDate, startOfExpiryDay()));
+    if (filters.minQuantity !== undefined) conditions.push(gte(inventoryItems.quantity, filters.minQuantity));
+    if (filters.maxQuantity !== undefined) conditions.push(lte(inventoryItems.quantity, filters.maxQuantity));
+    if (filters.expiresFrom) conditions.push(gte(inventoryItems.expirationDate, filters.expiresFrom));
+    if (filters.expiresTo) conditions.push(lte(inventoryItems.expirationDate, filters.expiresTo));
+    if (filters.q) {
+      // Every word must prefix-match a word of the item's text; the SKU also
+      // matches as a plain substring so partial codes like "-001" are found.
+      const terms = filters.q
+        .replace(/[^\p{L}\p{N}_]+/gu, " ")
+        .split(" ")
+        .filter(Boolean);
+      const skuPattern = `%${filters.q.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(
+        or(
+          terms.length > 0
+            ? sql`${inventorySearchVector} @@ to_tsquery('simple', ${terms.map((term) => `${term}:*`).join(" & ")})`
+            : undefined,
+          ilike(inventoryItems.sku, skuPattern)
+        )
+      );
+    }
+    return and(...conditions);
+  }
+
+  async getInventoryItems(filters: InventoryFilters = {}): Promise<InventoryItem[]> {
+    const settings = await this.getSystemSettings();
+    return db.select().from(inventoryItems).where(this.inventoryConditions(filters, settings));
+  }
+
+  async queryInventoryItems(query: InventoryQuery): Promise<InventoryPage> {
+    const { sort = "name", order = "asc", limit, offset = 0 } = query;
+    const filter = this.inventoryConditions(query, await this.getSystemSettings());
+    // Timestamps are compared at millisecond precision so cursor values
+    // round-trip through JavaScript dates exactly.
+    const column = inventoryItems[sort];
+    const sortExpression =
+      sort === "expirationDate" || sort === "createdAt" || sort === "updatedAt"
+        ? sql`date_trunc('milliseconds', ${column})`
+        : sql`${column}`;
+
+    let keyset: SQL | undefined;
+    if (query.cursor) {
+      const [value, id] = decodeInventoryCursor(query.cursor);
+      const after = order === "asc" ? sql.raw(">") : sql.raw("<");
+      // Nulls sort last in both directions
+      keyset =
+        value === null
+          ? sql`${column} IS NULL AND ${inventoryItems.id} ${after} ${id}`
+          : sql`(${sortExpression} ${after} ${value} OR (${sortExpression} = ${value} AND ${inventoryItems.id} ${after} ${id}) OR ${column} IS NULL)`;
+    }
+
+    const [[{ count: total }], rows] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` }).from(inventoryItems).where(filter),
+      db
+        .select()
+        .from(inventoryItems)
+        .where(and(filter, keyset))
+        .orderBy(
+          sql`${sortExpression} ${sql.raw(order === "asc" ? "ASC" : "DESC")} NULLS LAST`,
+          order === "asc" ? asc(inventoryItems.id) : desc(inventoryItems.id)
+        )
+        .limit(limit + 1)
+        .offset(query.cursor ? 0 : offset),
+    ]);
+
+    const items = rows.slice(0, limit);
+    return {
+      items,
+      total,
+      nextCursor: rows.length > limit ? encodeInventoryCursor(items[items.length - 1], sort) : null,
+    };
+  }
+
+  async getInventoryCategories(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ category: inventoryItems.category })
+      .from(inventoryItems)
+      .where(isNotNull(inventoryItems.category))
+      .orderBy(inventoryItems.category);
+    return rows.map((row) => row.category!).filter(Boolean);
   }
 
   async getInventoryItemById(id: string): Promise<InventoryItem | null> {
@@ -137,40 +486,1057 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(inventoryItems).where(eq(inventoryItems.warehouseId, warehouseId));
   }
 
+  async getInventoryItemsBySku(sku: string): Promise<InventoryItem[]> {
+    return db.select().from(inventoryItems).where(sql`lower(${inventoryItems.sku}) = ${sku.toLowerCase()}`);
+  }
+
+  async getInventoryItemsByLotNumber(lotNumber: string): Promise<InventoryItem[]> {
+    const lotItems = db
+      .select({ id: inventoryLots.inventoryItemId })
+      .from(inventoryLots)
+      .where(and(eq(inventoryLots.lotNumber, lotNumber), gt(inventoryLots.quantity, 0)));
+    return db.select().from(inventoryItems).where(inArray(inventoryItems.id, lotItems));
+  }
+
   async updateInventoryItem(id: string, item: Partial<InsertInventoryItem>): Promise<InventoryItem> {
-    const [updated] = await db
-      .update(inventoryItems)
-      .set({
-        ...item,
-        expirationDate: item.expirationDate ? new Date(item.expirationDate) : undefined,
-        updatedAt: new Date(),
-      })
-      .where(eq(inventoryItems.id, id))
-      .returning();
-    if (!updated) throw new Error("Inventory item not found");
-    return updated;
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(inventoryItems).where(eq(inventoryItems.id, id)).for("update");
+      if (!current) throw new Error("Inventory item not found");
+      return this.writeInventoryUpdate(tx, current, item);
+    });
   }
 
   async deleteInventoryItem(id: string): Promise<void> {
     await db.delete(inventoryItems).where(eq(inventoryItems.id, id));
   }
 
-  async getLowStockItems(threshold = 10): Promise<InventoryItem[]> {
-    return db.select().from(inventoryItems).where(lt(inventoryItems.quantity, threshold));
+  async getLowStockItems(): Promise<InventoryItem[]> {
+    const settings = await this.getSystemSettings();
+    return db.select().from(inventoryItems).where(lowStockCondition(settings));
   }
 
-  async getExpiringItems(daysAhead = 30): Promise<InventoryItem[]> {
-    const futureDate = new Date();
-    futureDate.setDate(futureDate.getDate() + daysAhead);
+  async getInventoryLotById(id: string): Promise<InventoryLot | null> {
+    const [lot] = await db.select().from(inventoryLots).where(eq(inventoryLots.id, id));
+    return lot ?? null;
+  }
+
+  async getExpiryLots(expiresBy: Date): Promise<LotWithItem[]> {
     return db
+      .select({ lot: inventoryLots, item: inventoryItems })
+      .from(inventoryLots)
+      .innerJoin(inventoryItems, eq(inventoryItems.id, inventoryLots.inventoryItemId))
+      .where(and(gt(inventoryLots.quantity, 0), lte(inventoryLots.expirationDate, expiresBy)));
+  }
+
+  async setLotQuarantine(id: string, quarantined: boolean): Promise<InventoryLot> {
+    return db.transaction(async (tx) => {
+      const [lot] = await tx.select().from(inventoryLots).where(eq(inventoryLots.id, id));
+      if (!lot) throw new Error("Lot not found");
+      // Same lock order as stock movements: the item, then its lots
+      await tx.select().from(inventoryItems).where(eq(inventoryItems.id, lot.inventoryItemId)).for("update");
+      const [updated] = await tx
+        .update(inventoryLots)
+        .set({
+          quarantinedAt: quarantined ? sql`coalesce(${inventoryLots.quarantinedAt}, now())` : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(inventoryLots.id, id))
+        .returning();
+      await this.syncLotSummary(tx, lot.inventoryItemId);
+      return updated;
+    });
+  }
+
+  async importInventoryItems(
+    operations: InventoryImportOperation[],
+    userId: string | null
+  ): Promise<{ created: number; updated: number }> {
+    return db.transaction(async (tx) => {
+      let created = 0;
+      let updated = 0;
+      for (const operation of operations) {
+        if (operation.action === "create") {
+          const item = await this.insertInventoryItem(tx, operation.item);
+          const entry = importHistoryEntry(operation, item, 0, userId);
+          if (entry) await tx.insert(productHistory).values(entry);
+          created++;
+          continue;
+        }
+
+        const { changes, item: previous } = operation;
+        // Lock the row so a concurrent edit can't slip in between the diff and the write
+        const [current] = await tx
+          .select()
+          .from(inventoryItems)
+          .where(eq(inventoryItems.id, previous.id))
+          .for("update");
+        if (!current) throw new Error(`Inventory item ${previous.sku} no longer exists`);
+
+        const item = await this.writeInventoryUpdate(tx, current, changes);
+        const entry = importHistoryEntry(operation, item, current.quantity, userId);
+        if (entry) await tx.insert(productHistory).values(entry);
+        updated++;
+      }
+      return { created, updated };
+    });
+  }
+
+  async applyStockMovement(movement: StockMovement, userId: string | null): Promise<StockMovementResult> {
+    return db.transaction(async (tx) => {
+      const [item] = await tx
+        .select()
+        .from(inventoryItems)
+        .where(eq(inventoryItems.id, movement.itemId))
+        .for("update");
+      if (!item) throw new Error("Inventory item not found");
+      const delta = movementDelta(movement);
+      if (item.quantity + delta < 0) throw new Error(insufficientStockMessage(item, delta));
+
+      let destination: InventoryItem | undefined;
+      if (movement.type === "transfer") {
+        if (movement.toWarehouseId === item.warehouseId) {
+          throw new Error("Cannot transfer stock to the same warehouse");
+        }
+        const [warehouse] = await tx
+          .select({ id: warehouses.id })
+          .from(warehouses)
+          .where(eq(warehouses.id, movement.toWarehouseId));
+        if (!warehouse) throw new Error("Destination warehouse not found");
+
+        [destination] = await tx
+          .select()
+          .from(inventoryItems)
+          .where(and(eq(inventoryItems.warehouseId, movement.toWarehouseId), eq(inventoryItems.productId, item.productId)))
+          .limit(1)
+          .for("update");
+        if (!destination) {
+          destination = await this.insertInventoryItem(tx, transferDestinationItem(item, movement.toWarehouseId));
+        }
+      }
+
+      const source = await this.changeStock(tx, item, delta, movementLotOptions(movement));
+      const rows = stepHistory(item.id, source.steps, {
+        actionType: movementActions[movement.type],
+        reasonCode: movement.type === "adjust" ? movement.reasonCode : null,
+        relatedItemId: destination?.id ?? null,
+        unitCost: movement.type === "receive" ? movement.unitCost ?? null : null,
+        userId,
+        notes: movement.notes,
+      });
+      // Each lot taken from the source arrives as the same lot at the destination
+      let received = destination;
+      for (const step of destination ? source.steps : []) {
+        const arrival = await this.changeStock(tx, received!, -step.quantityChange, { into: lotIdentity(step.lot) });
+        received = arrival.item;
+        rows.push(
+          ...stepHistory(destination!.id, arrival.steps, {
+            actionType: "transfer_in",
+            relatedItemId: item.id,
+            userId,
+            notes: movement.notes,
+          })
+        );
+      }
+      const history = await tx.insert(productHistory).values(rows).returning();
+      return { items: received ? [source.item, received] : [source.item], history };
+    });
+  }
+
+  private async attachTransferLines(orders: TransferOrder[]): Promise<TransferOrderWithLines[]> {
+    if (orders.length === 0) return [];
+    const lines = await db
+      .select()
+      .from(transferOrderLines)
+      .where(
+        inArray(
+          transferOrderLines.transferOrderId,
+          orders.map((order) => order.id)
+        )
+      );
+    return orders.map((order) => ({
+      ...order,
+      lines: lines.filter((line) => line.transferOrderId === order.id),
+    }));
+  }
+
+  private async lockTransferOrder(
+    tx: Transaction,
+    id: string,
+    status: TransferOrderStatus,
+    action: string
+  ): Promise<TransferOrder> {
+    const [order] = await tx.select().from(transferOrders).where(eq(transferOrders.id, id)).for("update");
+    if (!order) throw new Error("Transfer order not found");
+    if (order.status !== status) throw new Error(`Only ${status} transfers can be ${action}`);
+    return order;
+  }
+
+  private async checkTransferLineItems(
+    tx: Transaction,
+    sourceWarehouseId: string,
+    lines: TransferOrderLineInput[],
+    lock = false
+  ): Promise<Map<string, InventoryItem>> {
+    const query = tx
       .select()
       .from(inventoryItems)
       .where(
-        and(
-          sql`${inventoryItems.expirationDate} IS NOT NULL`,
-          sql`${inventoryItems.expirationDate} <= ${futureDate}`
+        inArray(
+          inventoryItems.id,
+          lines.map((line) => line.inventoryItemId)
+        )
+      )
+      .orderBy(inventoryItems.id);
+    const items = lock ? await query.for("update") : await query;
+    return checkTransferLines(sourceWarehouseId, lines, items);
+  }
+
+  async createTransferOrder(order: InsertTransferOrder, lines: TransferOrderLineInput[]): Promise<TransferOrderWithLines> {
+    return db.transaction(async (tx) => {
+      const items = await this.checkTransferLineItems(tx, order.sourceWarehouseId, lines);
+      const [created] = await tx.insert(transferOrders).values({ ...order, status: "draft" }).returning();
+      const createdLines = await tx
+        .insert(transferOrderLines)
+        .values(transferLineValues(created.id, lines, items))
+        .returning();
+      return { ...created, lines: createdLines };
+    });
+  }
+
+  async getTransferOrders(status?: TransferOrderStatus): Promise<TransferOrderWithLines[]> {
+    const orders = await db
+      .select()
+      .from(transferOrders)
+      .where(status ? eq(transferOrders.status, status) : undefined)
+      .orderBy(desc(transferOrders.createdAt));
+    return this.attachTransferLines(orders);
+  }
+
+  async getTransferOrderById(id: string): Promise<TransferOrderWithLines | null> {
+    const [order] = await db.select().from(transferOrders).where(eq(transferOrders.id, id)).limit(1);
+    if (!order) return null;
+    const [withLines] = await this.attachTransferLines([order]);
+    return withLines;
+  }
+
+  async updateTransferOrder(
+    id: string,
+    changes: { notes?: string; lines?: TransferOrderLineInput[] }
+  ): Promise<TransferOrderWithLines> {
+    return db.transaction(async (tx) => {
+      const order = await this.lockTransferOrder(tx, id, "draft", "edited");
+      if (changes.lines) {
+        const items = await this.checkTransferLineItems(tx, order.sourceWarehouseId, changes.lines);
+        await tx.delete(transferOrderLines).where(eq(transferOrderLines.transferOrderId, id));
+        await tx.insert(transferOrderLines).values(transferLineValues(id, changes.lines, items));
+      }
+      const [updated] = await tx
+        .update(transferOrders)
+        .set({ notes: changes.notes ?? order.notes, updatedAt: new Date() })
+        .where(eq(transferOrders.id, id))
+        .returning();
+      const lines = await tx.select().from(transferOrderLines).where(eq(transferOrderLines.transferOrderId, id));
+      return { ...updated, lines };
+    });
+  }
+
+  async shipTransferOrder(id: string, userId: string | null): Promise<TransferOrderWithLines> {
+    return db.transaction(async (tx) => {
+      const order = await this.lockTransferOrder(tx, id, "draft", "shipped");
+      const lines = await tx.select().from(transferOrderLines).where(eq(transferOrderLines.transferOrderId, id));
+      const items = await this.checkTransferLineItems(tx, order.sourceWarehouseId, lines, true);
+
+      const shippedLines: TransferOrderLine[] = [];
+      for (const line of lines) {
+        const item = items.get(line.inventoryItemId)!;
+        if (item.quantity < line.quantity) throw new Error(insufficientStockMessage(item, -line.quantity));
+        const { steps } = await this.changeStock(tx, item, -line.quantity);
+        await tx.insert(productHistory).values(
+          stepHistory(item.id, steps, { actionType: "transfer_out", transferOrderId: id, userId, notes: order.notes })
+        );
+        const [shippedLine] = await tx
+          .update(transferOrderLines)
+          .set({ lots: steps.map(lotAllocation) })
+          .where(eq(transferOrderLines.id, line.id))
+          .returning();
+        shippedLines.push(shippedLine);
+      }
+
+      const [shipped] = await tx
+        .update(transferOrders)
+        .set({ status: "shipped", shippedBy: userId, shippedAt: new Date(), updatedAt: new Date() })
+        .where(eq(transferOrders.id, id))
+        .returning();
+      return { ...shipped, lines: shippedLines };
+    });
+  }
+
+  async receiveTransferOrder(id: string, receipts: TransferReceipt[], userId: string | null): Promise<TransferOrderWithLines> {
+    return db.transaction(async (tx) => {
+      const order = await this.lockTransferOrder(tx, id, "shipped", "received");
+      const lines = await tx.select().from(transferOrderLines).where(eq(transferOrderLines.transferOrderId, id));
+      const receiptsByLine = checkTransferReceipts(lines, receipts);
+
+      const receivedLines: TransferOrderLine[] = [];
+      for (const line of lines) {
+        const receipt = receiptsByLine.get(line.id)!;
+        const [source] = await tx.select().from(inventoryItems).where(eq(inventoryItems.id, line.inventoryItemId));
+        if (!source) throw new Error(`Inventory item ${line.inventoryItemId} not found`);
+
+        let [destination] = await tx
+          .select()
+          .from(inventoryItems)
+          .where(and(eq(inventoryItems.warehouseId, order.destinationWarehouseId), eq(inventoryItems.productId, source.productId)))
+          .limit(1)
+          .for("update");
+        if (!destination) {
+          destination = await this.insertInventoryItem(tx, transferDestinationItem(source, order.destinationWarehouseId));
+        }
+
+        // Book in the shipped lots, then correct them to what was counted
+        let current = destination;
+        const rows: InsertProductHistory[] = [];
+        const bookedLots: string[] = [];
+        for (const { quantity, ...lot } of lineLots(line, order.shippedAt)) {
+          const arrival = await this.changeStock(tx, current, quantity, { into: lot });
+          current = arrival.item;
+          bookedLots.push(...arrival.steps.map((step) => step.lot.id));
+          rows.push(
+            ...stepHistory(destination.id, arrival.steps, {
+              actionType: "transfer_in",
+              relatedItemId: source.id,
+              transferOrderId: id,
+              userId,
+              notes: order.notes,
+            })
+          );
+        }
+
+        const difference = receipt.receivedQuantity - line.quantity;
+        if (difference !== 0) {
+          const counted = await this.changeStock(tx, current, difference, {
+            lotId: bookedLots[0],
+            fromLots: bookedLots,
+          });
+          rows.push(
+            ...stepHistory(destination.id, counted.steps, {
+              actionType: "adjust",
+              reasonCode: receipt.discrepancyReason,
+              transferOrderId: id,
+              userId,
+              notes: discrepancyNote(line, receipt.receivedQuantity),
+            })
+          );
+        }
+        await tx.insert(productHistory).values(rows);
+
+        const [receivedLine] = await tx
+          .update(transferOrderLines)
+          .set({
+            destinationItemId: destination.id,
+            receivedQuantity: receipt.receivedQuantity,
+            discrepancyReason: difference !== 0 ? receipt.discrepancyReason : null,
+          })
+          .where(eq(transferOrderLines.id, line.id))
+          .returning();
+        receivedLines.push(receivedLine);
+      }
+
+      const [received] = await tx
+        .update(transferOrders)
+        .set({ status: "received", receivedBy: userId, receivedAt: new Date(), updatedAt: new Date() })
+        .where(eq(transferOrders.id, id))
+        .returning();
+      return { ...received, lines: receivedLines };
+    });
+  }
+
+  async cancelTransferOrder(id: string): Promise<TransferOrderWithLines> {
+    return db.transaction(async (tx) => {
+      await this.lockTransferOrder(tx, id, "draft", "cancelled");
+      const [cancelled] = await tx
+        .update(transferOrders)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(transferOrders.id, id))
+        .returning();
+      const lines = await tx.select().from(transferOrderLines).where(eq(transferOrderLines.transferOrderId, id));
+      return { ...cancelled, lines };
+    });
+  }
+
+  async getSuppliers(): Promise<Supplier[]> {
+    return db.select().from(suppliers).orderBy(asc(suppliers.name));
+  }
+
+  async getSupplierById(id: string): Promise<Supplier | null> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id)).limit(1);
+    return supplier || null;
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const [created] = await db.insert(suppliers).values(supplier).returning();
+    return created;
+  }
+
+  async updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier> {
+    const [updated] = await db
+      .update(suppliers)
+      .set({ ...supplier, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    if (!updated) throw new Error("Supplier not found");
+    return updated;
+  }
+
+  async deleteSupplier(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [supplier] = await tx.select().from(suppliers).where(eq(suppliers.id, id)).for("update");
+      if (!supplier) throw new Error("Supplier not found");
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.supplierId, id));
+      if (count > 0) throw new Error(`Cannot delete ${supplier.name} while it has ${count} purchase order(s)`);
+      await tx.delete(suppliers).where(eq(suppliers.id, id));
+    });
+  }
+
+  private async attachPurchaseLines(orders: PurchaseOrder[]): Promise<PurchaseOrderWithLines[]> {
+    if (orders.length === 0) return [];
+    const lines = await db
+      .select()
+      .from(purchaseOrderLines)
+      .where(
+        inArray(
+          purchaseOrderLines.purchaseOrderId,
+          orders.map((order) => order.id)
+        )
+      )
+      .orderBy(purchaseOrderLines.itemName);
+    return orders.map((order) => ({
+      ...order,
+      lines: lines.filter((line) => line.purchaseOrderId === order.id),
+    }));
+  }
+
+  private async lockPurchaseOrder(
+    tx: Transaction,
+    id: string,
+    statuses: PurchaseOrderStatus[],
+    action: string
+  ): Promise<PurchaseOrder> {
+    const [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+    if (!order) throw new Error("Purchase order not found");
+    return checkPurchaseOrderStatus(order, statuses, action);
+  }
+
+  private async checkPurchaseParties(tx: Transaction, order: { supplierId?: string; warehouseId?: string }) {
+    if (order.supplierId) {
+      const [supplier] = await tx.select({ id: suppliers.id }).from(suppliers).where(eq(suppliers.id, order.supplierId));
+      if (!supplier) throw new Error("Supplier not found");
+    }
+    if (order.warehouseId) {
+      const [warehouse] = await tx
+        .select({ id: warehouses.id })
+        .from(warehouses)
+        .where(eq(warehouses.id, order.warehouseId));
+      if (!warehouse) throw new Error("Warehouse not found");
+    }
+  }
+
+  private async insertPurchaseLines(tx: Transaction, purchaseOrderId: string, lines: PurchaseOrderLineInput[]) {
+    const found = await tx
+      .select()
+      .from(products)
+      .where(
+        inArray(
+          products.id,
+          lines.map((line) => line.productId)
         )
       );
+    const productsById = checkPurchaseLines(lines, found);
+    await tx.insert(purchaseOrderLines).values(purchaseLineValues(purchaseOrderId, lines, productsById));
+  }
+
+  private async purchaseLinesOf(tx: Transaction, purchaseOrderId: string): Promise<PurchaseOrderLine[]> {
+    return tx
+      .select()
+      .from(purchaseOrderLines)
+      .where(eq(purchaseOrderLines.purchaseOrderId, purchaseOrderId))
+      .orderBy(purchaseOrderLines.itemName);
+  }
+
+  async createPurchaseOrder(order: InsertPurchaseOrder, lines: PurchaseOrderLineInput[]): Promise<PurchaseOrderWithLines> {
+    return db.transaction(async (tx) => {
+      await this.checkPurchaseParties(tx, order);
+      const [created] = await tx.insert(purchaseOrders).values({ ...order, status: "draft" }).returning();
+      await this.insertPurchaseLines(tx, created.id, lines);
+      return { ...created, lines: await this.purchaseLinesOf(tx, created.id) };
+    });
+  }
+
+  async getPurchaseOrders(status?: PurchaseOrderStatus): Promise<PurchaseOrderWithLines[]> {
+    const orders = await db
+      .select()
+      .from(purchaseOrders)
+      .where(status ? eq(purchaseOrders.status, status) : undefined)
+      .orderBy(desc(purchaseOrders.createdAt));
+    return this.attachPurchaseLines(orders);
+  }
+
+  async getPurchaseOrderById(id: string): Promise<PurchaseOrderWithLines | null> {
+    const [order] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).limit(1);
+    if (!order) return null;
+    const [withLines] = await this.attachPurchaseLines([order]);
+    return withLines;
+  }
+
+  async updatePurchaseOrder(id: string, changes: PurchaseOrderChanges): Promise<PurchaseOrderWithLines> {
+    return db.transaction(async (tx) => {
+      const order = await this.lockPurchaseOrder(tx, id, ["draft"], "edited");
+      const { lines, ...fields } = changes;
+      await this.checkPurchaseParties(tx, fields);
+      if (lines) {
+        await tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
+        await this.insertPurchaseLines(tx, id, lines);
+      }
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({
+          supplierId: fields.supplierId ?? order.supplierId,
+          warehouseId: fields.warehouseId ?? order.warehouseId,
+          expectedAt: fields.expectedAt !== undefined ? fields.expectedAt : order.expectedAt,
+          notes: fields.notes ?? order.notes,
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return { ...updated, lines: await this.purchaseLinesOf(tx, id) };
+    });
+  }
+
+  async sendPurchaseOrder(id: string, userId: string | null): Promise<PurchaseOrderWithLines> {
+    return db.transaction(async (tx) => {
+      await this.lockPurchaseOrder(tx, id, ["draft"], "sent");
+      const [sent] = await tx
+        .update(purchaseOrders)
+        .set({ status: "sent", sentBy: userId, sentAt: new Date(), updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return { ...sent, lines: await this.purchaseLinesOf(tx, id) };
+    });
+  }
+
+  async receivePurchaseOrder(id: string, receipt: PurchaseReceipt, userId: string | null): Promise<PurchaseOrderWithLines> {
+    return db.transaction(async (tx) => {
+      const order = await this.lockPurchaseOrder(tx, id, ["sent", "partially_received"], "received");
+      const lines = await this.purchaseLinesOf(tx, id);
+      const linesById = checkPurchaseReceipt(lines, receipt);
+
+      const rows: InsertProductHistory[] = [];
+      for (const entry of receipt.lines) {
+        const line = linesById.get(entry.lineId)!;
+        let [item] = await tx
+          .select()
+          .from(inventoryItems)
+          .where(and(eq(inventoryItems.warehouseId, order.warehouseId), eq(inventoryItems.productId, line.productId)))
+          .limit(1)
+          .for("update");
+        if (!item) {
+          item = await this.insertInventoryItem(tx, purchaseReceiptItem(line, order.warehouseId));
+        }
+        const { steps } = await this.changeStock(tx, item, entry.quantity, {
+          into: { lotNumber: entry.lotNumber, expirationDate: entry.expirationDate },
+        });
+        rows.push(
+          ...stepHistory(item.id, steps, {
+            actionType: "in",
+            purchaseOrderId: id,
+            unitCost: line.unitCost,
+            userId,
+            notes: purchaseReceiptNote(line, entry.quantity, receipt.notes),
+          })
+        );
+        const [receivedLine] = await tx
+          .update(purchaseOrderLines)
+          .set({ receivedQuantity: line.receivedQuantity + entry.quantity, inventoryItemId: item.id })
+          .where(eq(purchaseOrderLines.id, line.id))
+          .returning();
+        linesById.set(line.id, receivedLine);
+      }
+      await tx.insert(productHistory).values(rows);
+
+      const receivedLines = lines.map((line) => linesById.get(line.id)!);
+      const status = receiptStatus(receivedLines, receipt.closeShort);
+      const now = new Date();
+      const [received] = await tx
+        .update(purchaseOrders)
+        .set({
+          status,
+          closedBy: status === "closed" ? userId : null,
+          closedAt: status === "closed" ? now : null,
+          updatedAt: now,
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return { ...received, lines: receivedLines };
+    });
+  }
+
+  async closePurchaseOrder(id: string, userId: string | null): Promise<PurchaseOrderWithLines> {
+    return db.transaction(async (tx) => {
+      await this.lockPurchaseOrder(tx, id, ["sent", "partially_received"], "closed");
+      const [closed] = await tx
+        .update(purchaseOrders)
+        .set({ status: "closed", closedBy: userId, closedAt: new Date(), updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return { ...closed, lines: await this.purchaseLinesOf(tx, id) };
+    });
+  }
+
+  async deletePurchaseOrder(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.lockPurchaseOrder(tx, id, ["draft"], "deleted");
+      await tx.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+    });
+  }
+
+  private async attachStocktakeLines(sessions: Stocktake[]): Promise<StocktakeWithLines[]> {
+    if (sessions.length === 0) return [];
+    const lines = await db
+      .select()
+      .from(stocktakeLines)
+      .where(
+        inArray(
+          stocktakeLines.stocktakeId,
+          sessions.map((stocktake) => stocktake.id)
+        )
+      )
+      .orderBy(asc(stocktakeLines.location), asc(stocktakeLines.itemName));
+    return sessions.map((stocktake) => ({
+      ...stocktake,
+      lines: lines.filter((line) => line.stocktakeId === stocktake.id),
+    }));
+  }
+
+  private async lockStocktake(tx: Transaction, id: string, action: string): Promise<Stocktake> {
+    const [stocktake] = await tx.select().from(stocktakes).where(eq(stocktakes.id, id)).for("update");
+    if (!stocktake) throw new Error("Stocktake not found");
+    if (stocktake.status !== "counting") throw new Error(`Only stocktakes still counting can be ${action}`);
+    return stocktake;
+  }
+
+  private async stocktakeLinesOf(tx: Transaction, stocktakeId: string): Promise<StocktakeLine[]> {
+    return tx
+      .select()
+      .from(stocktakeLines)
+      .where(eq(stocktakeLines.stocktakeId, stocktakeId))
+      .orderBy(asc(stocktakeLines.location), asc(stocktakeLines.itemName));
+  }
+
+  async createStocktake(stocktake: InsertStocktake): Promise<StocktakeWithLines> {
+    return db.transaction(async (tx) => {
+      const [warehouse] = await tx
+        .select({ id: warehouses.id })
+        .from(warehouses)
+        .where(eq(warehouses.id, stocktake.warehouseId));
+      if (!warehouse) throw new Error("Warehouse not found");
+      const stock = await tx.select().from(inventoryItems).where(eq(inventoryItems.warehouseId, stocktake.warehouseId));
+      const items = stocktakeScope(stock, stocktake);
+      if (items.length === 0) throw new Error("No stock matches the stocktake scope");
+
+      const [created] = await tx.insert(stocktakes).values({ ...stocktake, status: "counting" }).returning();
+      await tx.insert(stocktakeLines).values(stocktakeLineValues(created.id, items));
+      return { ...created, lines: await this.stocktakeLinesOf(tx, created.id) };
+    });
+  }
+
+  async getStocktakes(status?: StocktakeStatus): Promise<StocktakeWithLines[]> {
+    const sessions = await db
+      .select()
+      .from(stocktakes)
+      .where(status ? eq(stocktakes.status, status) : undefined)
+      .orderBy(desc(stocktakes.createdAt));
+    return this.attachStocktakeLines(sessions);
+  }
+
+  async getStocktakeById(id: string): Promise<StocktakeWithLines | null> {
+    const [stocktake] = await db.select().from(stocktakes).where(eq(stocktakes.id, id)).limit(1);
+    if (!stocktake) return null;
+    const [withLines] = await this.attachStocktakeLines([stocktake]);
+    return withLines;
+  }
+
+  async countStocktakeLine(
+    id: string,
+    lineId: string,
+    countedQuantity: number | null,
+    userId: string | null
+  ): Promise<StocktakeLine> {
+    return db.transaction(async (tx) => {
+      await this.lockStocktake(tx, id, "counted");
+      const [counted] = await tx
+        .update(stocktakeLines)
+        .set({
+          countedQuantity,
+          countedBy: countedQuantity === null ? null : userId,
+          countedAt: countedQuantity === null ? null : new Date(),
+        })
+        .where(and(eq(stocktakeLines.id, lineId), eq(stocktakeLines.stocktakeId, id)))
+        .returning();
+      if (!counted) throw new Error("Stocktake line not found");
+      return counted;
+    });
+  }
+
+  async postStocktake(id: string, approvals: StocktakeApproval[], userId: string | null): Promise<StocktakeWithLines> {
+    return db.transaction(async (tx) => {
+      await this.lockStocktake(tx, id, "posted");
+      const linesById = checkStocktakeApprovals(await this.stocktakeLinesOf(tx, id), approvals);
+
+      const rows: InsertProductHistory[] = [];
+      for (const approval of approvals) {
+        const line = linesById.get(approval.lineId)!;
+        const [item] = await tx
+          .select()
+          .from(inventoryItems)
+          .where(eq(inventoryItems.id, line.inventoryItemId))
+          .for("update");
+        if (!item) throw new Error(`Inventory item ${line.inventoryItemId} not found`);
+        // The variance applies to current stock, which may have moved since the count was frozen
+        const delta = stocktakeVariance(line)!;
+        if (item.quantity + delta < 0) throw new Error(insufficientStockMessage(item, delta));
+        const { steps } = await this.changeStock(tx, item, delta);
+        rows.push(
+          ...stepHistory(item.id, steps, {
+            actionType: "adjust",
+            reasonCode: approval.reasonCode,
+            stocktakeId: id,
+            userId,
+            notes: stocktakeNote(line),
+          })
+        );
+        await tx
+          .update(stocktakeLines)
+          .set({ reasonCode: approval.reasonCode, postedQuantity: delta })
+          .where(eq(stocktakeLines.id, line.id));
+      }
+      if (rows.length > 0) await tx.insert(productHistory).values(rows);
+
+      const [posted] = await tx
+        .update(stocktakes)
+        .set({ status: "posted", postedBy: userId, postedAt: new Date(), updatedAt: new Date() })
+        .where(eq(stocktakes.id, id))
+        .returning();
+      return { ...posted, lines: await this.stocktakeLinesOf(tx, id) };
+    });
+  }
+
+  async cancelStocktake(id: string): Promise<StocktakeWithLines> {
+    return db.transaction(async (tx) => {
+      await this.lockStocktake(tx, id, "cancelled");
+      const [cancelled] = await tx
+        .update(stocktakes)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(stocktakes.id, id))
+        .returning();
+      return { ...cancelled, lines: await this.stocktakeLinesOf(tx, id) };
+    });
+  }
+
+  async getBins(warehouseId: string): Promise<WarehouseBin[]> {
+    const bins = await db.select().from(warehouseBins).where(eq(warehouseBins.warehouseId, warehouseId));
+    return bins.sort(compareBins);
+  }
+
+  async getBinById(id: string): Promise<WarehouseBin | null> {
+    const [bin] = await db.select().from(warehouseBins).where(eq(warehouseBins.id, id));
+    return bin || null;
+  }
+
+  async createBin(bin: InsertWarehouseBin): Promise<WarehouseBin> {
+    const code = binCode(bin);
+    const [created] = await db.insert(warehouseBins).values({ ...bin, code }).onConflictDoNothing().returning();
+    if (!created) throw new Error(duplicateBinMessage(code));
+    return created;
+  }
+
+  async updateBin(id: string, changes: Partial<InsertWarehouseBin>): Promise<WarehouseBin> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(warehouseBins).where(eq(warehouseBins.id, id)).for("update");
+      if (!existing) throw new Error("Bin not found");
+      const merged = { ...existing, ...changes, warehouseId: existing.warehouseId };
+      const code = binCode(merged);
+      const [clash] = await tx
+        .select()
+        .from(warehouseBins)
+        .where(and(eq(warehouseBins.warehouseId, existing.warehouseId), eq(warehouseBins.code, code)));
+      if (clash && clash.id !== id) throw new Error(duplicateBinMessage(code));
+      const [updated] = await tx
+        .update(warehouseBins)
+        .set({ ...merged, id, code, updatedAt: new Date() })
+        .where(eq(warehouseBins.id, id))
+        .returning();
+      if (code !== existing.code) {
+        await tx
+          .update(inventoryItems)
+          .set({ location: code, updatedAt: new Date() })
+          .where(and(eq(inventoryItems.warehouseId, existing.warehouseId), eq(inventoryItems.location, existing.code)));
+      }
+      return updated;
+    });
+  }
+
+  async deleteBin(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [bin] = await tx.select().from(warehouseBins).where(eq(warehouseBins.id, id)).for("update");
+      if (!bin) throw new Error("Bin not found");
+      const [held] = await tx
+        .select({ id: binStock.id })
+        .from(binStock)
+        .where(and(eq(binStock.binId, id), gt(binStock.quantity, 0)))
+        .limit(1);
+      if (held) throw new Error(`Cannot delete bin ${bin.code} while it holds stock`);
+      await tx
+        .update(inventoryItems)
+        .set({ location: null, updatedAt: new Date() })
+        .where(and(eq(inventoryItems.warehouseId, bin.warehouseId), eq(inventoryItems.location, bin.code)));
+      await tx.delete(warehouseBins).where(eq(warehouseBins.id, id));
+    });
+  }
+
+  async getBinStock(warehouseId: string): Promise<BinStock[]> {
+    const rows = await db
+      .select({ placement: binStock })
+      .from(binStock)
+      .innerJoin(warehouseBins, eq(binStock.binId, warehouseBins.id))
+      .where(and(eq(warehouseBins.warehouseId, warehouseId), gt(binStock.quantity, 0)));
+    return rows.map((row) => row.placement);
+  }
+
+  // Locks the item so placements can't outgrow its stock, then the bins involved
+  private async lockBinMove(
+    tx: Transaction,
+    inventoryItemId: string,
+    binIds: string[]
+  ): Promise<{ item: InventoryItem; bins: WarehouseBin[]; placements: BinStock[] }> {
+    const [item] = await tx.select().from(inventoryItems).where(eq(inventoryItems.id, inventoryItemId)).for("update");
+    if (!item) throw new Error("Inventory item not found");
+    const found = await tx.select().from(warehouseBins).where(inArray(warehouseBins.id, binIds));
+    const bins = binIds.map((binId) => found.find((bin) => bin.id === binId));
+    if (bins.some((bin) => !bin)) throw new Error("Bin not found");
+    return { item, bins: bins as WarehouseBin[], placements: await this.placementsOf(tx, inventoryItemId) };
+  }
+
+  private async addToBin(tx: Transaction, inventoryItemId: string, binId: string, quantity: number) {
+    await tx
+      .insert(binStock)
+      .values({ binId, inventoryItemId, quantity })
+      .onConflictDoUpdate({
+        target: [binStock.binId, binStock.inventoryItemId],
+        set: { quantity: sql`${binStock.quantity} + ${quantity}`, updatedAt: new Date() },
+      });
+  }
+
+  async putawayStock(inventoryItemId: string, binId: string, quantity: number): Promise<BinStock[]> {
+    return db.transaction(async (tx) => {
+      const { item, bins, placements } = await this.lockBinMove(tx, inventoryItemId, [binId]);
+      checkBinMove(item, placements, bins[0], quantity);
+      await this.addToBin(tx, inventoryItemId, binId, quantity);
+      return this.placementsOf(tx, inventoryItemId);
+    });
+  }
+
+  async moveBinStock(inventoryItemId: string, fromBinId: string, toBinId: string, quantity: number): Promise<BinStock[]> {
+    return db.transaction(async (tx) => {
+      const { item, bins, placements } = await this.lockBinMove(tx, inventoryItemId, [fromBinId, toBinId]);
+      const [from, to] = bins;
+      checkBinMove(item, placements, to, quantity, from);
+      await tx
+        .update(binStock)
+        .set({ quantity: sql`${binStock.quantity} - ${quantity}`, updatedAt: new Date() })
+        .where(and(eq(binStock.binId, fromBinId), eq(binStock.inventoryItemId, inventoryItemId)));
+      await this.addToBin(tx, inventoryItemId, toBinId, quantity);
+      return this.placementsOf(tx, inventoryItemId);
+    });
+  }
+
+  async getProducts(search?: string): Promise<ProductWithStock[]> {
+    const pattern = search?.trim() ? `%${search.trim().replace(/[\\%_]/g, "\\$&")}%` : undefined;
+    const rows = await db
+      .select({
+        product: products,
+        totalQuantity: sql<number>`coalesce(sum(${inventoryItems.quantity}), 0)::int`,
+        warehouseCount: sql<number>`count(distinct ${inventoryItems.warehouseId})::int`,
+      })
+      .from(products)
+      .leftJoin(inventoryItems, eq(inventoryItems.productId, products.id))
+      .where(
+        pattern
+          ? or(ilike(products.sku, pattern), ilike(products.name, pattern), ilike(products.category, pattern))
+          : undefined
+      )
+      .groupBy(products.id)
+      .orderBy(products.name);
+    return rows.map(({ product, ...stock }) => ({ ...product, ...stock }));
+  }
+
+  async getProductById(id: string): Promise<Product | null> {
+    const [product] = await db.select().from(products).where(eq(products.id, id)).limit(1);
+    return product || null;
+  }
+
+  async getProductBySku(sku: string): Promise<Product | null> {
+    const [product] = await db.select().from(products).where(eq(products.sku, sku)).limit(1);
+    return product || null;
+  }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    const [created] = await db.insert(products).values(product).onConflictDoNothing({ target: products.sku }).returning();
+    if (!created) throw new Error(duplicateSkuMessage(product.sku));
+    return created;
+  }
+
+  private async writeProductUpdate(tx: Transaction, id: string, changes: Partial<InsertProduct>): Promise<Product> {
+    const [existing] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+    if (!existing) throw new Error("Product not found");
+    if (Object.keys(changes).length === 0) return existing;
+    if (changes.sku && changes.sku !== existing.sku) {
+      const [duplicate] = await tx.select({ id: products.id }).from(products).where(eq(products.sku, changes.sku));
+      if (duplicate) throw new Error(duplicateSkuMessage(changes.sku));
+    }
+    const [updated] = await tx
+      .update(products)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(products.id, id))
+      .returning();
+    await tx
+      .update(inventoryItems)
+      .set({ ...productFields(updated), updatedAt: updated.updatedAt })
+      .where(eq(inventoryItems.productId, id));
+    return updated;
+  }
+
+  async updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product> {
+    return db.transaction((tx) => this.writeProductUpdate(tx, id, product));
+  }
+
+  async deleteProduct(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [product] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+      if (!product) throw new Error("Product not found");
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(inventoryItems)
+        .where(eq(inventoryItems.productId, id));
+      if (count > 0) throw new Error(`Cannot delete ${product.sku} while it has ${count} stock record(s)`);
+      const [ordered] = await tx
+        .select({ id: purchaseOrderLines.id })
+        .from(purchaseOrderLines)
+        .where(eq(purchaseOrderLines.productId, id))
+        .limit(1);
+      if (ordered) throw new Error(`Cannot delete ${product.sku} while purchase orders reference it`);
+      await tx.delete(products).where(eq(products.id, id));
+    });
+  }
+
+  async getUnits(): Promise<UnitOfMeasure[]> {
+    return db.select().from(unitsOfMeasure).orderBy(asc(unitsOfMeasure.code));
+  }
+
+  async createUnit(unit: InsertUnitOfMeasure): Promise<UnitOfMeasure> {
+    const [created] = await db.insert(unitsOfMeasure).values(unit).onConflictDoNothing().returning();
+    if (!created) throw new Error(duplicateUnitMessage(unit.code));
+    return created;
+  }
+
+  async updateUnit(id: string, changes: Pick<InsertUnitOfMeasure, "name">): Promise<UnitOfMeasure> {
+    const [updated] = await db
+      .update(unitsOfMeasure)
+      .set({ name: changes.name, updatedAt: new Date() })
+      .where(eq(unitsOfMeasure.id, id))
+      .returning();
+    if (!updated) throw new Error("Unit not found");
+    return updated;
+  }
+
+  async deleteUnit(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [unit] = await tx.select().from(unitsOfMeasure).where(eq(unitsOfMeasure.id, id)).for("update");
+      if (!unit) throw new Error("Unit not found");
+      const bases = await tx.select({ id: products.id }).from(products).where(eq(products.unit, unit.code));
+      const converted = await tx
+        .select({ id: productUnitConversions.productId })
+        .from(productUnitConversions)
+        .where(eq(productUnitConversions.unit, unit.code));
+      const users = new Set([...bases, ...converted].map((row) => row.id));
+      if (users.size > 0) throw new Error(unitInUseMessage(unit, users.size));
+      await tx.delete(unitsOfMeasure).where(eq(unitsOfMeasure.id, id));
+    });
+  }
+
+  async getUnitConversions(productId?: string): Promise<ProductUnitConversion[]> {
+    return db
+      .select()
+      .from(productUnitConversions)
+      .where(productId ? eq(productUnitConversions.productId, productId) : undefined)
+      .orderBy(asc(productUnitConversions.factor));
+  }
+
+  async saveUnitConversion(productId: string, conversion: UnitConversionInput): Promise<ProductUnitConversion> {
+    const [product] = await db.select().from(products).where(eq(products.id, productId));
+    if (!product) throw new Error("Product not found");
+    if (conversion.unit === product.unit) throw new Error(baseUnitConversionMessage(product));
+    const [saved] = await db
+      .insert(productUnitConversions)
+      .values({ productId, ...conversion })
+      .onConflictDoUpdate({
+        target: [productUnitConversions.productId, productUnitConversions.unit],
+        set: { factor: conversion.factor, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteUnitConversion(productId: string, id: string): Promise<void> {
+    const [deleted] = await db
+      .delete(productUnitConversions)
+      .where(and(eq(productUnitConversions.id, id), eq(productUnitConversions.productId, productId)))
+      .returning();
+    if (!deleted) throw new Error("Unit conversion not found");
+  }
+
+  async getStockLevelDefaults(): Promise<StockLevelDefault[]> {
+    return db.select().from(stockLevelDefaults).orderBy(stockLevelDefaults.category, stockLevelDefaults.createdAt);
+  }
+
+  async saveStockLevelDefault(levels: InsertStockLevelDefault): Promise<StockLevelDefault> {
+    const values = {
+      category: levels.category ?? null,
+      warehouseId: levels.warehouseId ?? null,
+      minQuantity: levels.minQuantity ?? null,
+      reorderPoint: levels.reorderPoint ?? null,
+      maxQuantity: levels.maxQuantity ?? null,
+    };
+    const [saved] = await db
+      .insert(stockLevelDefaults)
+      .values(values)
+      .onConflictDoUpdate({
+        target: values.category ? stockLevelDefaults.category : stockLevelDefaults.warehouseId,
+        set: {
+          minQuantity: values.minQuantity,
+          reorderPoint: values.reorderPoint,
+          maxQuantity: values.maxQuantity,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteStockLevelDefault(id: string): Promise<void> {
+    await db.delete(stockLevelDefaults).where(eq(stockLevelDefaults.id, id));
   }
 
   async createProductHistory(history: InsertProductHistory): Promise<ProductHistory> {
@@ -178,12 +1544,111 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async getProductHistory(inventoryItemId: string): Promise<ProductHistory[]> {
+  async getProductHistory(inventoryItemId: string, range: ProductHistoryRange = {}): Promise<ProductHistoryEntry[]> {
+    const conditions = [eq(productHistory.inventoryItemId, inventoryItemId)];
+    if (range.from) conditions.push(gte(productHistory.timestamp, range.from));
+    if (range.to) conditions.push(lte(productHistory.timestamp, range.to));
+
+    const rows = await db
+      .select({
+        history: productHistory,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        lotNumber: inventoryLots.lotNumber,
+      })
+      .from(productHistory)
+      .leftJoin(users, eq(productHistory.userId, users.id))
+      .leftJoin(inventoryLots, eq(productHistory.lotId, inventoryLots.id))
+      .where(and(...conditions))
+      .orderBy(productHistory.timestamp, productHistory.id);
+
+    return rows.map(({ history, lotNumber, ...user }) => ({
+      ...history,
+      userName: history.userId ? userDisplayName(user) : null,
+      lotNumber,
+    }));
+  }
+
+  async getIssuedQuantities(since: Date): Promise<Record<string, number>> {
+    const rows = await db
+      .select({
+        inventoryItemId: productHistory.inventoryItemId,
+        issued: sql<number>`(-sum(${productHistory.quantityChange}))::int`,
+      })
+      .from(productHistory)
+      .where(and(eq(productHistory.actionType, "out"), gte(productHistory.timestamp, since)))
+      .groupBy(productHistory.inventoryItemId);
+    return Object.fromEntries(rows.map((row) => [row.inventoryItemId, row.issued]));
+  }
+
+  async getWarehouseStockSpace(warehouseId?: string): Promise<WarehouseStockSpace[]> {
+    const measured = sql`(${warehouses.capacityMode} = 'units' or coalesce(${products.unitVolume}, 0) > 0)`;
+    return db
+      .select({
+        warehouseId: inventoryItems.warehouseId,
+        used: sql<number>`coalesce(sum(${inventoryItems.quantity} * case when ${warehouses.capacityMode} = 'units' then 1 else ${products.unitVolume} end) filter (where ${measured}), 0)::float8`,
+        unmeasuredQuantity: sql<number>`coalesce(sum(${inventoryItems.quantity}) filter (where not ${measured}), 0)::int`,
+      })
+      .from(inventoryItems)
+      .innerJoin(warehouses, eq(inventoryItems.warehouseId, warehouses.id))
+      .leftJoin(products, eq(inventoryItems.productId, products.id))
+      .where(and(gt(inventoryItems.quantity, 0), warehouseId ? eq(inventoryItems.warehouseId, warehouseId) : undefined))
+      .groupBy(inventoryItems.warehouseId);
+  }
+
+  async getDailyStockSpaceChanges(since: Date, warehouseId?: string): Promise<Record<string, number>> {
+    const day = sql<string>`to_char(${productHistory.timestamp}, 'YYYY-MM-DD')`;
+    const rows = await db
+      .select({
+        day,
+        change: sql<number>`sum(${productHistory.quantityChange} * case when ${warehouses.capacityMode} = 'units' then 1 else coalesce(${products.unitVolume}, 0) end)::float8`,
+      })
+      .from(productHistory)
+      .innerJoin(inventoryItems, eq(productHistory.inventoryItemId, inventoryItems.id))
+      .innerJoin(warehouses, eq(inventoryItems.warehouseId, warehouses.id))
+      .leftJoin(products, eq(inventoryItems.productId, products.id))
+      .where(
+        and(
+          gte(productHistory.timestamp, since),
+          gt(warehouses.capacity, 0),
+          warehouseId ? eq(inventoryItems.warehouseId, warehouseId) : undefined
+        )
+      )
+      .groupBy(day);
+    return Object.fromEntries(rows.map((row) => [row.day, row.change]));
+  }
+
+  async getProductHistoryUntil(asOf: Date): Promise<ProductHistory[]> {
     return db
       .select()
       .from(productHistory)
-      .where(eq(productHistory.inventoryItemId, inventoryItemId))
-      .orderBy(productHistory.timestamp);
+      .where(lte(productHistory.timestamp, asOf))
+      .orderBy(asc(productHistory.timestamp));
+  }
+
+  async getStockValuationVersion(): Promise<string> {
+    const [items] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        updatedAt: sql<string | null>`max(${inventoryItems.updatedAt})::text`,
+      })
+      .from(inventoryItems);
+    const [history] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        timestamp: sql<string | null>`max(${productHistory.timestamp})::text`,
+      })
+      .from(productHistory);
+    return [items?.count, items?.updatedAt, history?.count, history?.timestamp].join(":");
+  }
+
+  async getProductHistorySince(since: Date): Promise<ProductHistory[]> {
+    return db
+      .select()
+      .from(productHistory)
+      .where(gt(productHistory.timestamp, since))
+      .orderBy(asc(productHistory.timestamp));
   }
 
   async createTable(table: InsertTable): Promise<DataTable> {
@@ -200,17 +1665,110 @@ export class DatabaseStorage implements IStorage {
     return table || null;
   }
 
+  async updateTable(id: string, table: Partial<InsertTable>): Promise<DataTable> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(tables).where(eq(tables.id, id)).for("update");
+      if (!existing) throw new Error("Table not found");
+      const [updated] = await tx.update(tables).set(table).where(eq(tables.id, id)).returning();
+      const removed = removedColumnIds(existing, updated);
+      if (removed.length > 0) {
+        const keys = sql`array[${sql.join(
+          removed.map((columnId) => sql`${columnId}`),
+          sql`, `
+        )}]::text[]`;
+        await tx
+          .update(tableRows)
+          .set({ data: sql`${tableRows.data} - ${keys}` })
+          .where(and(eq(tableRows.tableId, id), sql`${tableRows.data} ?| ${keys}`));
+      }
+      return updated;
+    });
+  }
+
   async deleteTable(id: string): Promise<void> {
     await db.delete(tables).where(eq(tables.id, id));
   }
 
   async createTableRow(row: InsertTableRow): Promise<TableRow> {
-    const [created] = await db.insert(tableRows).values(row).returning();
+    const [created] = await db
+      .insert(tableRows)
+      .values({ ...row, position: row.position ?? (await this.nextTableRowPosition(row.tableId)) })
+      .returning();
     return created;
   }
 
-  async getTableRows(tableId: string): Promise<TableRow[]> {
-    return db.select().from(tableRows).where(eq(tableRows.tableId, tableId));
+  async createTableRows(rows: InsertTableRow[]): Promise<TableRow[]> {
+    if (rows.length === 0) return [];
+    // Rows without an explicit position are appended in the order given.
+    const nextPositions = new Map<string, number>();
+    const values: InsertTableRow[] = [];
+    for (const row of rows) {
+      if (row.position !== undefined) {
+        values.push(row);
+        continue;
+      }
+      const position = nextPositions.get(row.tableId) ?? (await this.nextTableRowPosition(row.tableId));
+      nextPositions.set(row.tableId, position + 1);
+      values.push({ ...row, position });
+    }
+    // Large imports are split into chunks to stay under Postgres' bind
+    // parameter limit, but still commit or roll back as one unit.
+    return db.transaction(async (tx) => {
+      const created: TableRow[] = [];
+      for (let i = 0; i < values.length; i += 1000) {
+        created.push(...(await tx.insert(tableRows).values(values.slice(i, i + 1000)).returning()));
+      }
+      return created;
+    });
+  }
+
+  async getTableRows(tableId: string, options: TableRowQuery = {}): Promise<TableRow[]> {
+    const query = db
+      .select()
+      .from(tableRows)
+      .where(eq(tableRows.tableId, tableId))
+      .orderBy(tableRows.position, tableRows.createdAt)
+      .offset(options.offset ?? 0);
+    return options.limit === undefined ? query : query.limit(options.limit);
+  }
+
+  async countTableRows(tableId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(tableRows)
+      .where(eq(tableRows.tableId, tableId));
+    return result?.count || 0;
+  }
+
+  async getTableRowById(id: string): Promise<TableRow | null> {
+    const [row] = await db.select().from(tableRows).where(eq(tableRows.id, id)).limit(1);
+    return row || null;
+  }
+
+  async nextTableRowPosition(tableId: string, after?: number): Promise<number> {
+    if (after === undefined) {
+      const [result] = await db
+        .select({ max: sql<number | null>`max(${tableRows.position})` })
+        .from(tableRows)
+        .where(eq(tableRows.tableId, tableId));
+      return (result?.max ?? 0) + 1;
+    }
+
+    const [result] = await db
+      .select({ next: sql<number | null>`min(${tableRows.position})` })
+      .from(tableRows)
+      .where(and(eq(tableRows.tableId, tableId), gt(tableRows.position, after)));
+    return result?.next == null ? after + 1 : (after + result.next) / 2;
+  }
+
+  async updateTableRow(id: string, row: Partial<InsertTableRow>): Promise<TableRow> {
+    const [updated] = await db
+      .update(tableRows)
+      .set({ data: row.data, position: row.position })
+      .where(eq(tableRows.id, id))
+      .returning();
+    if (!updated) throw new Error("Table row not found");
+    return updated;
   }
 
   async deleteTableRow(id: string): Promise<void> {
@@ -241,11 +1799,63 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async claimImageJob(staleBefore: Date): Promise<CapturedImage | null> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      // Skipping locked rows lets several workers poll without claiming the same job
+      const [next] = await tx
+        .select({ id: capturedImages.id })
+        .from(capturedImages)
+        .where(
+          or(
+            and(eq(capturedImages.processingStatus, "pending"), lte(capturedImages.nextAttemptAt, now)),
+            and(eq(capturedImages.processingStatus, "processing"), lt(capturedImages.processingStartedAt, staleBefore))
+          )
+        )
+        .orderBy(asc(capturedImages.nextAttemptAt))
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!next) return null;
+      const [claimed] = await tx
+        .update(capturedImages)
+        .set({
+          processingStatus: "processing",
+          processingStartedAt: now,
+          processingAttempts: sql`${capturedImages.processingAttempts} + 1`,
+        })
+        .where(eq(capturedImages.id, next.id))
+        .returning();
+      return claimed;
+    });
+  }
+
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
     const [created] = await db.insert(auditLogs).values(log).returning();
     return created;
   }
 
+  async getSystemSettings(): Promise<SystemSettings> {
+    return parseSystemSettings(await db.select().from(systemSettings));
+  }
+
+  async updateSystemSettings(changes: Partial<SystemSettings>, userId: string | null): Promise<SystemSettings> {
+    const rows = Object.entries(changes).map(([key, value]) => ({ key, value, updatedBy: userId, updatedAt: new Date() }));
+    if (rows.length > 0) {
+      await db
+        .insert(systemSettings)
+        .values(rows)
+        .onConflictDoUpdate({
+          target: systemSettings.key,
+          set: {
+            value: sql`excluded.value`,
+            updatedBy: sql`excluded.updated_by`,
+            updatedAt: sql`excluded.updated_at`,
+          },
+        });
+    }
+    return this.getSystemSettings();
+  }
+
   async getAuditLogs(limit = 100): Promise<AuditLog[]> {
     return db
       .select()
@@ -255,6 +1865,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDashboardStats() {
+    const settings = await this.getSystemSettings();
     const [warehouseCount] = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(warehouses);
@@ -266,19 +1877,16 @@ export class DatabaseStorage implements IStorage {
     const [lowStockCount] = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(inventoryItems)
-      .where(lt(inventoryItems.quantity, 10));
+      .where(lowStockCondition(settings));
 
-    const futureDate = new Date();
-    futureDate.setDate(futureDate.getDate() + 30);
-    const [expiringCount] = await db
-      .select({ count: sql<number>`count(*)::int` })
-      .from(inventoryItems)
-      .where(
-        and(
-          sql`${inventoryItems.expirationDate} IS NOT NULL`,
-          sql`${inventoryItems.expirationDate} <= ${futureDate}`
-        )
-      );
+    const expiredBefore = startOfExpiryDay();
+    const [expiryCounts] = await db
+      .select({
+        expired: sql<number>`count(*) filter (where ${inventoryLots.expirationDate} < ${expiredBefore})::int`,
+        expiring: sql<number>`count(*) filter (where ${inventoryLots.expirationDate} >= ${expiredBefore})::int`,
+      })
+      .from(inventoryLots)
+      .where(and(gt(inventoryLots.quantity, 0), lte(inventoryLots.expirationDate, expiryCutoff(settings))));
 
     const recentLogs = await db
       .select()
@@ -290,7 +1898,8 @@ export class DatabaseStorage implements IStorage {
       totalWarehouses: warehouseCount?.count || 0,
       totalInventoryItems: itemCount?.count || 0,
       lowStockCount: lowStockCount?.count || 0,
-      expiringCount: expiringCount?.count || 0,
+      expiredCount: expiryCounts?.expired || 0,
+      expiringCount: expiryCounts?.expiring || 0,
       recentActivity: recentLogs.map((log: AuditLog) => ({
         type: log.action,
         description: log.action,
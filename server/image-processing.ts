@@ -0,0 +1,136 @@
+import OpenAI from "openai";
+import type { CapturedImage, ImageProcessingState } from "@shared/schema";
+import { storage } from "./db-storage";
+
+// Attempts per image, the first included; failing the last one is final
+const MAX_IMAGE_ATTEMPTS = 5;
+// Doubles after each failed attempt, up to the cap
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+// Idle workers look for due retries this often
+const POLL_INTERVAL_MS = 5 * 1000;
+// A job claimed this long ago is assumed lost with its worker and is taken over
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+const EXTRACTION_PROMPT =
+  "Analyze this product image and extract the following information if visible: product name, SKU/barcode number, category, batch number, expiration date (format: YYYY-MM-DD), and any other relevant product details. Return the data as a JSON object with keys: productName, sku, category, batchNumber, expirationDate, description, and confidence (0-1).";
+
+// Well inside the claim timeout, so a hung call fails before its job is taken
+// over. The queue does the retrying, with backoff, so the client doesn't.
+const OPENAI_TIMEOUT_MS = 2 * 60 * 1000;
+
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+  timeout: OPENAI_TIMEOUT_MS,
+  maxRetries: 0,
+});
+
+export function imageProcessingState(image: CapturedImage): ImageProcessingState {
+  return {
+    id: image.id,
+    processingStatus: image.processingStatus,
+    processingError: image.processingError,
+    attempts: image.processingAttempts,
+    extractedData: image.processedData,
+  };
+}
+
+function retryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS);
+}
+
+// Network errors, rate limits and server errors may pass; a rejected request won't
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof OpenAI.APIError) || error.status === undefined) return true;
+  return error.status === 408 || error.status === 409 || error.status === 429 || error.status >= 500;
+}
+
+async function extractProductData(imageUrl: string, model: string) {
+  const response = await openai.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: EXTRACTION_PROMPT },
+          { type: "image_url", image_url: { url: imageUrl } },
+        ],
+      },
+    ],
+    max_tokens: 500,
+  });
+
+  const content = response.choices[0]?.message?.content;
+  let extractedData: Record<string, unknown> = {};
+  if (content) {
+    try {
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        extractedData = JSON.parse(jsonMatch[0]);
+      }
+    } catch (parseError) {
+      console.error("Failed to parse OpenAI response:", parseError);
+    }
+  }
+  return { ocrText: content || null, processedData: extractedData };
+}
+
+async function processImage(image: CapturedImage) {
+  // Only a worker dying mid-job gets here; the failure path stops retries earlier
+  if (image.processingAttempts > MAX_IMAGE_ATTEMPTS) {
+    await storage.updateCapturedImage(image.id, {
+      processingStatus: "failed",
+      processingError: "Processing was interrupted too many times",
+    });
+    return;
+  }
+  try {
+    const settings = await storage.getSystemSettings();
+    const result = await extractProductData(image.url, settings.aiModel);
+    await storage.updateCapturedImage(image.id, { ...result, processingStatus: "completed", processingError: null });
+  } catch (error: any) {
+    console.error(`Image processing error (image ${image.id}, attempt ${image.processingAttempts}):`, error);
+    const message = error?.message || "Image processing failed";
+    if (isRetryable(error) && image.processingAttempts < MAX_IMAGE_ATTEMPTS) {
+      await storage.updateCapturedImage(image.id, {
+        processingStatus: "pending",
+        processingError: message,
+        nextAttemptAt: new Date(Date.now() + retryDelay(image.processingAttempts)),
+      });
+    } else {
+      await storage.updateCapturedImage(image.id, { processingStatus: "failed", processingError: message });
+    }
+  }
+}
+
+let draining = false;
+let wakeRequested = false;
+let pollTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Works through every due job, one at a time, then polls for retries. Called
+ * once at startup and again after each upload so new images don't wait for
+ * the next poll; a call while jobs are running makes the worker look again.
+ */
+export async function runImageJobs() {
+  if (draining) {
+    wakeRequested = true;
+    return;
+  }
+  draining = true;
+  clearTimeout(pollTimer);
+  try {
+    do {
+      wakeRequested = false;
+      let image: CapturedImage | null;
+      while ((image = await storage.claimImageJob(new Date(Date.now() - CLAIM_TIMEOUT_MS)))) {
+        await processImage(image);
+      }
+    } while (wakeRequested);
+  } catch (error) {
+    console.error("Image job queue error:", error);
+  } finally {
+    draining = false;
+    pollTimer = setTimeout(runImageJobs, POLL_INTERVAL_MS);
+  }
+}
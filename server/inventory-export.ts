@@ -0,0 +1,198 @@
+import type { Response } from "express";
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+import type { InventoryItem, Warehouse } from "@shared/schema";
+import { CSV_BOM, contentDisposition, formatCsvRow } from "./csv";
+import { PDF_FONT, PDF_FONT_BOLD, registerPdfFonts, writeText } from "./pdf-text";
+
+export const inventoryExportFormats = ["csv", "xlsx", "pdf"] as const;
+export type InventoryExportFormat = (typeof inventoryExportFormats)[number];
+
+type ExportColumn = {
+  header: string;
+  width: number;
+  value: (item: InventoryItem, warehouse: Warehouse | undefined) => string | number | null;
+};
+
+function formatDate(value: Date | string | null): string | null {
+  return value ? new Date(value).toISOString().slice(0, 10) : null;
+}
+
+const exportColumns: ExportColumn[] = [
+  { header: "Warehouse", width: 24, value: (_, warehouse) => warehouse?.name ?? null },
+  { header: "SKU", width: 16, value: (item) => item.sku },
+  { header: "Name", width: 32, value: (item) => item.name },
+  { header: "Category", width: 18, value: (item) => item.category },
+  { header: "Quantity", width: 10, value: (item) => item.quantity },
+  { header: "Unit", width: 8, value: (item) => item.unit },
+  { header: "Batch Number", width: 16, value: (item) => item.batchNumber },
+  { header: "Expiration Date", width: 14, value: (item) => formatDate(item.expirationDate) },
+  { header: "Location", width: 16, value: (item) => item.location },
+  { header: "Description", width: 40, value: (item) => item.description },
+];
+
+/**
+ * Streams inventory to the response in the requested format. Items are
+ * sorted by warehouse and name so every format lists them the same way.
+ */
+export async function sendInventoryExport(
+  res: Response,
+  format: InventoryExportFormat,
+  items: InventoryItem[],
+  warehouses: Warehouse[],
+  filterSummary: string[]
+): Promise<void> {
+  const warehousesById = new Map(warehouses.map((warehouse) => [warehouse.id, warehouse]));
+  const sorted = [...items].sort(
+    (a, b) =>
+      (warehousesById.get(a.warehouseId)?.name ?? "").localeCompare(warehousesById.get(b.warehouseId)?.name ?? "") ||
+      a.name.localeCompare(b.name)
+  );
+  const filename = `inventory-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader("Content-Disposition", contentDisposition(filename));
+
+  if (format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.write(CSV_BOM + formatCsvRow(exportColumns.map((column) => column.header)));
+    for (const item of sorted) {
+      const warehouse = warehousesById.get(item.warehouseId);
+      res.write(formatCsvRow(exportColumns.map((column) => column.value(item, warehouse))));
+    }
+    res.end();
+    return;
+  }
+
+  if (format === "xlsx") {
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+    const sheet = workbook.addWorksheet("Inventory");
+    sheet.columns = exportColumns.map((column) => ({ header: column.header, width: column.width }));
+    sheet.getRow(1).font = { bold: true };
+    for (const item of sorted) {
+      const warehouse = warehousesById.get(item.warehouseId);
+      sheet.addRow(exportColumns.map((column) => column.value(item, warehouse))).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+    return;
+  }
+
+  res.setHeader("Content-Type", "application/pdf");
+  writeStockReport(res, sorted, warehouses, filterSummary);
+}
+
+const reportColumns = [
+  { header: "SKU", width: 80, value: (item: InventoryItem) => item.sku },
+  { header: "Name", width: 150, value: (item: InventoryItem) => item.name },
+  { header: "Category", width: 80, value: (item: InventoryItem) => item.category ?? "" },
+  { header: "Qty", width: 45, value: (item: InventoryItem) => String(item.quantity), align: "right" as const },
+  { header: "Unit", width: 35, value: (item: InventoryItem) => item.unit },
+  { header: "Batch", width: 60, value: (item: InventoryItem) => item.batchNumber ?? "" },
+  { header: "Expiry", width: 65, value: (item: InventoryItem) => formatDate(item.expirationDate) ?? "" },
+];
+
+// Auditor-facing stock report: one section per warehouse with item and
+// quantity subtotals, page numbers and the filters that produced it.
+function writeStockReport(
+  res: Response,
+  items: InventoryItem[],
+  warehouses: Warehouse[],
+  filterSummary: string[]
+) {
+  const doc = new PDFDocument({ size: "A4", margin: 40, bufferPages: true });
+  doc.pipe(res);
+  registerPdfFonts(doc);
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const bottom = () => doc.page.height - doc.page.margins.bottom - 20;
+  const line = (text: string) => writeText(doc, text, left, doc.y, { width });
+
+  doc.fontSize(18).font(PDF_FONT_BOLD);
+  line("Stock Report");
+  doc.moveDown(0.3);
+  doc.fontSize(9).font(PDF_FONT).fillColor("#555555");
+  line(`Generated ${new Date().toISOString().replace("T", " ").slice(0, 16)} UTC`);
+  line(filterSummary.length > 0 ? `Filters: ${filterSummary.join("; ")}` : "Filters: none");
+  line(`${items.length} item(s), ${items.reduce((sum, item) => sum + item.quantity, 0)} unit(s) in total`);
+  doc.fillColor("black").moveDown();
+
+  const drawHeader = () => {
+    let x = left;
+    const y = doc.y;
+    doc.fontSize(8).font(PDF_FONT_BOLD);
+    for (const column of reportColumns) {
+      writeText(doc, column.header, x, y, { width: column.width - 4, align: column.align });
+      x += column.width;
+    }
+    doc.moveTo(left, doc.y + 2).lineTo(x, doc.y + 2).stroke("#999999");
+    doc.y += 5;
+    doc.font(PDF_FONT);
+  };
+
+  const itemsByWarehouse = new Map<string, InventoryItem[]>();
+  for (const item of items) {
+    const group = itemsByWarehouse.get(item.warehouseId);
+    if (group) group.push(item);
+    else itemsByWarehouse.set(item.warehouseId, [item]);
+  }
+
+  if (items.length === 0) {
+    doc.fontSize(10);
+    line("No inventory matches the selected filters.");
+  }
+
+  for (const [warehouseId, warehouseItems] of Array.from(itemsByWarehouse)) {
+    const warehouse = warehouses.find((w) => w.id === warehouseId);
+    if (doc.y > bottom() - 60) doc.addPage();
+
+    doc.fontSize(12).font(PDF_FONT_BOLD);
+    line(warehouse?.name ?? "Unknown warehouse");
+    if (warehouse?.location) {
+      doc.fontSize(9).font(PDF_FONT).fillColor("#555555");
+      line(warehouse.location);
+      doc.fillColor("black");
+    }
+    doc.moveDown(0.4);
+    drawHeader();
+
+    for (const item of warehouseItems) {
+      doc.fontSize(8);
+      const rowHeight = Math.max(
+        ...reportColumns.map((column) =>
+          writeText(doc, column.value(item), 0, 0, { width: column.width - 4, measure: true })
+        )
+      );
+      if (doc.y + rowHeight > bottom()) {
+        doc.addPage();
+        drawHeader();
+      }
+      const y = doc.y;
+      let x = left;
+      for (const column of reportColumns) {
+        writeText(doc, column.value(item), x, y, { width: column.width - 4, align: column.align });
+        x += column.width;
+      }
+      doc.y = y + rowHeight + 3;
+    }
+
+    const total = warehouseItems.reduce((sum, item) => sum + item.quantity, 0);
+    doc.fontSize(9).font(PDF_FONT_BOLD);
+    writeText(doc, `${warehouseItems.length} item(s), ${total} unit(s)`, left, doc.y + 2, { width });
+    doc.font(PDF_FONT).moveDown();
+  }
+
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    doc
+      .fontSize(8)
+      .fillColor("#555555")
+      .text(`Page ${i + 1} of ${range.count}`, left, doc.page.height - doc.page.margins.bottom - 14, {
+        width: doc.page.width - left - doc.page.margins.right,
+        align: "right",
+        lineBreak: false,
+      });
+  }
+  doc.end();
+}
@@ -0,0 +1,303 @@
+import {
+  insertInventoryItemSchema,
+  type InsertInventoryItem,
+  type InsertProductHistory,
+  type InventoryItem,
+  type Product,
+  type Warehouse,
+} from "@shared/schema";
+import { findUnitCode, unknownUnitMessage } from "@shared/units";
+import type { CsvRecord } from "./csv";
+
+type ImportField =
+  | "warehouseId"
+  | "warehouse"
+  | "name"
+  | "sku"
+  | "category"
+  | "quantity"
+  | "unit"
+  | "batchNumber"
+  | "expirationDate"
+  | "location"
+  | "description";
+
+// Header names are matched after lower-casing and stripping everything but
+// letters and digits, so "Expiry Date", "expiry_date" and "EXPIRYDATE" agree.
+const headerAliases: Record<string, ImportField> = {
+  warehouseid: "warehouseId",
+  warehouse: "warehouse",
+  warehousename: "warehouse",
+  name: "name",
+  productname: "name",
+  product: "name",
+  itemname: "name",
+  sku: "sku",
+  itemcode: "sku",
+  productcode: "sku",
+  category: "category",
+  quantity: "quantity",
+  qty: "quantity",
+  unit: "unit",
+  uom: "unit",
+  batch: "batchNumber",
+  batchnumber: "batchNumber",
+  batchno: "batchNumber",
+  expirationdate: "expirationDate",
+  expirydate: "expirationDate",
+  expiry: "expirationDate",
+  expires: "expirationDate",
+  location: "location",
+  description: "description",
+};
+
+const comparedFields = [
+  "name",
+  "category",
+  "quantity",
+  "unit",
+  "batchNumber",
+  "expirationDate",
+  "location",
+  "description",
+] as const;
+
+// Fields a stock row takes from its catalog product. Changing one rewrites the
+// product in every warehouse, so an import may not set them to other values.
+const catalogFields = ["name", "category", "description", "unit"] as const;
+
+export type InventoryImportChange = { from: unknown; to: unknown };
+
+export type InventoryImportRow = {
+  line: number;
+  action: "create" | "update" | "unchanged";
+  warehouseId: string;
+  sku: string;
+  name: string;
+  changes: Record<string, InventoryImportChange>;
+};
+
+export type InventoryImportError = {
+  line: number;
+  formErrors: string[];
+  fieldErrors: Record<string, string[] | undefined>;
+};
+
+export type InventoryImportOperation =
+  | { action: "create"; item: InsertInventoryItem }
+  | { action: "update"; item: InventoryItem; changes: Partial<InsertInventoryItem> };
+
+/**
+ * History row for the stock an imported row changed: "in" for an increase, a
+ * count correction for a decrease, and none when the quantity is unchanged.
+ */
+export function importHistoryEntry(
+  operation: InventoryImportOperation,
+  item: InventoryItem,
+  previousQuantity: number,
+  userId: string | null
+): InsertProductHistory | null {
+  const quantityChange = item.quantity - previousQuantity;
+  if (quantityChange === 0) return null;
+  return {
+    inventoryItemId: item.id,
+    ...(quantityChange > 0
+      ? { actionType: "in" as const }
+      : { actionType: "adjust" as const, reasonCode: "count_correction" as const }),
+    quantityChange,
+    previousQuantity,
+    newQuantity: item.quantity,
+    userId,
+    notes:
+      operation.action === "create"
+        ? "Bulk import"
+        : `Bulk import: changed ${Object.keys(operation.changes).join(", ")}`,
+  };
+}
+
+export type InventoryImportPlan = {
+  rows: InventoryImportRow[];
+  errors: InventoryImportError[];
+  operations: InventoryImportOperation[];
+  ignoredColumns: string[];
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function catalogConflictMessage(sku: string, field: string, value: string | null): string {
+  const current = value === null ? `no ${field}` : `${field} "${value}"`;
+  return `${sku} has ${current} in the product catalog; change it on the product`;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    const left = a ? new Date(a as Date).getTime() : null;
+    const right = b ? new Date(b as Date).getTime() : null;
+    return left === right;
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+/**
+ * Works out what a bulk import would do without touching storage: each
+ * record is validated and matched to an existing item by (warehouseId, sku).
+ * Blank cells leave the existing value unchanged; on new rows for a SKU the
+ * catalog already has, they take the product's values.
+ */
+export function planInventoryImport(
+  records: CsvRecord[],
+  context: {
+    warehouses: Warehouse[];
+    existingItems: InventoryItem[];
+    products: Product[];
+    defaultWarehouseId?: string;
+    // Unit for new rows that leave it blank
+    defaultUnit?: string;
+    // Registered unit codes; when given, other units are rejected
+    units?: string[];
+  }
+): InventoryImportPlan {
+  const [{ cells: headers } = { cells: [] }, ...dataRows] = records;
+  const fields = headers.map((header) => headerAliases[normalizeHeader(header)] ?? null);
+  const ignoredColumns = headers.filter((_, index) => !fields[index]);
+
+  const warehousesByKey = new Map<string, Warehouse>();
+  for (const warehouse of context.warehouses) {
+    warehousesByKey.set(warehouse.id, warehouse);
+    warehousesByKey.set(warehouse.name.trim().toLowerCase(), warehouse);
+  }
+  const existingByKey = new Map(
+    context.existingItems.map((item) => [`${item.warehouseId}:${item.sku}`, item])
+  );
+  const productsBySku = new Map(context.products.map((product) => [product.sku, product]));
+
+  const plan: InventoryImportPlan = { rows: [], errors: [], operations: [], ignoredColumns };
+  const seen = new Set<string>();
+
+  dataRows.forEach(({ line, cells: record }) => {
+    const raw: Record<string, unknown> = {};
+    fields.forEach((field, column) => {
+      const value = record[column]?.trim();
+      if (!field || !value) return;
+      raw[field] = field === "quantity" ? Number(value.replace(/,/g, "")) : value;
+    });
+
+    const warehouseKey = String(raw.warehouseId ?? raw.warehouse ?? context.defaultWarehouseId ?? "");
+    const warehouse = warehousesByKey.get(warehouseKey) ?? warehousesByKey.get(warehouseKey.toLowerCase());
+    delete raw.warehouse;
+    if (!warehouse) {
+      plan.errors.push({
+        line,
+        formErrors: [],
+        fieldErrors: { warehouseId: [warehouseKey ? `Unknown warehouse "${warehouseKey}"` : "Warehouse is required"] },
+      });
+      return;
+    }
+    raw.warehouseId = warehouse.id;
+
+    const key = `${warehouse.id}:${raw.sku ?? ""}`;
+    if (raw.sku && seen.has(key)) {
+      plan.errors.push({
+        line,
+        formErrors: [`SKU "${raw.sku}" appears more than once for warehouse "${warehouse.name}"`],
+        fieldErrors: {},
+      });
+      return;
+    }
+    seen.add(key);
+
+    if (typeof raw.expirationDate === "string" && Number.isNaN(new Date(raw.expirationDate).getTime())) {
+      plan.errors.push({
+        line,
+        formErrors: [],
+        fieldErrors: { expirationDate: [`"${raw.expirationDate}" is not a valid date`] },
+      });
+      return;
+    }
+
+    const existing = existingByKey.get(key);
+    const catalog = existing ?? productsBySku.get(String(raw.sku ?? ""));
+    if (!existing) {
+      if (catalog) {
+        for (const field of catalogFields) raw[field] ??= catalog[field] ?? undefined;
+      }
+      raw.expirationDate ??= null;
+      raw.unit ??= context.defaultUnit;
+    }
+    const parsed = existing
+      ? insertInventoryItemSchema.partial().safeParse(raw)
+      : insertInventoryItemSchema.safeParse(raw);
+    if (!parsed.success) {
+      plan.errors.push({ line, ...parsed.error.flatten() });
+      return;
+    }
+    const data = parsed.data as InsertInventoryItem;
+    if (data.unit !== undefined && context.units) {
+      const unit = findUnitCode(context.units.map((code) => ({ code })), data.unit);
+      if (!unit) {
+        plan.errors.push({ line, formErrors: [], fieldErrors: { unit: [unknownUnitMessage(data.unit)] } });
+        return;
+      }
+      data.unit = unit;
+    }
+    if (catalog) {
+      const conflicts = catalogFields.filter(
+        (field) => raw[field] !== undefined && !sameValue(catalog[field], data[field])
+      );
+      if (conflicts.length > 0) {
+        plan.errors.push({
+          line,
+          formErrors: [],
+          fieldErrors: Object.fromEntries(
+            conflicts.map((field) => [field, [catalogConflictMessage(catalog.sku, field, catalog[field])]])
+          ),
+        });
+        return;
+      }
+    }
+
+    if (!existing) {
+      plan.rows.push({
+        line,
+        action: "create",
+        warehouseId: warehouse.id,
+        sku: data.sku,
+        name: data.name,
+        changes: Object.fromEntries(
+          comparedFields
+            .filter((field) => raw[field] != null)
+            .map((field) => [field, { from: null, to: data[field] ?? null }])
+        ),
+      });
+      plan.operations.push({ action: "create", item: data });
+      return;
+    }
+
+    const changes: Record<string, InventoryImportChange> = {};
+    const updates: Partial<InsertInventoryItem> = {};
+    for (const field of comparedFields) {
+      if (raw[field] === undefined) continue;
+      if (!sameValue(existing[field], data[field])) {
+        changes[field] = { from: existing[field], to: data[field] ?? null };
+        Object.assign(updates, { [field]: data[field] });
+      }
+    }
+
+    const changed = Object.keys(changes).length > 0;
+    plan.rows.push({
+      line,
+      action: changed ? "update" : "unchanged",
+      warehouseId: warehouse.id,
+      sku: existing.sku,
+      name: (updates.name as string | undefined) ?? existing.name,
+      changes,
+    });
+    if (changed) {
+      plan.operations.push({ action: "update", item: existing, changes: updates });
+    }
+  });
+
+  return plan;
+}
@@ -0,0 +1,190 @@
+import type { Response } from "express";
+import PDFDocument from "pdfkit";
+import {
+  labelSymbologyNames,
+  labelTemplates,
+  type LabelSymbology,
+  type LabelTemplate,
+  type LabelTemplateId,
+} from "@shared/labels";
+import { encodeBarcode, type Barcode, type LinearBarcode } from "./barcodes";
+import { contentDisposition } from "./csv";
+import { PDF_FONT, PDF_FONT_BOLD, registerPdfFonts, visualLine } from "./pdf-text";
+
+export interface LabelContent {
+  // Encoded in the barcode
+  value: string;
+  title: string;
+  details: string[];
+}
+
+export interface LabelSheetOptions {
+  symbology: LabelSymbology;
+  template: LabelTemplateId;
+  copies: number;
+}
+
+// Narrower bars or smaller QR modules than this don't scan reliably
+const MIN_BAR_WIDTH = 0.6;
+const MIN_QR_MODULE = 1.2;
+const LINEAR_QUIET_ZONE = 10;
+
+type Box = { x: number; y: number; width: number; height: number };
+
+function padding(template: LabelTemplate): number {
+  return Math.min(6, template.labelHeight * 0.08);
+}
+
+function titleSize(template: LabelTemplate): number {
+  return Math.min(18, Math.max(7, template.labelHeight / 8));
+}
+
+function isPortrait(template: LabelTemplate): boolean {
+  return template.labelHeight > template.labelWidth;
+}
+
+/** Width of one bar module or QR module when `barcode` is drawn on the template's labels. */
+function moduleSize(barcode: Barcode, template: LabelTemplate): number {
+  const inner = template.labelWidth - 2 * padding(template);
+  if (barcode.kind === "linear") {
+    const modules = barcode.widths.reduce((sum, width) => sum + width, 0) + 2 * LINEAR_QUIET_ZONE;
+    return inner / modules;
+  }
+  return qrSide(template) / barcode.modules.length;
+}
+
+function qrSide(template: LabelTemplate): number {
+  const pad = padding(template);
+  if (isPortrait(template)) {
+    return Math.min(template.labelWidth - 2 * pad, template.labelHeight * 0.6);
+  }
+  return Math.min(template.labelHeight - 2 * pad, (template.labelWidth - 2 * pad) * 0.45);
+}
+
+function truncate(doc: PDFKit.PDFDocument, text: string, width: number): string {
+  if (doc.widthOfString(text) <= width) return text;
+  let end = text.length;
+  while (end > 0 && doc.widthOfString(`${text.slice(0, end)}...`) > width) end--;
+  return `${text.slice(0, end)}...`;
+}
+
+function drawLines(doc: PDFKit.PDFDocument, lines: string[], box: Box, size: number, align: "left" | "center") {
+  let y = box.y;
+  lines.forEach((line, i) => {
+    const fontSize = i === 0 ? size : size * 0.8;
+    if (y + fontSize > box.y + box.height) return;
+    doc.font(i === 0 ? PDF_FONT_BOLD : PDF_FONT).fontSize(fontSize);
+    const { text, rtl } = visualLine(truncate(doc, line, box.width));
+    doc.text(text, box.x, y, { width: box.width, align: rtl && align === "left" ? "right" : align, lineBreak: false });
+    y += fontSize * 1.2;
+  });
+}
+
+function linesHeight(lines: string[], size: number): number {
+  return lines.reduce((sum, _, i) => sum + (i === 0 ? size : size * 0.8) * 1.2, 0);
+}
+
+function drawLinearLabel(doc: PDFKit.PDFDocument, label: LabelContent, barcode: LinearBarcode, box: Box, template: LabelTemplate) {
+  const size = titleSize(template);
+  const captionSize = size * 0.8;
+  // Details give way to keep the bars at least a third of the label tall
+  let lines = [label.title, ...label.details];
+  while (lines.length > 1 && box.height - linesHeight(lines, size) - captionSize * 1.2 < template.labelHeight / 3) {
+    lines = lines.slice(0, -1);
+  }
+  drawLines(doc, lines, box, size, "left");
+
+  const barsTop = box.y + linesHeight(lines, size);
+  const barHeight = box.y + box.height - captionSize * 1.2 - barsTop;
+  const module = moduleSize(barcode, template);
+  const totalWidth = barcode.widths.reduce((sum, width) => sum + width, 0) * module;
+  let x = box.x + (box.width - totalWidth) / 2;
+  barcode.widths.forEach((width, i) => {
+    if (i % 2 === 0) doc.rect(x, barsTop, width * module, barHeight);
+    x += width * module;
+  });
+  doc.fill("black");
+
+  doc.font(PDF_FONT).fontSize(captionSize);
+  doc.text(truncate(doc, barcode.text, box.width), box.x, barsTop + barHeight + captionSize * 0.2, {
+    width: box.width,
+    align: "center",
+    lineBreak: false,
+  });
+}
+
+function drawQrLabel(doc: PDFKit.PDFDocument, label: LabelContent, modules: boolean[][], box: Box, template: LabelTemplate) {
+  const side = qrSide(template);
+  const module = side / modules.length;
+  const portrait = isPortrait(template);
+  const left = portrait ? box.x + (box.width - side) / 2 : box.x;
+  const top = portrait ? box.y : box.y + (box.height - side) / 2;
+
+  // One rectangle per run of dark modules keeps the PDF small
+  modules.forEach((row, y) => {
+    for (let x = 0; x < row.length; ) {
+      if (!row[x]) {
+        x++;
+        continue;
+      }
+      let run = 1;
+      while (x + run < row.length && row[x + run]) run++;
+      doc.rect(left + x * module, top + y * module, run * module, module);
+      x += run;
+    }
+  });
+  doc.fill("black");
+
+  const gap = padding(template);
+  const textBox = portrait
+    ? { x: box.x, y: box.y + side + gap, width: box.width, height: box.height - side - gap }
+    : { x: box.x + side + gap, y: box.y, width: box.width - side - gap, height: box.height };
+  drawLines(doc, [label.title, label.value, ...label.details], textBox, titleSize(template), portrait ? "center" : "left");
+}
+
+/**
+ * Streams a PDF of labels laid out on the template's sheets, `copies` of
+ * each in turn. Every barcode is encoded before anything is written, so an
+ * unencodable value throws while the response can still report it.
+ */
+export function sendLabelSheet(res: Response, labels: LabelContent[], options: LabelSheetOptions, filename: string) {
+  const template: LabelTemplate = labelTemplates[options.template];
+  const symbologyName = labelSymbologyNames[options.symbology];
+  const encoded = labels.map((label) => {
+    const barcode = encodeBarcode(options.symbology, label.value);
+    const minimum = barcode.kind === "linear" ? MIN_BAR_WIDTH : MIN_QR_MODULE;
+    if (moduleSize(barcode, template) < minimum) {
+      throw new Error(`"${label.value}" is too long for a ${symbologyName} barcode on ${template.name} labels`);
+    }
+    return { label, barcode };
+  });
+
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", contentDisposition(filename));
+  const doc = new PDFDocument({ size: template.pageSize, margin: 0 });
+  doc.pipe(res);
+  registerPdfFonts(doc);
+
+  const perPage = template.columns * template.rows;
+  const pad = padding(template);
+  let position = 0;
+  for (const { label, barcode } of encoded) {
+    for (let copy = 0; copy < options.copies; copy++, position++) {
+      const slot = position % perPage;
+      if (position > 0 && slot === 0) doc.addPage();
+      const box = {
+        x: template.marginLeft + (slot % template.columns) * template.columnPitch + pad,
+        y: template.marginTop + Math.floor(slot / template.columns) * template.rowPitch + pad,
+        width: template.labelWidth - 2 * pad,
+        height: template.labelHeight - 2 * pad,
+      };
+      if (barcode.kind === "linear") {
+        drawLinearLabel(doc, label, barcode, box, template);
+      } else {
+        drawQrLabel(doc, label, barcode.modules, box, template);
+      }
+    }
+  }
+
+  doc.end();
+}
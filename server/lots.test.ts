@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { InventoryLot } from "@shared/schema";
+import { compareFefo, nextLot, planLotChanges } from "./lots";
+
+function lot(id: string, quantity: number, overrides: Partial<InventoryLot> = {}): InventoryLot {
+  return {
+    id,
+    inventoryItemId: "item-1",
+    lotNumber: id.toUpperCase(),
+    expirationDate: null,
+    quantity,
+    quarantinedAt: null,
+    receivedAt: new Date("2026-01-01T00:00:00Z"),
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+const taken = (changes: ReturnType<typeof planLotChanges>) => changes.map((change) => [change.lot?.id, change.quantity]);
+
+describe("compareFefo", () => {
+  it("orders by expiry, then lots without expiry, then receipt date and id", () => {
+    const lots = [
+      lot("no-expiry", 1),
+      lot("later", 1, { expirationDate: new Date("2026-06-01") }),
+      lot("b-same-day", 1, { expirationDate: new Date("2026-05-01") }),
+      lot("a-same-day", 1, { expirationDate: new Date("2026-05-01") }),
+      lot("older", 1, { expirationDate: new Date("2026-05-01"), receivedAt: new Date("2025-12-01") }),
+    ];
+    assert.deepEqual(
+      [...lots].sort(compareFefo).map((candidate) => candidate.id),
+      ["older", "a-same-day", "b-same-day", "later", "no-expiry"]
+    );
+  });
+
+  it("picks the next lot from stock that isn't empty or quarantined", () => {
+    const lots = [
+      lot("empty", 0, { expirationDate: new Date("2026-02-01") }),
+      lot("held", 5, { expirationDate: new Date("2026-03-01"), quarantinedAt: new Date() }),
+      lot("next", 5, { expirationDate: new Date("2026-04-01") }),
+    ];
+    assert.equal(nextLot(lots)?.id, "next");
+  });
+});
+
+describe("planLotChanges", () => {
+  const lots = [
+    lot("late", 10, { expirationDate: new Date("2026-09-01") }),
+    lot("soon", 4, { expirationDate: new Date("2026-04-01") }),
+    lot("held", 20, { expirationDate: new Date("2026-03-01"), quarantinedAt: new Date() }),
+    lot("open", 6),
+  ];
+
+  it("removes from the earliest expiring lots first", () => {
+    assert.deepEqual(taken(planLotChanges(lots, -7)), [
+      ["soon", -4],
+      ["late", -3],
+    ]);
+  });
+
+  it("reaches lots without expiry last", () => {
+    assert.deepEqual(taken(planLotChanges(lots, -16)), [
+      ["soon", -4],
+      ["late", -10],
+      ["open", -2],
+    ]);
+  });
+
+  it("skips quarantined lots unless they are named", () => {
+    assert.throws(() => planLotChanges(lots, -21), /outside quarantine: 20 available, 21 requested, 20 quarantined/);
+    assert.deepEqual(taken(planLotChanges(lots, -5, { fromLots: ["held"] })), [["held", -5]]);
+  });
+
+  it("only draws from the named lots, still in FEFO order", () => {
+    assert.deepEqual(taken(planLotChanges(lots, -12, { fromLots: ["open", "late"] })), [
+      ["late", -10],
+      ["open", -2],
+    ]);
+    assert.throws(() => planLotChanges(lots, -17, { fromLots: ["open", "late"] }), /selected lots: 16 available/);
+    assert.throws(() => planLotChanges(lots, -1, { fromLots: ["missing"] }), /Lot not found/);
+  });
+
+  it("adds to the lot with the same number and expiry, or starts one", () => {
+    const into = { lotNumber: "SOON", expirationDate: new Date("2026-04-01") };
+    assert.deepEqual(taken(planLotChanges(lots, 3, { into })), [["soon", 3]]);
+    const [change] = planLotChanges(lots, 3, { into: { ...into, lotNumber: "NEW" } });
+    assert.equal(change.lot, null);
+    assert.equal(change.quantity, 3);
+  });
+});
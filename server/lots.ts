@@ -0,0 +1,184 @@
+import type {
+  InsertInventoryItem,
+  InsertProductHistory,
+  InventoryItem,
+  InventoryLot,
+  TransferLotAllocation,
+  TransferOrderLine,
+} from "@shared/schema";
+
+export type LotInput = {
+  lotNumber?: string | null;
+  expirationDate?: Date | null;
+  receivedAt?: Date;
+};
+
+export type LotOptions = {
+  // Lots a removal may draw from; defaults to all of the item's lots
+  fromLots?: string[];
+  // Lot an addition goes into; otherwise the lot matching `into`, or a new one
+  lotId?: string;
+  into?: LotInput;
+};
+
+/** Per-lot part of a stock change: a delta on an existing lot, or a new lot. */
+export type LotChange =
+  | { lot: InventoryLot; quantity: number }
+  | { lot: null; values: LotInput; quantity: number };
+
+/** One applied lot change with the item's running totals; each becomes a history row. */
+export type StockStep = {
+  lot: InventoryLot;
+  quantityChange: number;
+  previousQuantity: number;
+  newQuantity: number;
+};
+
+function timeOrNull(value: Date | string | null | undefined): number | null {
+  return value ? new Date(value).getTime() : null;
+}
+
+/** First-Expired-First-Out: earliest expiry first, lots without expiry last, then oldest receipt. */
+export function compareFefo(a: InventoryLot, b: InventoryLot): number {
+  const expiryA = timeOrNull(a.expirationDate) ?? Infinity;
+  const expiryB = timeOrNull(b.expirationDate) ?? Infinity;
+  return (
+    (expiryA === expiryB ? 0 : expiryA < expiryB ? -1 : 1) ||
+    new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime() ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+/** The lot picked next; the stock record's batch number and expiry mirror it. */
+export function nextLot(lots: InventoryLot[]): InventoryLot | undefined {
+  return lots.filter((lot) => lot.quantity > 0 && !lot.quarantinedAt).sort(compareFefo)[0];
+}
+
+export function lotSummary(lots: InventoryLot[]): Pick<InventoryItem, "quantity" | "batchNumber" | "expirationDate"> {
+  const next = nextLot(lots);
+  return {
+    quantity: lots.reduce((sum, lot) => sum + lot.quantity, 0),
+    batchNumber: next?.lotNumber ?? null,
+    expirationDate: next?.expirationDate ?? null,
+  };
+}
+
+/**
+ * Splits a quantity change on an item into per-lot changes. Removals consume
+ * lots First-Expired-First-Out, passing over quarantined lots unless they are
+ * named; additions merge into the lot with the same number and expiry, or
+ * start a new one.
+ */
+export function planLotChanges(lots: InventoryLot[], delta: number, options: LotOptions = {}): LotChange[] {
+  if (delta > 0) {
+    if (options.lotId) {
+      const lot = lots.find((candidate) => candidate.id === options.lotId);
+      if (!lot) throw new Error("Lot not found");
+      return [{ lot, quantity: delta }];
+    }
+    const values = options.into ?? {};
+    const lot = lots.find(
+      (candidate) =>
+        candidate.lotNumber === (values.lotNumber ?? null) &&
+        timeOrNull(candidate.expirationDate) === timeOrNull(values.expirationDate)
+    );
+    return [lot ? { lot, quantity: delta } : { lot: null, values, quantity: delta }];
+  }
+
+  const { fromLots } = options;
+  const candidates = fromLots
+    ? lots.filter((lot) => fromLots.includes(lot.id))
+    : lots.filter((lot) => !lot.quarantinedAt);
+  if (fromLots && candidates.length !== new Set(fromLots).size) throw new Error("Lot not found");
+  const changes: LotChange[] = [];
+  let remaining = -delta;
+  for (const lot of candidates.filter((candidate) => candidate.quantity > 0).sort(compareFefo)) {
+    if (remaining === 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    changes.push({ lot, quantity: -take });
+    remaining -= take;
+  }
+  if (remaining > 0) {
+    const quarantined = fromLots ? 0 : quarantinedQuantity(lots);
+    throw new Error(
+      quarantined > 0
+        ? `Not enough stock outside quarantine: ${-delta - remaining} available, ${-delta} requested, ${quarantined} quarantined`
+        : `Not enough stock in the selected lots: ${-delta - remaining} available, ${-delta} requested`
+    );
+  }
+  return changes;
+}
+
+function quarantinedQuantity(lots: InventoryLot[]): number {
+  return lots.reduce((sum, lot) => sum + (lot.quarantinedAt ? lot.quantity : 0), 0);
+}
+
+export function stockSteps(startQuantity: number, applied: Array<{ lot: InventoryLot; quantity: number }>): StockStep[] {
+  let quantity = startQuantity;
+  return applied.map(({ lot, quantity: change }) => {
+    const step = { lot, quantityChange: change, previousQuantity: quantity, newQuantity: quantity + change };
+    quantity += change;
+    return step;
+  });
+}
+
+/** History rows for the lot steps of one stock change. */
+export function stepHistory(
+  inventoryItemId: string,
+  steps: StockStep[],
+  fields: Omit<InsertProductHistory, "inventoryItemId" | "lotId" | "quantityChange" | "previousQuantity" | "newQuantity">
+): InsertProductHistory[] {
+  return steps.map((step) => ({
+    ...fields,
+    inventoryItemId,
+    lotId: step.lot.id,
+    quantityChange: step.quantityChange,
+    previousQuantity: step.previousQuantity,
+    newQuantity: step.newQuantity,
+  }));
+}
+
+/** Identity of a lot for recreating it in another warehouse. */
+export function lotIdentity(lot: InventoryLot): LotInput {
+  return { lotNumber: lot.lotNumber, expirationDate: lot.expirationDate, receivedAt: lot.receivedAt };
+}
+
+export function lotAllocation(step: StockStep): TransferLotAllocation {
+  return {
+    lotNumber: step.lot.lotNumber,
+    expirationDate: step.lot.expirationDate ? new Date(step.lot.expirationDate).toISOString() : null,
+    receivedAt: new Date(step.lot.receivedAt).toISOString(),
+    quantity: -step.quantityChange,
+  };
+}
+
+/**
+ * Lots a transfer line delivers. Lines shipped before lot tracking carry no
+ * allocation and arrive as unassigned stock.
+ */
+export function lineLots(line: TransferOrderLine, shippedAt: Date | null): Array<LotInput & { quantity: number }> {
+  if (line.lots.length === 0) {
+    return [{ lotNumber: null, expirationDate: null, receivedAt: shippedAt ?? undefined, quantity: line.quantity }];
+  }
+  return line.lots.map((allocation) => ({
+    lotNumber: allocation.lotNumber,
+    expirationDate: allocation.expirationDate ? new Date(allocation.expirationDate) : null,
+    receivedAt: new Date(allocation.receivedAt),
+    quantity: allocation.quantity,
+  }));
+}
+
+/** Batch number and expiry edits on a stock record, which apply to the lot it shows. */
+export function lotFieldChanges(
+  item: InventoryItem,
+  changes: Partial<InsertInventoryItem>
+): Partial<Pick<InventoryLot, "lotNumber" | "expirationDate">> | null {
+  const result: Partial<Pick<InventoryLot, "lotNumber" | "expirationDate">> = {};
+  if (changes.batchNumber !== undefined && changes.batchNumber !== item.batchNumber) {
+    result.lotNumber = changes.batchNumber;
+  }
+  if (changes.expirationDate && timeOrNull(changes.expirationDate) !== timeOrNull(item.expirationDate)) {
+    result.expirationDate = new Date(changes.expirationDate);
+  }
+  return Object.keys(result).length > 0 ? result : null;
+}
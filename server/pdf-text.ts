@@ -0,0 +1,103 @@
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import bidiFactory from "bidi-js";
+
+// pdfkit's built-in Helvetica has no Arabic glyphs. Noto Sans Arabic also
+// covers Latin, so one family serves every string in our PDFs.
+export const PDF_FONT = "NotoSansArabic";
+export const PDF_FONT_BOLD = "NotoSansArabic-Bold";
+
+const require = createRequire(import.meta.url);
+const fontPaths = {
+  [PDF_FONT]: "@expo-google-fonts/noto-sans-arabic/400Regular/NotoSansArabic_400Regular.ttf",
+  [PDF_FONT_BOLD]: "@expo-google-fonts/noto-sans-arabic/700Bold/NotoSansArabic_700Bold.ttf",
+};
+let fontData: Array<[string, Buffer]> | undefined;
+
+/** Registers the embedded fonts on `doc` and selects the regular weight. */
+export function registerPdfFonts(doc: PDFKit.PDFDocument) {
+  fontData ??= Object.entries(fontPaths).map(([name, path]) => [name, readFileSync(require.resolve(path))]);
+  for (const [name, data] of fontData) doc.registerFont(name, data);
+  doc.font(PDF_FONT);
+}
+
+const bidi = bidiFactory();
+// fontkit reverses any space-separated word whose first letter is in a
+// right-to-left script; see visualLine
+const rtlWord = /^[\p{Script=Common}\p{Script=Inherited}]*[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}]/u;
+
+export type PdfTextLine = { text: string; rtl: boolean };
+
+/**
+ * Puts one line of text in visual order for pdfkit. fontkit shapes Arabic
+ * letters and reverses right-to-left words, but pdfkit lays the words out
+ * left to right as given, so mixed or multi-word Arabic reads backwards. The
+ * line is reordered with the Unicode bidi algorithm, then the words fontkit
+ * will reverse are reversed back so they end up as reordered. `rtl` is set
+ * when the line's base direction is right to left.
+ */
+export function visualLine(text: string): PdfTextLine {
+  const embedding = bidi.getEmbeddingLevels(text);
+  const rtl = (embedding.paragraphs[0]?.level ?? 0) % 2 === 1;
+  if (!rtl && !embedding.levels.some((level) => level % 2 === 1)) return { text, rtl };
+  const visual = bidi
+    .getReorderedString(text, embedding)
+    .split(" ")
+    .map((word) => (rtlWord.test(word) ? Array.from(word).reverse().join("") : word))
+    .join(" ");
+  return { text: visual, rtl };
+}
+
+/** Breaks text into lines no wider than `width` at the current font settings. */
+function wrapLines(doc: PDFKit.PDFDocument, text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r\n|\r|\n/)) {
+    let line = "";
+    for (let word of paragraph.split(" ")) {
+      // A word wider than the column is split wherever it has to be
+      while (doc.widthOfString(word) > width && word.length > 1) {
+        let end = word.length - 1;
+        while (end > 1 && doc.widthOfString(word.slice(0, end)) > width) end--;
+        if (line) lines.push(line);
+        lines.push(word.slice(0, end));
+        line = "";
+        word = word.slice(end);
+      }
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && doc.widthOfString(candidate) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Writes wrapped text at (x, y) with each line in visual order. Right-to-left
+ * lines are right-aligned unless the text is centred. Leaves the cursor below
+ * the text and returns its height; with `measure` set nothing is drawn.
+ */
+export function writeText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  x: number,
+  y: number,
+  options: { width: number; align?: "left" | "center" | "right"; measure?: boolean }
+): number {
+  const lines = wrapLines(doc, text, options.width);
+  const lineHeight = doc.currentLineHeight(true);
+  if (!options.measure) {
+    lines.forEach((line, i) => {
+      const { text: visual, rtl } = visualLine(line);
+      const align = options.align === "center" ? "center" : rtl ? "right" : options.align ?? "left";
+      doc.text(visual, x, y + i * lineHeight, { width: options.width, align, lineBreak: false });
+    });
+    doc.x = x;
+    doc.y = y + lines.length * lineHeight;
+  }
+  return lines.length * lineHeight;
+}
@@ -0,0 +1,114 @@
+import type {
+  InsertInventoryItem,
+  Product,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+} from "@shared/schema";
+
+export type PurchaseOrderLineInput = { productId: string; quantity: number; unitCost: number };
+
+export type PurchaseOrderChanges = {
+  supplierId?: string;
+  warehouseId?: string;
+  expectedAt?: Date | null;
+  notes?: string;
+  lines?: PurchaseOrderLineInput[];
+};
+
+export type PurchaseReceipt = {
+  lines: Array<{ lineId: string; quantity: number; lotNumber?: string; expirationDate?: Date }>;
+  acceptOverReceipt: boolean;
+  closeShort: boolean;
+  notes?: string;
+};
+
+export function checkPurchaseOrderStatus(
+  order: PurchaseOrder,
+  statuses: PurchaseOrderStatus[],
+  action: string
+): PurchaseOrder {
+  if (!statuses.includes(order.status)) {
+    const allowed = statuses.map((status) => status.replace("_", " ")).join(" or ");
+    throw new Error(`Only ${allowed} purchase orders can be ${action}`);
+  }
+  return order;
+}
+
+/** Checks that every line references a catalog product. Returns the products keyed by id. */
+export function checkPurchaseLines(lines: PurchaseOrderLineInput[], products: Product[]): Map<string, Product> {
+  const productsById = new Map(products.map((product) => [product.id, product]));
+  for (const line of lines) {
+    if (!productsById.has(line.productId)) throw new Error(`Product ${line.productId} not found`);
+  }
+  return productsById;
+}
+
+export function purchaseLineValues(
+  purchaseOrderId: string,
+  lines: PurchaseOrderLineInput[],
+  products: Map<string, Product>
+) {
+  return lines.map((line) => {
+    const product = products.get(line.productId)!;
+    return {
+      purchaseOrderId,
+      productId: product.id,
+      sku: product.sku,
+      itemName: product.name,
+      unit: product.unit,
+      quantity: line.quantity,
+      unitCost: line.unitCost,
+    };
+  });
+}
+
+export function outstandingQuantity(line: PurchaseOrderLine): number {
+  return Math.max(line.quantity - line.receivedQuantity, 0);
+}
+
+/**
+ * Matches receipt lines to order lines. Receiving more than a line's
+ * outstanding quantity is rejected unless the over-receipt is accepted.
+ */
+export function checkPurchaseReceipt(
+  lines: PurchaseOrderLine[],
+  receipt: PurchaseReceipt
+): Map<string, PurchaseOrderLine> {
+  const linesById = new Map(lines.map((line) => [line.id, line]));
+  for (const entry of receipt.lines) {
+    const line = linesById.get(entry.lineId);
+    if (!line) throw new Error("Receipt references an unknown line");
+    const outstanding = outstandingQuantity(line);
+    if (entry.quantity > outstanding && !receipt.acceptOverReceipt) {
+      throw new Error(
+        `Receiving ${entry.quantity} ${line.unit} of ${line.sku} exceeds the ${outstanding} outstanding; confirm the over-receipt to post it`
+      );
+    }
+  }
+  return linesById;
+}
+
+/** Status after a receipt: closed once every line is in full, or when closed short. */
+export function receiptStatus(lines: PurchaseOrderLine[], closeShort: boolean): PurchaseOrderStatus {
+  return closeShort || lines.every((line) => outstandingQuantity(line) === 0) ? "closed" : "partially_received";
+}
+
+export function purchaseReceiptNote(line: PurchaseOrderLine, quantity: number, notes?: string): string {
+  const received = line.receivedQuantity + quantity;
+  const over = received > line.quantity ? ` (over-receipt of ${received - line.quantity})` : "";
+  const note = `Purchase order receipt: ${received} of ${line.quantity} ordered${over}`;
+  return notes ? `${note}. ${notes}` : note;
+}
+
+/** Stock row created in the order's warehouse when a product is first received there. */
+export function purchaseReceiptItem(line: PurchaseOrderLine, warehouseId: string): InsertInventoryItem {
+  return {
+    warehouseId,
+    productId: line.productId,
+    name: line.itemName,
+    sku: line.sku,
+    quantity: 0,
+    unit: line.unit,
+  };
+}
@@ -0,0 +1,130 @@
+import type { Response } from "express";
+import ExcelJS from "exceljs";
+import type { InventoryItem, ReplenishmentSuggestion, StockLevelDefault, Warehouse } from "@shared/schema";
+import { resolveStockLevels } from "@shared/stock-levels";
+import { CSV_BOM, contentDisposition, formatCsvRow } from "./csv";
+
+export const replenishmentExportFormats = ["csv", "xlsx"] as const;
+export type ReplenishmentExportFormat = (typeof replenishmentExportFormats)[number];
+
+export type ReplenishmentOptions = {
+  // Days of issue history averaged into the daily usage
+  windowDays: number;
+  // Days between placing an order and receiving it
+  leadTimeDays: number;
+  // Days of usage kept in stock as a buffer against late deliveries
+  safetyStockDays: number;
+  // Days of usage an order should cover beyond the reorder point
+  coverDays: number;
+};
+
+/**
+ * Suggests an order for every item below its reorder point, most urgent
+ * first. The reorder point is the higher of the configured stock levels and
+ * the usage over the lead time plus safety stock; orders fill up to the
+ * item's maximum, or to the reorder point plus coverDays of usage.
+ */
+export function planReplenishment(
+  items: InventoryItem[],
+  issued: Record<string, number>,
+  levelDefaults: StockLevelDefault[],
+  lowStockThreshold: number,
+  options: ReplenishmentOptions
+): ReplenishmentSuggestion[] {
+  const suggestions: ReplenishmentSuggestion[] = [];
+  for (const item of items) {
+    const itemIssued = issued[item.id] ?? 0;
+    const averageDailyUsage = itemIssued / options.windowDays;
+    const levels = resolveStockLevels(item, levelDefaults, lowStockThreshold);
+    const safetyStock = Math.ceil(averageDailyUsage * options.safetyStockDays);
+    const reorderPoint = Math.max(
+      Math.ceil(averageDailyUsage * options.leadTimeDays) + safetyStock,
+      levels.reorderPoint,
+      levels.minQuantity ?? 0
+    );
+    if (item.quantity >= reorderPoint) continue;
+
+    const targetLevel = Math.max(
+      levels.maxQuantity ?? reorderPoint + Math.ceil(averageDailyUsage * options.coverDays),
+      reorderPoint
+    );
+    suggestions.push({
+      inventoryItemId: item.id,
+      warehouseId: item.warehouseId,
+      sku: item.sku,
+      name: item.name,
+      category: item.category,
+      unit: item.unit,
+      quantity: item.quantity,
+      issued: itemIssued,
+      averageDailyUsage: Math.round(averageDailyUsage * 100) / 100,
+      daysOfCover: averageDailyUsage > 0 ? Math.round((item.quantity / averageDailyUsage) * 10) / 10 : null,
+      safetyStock,
+      reorderPoint,
+      targetLevel,
+      suggestedQuantity: targetLevel - item.quantity,
+    });
+  }
+
+  // Items with no recent usage have no cover estimate and sort last
+  return suggestions.sort(
+    (a, b) =>
+      (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+type ExportColumn = {
+  header: string;
+  width: number;
+  value: (suggestion: ReplenishmentSuggestion, warehouse: Warehouse | undefined) => string | number | null;
+};
+
+const exportColumns: ExportColumn[] = [
+  { header: "Warehouse", width: 24, value: (_, warehouse) => warehouse?.name ?? null },
+  { header: "SKU", width: 16, value: (suggestion) => suggestion.sku },
+  { header: "Name", width: 32, value: (suggestion) => suggestion.name },
+  { header: "Category", width: 18, value: (suggestion) => suggestion.category },
+  { header: "On Hand", width: 10, value: (suggestion) => suggestion.quantity },
+  { header: "Unit", width: 8, value: (suggestion) => suggestion.unit },
+  { header: "Avg Daily Usage", width: 14, value: (suggestion) => suggestion.averageDailyUsage },
+  { header: "Days of Cover", width: 12, value: (suggestion) => suggestion.daysOfCover },
+  { header: "Safety Stock", width: 12, value: (suggestion) => suggestion.safetyStock },
+  { header: "Reorder Point", width: 12, value: (suggestion) => suggestion.reorderPoint },
+  { header: "Target Level", width: 12, value: (suggestion) => suggestion.targetLevel },
+  { header: "Suggested Order", width: 14, value: (suggestion) => suggestion.suggestedQuantity },
+];
+
+export async function sendReplenishmentExport(
+  res: Response,
+  format: ReplenishmentExportFormat,
+  suggestions: ReplenishmentSuggestion[],
+  warehouses: Warehouse[]
+): Promise<void> {
+  const warehousesById = new Map(warehouses.map((warehouse) => [warehouse.id, warehouse]));
+  const filename = `reorder-suggestions-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader("Content-Disposition", contentDisposition(filename));
+
+  if (format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.write(CSV_BOM + formatCsvRow(exportColumns.map((column) => column.header)));
+    for (const suggestion of suggestions) {
+      const warehouse = warehousesById.get(suggestion.warehouseId);
+      res.write(formatCsvRow(exportColumns.map((column) => column.value(suggestion, warehouse))));
+    }
+    res.end();
+    return;
+  }
+
+  res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const sheet = workbook.addWorksheet("Reorder Suggestions");
+  sheet.columns = exportColumns.map((column) => ({ header: column.header, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+  for (const suggestion of suggestions) {
+    const warehouse = warehousesById.get(suggestion.warehouseId);
+    sheet.addRow(exportColumns.map((column) => column.value(suggestion, warehouse))).commit();
+  }
+  sheet.commit();
+  await workbook.commit();
+}
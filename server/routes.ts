@@ -1,22 +1,475 @@
 import type { Express, Request, Response } from "express";
 import { createServer } from "http";
+import { once } from "node:events";
 import { storage } from "./db-storage";
+import { movementDelta, type StockMovement } from "./storage";
 import { isAuthenticated, requireRole, auditLog } from "./auth";
+import {
+  CSV_BOM,
+  contentDisposition,
+  decodeCsvBuffer,
+  detectDelimiter,
+  formatCsvRow,
+  parseCsv,
+} from "./csv";
+import { readSpreadsheet } from "./spreadsheet";
+import { planInventoryImport } from "./inventory-import";
+import { inventoryExportFormats, sendInventoryExport } from "./inventory-export";
+import {
+  planReplenishment,
+  replenishmentExportFormats,
+  sendReplenishmentExport,
+} from "./replenishment";
+import { valueStock } from "./valuation";
+import { sendLabelSheet, type LabelContent } from "./labels";
+import { imageProcessingState, runImageJobs } from "./image-processing";
 import {
   insertWarehouseSchema,
+  insertProductSchema,
   insertInventoryItemSchema,
+  insertStockLevelDefaultSchema,
   insertTableSchema,
+  insertTableRowSchema,
   updateUserRoleSchema,
+  inventorySortFields,
+  receiveStockSchema,
+  issueStockSchema,
+  adjustStockSchema,
+  countStockSchema,
+  lotQuarantineSchema,
+  lotWriteOffSchema,
+  transferStockSchema,
+  transferOrderStatuses,
+  createTransferOrderSchema,
+  updateTransferOrderSchema,
+  receiveTransferOrderSchema,
+  insertSupplierSchema,
+  purchaseOrderStatuses,
+  createPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  receivePurchaseOrderSchema,
+  stocktakeStatuses,
+  createStocktakeSchema,
+  countStocktakeLineSchema,
+  postStocktakeSchema,
+  insertWarehouseBinSchema,
+  updateWarehouseBinSchema,
+  putawayStockSchema,
+  moveBinStockSchema,
+  insertUnitOfMeasureSchema,
+  updateUnitOfMeasureSchema,
+  saveUnitConversionSchema,
+  type InventoryItem,
+  type InventoryLot,
+  type InventoryLookup,
+  type ExpiryLot,
+  type CapturedImage,
+  type User,
+  type Table as DataTable,
 } from "@shared/schema";
-import OpenAI from "openai";
+import { validateRowData, type RowValidationResult } from "@shared/table-columns";
+import { stockLevelOrderError } from "@shared/stock-levels";
+import { daysRemaining } from "@shared/expiry";
+import { findUnitCode, unitFactor, unknownUnitMessage } from "@shared/units";
+import {
+  capacityTrend,
+  capacityWarning,
+  stockSpace,
+  warehouseUtilization,
+} from "@shared/capacity";
+import {
+  MAX_UPLOAD_MB,
+  expiryCutoff,
+  inventorySettings,
+  updateSystemSettingsSchema,
+  valuationMethods,
+  type SystemSettingKey,
+} from "@shared/system-settings";
+import {
+  MAX_LABEL_COPIES,
+  MAX_LABELS,
+  labelKinds,
+  labelSymbologies,
+  labelTemplateIds,
+  type LabelKind,
+} from "@shared/labels";
 import multer from "multer";
+import { z } from "zod";
+
+// Multer only enforces the hard cap; routes check the configured limits
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_UPLOAD_MB * 1024 * 1024 } });
+
+function uploadLimitError(file: { size: number }, limitMb: number): string | null {
+  return file.size > limitMb * 1024 * 1024 ? `File exceeds the ${limitMb} MB upload limit` : null;
+}
+
+// Only the uploader and admins may see or retry an image's processing
+function canAccessImage(image: CapturedImage, user: User | undefined): boolean {
+  return !!user && (image.uploadedBy === user.id || user.role === "super_admin" || user.role === "admin");
+}
+
+const paginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const tableRowBodySchema = insertTableRowSchema.pick({ data: true });
+
+const createTableRowSchema = tableRowBodySchema.extend({
+  afterRowId: z.string().optional(),
+});
+
+const bulkTableRowsSchema = z.object({
+  rows: z.array(tableRowBodySchema).min(1).max(1000),
+});
+
+const csvImportSchema = z.object({
+  // CSV column index -> table column id; unmapped CSV columns are skipped
+  mapping: z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Mapping must be valid JSON" });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.record(z.string().nullable())),
+  delimiter: z.enum([",", ";", "\t", "|"]).optional(),
+  dryRun: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+const booleanQueryParam = z
+  .enum(["true", "false"])
+  .optional()
+  .transform((value) => value === "true");
+
+const inventoryFiltersSchema = z.object({
+  warehouseId: z.string().uuid().optional(),
+  category: z.string().optional(),
+  lowStock: booleanQueryParam,
+  expiring: booleanQueryParam,
+  expired: booleanQueryParam,
+  minQuantity: z.coerce.number().int().optional(),
+  maxQuantity: z.coerce.number().int().optional(),
+  expiresFrom: z.coerce.date().optional(),
+  expiresTo: z.coerce.date().optional(),
+  q: z.string().trim().optional(),
+});
+
+const inventoryListSchema = inventoryFiltersSchema.merge(paginationSchema).extend({
+  // Keyset pagination; when present, page is ignored
+  cursor: z.string().optional(),
+  sort: z.enum(inventorySortFields).default("name"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+});
+
+const inventoryExportSchema = inventoryFiltersSchema.extend({
+  format: z.enum(inventoryExportFormats).default("csv"),
+});
+
+const inventoryLookupSchema = z.object({
+  sku: z.string().trim().min(1),
+  // Narrows the matches to one warehouse
+  warehouseId: z.string().optional(),
+});
+
+const expiryQuerySchema = z.object({
+  // Look-ahead window; defaults to the expiry warning setting
+  days: z.coerce.number().int().min(0).max(365).optional(),
+  warehouseId: z.string().optional(),
+});
+
+const replenishmentQuerySchema = z.object({
+  warehouseId: z.string().optional(),
+  category: z.string().optional(),
+  windowDays: z.coerce.number().int().min(1).max(365).default(30),
+  leadTimeDays: z.coerce.number().int().min(0).max(365).default(7),
+  safetyStockDays: z.coerce.number().int().min(0).max(365).default(7),
+  coverDays: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+const replenishmentExportSchema = replenishmentQuerySchema.extend({
+  format: z.enum(replenishmentExportFormats).default("csv"),
+});
+
+async function replenishmentSuggestions({
+  warehouseId,
+  category,
+  ...options
+}: z.infer<typeof replenishmentQuerySchema>) {
+  const since = new Date();
+  since.setDate(since.getDate() - options.windowDays);
+  const [items, issued, levelDefaults, settings] = await Promise.all([
+    storage.getInventoryItems({ warehouseId, category }),
+    storage.getIssuedQuantities(since),
+    storage.getStockLevelDefaults(),
+    storage.getSystemSettings(),
+  ]);
+  return planReplenishment(items, issued, levelDefaults, settings.lowStockThreshold, options);
+}
+
+const valuationQuerySchema = z.object({
+  warehouseId: z.string().optional(),
+  category: z.string().optional(),
+  asOf: z.coerce.date().optional(),
+  // Defaults to the configured valuation method
+  method: z.enum(valuationMethods).optional(),
+});
+
+async function stockValuation({ asOf = new Date(), method, ...filters }: z.infer<typeof valuationQuerySchema>) {
+  const [items, history, settings] = await Promise.all([
+    storage.getInventoryItems(),
+    storage.getProductHistoryUntil(asOf),
+    storage.getSystemSettings(),
+  ]);
+  return valueStock(items, history, { ...filters, asOf, method: method ?? settings.valuationMethod });
+}
+
+// The dashboard total replays all stock history, so it is kept until an item
+// or its history changes. The valuation report always replays.
+let dashboardValuation: { version: string; totalValue: number } | undefined;
+
+async function currentStockValue(): Promise<number> {
+  const [stockVersion, settings] = await Promise.all([
+    storage.getStockValuationVersion(),
+    storage.getSystemSettings(),
+  ]);
+  const version = `${settings.valuationMethod}:${stockVersion}`;
+  if (dashboardValuation?.version !== version) {
+    const { totalValue } = await stockValuation({ method: settings.valuationMethod });
+    dashboardValuation = { version, totalValue };
+  }
+  return dashboardValuation.totalValue;
+}
+
+async function warehouseUtilizations() {
+  const [warehouses, spaces] = await Promise.all([storage.getWarehouses(), storage.getWarehouseStockSpace()]);
+  const spacesByWarehouse = new Map(spaces.map((space) => [space.warehouseId, space]));
+  return warehouses.map((warehouse) => warehouseUtilization(warehouse, spacesByWarehouse.get(warehouse.id)));
+}
+
+// Checked before a receipt is applied; the receipt goes ahead either way
+async function receiptCapacityWarning(
+  warehouseId: string,
+  lines: Array<{ productId: string; quantity: number }>
+): Promise<string | null> {
+  const warehouse = await storage.getWarehouseById(warehouseId);
+  if (!warehouse || warehouse.capacity <= 0) return null;
+  // Unit volumes only matter to warehouses that measure by volume
+  const [[space], products] = await Promise.all([
+    storage.getWarehouseStockSpace(warehouseId),
+    warehouse.capacityMode === "volume"
+      ? Promise.all(lines.map((line) => storage.getProductById(line.productId)))
+      : Promise.resolve([]),
+  ]);
+  const added = lines.reduce(
+    (sum, line, index) => sum + (stockSpace(warehouse.capacityMode, line.quantity, products[index]?.unitVolume) ?? 0),
+    0
+  );
+  return capacityWarning(warehouse, warehouseUtilization(warehouse, space), added);
+}
 
-const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+const capacityTrendQuerySchema = z.object({
+  warehouseId: z.string().optional(),
+  days: z.coerce.number().int().min(7).max(365).default(30),
+});
+
+async function utilizationTrend({ warehouseId, days }: z.infer<typeof capacityTrendQuerySchema>) {
+  const since = new Date();
+  since.setUTCDate(since.getUTCDate() - days);
+  const [warehouses, spaces, changes] = await Promise.all([
+    storage.getWarehouses(),
+    storage.getWarehouseStockSpace(warehouseId),
+    storage.getDailyStockSpaceChanges(since, warehouseId),
+  ]);
+  const scoped = warehouseId ? warehouses.filter((warehouse) => warehouse.id === warehouseId) : warehouses;
+  return capacityTrend(scoped, spaces, changes, days);
+}
+
+/**
+ * In a warehouse with bins, a stock record's location must name one of them;
+ * returns the bin's code as stored. Warehouses without bins keep free-text
+ * locations.
+ */
+async function binLocation(warehouseId: string, location: string | undefined): Promise<string | undefined> {
+  const trimmed = location?.trim();
+  if (!trimmed) return location;
+  const bins = await storage.getBins(warehouseId);
+  if (bins.length === 0) return location;
+  const bin = bins.find((candidate) => candidate.code.toUpperCase() === trimmed.toUpperCase());
+  if (!bin) throw new Error(`Location ${trimmed} is not a bin in this warehouse`);
+  return bin.code;
+}
+
+const labelRequestSchema = z.object({
+  kind: z.enum(labelKinds),
+  // Inventory item ids for items and lots, warehouse ids for bins
+  ids: z.array(z.string()).min(1).max(500),
+  symbology: z.enum(labelSymbologies),
+  template: z.enum(labelTemplateIds),
+  copies: z.number().int().min(1).max(MAX_LABEL_COPIES).default(1),
+});
+
+// One label per item, per numbered lot of each item, or per bin of each warehouse
+async function labelContents(kind: LabelKind, ids: string[]): Promise<LabelContent[]> {
+  const warehouses = await storage.getWarehouses();
+  const warehouseName = (id: string) => warehouses.find((warehouse) => warehouse.id === id)?.name ?? "";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+  if (kind === "bins") {
+    const labels: LabelContent[] = [];
+    for (const id of ids) {
+      if (!warehouses.some((warehouse) => warehouse.id === id)) throw new Error("Warehouse not found");
+      for (const bin of await storage.getBins(id)) {
+        const details = [warehouseName(id), bin.description ?? ""].filter(Boolean);
+        labels.push({ value: bin.code, title: bin.code, details });
+      }
+    }
+    if (labels.length === 0) throw new Error("The selected warehouses have no bins to label");
+    return labels;
+  }
+
+  const labels: LabelContent[] = [];
+  for (const id of ids) {
+    const item = await storage.getInventoryItemById(id);
+    if (!item) throw new Error("Inventory item not found");
+    if (kind === "items") {
+      const warehouse = warehouseName(item.warehouseId);
+      labels.push({ value: item.sku, title: item.name, details: [item.location ? `${warehouse} · ${item.location}` : warehouse] });
+      continue;
+    }
+    for (const lot of await storage.getInventoryLots(id)) {
+      if (!lot.lotNumber || lot.quantity <= 0) continue;
+      const expiry = lot.expirationDate ? `Expires ${new Date(lot.expirationDate).toISOString().slice(0, 10)}` : "";
+      labels.push({ value: lot.lotNumber, title: item.name, details: [`SKU ${item.sku}`, expiry].filter(Boolean) });
+    }
+  }
+  if (labels.length === 0) throw new Error("The selected items have no numbered lots in stock to label");
+  return labels;
+}
+
+const inventoryImportSchema = z.object({
+  // Used for rows without a warehouse column or value
+  warehouseId: z.string().optional(),
+  dryRun: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
 });
 
+const productHistoryRangeSchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((range) => !range.from || !range.to || range.from <= range.to, {
+    message: "from must not be after to",
+  });
+
+// Products and stock records may only use registered units; returns the code as registered
+async function registeredUnit(code: string): Promise<string> {
+  const unit = findUnitCode(await storage.getUnits(), code);
+  if (!unit) throw new Error(unknownUnitMessage(code));
+  return unit;
+}
+
+/**
+ * The movement with its quantity in the item's base unit. A unit cost given
+ * with a receipt is per entered unit, so it is divided down too.
+ */
+async function movementInBaseUnit(movement: StockMovement, unit: string | undefined): Promise<StockMovement> {
+  if (!unit) return movement;
+  const item = await storage.getInventoryItemById(movement.itemId);
+  if (!item) throw new Error("Inventory item not found");
+  const factor = unitFactor(item.unit, await storage.getUnitConversions(item.productId), unit);
+  if (factor === null) throw new Error(`No conversion from ${unit} to ${item.unit} for ${item.sku}`);
+  if (factor === 1) return movement;
+  const entered = `Entered as ${movement.type === "adjust" ? movement.quantityChange : movement.quantity} ${unit}`;
+  const notes = movement.notes ? `${movement.notes} (${entered})` : entered;
+  switch (movement.type) {
+    case "adjust":
+      return { ...movement, quantityChange: movement.quantityChange * factor, notes };
+    case "receive":
+      return {
+        ...movement,
+        quantity: movement.quantity * factor,
+        unitCost: movement.unitCost === undefined ? undefined : movement.unitCost / factor,
+        notes,
+      };
+    default:
+      return { ...movement, quantity: movement.quantity * factor, notes };
+  }
+}
+
+const stockMovementAudit: Record<StockMovement["type"], string> = {
+  receive: "RECEIVE_STOCK",
+  issue: "ISSUE_STOCK",
+  adjust: "ADJUST_STOCK",
+  transfer: "TRANSFER_STOCK",
+};
+
+async function handleStockMovement(req: Request, res: Response, entered: StockMovement, unit?: string) {
+  try {
+    const movement = await movementInBaseUnit(entered, unit);
+    let capacityWarning: string | null = null;
+    if (movement.type === "receive") {
+      const item = await storage.getInventoryItemById(movement.itemId);
+      if (item) {
+        capacityWarning = await receiptCapacityWarning(item.warehouseId, [
+          { productId: item.productId, quantity: movement.quantity },
+        ]);
+      }
+    }
+    const result = await storage.applyStockMovement(movement, req.user?.id || null);
+    await auditLog(
+      req.user?.id,
+      stockMovementAudit[movement.type],
+      req.originalUrl,
+      "POST",
+      { itemId: movement.itemId, quantityChange: movementDelta(movement), capacityWarning },
+      req.ip
+    );
+    res.json({ ...result, capacityWarning });
+  } catch (error: any) {
+    console.error("Stock movement error:", error);
+    const status = error.message === "Inventory item not found" ? 404 : 400;
+    res.status(status).json({ message: error.message });
+  }
+}
+
+// Validates row data against the table's column definition and checks that
+// reference columns point at existing inventory items.
+async function validateTableRowData(
+  table: DataTable,
+  data: Record<string, unknown>,
+  knownItems: Map<string, boolean> = new Map()
+): Promise<RowValidationResult> {
+  const { columns } = table.columnsMetadata;
+  const result = validateRowData(columns, data);
+  if (!result.success) return result;
+
+  const fieldErrors: Record<string, string[]> = {};
+  for (const column of columns) {
+    const value = result.data[column.id];
+    if (column.type !== "reference" || typeof value !== "string") continue;
+    if (!knownItems.has(value)) {
+      knownItems.set(value, !!(await storage.getInventoryItemById(value)));
+    }
+    if (!knownItems.get(value)) {
+      fieldErrors[column.id] = ["Inventory item not found"];
+    }
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return { success: false, errors: { formErrors: [], fieldErrors } };
+  }
+  return result;
+}
+
 export function registerRoutes(app: Express) {
   const server = createServer(app);
   // Auth routes
@@ -27,8 +480,8 @@ export function registerRoutes(app: Express) {
   // Dashboard
   app.get("/api/dashboard/stats", isAuthenticated, async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
-      res.json(stats);
+      const [stats, totalStockValue] = await Promise.all([storage.getDashboardStats(), currentStockValue()]);
+      res.json({ ...stats, totalStockValue });
     } catch (error: any) {
       console.error("Dashboard stats error:", error);
       res.status(500).json({ message: error.message });
@@ -46,6 +499,28 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  app.get("/api/warehouses/utilization", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await warehouseUtilizations());
+    } catch (error: any) {
+      console.error("Warehouse utilization error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/warehouses/utilization/trend", isAuthenticated, async (req, res) => {
+    try {
+      const query = capacityTrendQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query", errors: query.error.flatten() });
+      }
+      res.json(await utilizationTrend(query.data));
+    } catch (error: any) {
+      console.error("Capacity trend error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/warehouses/:id", isAuthenticated, async (req, res) => {
     try {
       const warehouse = await storage.getWarehouseById(req.params.id);
@@ -94,239 +569,1585 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  // Inventory
-  app.get("/api/inventory", isAuthenticated, async (req, res) => {
+  // Bins
+  app.get("/api/warehouses/:id/bins", isAuthenticated, async (req, res) => {
     try {
-      const items = await storage.getInventoryItems();
-      res.json(items);
+      const bins = await storage.getBins(req.params.id);
+      res.json(bins);
     } catch (error: any) {
-      console.error("Get inventory error:", error);
+      console.error("Get bins error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/inventory/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/warehouses/:id/bin-stock", isAuthenticated, async (req, res) => {
     try {
-      const item = await storage.getInventoryItemById(req.params.id);
-      if (!item) {
-        return res.status(404).json({ message: "Item not found" });
-      }
-      res.json(item);
+      const placements = await storage.getBinStock(req.params.id);
+      res.json(placements);
     } catch (error: any) {
-      console.error("Get inventory item error:", error);
+      console.error("Get bin stock error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/inventory", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+  app.post("/api/warehouses/:id/bins", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
     try {
-      const data = insertInventoryItemSchema.parse(req.body);
-      const item = await storage.createInventoryItem(data);
-
-      await storage.createProductHistory({
-        inventoryItemId: item.id,
-        actionType: "in",
-        quantityChange: item.quantity,
-        previousQuantity: 0,
-        newQuantity: item.quantity,
-        userId: req.user?.id || null,
-        notes: "Initial inventory",
-      });
-
-      await auditLog(req.user?.id, "CREATE_INVENTORY", "/api/inventory", "POST", { itemId: item.id, sku: item.sku }, req.ip);
-      res.status(201).json(item);
+      const warehouse = await storage.getWarehouseById(req.params.id);
+      if (!warehouse) {
+        return res.status(404).json({ message: "Warehouse not found" });
+      }
+      const data = insertWarehouseBinSchema.parse({ ...req.body, warehouseId: req.params.id });
+      const bin = await storage.createBin(data);
+      await auditLog(req.user?.id, "CREATE_BIN", `/api/warehouses/${req.params.id}/bins`, "POST", { binId: bin.id, code: bin.code }, req.ip);
+      res.status(201).json(bin);
     } catch (error: any) {
-      console.error("Create inventory error:", error);
+      console.error("Create bin error:", error);
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.patch("/api/inventory/:id", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+  app.patch("/api/bins/:id", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
     try {
-      const currentItem = await storage.getInventoryItemById(req.params.id);
-      if (!currentItem) {
-        return res.status(404).json({ message: "Item not found" });
-      }
-
-      const data = insertInventoryItemSchema.partial().parse(req.body);
-      const item = await storage.updateInventoryItem(req.params.id, data);
-
-      if (data.quantity !== undefined && data.quantity !== currentItem.quantity) {
-        await storage.createProductHistory({
-          inventoryItemId: item.id,
-          actionType: "adjust",
-          quantityChange: data.quantity - currentItem.quantity,
-          previousQuantity: currentItem.quantity,
-          newQuantity: data.quantity,
-          userId: req.user?.id || null,
-          notes: "Quantity adjusted",
-        });
-      }
-
-      await auditLog(req.user?.id, "UPDATE_INVENTORY", `/api/inventory/${req.params.id}`, "PATCH", { itemId: req.params.id }, req.ip);
-      res.json(item);
+      const data = updateWarehouseBinSchema.parse(req.body);
+      const bin = await storage.updateBin(req.params.id, data);
+      await auditLog(req.user?.id, "UPDATE_BIN", `/api/bins/${req.params.id}`, "PATCH", { binId: bin.id, code: bin.code }, req.ip);
+      res.json(bin);
     } catch (error: any) {
-      console.error("Update inventory error:", error);
-      res.status(400).json({ message: error.message });
+      console.error("Update bin error:", error);
+      res.status(error.message === "Bin not found" ? 404 : 400).json({ message: error.message });
     }
   });
 
-  app.delete("/api/inventory/:id", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+  app.delete("/api/bins/:id", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
     try {
-      await storage.deleteInventoryItem(req.params.id);
-      await auditLog(req.user?.id, "DELETE_INVENTORY", `/api/inventory/${req.params.id}`, "DELETE", { itemId: req.params.id }, req.ip);
+      await storage.deleteBin(req.params.id);
+      await auditLog(req.user?.id, "DELETE_BIN", `/api/bins/${req.params.id}`, "DELETE", { binId: req.params.id }, req.ip);
       res.status(204).send();
     } catch (error: any) {
-      console.error("Delete inventory error:", error);
-      res.status(500).json({ message: error.message });
+      console.error("Delete bin error:", error);
+      res.status(error.message === "Bin not found" ? 404 : 400).json({ message: error.message });
     }
   });
 
-  // Tables
-  app.get("/api/tables", isAuthenticated, async (req, res) => {
+  // Products
+  app.get("/api/products", isAuthenticated, async (req, res) => {
     try {
-      const tables = await storage.getTables();
-      res.json(tables);
+      const search = typeof req.query.q === "string" ? req.query.q : undefined;
+      const products = await storage.getProducts(search);
+      res.json(products);
     } catch (error: any) {
-      console.error("Get tables error:", error);
+      console.error("Get products error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/tables/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/products/:id", isAuthenticated, async (req, res) => {
     try {
-      const table = await storage.getTableById(req.params.id);
-      if (!table) {
-        return res.status(404).json({ message: "Table not found" });
+      const product = await storage.getProductById(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
       }
-      res.json(table);
+      res.json(product);
     } catch (error: any) {
-      console.error("Get table error:", error);
+      console.error("Get product error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/tables", isAuthenticated, async (req, res) => {
+  app.post("/api/products", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
     try {
-      const data = insertTableSchema.parse({
-        ...req.body,
-        createdBy: req.user?.id,
-      });
-      const table = await storage.createTable(data);
-      await auditLog(req.user?.id, "CREATE_TABLE", "/api/tables", "POST", { tableId: table.id }, req.ip);
-      res.status(201).json(table);
+      const { defaultUnit } = await storage.getSystemSettings();
+      const data = insertProductSchema.parse({ unit: defaultUnit, ...req.body });
+      data.unit = await registeredUnit(data.unit);
+      const product = await storage.createProduct(data);
+      await auditLog(req.user?.id, "CREATE_PRODUCT", "/api/products", "POST", { productId: product.id, sku: product.sku }, req.ip);
+      res.status(201).json(product);
     } catch (error: any) {
-      console.error("Create table error:", error);
+      console.error("Create product error:", error);
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.delete("/api/tables/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/products/:id", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
     try {
-      await storage.deleteTable(req.params.id);
-      await auditLog(req.user?.id, "DELETE_TABLE", `/api/tables/${req.params.id}`, "DELETE", { tableId: req.params.id }, req.ip);
+      const data = insertProductSchema.partial().parse(req.body);
+      if (data.unit !== undefined) {
+        data.unit = await registeredUnit(data.unit);
+      }
+      const product = await storage.updateProduct(req.params.id, data);
+      await auditLog(req.user?.id, "UPDATE_PRODUCT", `/api/products/${req.params.id}`, "PATCH", { productId: product.id, changes: Object.keys(data) }, req.ip);
+      res.json(product);
+    } catch (error: any) {
+      console.error("Update product error:", error);
+      res.status(error.message === "Product not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/products/:id", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      await storage.deleteProduct(req.params.id);
+      await auditLog(req.user?.id, "DELETE_PRODUCT", `/api/products/${req.params.id}`, "DELETE", { productId: req.params.id }, req.ip);
       res.status(204).send();
     } catch (error: any) {
-      console.error("Delete table error:", error);
+      console.error("Delete product error:", error);
+      res.status(error.message === "Product not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/products/:id/units", isAuthenticated, async (req, res) => {
+    try {
+      const conversions = await storage.getUnitConversions(req.params.id);
+      res.json(conversions);
+    } catch (error: any) {
+      console.error("Get unit conversions error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Image upload and AI processing
-  app.post("/api/images/upload", isAuthenticated, upload.single("image"), async (req, res) => {
+  app.put("/api/products/:id/units", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No image file provided" });
-      }
+      const data = saveUnitConversionSchema.parse(req.body);
+      data.unit = await registeredUnit(data.unit);
+      const conversion = await storage.saveUnitConversion(req.params.id, data);
+      await auditLog(req.user?.id, "SAVE_UNIT_CONVERSION", `/api/products/${req.params.id}/units`, "PUT", { productId: req.params.id, ...data }, req.ip);
+      res.json(conversion);
+    } catch (error: any) {
+      console.error("Save unit conversion error:", error);
+      res.status(error.message === "Product not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
 
-      const base64Image = req.file.buffer.toString("base64");
-      const imageUrl = `data:${req.file.mimetype};base64,${base64Image}`;
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: 'Analyze this product image and extract the following information if visible: product name, SKU/barcode number, category, batch number, expiration date (format: YYYY-MM-DD), and any other relevant product details. Return the data as a JSON object with keys: productName, sku, category, batchNumber, expirationDate, description, and confidence (0-1).',
-              },
-              {
-                type: "image_url",
-                image_url: { url: imageUrl },
-              },
-            ],
-          },
-        ],
-        max_tokens: 500,
-      });
+  app.delete("/api/products/:id/units/:conversionId", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      await storage.deleteUnitConversion(req.params.id, req.params.conversionId);
+      await auditLog(req.user?.id, "DELETE_UNIT_CONVERSION", `/api/products/${req.params.id}/units/${req.params.conversionId}`, "DELETE", { productId: req.params.id, conversionId: req.params.conversionId }, req.ip);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Delete unit conversion error:", error);
+      res.status(error.message === "Unit conversion not found" ? 404 : 500).json({ message: error.message });
+    }
+  });
 
-      const content = response.choices[0]?.message?.content;
-      let extractedData = {};
-
-      if (content) {
-        try {
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            extractedData = JSON.parse(jsonMatch[0]);
-          }
-        } catch (parseError) {
-          console.error("Failed to parse OpenAI response:", parseError);
-        }
-      }
+  // Units of measure
+  app.get("/api/units", isAuthenticated, async (req, res) => {
+    try {
+      const units = await storage.getUnits();
+      res.json(units);
+    } catch (error: any) {
+      console.error("Get units error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      const capturedImage = await storage.createCapturedImage({
-        url: imageUrl,
-        filename: req.file.originalname,
-        metadata: {
-          size: req.file.size,
-          mimetype: req.file.mimetype,
-        },
-        ocrText: content || null,
-        processedData: extractedData,
-        processingStatus: "completed",
-        uploadedBy: req.user?.id || "",
-      });
+  app.post("/api/units", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      const data = insertUnitOfMeasureSchema.parse(req.body);
+      const unit = await storage.createUnit(data);
+      await auditLog(req.user?.id, "CREATE_UNIT", "/api/units", "POST", { unitId: unit.id, code: unit.code }, req.ip);
+      res.status(201).json(unit);
+    } catch (error: any) {
+      console.error("Create unit error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
 
-      await auditLog(req.user?.id, "UPLOAD_IMAGE", "/api/images/upload", "POST", { imageId: capturedImage.id }, req.ip);
+  app.patch("/api/units/:id", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      const data = updateUnitOfMeasureSchema.parse(req.body);
+      const unit = await storage.updateUnit(req.params.id, data);
+      await auditLog(req.user?.id, "UPDATE_UNIT", `/api/units/${req.params.id}`, "PATCH", { unitId: unit.id, code: unit.code }, req.ip);
+      res.json(unit);
+    } catch (error: any) {
+      console.error("Update unit error:", error);
+      res.status(error.message === "Unit not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
 
-      res.json({
-        id: capturedImage.id,
-        extractedData,
-        confidence: (extractedData as any).confidence || 0.8,
-      });
+  app.delete("/api/units/:id", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      await storage.deleteUnit(req.params.id);
+      await auditLog(req.user?.id, "DELETE_UNIT", `/api/units/${req.params.id}`, "DELETE", { unitId: req.params.id }, req.ip);
+      res.status(204).send();
     } catch (error: any) {
-      console.error("Image upload error:", error);
+      console.error("Delete unit error:", error);
+      res.status(error.message === "Unit not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  // Stock level defaults
+  app.get("/api/stock-levels", isAuthenticated, async (req, res) => {
+    try {
+      const levels = await storage.getStockLevelDefaults();
+      res.json(levels);
+    } catch (error: any) {
+      console.error("Get stock levels error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  // User management
-  app.get("/api/users", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+  app.put("/api/stock-levels", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      res.json(users);
+      const data = insertStockLevelDefaultSchema.parse(req.body);
+      const levels = await storage.saveStockLevelDefault(data);
+      await auditLog(req.user?.id, "UPDATE_STOCK_LEVELS", "/api/stock-levels", "PUT", { ...data }, req.ip);
+      res.json(levels);
     } catch (error: any) {
-      console.error("Get users error:", error);
+      console.error("Save stock levels error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/stock-levels/:id", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      await storage.deleteStockLevelDefault(req.params.id);
+      await auditLog(req.user?.id, "DELETE_STOCK_LEVELS", `/api/stock-levels/${req.params.id}`, "DELETE", { stockLevelId: req.params.id }, req.ip);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Delete stock levels error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.patch("/api/users/:id/role", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+  // Inventory
+  app.get("/api/inventory", isAuthenticated, async (req, res) => {
     try {
-      const data = updateUserRoleSchema.parse(req.body);
-      
-      if (data.role === "super_admin" && req.user?.role !== "super_admin") {
-        return res.status(403).json({ message: "Only super admins can assign super admin role" });
+      const query = inventoryListSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query", errors: query.error.flatten() });
       }
-
-      const user = await storage.updateUserRole(req.params.id, data);
-      await auditLog(req.user?.id, "UPDATE_USER_ROLE", `/api/users/${req.params.id}/role`, "PATCH", { userId: req.params.id, newRole: data.role }, req.ip);
-      res.json(user);
+      const { page, limit, ...filters } = query.data;
+      const result = await storage.queryInventoryItems({ ...filters, limit, offset: (page - 1) * limit });
+      res.json({ ...result, page, limit });
     } catch (error: any) {
-      console.error("Update user role error:", error);
-      res.status(400).json({ message: error.message });
+      console.error("Get inventory error:", error);
+      if (error.message === "Invalid cursor") {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/inventory/categories", isAuthenticated, async (req, res) => {
+    try {
+      const categories = await storage.getInventoryCategories();
+      res.json(categories);
+    } catch (error: any) {
+      console.error("Get inventory categories error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/inventory/lookup", isAuthenticated, async (req, res) => {
+    try {
+      const query = inventoryLookupSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid lookup", errors: query.error.flatten() });
+      }
+      const { sku, warehouseId } = query.data;
+      const inWarehouse = (items: InventoryItem[]) =>
+        warehouseId ? items.filter((item) => item.warehouseId === warehouseId) : items;
+
+      const bySku = inWarehouse(await storage.getInventoryItemsBySku(sku));
+      let lookup: InventoryLookup = { code: sku, matchedBy: "sku", items: bySku };
+      if (bySku.length === 0) {
+        // Lot labels carry the lot number rather than the SKU
+        const byLot = inWarehouse(await storage.getInventoryItemsByLotNumber(sku));
+        lookup = { code: sku, matchedBy: "lot", items: byLot };
+      }
+      if (lookup.items.length === 0) {
+        return res.status(404).json({ message: `No inventory item with SKU or lot number ${sku}` });
+      }
+      res.json(lookup);
+    } catch (error: any) {
+      console.error("Inventory lookup error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/inventory/export", isAuthenticated, async (req, res) => {
+    try {
+      const query = inventoryExportSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid export options", errors: query.error.flatten() });
+      }
+      const { format, ...filters } = query.data;
+      const [items, warehouses, settings] = await Promise.all([
+        storage.getInventoryItems(filters),
+        storage.getWarehouses(),
+        storage.getSystemSettings(),
+      ]);
+
+      const filterSummary = [
+        filters.warehouseId && `Warehouse: ${warehouses.find((w) => w.id === filters.warehouseId)?.name ?? filters.warehouseId}`,
+        filters.category && `Category: ${filters.category}`,
+        filters.lowStock && "Low stock only",
+        filters.expiring && `Expiring within ${settings.expiryWarningDays} days`,
+        filters.expired && "Expired",
+        filters.minQuantity !== undefined && `Quantity >= ${filters.minQuantity}`,
+        filters.maxQuantity !== undefined && `Quantity <= ${filters.maxQuantity}`,
+        filters.expiresFrom && `Expires from ${filters.expiresFrom.toISOString().slice(0, 10)}`,
+        filters.expiresTo && `Expires until ${filters.expiresTo.toISOString().slice(0, 10)}`,
+        filters.q && `Search: "${filters.q}"`,
+      ].filter((entry): entry is string => !!entry);
+
+      await auditLog(req.user?.id, "EXPORT_INVENTORY", "/api/inventory/export", "GET", { format, ...filters, count: items.length }, req.ip);
+      await sendInventoryExport(res, format, items, warehouses, filterSummary);
+    } catch (error: any) {
+      console.error("Export inventory error:", error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ message: error.message });
+      }
+    }
+  });
+
+  // Labels
+  app.post("/api/labels", isAuthenticated, async (req, res) => {
+    try {
+      const body = labelRequestSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid label options", errors: body.error.flatten() });
+      }
+      const { kind, ids, ...options } = body.data;
+      const labels = await labelContents(kind, ids);
+      if (labels.length * options.copies > MAX_LABELS) {
+        return res.status(400).json({ message: `At most ${MAX_LABELS} labels can be printed at once` });
+      }
+
+      await auditLog(req.user?.id, "PRINT_LABELS", "/api/labels", "POST", { kind, ...options, count: labels.length }, req.ip);
+      sendLabelSheet(res, labels, options, `labels-${kind}.pdf`);
+    } catch (error: any) {
+      console.error("Print labels error:", error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(error.message.endsWith("not found") ? 404 : 400).json({ message: error.message });
+      }
+    }
+  });
+
+  app.post("/api/inventory/import", isAuthenticated, requireRole("super_admin", "admin", "manager"), upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file provided" });
+      }
+      const settings = await storage.getSystemSettings();
+      const sizeError = uploadLimitError(req.file, settings.maxImportFileMb);
+      if (sizeError) {
+        return res.status(400).json({ message: sizeError });
+      }
+
+      const { warehouseId, dryRun } = inventoryImportSchema.parse(req.body);
+      const records = await readSpreadsheet(req.file);
+      if (records.length < 2) {
+        return res.status(400).json({ message: "The file has no data rows" });
+      }
+
+      const [warehouses, existingItems, products, units] = await Promise.all([
+        storage.getWarehouses(),
+        storage.getInventoryItems(),
+        storage.getProducts(),
+        storage.getUnits(),
+      ]);
+      const plan = planInventoryImport(records, {
+        warehouses,
+        existingItems,
+        products,
+        defaultWarehouseId: warehouseId,
+        defaultUnit: settings.defaultUnit,
+        units: units.map((unit) => unit.code),
+      });
+      const summary = {
+        create: plan.rows.filter((row) => row.action === "create").length,
+        update: plan.rows.filter((row) => row.action === "update").length,
+        unchanged: plan.rows.filter((row) => row.action === "unchanged").length,
+        errors: plan.errors.length,
+      };
+      const report = {
+        summary,
+        ignoredColumns: plan.ignoredColumns,
+        rows: plan.rows.filter((row) => row.action !== "unchanged").slice(0, 500),
+        errors: plan.errors.slice(0, 200),
+      };
+
+      if (plan.errors.length > 0) {
+        return res.status(400).json({ message: `${plan.errors.length} row(s) failed validation`, dryRun, ...report });
+      }
+      if (dryRun) {
+        return res.json({ dryRun: true, ...report });
+      }
+
+      const result = await storage.importInventoryItems(plan.operations, req.user?.id || null);
+      await auditLog(req.user?.id, "IMPORT_INVENTORY", "/api/inventory/import", "POST", { ...result, filename: req.file.originalname }, req.ip);
+      res.status(201).json({ ...result, unchanged: summary.unchanged });
+    } catch (error: any) {
+      console.error("Import inventory error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/inventory/:id", isAuthenticated, async (req, res) => {
+    try {
+      const item = await storage.getInventoryItemById(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      res.json(item);
+    } catch (error: any) {
+      console.error("Get inventory item error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/inventory/:id/lots", isAuthenticated, async (req, res) => {
+    try {
+      const item = await storage.getInventoryItemById(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      const lots = await storage.getInventoryLots(item.id);
+      res.json(lots);
+    } catch (error: any) {
+      console.error("Get inventory lots error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/inventory/:id/history", isAuthenticated, async (req, res) => {
+    try {
+      const range = productHistoryRangeSchema.safeParse(req.query);
+      if (!range.success) {
+        return res.status(400).json({ message: "Invalid query", errors: range.error.flatten() });
+      }
+      const item = await storage.getInventoryItemById(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      const history = await storage.getProductHistory(item.id, range.data);
+      res.json(history);
+    } catch (error: any) {
+      console.error("Get product history error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/inventory", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const { defaultUnit } = await storage.getSystemSettings();
+      const data = insertInventoryItemSchema.parse({ unit: defaultUnit, ...req.body });
+      const levelError = stockLevelOrderError(data);
+      if (levelError) {
+        return res.status(400).json({ message: levelError });
+      }
+      data.location = await binLocation(data.warehouseId, data.location);
+      data.unit = await registeredUnit(data.unit ?? defaultUnit);
+      const item = await storage.createInventoryItem(data);
+
+      await storage.createProductHistory({
+        inventoryItemId: item.id,
+        actionType: "in",
+        quantityChange: item.quantity,
+        previousQuantity: 0,
+        newQuantity: item.quantity,
+        userId: req.user?.id || null,
+        notes: "Initial inventory",
+      });
+
+      await auditLog(req.user?.id, "CREATE_INVENTORY", "/api/inventory", "POST", { itemId: item.id, sku: item.sku }, req.ip);
+      res.status(201).json(item);
+    } catch (error: any) {
+      console.error("Create inventory error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/inventory/:id", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const currentItem = await storage.getInventoryItemById(req.params.id);
+      if (!currentItem) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+
+      // Stock only changes through movements, which check it and record why
+      if (req.body?.quantity !== undefined) {
+        return res.status(400).json({ message: "Change quantity with a stock adjustment" });
+      }
+      const data = insertInventoryItemSchema.omit({ quantity: true }).partial().parse(req.body);
+      const levelError = stockLevelOrderError({ ...currentItem, ...data });
+      if (levelError) {
+        return res.status(400).json({ message: levelError });
+      }
+      if (data.location !== undefined || data.warehouseId !== undefined) {
+        data.location = await binLocation(data.warehouseId ?? currentItem.warehouseId, data.location ?? currentItem.location ?? undefined);
+      }
+      if (data.unit !== undefined) {
+        data.unit = await registeredUnit(data.unit);
+      }
+      const item = await storage.updateInventoryItem(req.params.id, data);
+      await auditLog(req.user?.id, "UPDATE_INVENTORY", `/api/inventory/${req.params.id}`, "PATCH", { itemId: req.params.id }, req.ip);
+      res.json(item);
+    } catch (error: any) {
+      console.error("Update inventory error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Stock movements
+  app.post("/api/inventory/:id/receive", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    const body = receiveStockSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: "Invalid movement", errors: body.error.flatten() });
+    }
+    const { unit, ...data } = body.data;
+    await handleStockMovement(req, res, { type: "receive", itemId: req.params.id, ...data }, unit);
+  });
+
+  app.post("/api/inventory/:id/issue", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    const body = issueStockSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: "Invalid movement", errors: body.error.flatten() });
+    }
+    const { unit, ...data } = body.data;
+    await handleStockMovement(req, res, { type: "issue", itemId: req.params.id, ...data }, unit);
+  });
+
+  app.post("/api/inventory/:id/adjust", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    const body = adjustStockSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: "Invalid movement", errors: body.error.flatten() });
+    }
+    const { unit, ...data } = body.data;
+    await handleStockMovement(req, res, { type: "adjust", itemId: req.params.id, ...data }, unit);
+  });
+
+  app.post("/api/inventory/:id/count", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    const body = countStockSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: "Invalid movement", errors: body.error.flatten() });
+    }
+    const { countedQuantity, notes } = body.data;
+    let item: InventoryItem | null;
+    try {
+      item = await storage.getInventoryItemById(req.params.id);
+    } catch (error: any) {
+      console.error("Count stock error:", error);
+      return res.status(500).json({ message: error.message });
+    }
+    if (!item) {
+      return res.status(404).json({ message: "Inventory item not found" });
+    }
+    const quantityChange = countedQuantity - item.quantity;
+    if (quantityChange === 0) {
+      return res.json({ items: [item], history: [], capacityWarning: null });
+    }
+    await handleStockMovement(req, res, {
+      type: "adjust",
+      itemId: item.id,
+      quantityChange,
+      reasonCode: "count_correction",
+      notes: notes || `Counted ${countedQuantity} ${item.unit}`,
+    });
+  });
+
+  app.post("/api/inventory/:id/transfer", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    const body = transferStockSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: "Invalid movement", errors: body.error.flatten() });
+    }
+    const { unit, ...data } = body.data;
+    await handleStockMovement(req, res, { type: "transfer", itemId: req.params.id, ...data }, unit);
+  });
+
+  app.post("/api/inventory/:id/putaway", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const data = putawayStockSchema.parse(req.body);
+      const placements = await storage.putawayStock(req.params.id, data.binId, data.quantity);
+      await auditLog(req.user?.id, "PUTAWAY_STOCK", `/api/inventory/${req.params.id}/putaway`, "POST", { itemId: req.params.id, ...data }, req.ip);
+      res.json(placements);
+    } catch (error: any) {
+      console.error("Putaway stock error:", error);
+      const status = error.message === "Inventory item not found" || error.message === "Bin not found" ? 404 : 400;
+      res.status(status).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/inventory/:id/move-bin", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const data = moveBinStockSchema.parse(req.body);
+      const placements = await storage.moveBinStock(req.params.id, data.fromBinId, data.toBinId, data.quantity);
+      await auditLog(req.user?.id, "MOVE_BIN_STOCK", `/api/inventory/${req.params.id}/move-bin`, "POST", { itemId: req.params.id, ...data }, req.ip);
+      res.json(placements);
+    } catch (error: any) {
+      console.error("Move bin stock error:", error);
+      const status = error.message === "Inventory item not found" || error.message === "Bin not found" ? 404 : 400;
+      res.status(status).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/inventory/:id", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      await storage.deleteInventoryItem(req.params.id);
+      await auditLog(req.user?.id, "DELETE_INVENTORY", `/api/inventory/${req.params.id}`, "DELETE", { itemId: req.params.id }, req.ip);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Delete inventory error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Expiry
+  app.get("/api/expiry", isAuthenticated, async (req, res) => {
+    try {
+      const query = expiryQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query", errors: query.error.flatten() });
+      }
+      const settings = await storage.getSystemSettings();
+      const { days = settings.expiryWarningDays, warehouseId } = query.data;
+      const now = new Date();
+      const lots = await storage.getExpiryLots(expiryCutoff({ expiryWarningDays: days }, now));
+      const result: ExpiryLot[] = lots
+        .filter(({ item }) => !warehouseId || item.warehouseId === warehouseId)
+        .map(({ lot, item }) => {
+          const remaining = daysRemaining(lot.expirationDate!, now);
+          return { lot, item, daysRemaining: remaining, status: remaining < 0 ? "expired" : "expiring" } satisfies ExpiryLot;
+        })
+        .sort((a, b) => a.daysRemaining - b.daysRemaining || a.item.name.localeCompare(b.item.name));
+      res.json(result);
+    } catch (error: any) {
+      console.error("Get expiry error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/lots/:id/quarantine", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const body = lotQuarantineSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid quarantine", errors: body.error.flatten() });
+      }
+      const lot = await storage.setLotQuarantine(req.params.id, body.data.quarantined);
+      await auditLog(
+        req.user?.id,
+        body.data.quarantined ? "QUARANTINE_LOT" : "RELEASE_LOT",
+        req.originalUrl,
+        "POST",
+        { lotId: lot.id, itemId: lot.inventoryItemId },
+        req.ip
+      );
+      res.json(lot);
+    } catch (error: any) {
+      console.error("Lot quarantine error:", error);
+      res.status(error.message === "Lot not found" ? 404 : 500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/lots/:id/write-off", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    const body = lotWriteOffSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: "Invalid write-off", errors: body.error.flatten() });
+    }
+    let lot: InventoryLot | null;
+    try {
+      lot = await storage.getInventoryLotById(req.params.id);
+    } catch (error: any) {
+      console.error("Lot write-off error:", error);
+      return res.status(500).json({ message: error.message });
+    }
+    if (!lot) {
+      return res.status(404).json({ message: "Lot not found" });
+    }
+    if (lot.quantity === 0) {
+      return res.status(400).json({ message: "Lot has no stock to write off" });
+    }
+    await handleStockMovement(req, res, {
+      type: "adjust",
+      itemId: lot.inventoryItemId,
+      quantityChange: -lot.quantity,
+      reasonCode: "expired",
+      lotId: lot.id,
+      notes: body.data.notes || (lot.lotNumber ? `Wrote off expired lot ${lot.lotNumber}` : "Wrote off expired stock"),
+    });
+  });
+
+  // Transfer orders
+  app.get("/api/transfers", isAuthenticated, async (req, res) => {
+    try {
+      const status = z.enum(transferOrderStatuses).optional().safeParse(req.query.status);
+      if (!status.success) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      const orders = await storage.getTransferOrders(status.data);
+      res.json(orders);
+    } catch (error: any) {
+      console.error("Get transfers error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/transfers/:id", isAuthenticated, async (req, res) => {
+    try {
+      const order = await storage.getTransferOrderById(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Transfer order not found" });
+      }
+      res.json(order);
+    } catch (error: any) {
+      console.error("Get transfer error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/transfers", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const { lines, ...order } = createTransferOrderSchema.parse(req.body);
+      const created = await storage.createTransferOrder({ ...order, createdBy: req.user?.id }, lines);
+      await auditLog(req.user?.id, "CREATE_TRANSFER", "/api/transfers", "POST", { transferId: created.id }, req.ip);
+      res.status(201).json(created);
+    } catch (error: any) {
+      console.error("Create transfer error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/transfers/:id", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const data = updateTransferOrderSchema.parse(req.body);
+      const order = await storage.updateTransferOrder(req.params.id, data);
+      await auditLog(req.user?.id, "UPDATE_TRANSFER", `/api/transfers/${req.params.id}`, "PATCH", { transferId: req.params.id }, req.ip);
+      res.json(order);
+    } catch (error: any) {
+      console.error("Update transfer error:", error);
+      res.status(error.message === "Transfer order not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/transfers/:id/ship", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const order = await storage.shipTransferOrder(req.params.id, req.user?.id || null);
+      await auditLog(req.user?.id, "SHIP_TRANSFER", `/api/transfers/${req.params.id}/ship`, "POST", { transferId: req.params.id }, req.ip);
+      res.json(order);
+    } catch (error: any) {
+      console.error("Ship transfer error:", error);
+      res.status(error.message === "Transfer order not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/transfers/:id/receive", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const { lines } = receiveTransferOrderSchema.parse(req.body);
+      const order = await storage.receiveTransferOrder(req.params.id, lines, req.user?.id || null);
+      const discrepancies = order.lines.filter((line) => line.receivedQuantity !== line.quantity).length;
+      await auditLog(req.user?.id, "RECEIVE_TRANSFER", `/api/transfers/${req.params.id}/receive`, "POST", { transferId: req.params.id, discrepancies }, req.ip);
+      res.json(order);
+    } catch (error: any) {
+      console.error("Receive transfer error:", error);
+      res.status(error.message === "Transfer order not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/transfers/:id/cancel", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const order = await storage.cancelTransferOrder(req.params.id);
+      await auditLog(req.user?.id, "CANCEL_TRANSFER", `/api/transfers/${req.params.id}/cancel`, "POST", { transferId: req.params.id }, req.ip);
+      res.json(order);
+    } catch (error: any) {
+      console.error("Cancel transfer error:", error);
+      res.status(error.message === "Transfer order not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  // Suppliers
+  app.get("/api/suppliers", isAuthenticated, async (req, res) => {
+    try {
+      const suppliers = await storage.getSuppliers();
+      res.json(suppliers);
+    } catch (error: any) {
+      console.error("Get suppliers error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/suppliers", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const data = insertSupplierSchema.parse(req.body);
+      const supplier = await storage.createSupplier(data);
+      await auditLog(req.user?.id, "CREATE_SUPPLIER", "/api/suppliers", "POST", { supplierId: supplier.id }, req.ip);
+      res.status(201).json(supplier);
+    } catch (error: any) {
+      console.error("Create supplier error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/suppliers/:id", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const data = insertSupplierSchema.partial().parse(req.body);
+      const supplier = await storage.updateSupplier(req.params.id, data);
+      await auditLog(req.user?.id, "UPDATE_SUPPLIER", `/api/suppliers/${req.params.id}`, "PATCH", { supplierId: supplier.id, changes: Object.keys(data) }, req.ip);
+      res.json(supplier);
+    } catch (error: any) {
+      console.error("Update supplier error:", error);
+      res.status(error.message === "Supplier not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/suppliers/:id", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      await storage.deleteSupplier(req.params.id);
+      await auditLog(req.user?.id, "DELETE_SUPPLIER", `/api/suppliers/${req.params.id}`, "DELETE", { supplierId: req.params.id }, req.ip);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Delete supplier error:", error);
+      res.status(error.message === "Supplier not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  // Purchase orders
+  app.get("/api/purchase-orders", isAuthenticated, async (req, res) => {
+    try {
+      const status = z.enum(purchaseOrderStatuses).optional().safeParse(req.query.status);
+      if (!status.success) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      const orders = await storage.getPurchaseOrders(status.data);
+      res.json(orders);
+    } catch (error: any) {
+      console.error("Get purchase orders error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", isAuthenticated, async (req, res) => {
+    try {
+      const order = await storage.getPurchaseOrderById(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error: any) {
+      console.error("Get purchase order error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/purchase-orders", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const { lines, ...order } = createPurchaseOrderSchema.parse(req.body);
+      const created = await storage.createPurchaseOrder({ ...order, createdBy: req.user?.id }, lines);
+      await auditLog(req.user?.id, "CREATE_PURCHASE_ORDER", "/api/purchase-orders", "POST", { purchaseOrderId: created.id, supplierId: created.supplierId }, req.ip);
+      res.status(201).json(created);
+    } catch (error: any) {
+      console.error("Create purchase order error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/purchase-orders/:id", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const data = updatePurchaseOrderSchema.parse(req.body);
+      const order = await storage.updatePurchaseOrder(req.params.id, data);
+      await auditLog(req.user?.id, "UPDATE_PURCHASE_ORDER", `/api/purchase-orders/${req.params.id}`, "PATCH", { purchaseOrderId: req.params.id, changes: Object.keys(data) }, req.ip);
+      res.json(order);
+    } catch (error: any) {
+      console.error("Update purchase order error:", error);
+      res.status(error.message === "Purchase order not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/send", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const order = await storage.sendPurchaseOrder(req.params.id, req.user?.id || null);
+      await auditLog(req.user?.id, "SEND_PURCHASE_ORDER", `/api/purchase-orders/${req.params.id}/send`, "POST", { purchaseOrderId: req.params.id }, req.ip);
+      res.json(order);
+    } catch (error: any) {
+      console.error("Send purchase order error:", error);
+      res.status(error.message === "Purchase order not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/receive", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const receipt = receivePurchaseOrderSchema.parse(req.body);
+      const current = await storage.getPurchaseOrderById(req.params.id);
+      const productOf = new Map(current?.lines.map((line) => [line.id, line.productId]));
+      const capacityWarning = current
+        ? await receiptCapacityWarning(
+            current.warehouseId,
+            receipt.lines.flatMap((line) =>
+              productOf.has(line.lineId) ? [{ productId: productOf.get(line.lineId)!, quantity: line.quantity }] : []
+            )
+          )
+        : null;
+      const order = await storage.receivePurchaseOrder(req.params.id, receipt, req.user?.id || null);
+      const units = receipt.lines.reduce((sum, line) => sum + line.quantity, 0);
+      const overReceived = order.lines.filter((line) => line.receivedQuantity > line.quantity).length;
+      await auditLog(
+        req.user?.id,
+        "RECEIVE_PURCHASE_ORDER",
+        `/api/purchase-orders/${req.params.id}/receive`,
+        "POST",
+        { purchaseOrderId: req.params.id, units, overReceived, status: order.status, capacityWarning },
+        req.ip
+      );
+      res.json({ ...order, capacityWarning });
+    } catch (error: any) {
+      console.error("Receive purchase order error:", error);
+      res.status(error.message === "Purchase order not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/close", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const order = await storage.closePurchaseOrder(req.params.id, req.user?.id || null);
+      const short = order.lines.filter((line) => line.receivedQuantity < line.quantity).length;
+      await auditLog(req.user?.id, "CLOSE_PURCHASE_ORDER", `/api/purchase-orders/${req.params.id}/close`, "POST", { purchaseOrderId: req.params.id, short }, req.ip);
+      res.json(order);
+    } catch (error: any) {
+      console.error("Close purchase order error:", error);
+      res.status(error.message === "Purchase order not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/purchase-orders/:id", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      await storage.deletePurchaseOrder(req.params.id);
+      await auditLog(req.user?.id, "DELETE_PURCHASE_ORDER", `/api/purchase-orders/${req.params.id}`, "DELETE", { purchaseOrderId: req.params.id }, req.ip);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Delete purchase order error:", error);
+      res.status(error.message === "Purchase order not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  // Stocktakes
+  app.get("/api/stocktakes", isAuthenticated, async (req, res) => {
+    try {
+      const status = z.enum(stocktakeStatuses).optional().safeParse(req.query.status);
+      if (!status.success) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      const sessions = await storage.getStocktakes(status.data);
+      res.json(sessions);
+    } catch (error: any) {
+      console.error("Get stocktakes error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/stocktakes/:id", isAuthenticated, async (req, res) => {
+    try {
+      const stocktake = await storage.getStocktakeById(req.params.id);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+      res.json(stocktake);
+    } catch (error: any) {
+      console.error("Get stocktake error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/stocktakes", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const data = createStocktakeSchema.parse(req.body);
+      const created = await storage.createStocktake({ ...data, createdBy: req.user?.id });
+      await auditLog(req.user?.id, "CREATE_STOCKTAKE", "/api/stocktakes", "POST", { stocktakeId: created.id, warehouseId: created.warehouseId, lines: created.lines.length }, req.ip);
+      res.status(201).json(created);
+    } catch (error: any) {
+      console.error("Create stocktake error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/stocktakes/:id/lines/:lineId", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const { countedQuantity } = countStocktakeLineSchema.parse(req.body);
+      const line = await storage.countStocktakeLine(req.params.id, req.params.lineId, countedQuantity, req.user?.id || null);
+      await auditLog(req.user?.id, "COUNT_STOCKTAKE_LINE", `/api/stocktakes/${req.params.id}/lines/${req.params.lineId}`, "PATCH", { stocktakeId: req.params.id, lineId: line.id, countedQuantity }, req.ip);
+      res.json(line);
+    } catch (error: any) {
+      console.error("Count stocktake line error:", error);
+      const status = error.message === "Stocktake not found" || error.message === "Stocktake line not found" ? 404 : 400;
+      res.status(status).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/stocktakes/:id/post", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const { lines } = postStocktakeSchema.parse(req.body);
+      const stocktake = await storage.postStocktake(req.params.id, lines, req.user?.id || null);
+      const netChange = stocktake.lines.reduce((sum, line) => sum + (line.postedQuantity ?? 0), 0);
+      await auditLog(req.user?.id, "POST_STOCKTAKE", `/api/stocktakes/${req.params.id}/post`, "POST", { stocktakeId: req.params.id, posted: lines.length, netChange }, req.ip);
+      res.json(stocktake);
+    } catch (error: any) {
+      console.error("Post stocktake error:", error);
+      res.status(error.message === "Stocktake not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/stocktakes/:id/cancel", isAuthenticated, requireRole("super_admin", "admin", "manager"), async (req, res) => {
+    try {
+      const stocktake = await storage.cancelStocktake(req.params.id);
+      await auditLog(req.user?.id, "CANCEL_STOCKTAKE", `/api/stocktakes/${req.params.id}/cancel`, "POST", { stocktakeId: req.params.id }, req.ip);
+      res.json(stocktake);
+    } catch (error: any) {
+      console.error("Cancel stocktake error:", error);
+      res.status(error.message === "Stocktake not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  // Reports
+  app.get("/api/reports/replenishment", isAuthenticated, async (req, res) => {
+    try {
+      const query = replenishmentQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query", errors: query.error.flatten() });
+      }
+      res.json(await replenishmentSuggestions(query.data));
+    } catch (error: any) {
+      console.error("Replenishment report error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/reports/replenishment/export", isAuthenticated, async (req, res) => {
+    try {
+      const query = replenishmentExportSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid export options", errors: query.error.flatten() });
+      }
+      const { format, ...options } = query.data;
+      const [suggestions, warehouses] = await Promise.all([
+        replenishmentSuggestions(options),
+        storage.getWarehouses(),
+      ]);
+      await auditLog(req.user?.id, "EXPORT_REPLENISHMENT", "/api/reports/replenishment/export", "GET", { format, ...options, count: suggestions.length }, req.ip);
+      await sendReplenishmentExport(res, format, suggestions, warehouses);
+    } catch (error: any) {
+      console.error("Export replenishment error:", error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ message: error.message });
+      }
+    }
+  });
+
+  app.get("/api/reports/valuation", isAuthenticated, async (req, res) => {
+    try {
+      const query = valuationQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query", errors: query.error.flatten() });
+      }
+      res.json(await stockValuation(query.data));
+    } catch (error: any) {
+      console.error("Valuation report error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Tables
+  app.get("/api/tables", isAuthenticated, async (req, res) => {
+    try {
+      const tables = await storage.getTables();
+      res.json(tables);
+    } catch (error: any) {
+      console.error("Get tables error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/tables/:id", isAuthenticated, async (req, res) => {
+    try {
+      const table = await storage.getTableById(req.params.id);
+      if (!table) {
+        return res.status(404).json({ message: "Table not found" });
+      }
+      res.json(table);
+    } catch (error: any) {
+      console.error("Get table error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/tables", isAuthenticated, async (req, res) => {
+    try {
+      const data = insertTableSchema.parse({
+        ...req.body,
+        createdBy: req.user?.id,
+      });
+      const table = await storage.createTable(data);
+      await auditLog(req.user?.id, "CREATE_TABLE", "/api/tables", "POST", { tableId: table.id }, req.ip);
+      res.status(201).json(table);
+    } catch (error: any) {
+      console.error("Create table error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/tables/:id", isAuthenticated, async (req, res) => {
+    try {
+      const existing = await storage.getTableById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Table not found" });
+      }
+
+      const data = insertTableSchema
+        .pick({ name: true, description: true, columnsMetadata: true })
+        .partial()
+        .parse(req.body);
+      const table = await storage.updateTable(existing.id, data);
+      await auditLog(req.user?.id, "UPDATE_TABLE", `/api/tables/${existing.id}`, "PATCH", { tableId: existing.id, fields: Object.keys(data) }, req.ip);
+      res.json(table);
+    } catch (error: any) {
+      console.error("Update table error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/tables/:id", isAuthenticated, async (req, res) => {
+    try {
+      await storage.deleteTable(req.params.id);
+      await auditLog(req.user?.id, "DELETE_TABLE", `/api/tables/${req.params.id}`, "DELETE", { tableId: req.params.id }, req.ip);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Delete table error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Table rows
+  app.get("/api/tables/:id/rows", isAuthenticated, async (req, res) => {
+    try {
+      const table = await storage.getTableById(req.params.id);
+      if (!table) {
+        return res.status(404).json({ message: "Table not found" });
+      }
+
+      const pagination = paginationSchema.safeParse(req.query);
+      if (!pagination.success) {
+        return res.status(400).json({ message: "Invalid query", errors: pagination.error.flatten() });
+      }
+      const { page, limit } = pagination.data;
+      const [rows, total] = await Promise.all([
+        storage.getTableRows(table.id, { limit, offset: (page - 1) * limit }),
+        storage.countTableRows(table.id),
+      ]);
+      res.json({ rows, total, page, limit });
+    } catch (error: any) {
+      console.error("Get table rows error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/tables/:id/rows", isAuthenticated, async (req, res) => {
+    try {
+      const table = await storage.getTableById(req.params.id);
+      if (!table) {
+        return res.status(404).json({ message: "Table not found" });
+      }
+
+      const { data, afterRowId } = createTableRowSchema.parse(req.body);
+      const validation = await validateTableRowData(table, data);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Row validation failed", errors: validation.errors });
+      }
+
+      let position: number | undefined;
+      if (afterRowId) {
+        const anchor = await storage.getTableRowById(afterRowId);
+        if (!anchor || anchor.tableId !== table.id) {
+          return res.status(404).json({ message: "Row not found" });
+        }
+        position = await storage.nextTableRowPosition(table.id, anchor.position);
+      }
+
+      const row = await storage.createTableRow({ tableId: table.id, data: validation.data, position });
+      await auditLog(req.user?.id, "CREATE_TABLE_ROW", `/api/tables/${table.id}/rows`, "POST", { tableId: table.id, rowId: row.id }, req.ip);
+      res.status(201).json(row);
+    } catch (error: any) {
+      console.error("Create table row error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/tables/:id/rows/bulk", isAuthenticated, async (req, res) => {
+    try {
+      const table = await storage.getTableById(req.params.id);
+      if (!table) {
+        return res.status(404).json({ message: "Table not found" });
+      }
+
+      const { rows } = bulkTableRowsSchema.parse(req.body);
+      const knownItems = new Map<string, boolean>();
+      const validRows: Array<{ tableId: string; data: Record<string, unknown> }> = [];
+      const rowErrors = [];
+      for (const [index, row] of rows.entries()) {
+        const validation = await validateTableRowData(table, row.data, knownItems);
+        if (validation.success) {
+          validRows.push({ tableId: table.id, data: validation.data });
+        } else {
+          rowErrors.push({ index, ...validation.errors });
+        }
+      }
+      if (rowErrors.length > 0) {
+        return res.status(400).json({ message: "Row validation failed", errors: rowErrors });
+      }
+
+      const created = await storage.createTableRows(validRows);
+      await auditLog(req.user?.id, "BULK_CREATE_TABLE_ROWS", `/api/tables/${table.id}/rows/bulk`, "POST", { tableId: table.id, count: created.length }, req.ip);
+      res.status(201).json(created);
+    } catch (error: any) {
+      console.error("Bulk create table rows error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/tables/:id/rows/:rowId", isAuthenticated, async (req, res) => {
+    try {
+      const existing = await storage.getTableRowById(req.params.rowId);
+      if (!existing || existing.tableId !== req.params.id) {
+        return res.status(404).json({ message: "Row not found" });
+      }
+
+      const table = await storage.getTableById(existing.tableId);
+      if (!table) {
+        return res.status(404).json({ message: "Table not found" });
+      }
+
+      // Patches merge into the stored row, dropping values of columns that
+      // have since been removed from the table definition.
+      const { data } = tableRowBodySchema.parse(req.body);
+      const columnIds = new Set(table.columnsMetadata.columns.map((column) => column.id));
+      const current = Object.fromEntries(
+        Object.entries(existing.data).filter(([key]) => columnIds.has(key))
+      );
+      const validation = await validateTableRowData(table, { ...current, ...data });
+      if (!validation.success) {
+        return res.status(400).json({ message: "Row validation failed", errors: validation.errors });
+      }
+
+      const row = await storage.updateTableRow(existing.id, { data: validation.data });
+      await auditLog(req.user?.id, "UPDATE_TABLE_ROW", `/api/tables/${req.params.id}/rows/${existing.id}`, "PATCH", { tableId: req.params.id, rowId: existing.id }, req.ip);
+      res.json(row);
+    } catch (error: any) {
+      console.error("Update table row error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/tables/:id/rows/:rowId", isAuthenticated, async (req, res) => {
+    try {
+      const existing = await storage.getTableRowById(req.params.rowId);
+      if (!existing || existing.tableId !== req.params.id) {
+        return res.status(404).json({ message: "Row not found" });
+      }
+
+      await storage.deleteTableRow(existing.id);
+      await auditLog(req.user?.id, "DELETE_TABLE_ROW", `/api/tables/${req.params.id}/rows/${existing.id}`, "DELETE", { tableId: req.params.id, rowId: existing.id }, req.ip);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Delete table row error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Table CSV import/export
+  app.get("/api/tables/:id/export", isAuthenticated, async (req, res) => {
+    try {
+      const table = await storage.getTableById(req.params.id);
+      if (!table) {
+        return res.status(404).json({ message: "Table not found" });
+      }
+
+      const { columns } = table.columnsMetadata;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", contentDisposition(`${table.name}.csv`));
+
+      const write = async (chunk: string) => {
+        if (!res.write(chunk)) await once(res, "drain");
+      };
+
+      await write(CSV_BOM + formatCsvRow(columns.map((column) => column.name)));
+      const batchSize = 500;
+      for (let offset = 0; ; offset += batchSize) {
+        const rows = await storage.getTableRows(table.id, { limit: batchSize, offset });
+        for (const row of rows) {
+          await write(formatCsvRow(columns.map((column) => row.data[column.id])));
+        }
+        if (rows.length < batchSize) break;
+      }
+      res.end();
+
+      await auditLog(req.user?.id, "EXPORT_TABLE", `/api/tables/${table.id}/export`, "GET", { tableId: table.id }, req.ip);
+    } catch (error: any) {
+      console.error("Export table error:", error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ message: error.message });
+      }
+    }
+  });
+
+  app.post("/api/tables/:id/import/preview", isAuthenticated, upload.single("file"), async (req, res) => {
+    try {
+      const table = await storage.getTableById(req.params.id);
+      if (!table) {
+        return res.status(404).json({ message: "Table not found" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No CSV file provided" });
+      }
+      const sizeError = uploadLimitError(req.file, (await storage.getSystemSettings()).maxImportFileMb);
+      if (sizeError) {
+        return res.status(400).json({ message: sizeError });
+      }
+
+      const { text, encoding } = decodeCsvBuffer(req.file.buffer);
+      const delimiter = detectDelimiter(text);
+      const [{ cells: headers } = { cells: [] }, ...records] = parseCsv(text, delimiter);
+      const { columns } = table.columnsMetadata;
+      const suggestedMapping = Object.fromEntries(
+        headers.map((header, index) => {
+          const normalized = header.trim().toLowerCase();
+          const column = columns.find((candidate) => candidate.name.trim().toLowerCase() === normalized);
+          return [String(index), column?.id ?? null];
+        })
+      );
+
+      res.json({
+        encoding,
+        delimiter,
+        headers,
+        sampleRows: records.slice(0, 10).map((record) => record.cells),
+        totalRows: records.length,
+        suggestedMapping,
+      });
+    } catch (error: any) {
+      console.error("Preview table import error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/tables/:id/import", isAuthenticated, upload.single("file"), async (req, res) => {
+    try {
+      const table = await storage.getTableById(req.params.id);
+      if (!table) {
+        return res.status(404).json({ message: "Table not found" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No CSV file provided" });
+      }
+      const sizeError = uploadLimitError(req.file, (await storage.getSystemSettings()).maxImportFileMb);
+      if (sizeError) {
+        return res.status(400).json({ message: sizeError });
+      }
+
+      const { mapping, delimiter, dryRun } = csvImportSchema.parse(req.body);
+      const columnIds = new Set(table.columnsMetadata.columns.map((column) => column.id));
+      const unknownColumns = Object.values(mapping).filter(
+        (columnId): columnId is string => !!columnId && !columnIds.has(columnId)
+      );
+      if (unknownColumns.length > 0) {
+        return res.status(400).json({ message: `Unknown column(s) in mapping: ${unknownColumns.join(", ")}` });
+      }
+
+      const { text } = decodeCsvBuffer(req.file.buffer);
+      const [, ...records] = parseCsv(text, delimiter ?? detectDelimiter(text));
+      const knownItems = new Map<string, boolean>();
+      const validRows: Array<{ tableId: string; data: Record<string, unknown> }> = [];
+      const rowErrors = [];
+
+      for (const { line, cells } of records) {
+        const data: Record<string, unknown> = {};
+        for (const [csvIndex, columnId] of Object.entries(mapping)) {
+          if (columnId) data[columnId] = cells[Number(csvIndex)] ?? "";
+        }
+        const validation = await validateTableRowData(table, data, knownItems);
+        if (validation.success) {
+          validRows.push({ tableId: table.id, data: validation.data });
+        } else {
+          rowErrors.push({ line, ...validation.errors });
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        return res.status(400).json({
+          message: `${rowErrors.length} row(s) failed validation`,
+          validCount: validRows.length,
+          errorCount: rowErrors.length,
+          errors: rowErrors.slice(0, 200),
+        });
+      }
+
+      if (dryRun) {
+        return res.json({ dryRun: true, validCount: validRows.length, errorCount: 0 });
+      }
+
+      const created = await storage.createTableRows(validRows);
+      await auditLog(req.user?.id, "IMPORT_TABLE_ROWS", `/api/tables/${table.id}/import`, "POST", { tableId: table.id, count: created.length, filename: req.file.originalname }, req.ip);
+      res.status(201).json({ imported: created.length });
+    } catch (error: any) {
+      console.error("Import table rows error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Image upload and AI processing
+  app.post("/api/images/upload", isAuthenticated, upload.single("image"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No image file provided" });
+      }
+      const settings = await storage.getSystemSettings();
+      const sizeError = uploadLimitError(req.file, settings.maxImageUploadMb);
+      if (sizeError) {
+        return res.status(400).json({ message: sizeError });
+      }
+
+      const base64Image = req.file.buffer.toString("base64");
+      const capturedImage = await storage.createCapturedImage({
+        url: `data:${req.file.mimetype};base64,${base64Image}`,
+        filename: req.file.originalname,
+        metadata: {
+          size: req.file.size,
+          mimetype: req.file.mimetype,
+        },
+        processingStatus: "pending",
+        uploadedBy: req.user?.id || "",
+      });
+      void runImageJobs();
+
+      await auditLog(req.user?.id, "UPLOAD_IMAGE", "/api/images/upload", "POST", { imageId: capturedImage.id }, req.ip);
+      res.status(202).json(imageProcessingState(capturedImage));
+    } catch (error: any) {
+      console.error("Image upload error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/images/:id", isAuthenticated, async (req, res) => {
+    try {
+      const image = await storage.getCapturedImageById(req.params.id);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      if (!canAccessImage(image, req.user)) {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+      }
+      res.json(imageProcessingState(image));
+    } catch (error: any) {
+      console.error("Get image status error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/images/:id/retry", isAuthenticated, async (req, res) => {
+    try {
+      const image = await storage.getCapturedImageById(req.params.id);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      if (!canAccessImage(image, req.user)) {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+      }
+      if (image.processingStatus !== "failed") {
+        return res.status(400).json({ message: "Only images that failed processing can be retried" });
+      }
+      const updated = await storage.updateCapturedImage(image.id, {
+        processingStatus: "pending",
+        processingError: null,
+        processingAttempts: 0,
+        nextAttemptAt: new Date(),
+      });
+      void runImageJobs();
+
+      await auditLog(req.user?.id, "RETRY_IMAGE", req.originalUrl, "POST", { imageId: image.id }, req.ip);
+      res.status(202).json(imageProcessingState(updated));
+    } catch (error: any) {
+      console.error("Retry image error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // User management
+  app.get("/api/users", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users);
+    } catch (error: any) {
+      console.error("Get users error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/users/:id/role", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      const data = updateUserRoleSchema.parse(req.body);
+      
+      if (data.role === "super_admin" && req.user?.role !== "super_admin") {
+        return res.status(403).json({ message: "Only super admins can assign super admin role" });
+      }
+
+      const user = await storage.updateUserRole(req.params.id, data);
+      await auditLog(req.user?.id, "UPDATE_USER_ROLE", `/api/users/${req.params.id}/role`, "PATCH", { userId: req.params.id, newRole: data.role }, req.ip);
+      res.json(user);
+    } catch (error: any) {
+      console.error("Update user role error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // System settings
+  app.get("/api/settings", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      const settings = await storage.getSystemSettings();
+      res.json(settings);
+    } catch (error: any) {
+      console.error("Get settings error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Thresholds and defaults that the inventory screens of every role rely on
+  app.get("/api/settings/inventory", isAuthenticated, async (req, res) => {
+    try {
+      const settings = await storage.getSystemSettings();
+      res.json(inventorySettings(settings));
+    } catch (error: any) {
+      console.error("Get inventory settings error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/settings", isAuthenticated, requireRole("super_admin", "admin"), async (req, res) => {
+    try {
+      const body = updateSystemSettingsSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid settings", errors: body.error.flatten() });
+      }
+      if (body.data.defaultUnit !== undefined) {
+        const unit = findUnitCode(await storage.getUnits(), body.data.defaultUnit);
+        if (!unit) {
+          return res.status(400).json({ message: unknownUnitMessage(body.data.defaultUnit) });
+        }
+        body.data.defaultUnit = unit;
+      }
+      const previous = await storage.getSystemSettings();
+      const settings = await storage.updateSystemSettings(body.data, req.user?.id || null);
+      const changes = Object.fromEntries(
+        Object.entries(body.data)
+          .filter(([key, value]) => previous[key as SystemSettingKey] !== value)
+          .map(([key, value]) => [key, { from: previous[key as SystemSettingKey], to: value }])
+      );
+      await auditLog(req.user?.id, "UPDATE_SETTINGS", "/api/settings", "PATCH", { changes }, req.ip);
+      res.json(settings);
+    } catch (error: any) {
+      console.error("Update settings error:", error);
+      res.status(500).json({ message: error.message });
     }
   });
 
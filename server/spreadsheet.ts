@@ -0,0 +1,50 @@
+import ExcelJS from "exceljs";
+import { type CsvRecord, decodeCsvBuffer, detectDelimiter, parseCsv } from "./csv";
+
+export type SpreadsheetFile = {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+};
+
+const xlsxMimeType = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export function isXlsxFile(file: SpreadsheetFile): boolean {
+  return file.mimetype === xlsxMimeType || /\.xlsx$/i.test(file.originalname);
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== "object") return String(value);
+  if ("richText" in value) return value.richText.map((part) => part.text).join("");
+  if ("result" in value) return cellToString(value.result as ExcelJS.CellValue);
+  if ("text" in value) return String(value.text);
+  if ("error" in value) return "";
+  return String(value);
+}
+
+/**
+ * Reads the first worksheet of an XLSX file, or a CSV file, into rows of
+ * strings tagged with their line or sheet row number. The first row is the
+ * header row.
+ */
+export async function readSpreadsheet(file: SpreadsheetFile): Promise<CsvRecord[]> {
+  if (!isXlsxFile(file)) {
+    const { text } = decodeCsvBuffer(file.buffer);
+    return parseCsv(text, detectDelimiter(text));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(file.buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: CsvRecord[] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    // row.values is 1-indexed; index 0 is always empty
+    const values = (row.values as ExcelJS.CellValue[]).slice(1);
+    rows.push({ line: row.number, cells: Array.from(values, (value) => cellToString(value).trim()) });
+  });
+  return rows.filter(({ cells }) => cells.some((cell) => cell !== ""));
+}
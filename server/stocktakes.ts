@@ -0,0 +1,65 @@
+import type {
+  AdjustmentReason,
+  InsertStocktake,
+  InventoryItem,
+  Stocktake,
+  StocktakeLine,
+} from "@shared/schema";
+
+export type StocktakeApproval = { lineId: string; reasonCode: AdjustmentReason };
+
+function sameText(a: string | null | undefined, b: string | null | undefined): boolean {
+  return (a ?? "").trim().toLowerCase() === (b ?? "").trim().toLowerCase();
+}
+
+/** Stock a session counts: the warehouse's items, narrowed to a location and category, in walking order. */
+export function stocktakeScope(
+  items: InventoryItem[],
+  scope: Pick<InsertStocktake, "warehouseId" | "location" | "category">
+): InventoryItem[] {
+  return items
+    .filter(
+      (item) =>
+        item.warehouseId === scope.warehouseId &&
+        (!scope.location || sameText(item.location, scope.location)) &&
+        (!scope.category || sameText(item.category, scope.category))
+    )
+    .sort((a, b) => (a.location ?? "").localeCompare(b.location ?? "") || a.name.localeCompare(b.name));
+}
+
+/** Lines of a new session, with the expected quantities frozen at the items' current stock. */
+export function stocktakeLineValues(stocktakeId: string, items: InventoryItem[]) {
+  return items.map((item) => ({
+    stocktakeId,
+    inventoryItemId: item.id,
+    sku: item.sku,
+    itemName: item.name,
+    unit: item.unit,
+    location: item.location,
+    expectedQuantity: item.quantity,
+  }));
+}
+
+export function stocktakeVariance(line: StocktakeLine): number | null {
+  return line.countedQuantity === null ? null : line.countedQuantity - line.expectedQuantity;
+}
+
+/** Matches approvals to lines; only counted lines with a variance can be posted. */
+export function checkStocktakeApprovals(
+  lines: StocktakeLine[],
+  approvals: StocktakeApproval[]
+): Map<string, StocktakeLine> {
+  const linesById = new Map(lines.map((line) => [line.id, line]));
+  for (const approval of approvals) {
+    const line = linesById.get(approval.lineId);
+    if (!line) throw new Error("Approval references an unknown line");
+    const variance = stocktakeVariance(line);
+    if (variance === null) throw new Error(`${line.sku} has not been counted`);
+    if (variance === 0) throw new Error(`${line.sku} has no variance to post`);
+  }
+  return linesById;
+}
+
+export function stocktakeNote(line: StocktakeLine): string {
+  return `Stocktake: counted ${line.countedQuantity} ${line.unit}, expected ${line.expectedQuantity}`;
+}
@@ -3,9 +3,14 @@ import type {
   UpsertUser,
   Warehouse,
   InsertWarehouse,
+  Product,
+  InsertProduct,
+  ProductWithStock,
   InventoryItem,
   InsertInventoryItem,
+  InventoryLot,
   ProductHistory,
+  ProductHistoryEntry,
   InsertProductHistory,
   Table as DataTable,
   InsertTable,
@@ -16,7 +21,227 @@ import type {
   AuditLog,
   InsertAuditLog,
   UpdateUserRole,
+  InventorySortField,
+  AdjustmentReason,
+  ProductHistoryAction,
+  TransferOrder,
+  InsertTransferOrder,
+  TransferOrderLine,
+  TransferOrderStatus,
+  TransferOrderWithLines,
+  StockLevelDefault,
+  InsertStockLevelDefault,
+  Supplier,
+  InsertSupplier,
+  PurchaseOrder,
+  InsertPurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  PurchaseOrderWithLines,
+  Stocktake,
+  InsertStocktake,
+  StocktakeLine,
+  StocktakeStatus,
+  StocktakeWithLines,
+  WarehouseBin,
+  InsertWarehouseBin,
+  BinStock,
+  UnitOfMeasure,
+  InsertUnitOfMeasure,
+  ProductUnitConversion,
+  WarehouseStockSpace,
 } from "@shared/schema";
+import { isLowStock, resolveStockLevels } from "@shared/stock-levels";
+import { defaultUnits } from "@shared/units";
+import { expiryCutoff, parseSystemSettings, type SystemSettings } from "@shared/system-settings";
+import { expiryStatus, startOfExpiryDay } from "@shared/expiry";
+import { stockSpace } from "@shared/capacity";
+import { importHistoryEntry, type InventoryImportOperation } from "./inventory-import";
+import { productFields, productFromItem, productChanges, stockChanges, duplicateSkuMessage } from "./catalog";
+import {
+  transferDestinationItem,
+  checkTransferLines,
+  checkTransferReceipts,
+  transferLineValues,
+  discrepancyNote,
+  type TransferOrderLineInput,
+  type TransferReceipt,
+} from "./transfers";
+import {
+  compareFefo,
+  nextLot,
+  lotSummary,
+  planLotChanges,
+  stockSteps,
+  stepHistory,
+  lotIdentity,
+  lotAllocation,
+  lineLots,
+  lotFieldChanges,
+  type LotOptions,
+  type StockStep,
+} from "./lots";
+import {
+  checkPurchaseOrderStatus,
+  checkPurchaseLines,
+  purchaseLineValues,
+  checkPurchaseReceipt,
+  receiptStatus,
+  purchaseReceiptNote,
+  purchaseReceiptItem,
+  type PurchaseOrderLineInput,
+  type PurchaseOrderChanges,
+  type PurchaseReceipt,
+} from "./purchasing";
+import {
+  stocktakeScope,
+  stocktakeLineValues,
+  stocktakeVariance,
+  checkStocktakeApprovals,
+  stocktakeNote,
+  type StocktakeApproval,
+} from "./stocktakes";
+import { binCode, compareBins, duplicateBinMessage, trimBinStock, checkBinMove } from "./bins";
+import {
+  duplicateUnitMessage,
+  baseUnitConversionMessage,
+  unitInUseMessage,
+  type UnitConversionInput,
+} from "./unit-conversions";
+
+export type InventoryFilters = {
+  warehouseId?: string;
+  category?: string;
+  lowStock?: boolean;
+  // Expiring within the warning window but not yet expired
+  expiring?: boolean;
+  expired?: boolean;
+  minQuantity?: number;
+  maxQuantity?: number;
+  expiresFrom?: Date;
+  expiresTo?: Date;
+  q?: string;
+};
+
+export type LotWithItem = { lot: InventoryLot; item: InventoryItem };
+
+export type InventoryQuery = InventoryFilters & {
+  sort?: InventorySortField;
+  order?: "asc" | "desc";
+  limit: number;
+  offset?: number;
+  cursor?: string;
+};
+
+export type InventoryPage = {
+  items: InventoryItem[];
+  total: number;
+  nextCursor: string | null;
+};
+
+type InventoryCursor = [value: string | number | null, id: string];
+
+// Keyset cursors carry the sort value and id of the last item on a page.
+export function encodeInventoryCursor(item: InventoryItem, sort: InventorySortField): string {
+  const value = item[sort];
+  const cursor: InventoryCursor = [value instanceof Date ? value.toISOString() : value, item.id];
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeInventoryCursor(cursor: string): InventoryCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(decoded) && decoded.length === 2 && typeof decoded[1] === "string") {
+      return decoded as InventoryCursor;
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error("Invalid cursor");
+}
+
+export type StockMovement =
+  | {
+      type: "receive";
+      itemId: string;
+      quantity: number;
+      lotNumber?: string;
+      expirationDate?: Date;
+      unitCost?: number;
+      notes?: string;
+    }
+  | { type: "issue"; itemId: string; quantity: number; notes?: string }
+  | {
+      type: "adjust";
+      itemId: string;
+      quantityChange: number;
+      reasonCode: AdjustmentReason;
+      lotId?: string;
+      notes?: string;
+    }
+  | { type: "transfer"; itemId: string; toWarehouseId: string; quantity: number; notes?: string };
+
+export type StockMovementResult = {
+  // The moved item first, then the destination item of a transfer
+  items: InventoryItem[];
+  history: ProductHistory[];
+};
+
+export const movementActions = {
+  receive: "in",
+  issue: "out",
+  adjust: "adjust",
+  transfer: "transfer_out",
+} as const satisfies Record<StockMovement["type"], ProductHistoryAction>;
+
+/** Signed quantity change a movement applies to its source item. */
+export function movementDelta(movement: StockMovement): number {
+  switch (movement.type) {
+    case "receive":
+      return movement.quantity;
+    case "adjust":
+      return movement.quantityChange;
+    default:
+      return -movement.quantity;
+  }
+}
+
+export function insufficientStockMessage(item: InventoryItem, delta: number): string {
+  return `Insufficient stock for ${item.sku}: ${item.quantity} ${item.unit} on hand, ${-delta} requested`;
+}
+
+/** Lot options for a movement; removals are FEFO unless an adjustment names a lot. */
+export function movementLotOptions(movement: StockMovement): LotOptions {
+  if (movement.type === "receive") {
+    return { into: { lotNumber: movement.lotNumber, expirationDate: movement.expirationDate } };
+  }
+  if (movement.type === "adjust" && movement.lotId) {
+    return { lotId: movement.lotId, fromLots: [movement.lotId] };
+  }
+  return {};
+}
+
+export type ProductHistoryRange = {
+  from?: Date;
+  to?: Date;
+};
+
+export function userDisplayName(user: Pick<User, "email" | "firstName" | "lastName">): string | null {
+  const fullName = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return fullName || user.email;
+}
+
+export type TableRowQuery = {
+  limit?: number;
+  offset?: number;
+};
+
+// Ids of the columns a new definition drops. New columns may be given a
+// dropped id, so the rows' values under it are deleted with the column.
+export function removedColumnIds(before: DataTable, after: DataTable): string[] {
+  const kept = new Set(after.columnsMetadata.columns.map((column) => column.id));
+  return before.columnsMetadata.columns.map((column) => column.id).filter((id) => !kept.has(id));
+}
 
 export interface IStorage {
   // Users
@@ -34,27 +259,143 @@ export interface IStorage {
 
   // Inventory
   createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem>;
-  getInventoryItems(): Promise<InventoryItem[]>;
+  getInventoryItems(filters?: InventoryFilters): Promise<InventoryItem[]>;
+  queryInventoryItems(query: InventoryQuery): Promise<InventoryPage>;
+  getInventoryCategories(): Promise<string[]>;
   getInventoryItemById(id: string): Promise<InventoryItem | null>;
+  getInventoryLots(inventoryItemId: string): Promise<InventoryLot[]>;
   getInventoryByWarehouse(warehouseId: string): Promise<InventoryItem[]>;
+  // Exact match ignoring case; one item per warehouse stocking the product
+  getInventoryItemsBySku(sku: string): Promise<InventoryItem[]>;
+  // Items with stock in a lot of that number
+  getInventoryItemsByLotNumber(lotNumber: string): Promise<InventoryItem[]>;
   updateInventoryItem(id: string, item: Partial<InsertInventoryItem>): Promise<InventoryItem>;
   deleteInventoryItem(id: string): Promise<void>;
-  getLowStockItems(threshold?: number): Promise<InventoryItem[]>;
-  getExpiringItems(daysAhead?: number): Promise<InventoryItem[]>;
+  getLowStockItems(): Promise<InventoryItem[]>;
+  getInventoryLotById(id: string): Promise<InventoryLot | null>;
+  // Lots in stock expiring on or before expiresBy, already expired ones included
+  getExpiryLots(expiresBy: Date): Promise<LotWithItem[]>;
+  // Quarantined lots stay on hand but are skipped when stock is picked
+  setLotQuarantine(id: string, quarantined: boolean): Promise<InventoryLot>;
+  importInventoryItems(
+    operations: InventoryImportOperation[],
+    userId: string | null
+  ): Promise<{ created: number; updated: number }>;
+
+  // Stock movements
+  applyStockMovement(movement: StockMovement, userId: string | null): Promise<StockMovementResult>;
+
+  // Transfer Orders
+  createTransferOrder(order: InsertTransferOrder, lines: TransferOrderLineInput[]): Promise<TransferOrderWithLines>;
+  getTransferOrders(status?: TransferOrderStatus): Promise<TransferOrderWithLines[]>;
+  getTransferOrderById(id: string): Promise<TransferOrderWithLines | null>;
+  updateTransferOrder(
+    id: string,
+    changes: { notes?: string; lines?: TransferOrderLineInput[] }
+  ): Promise<TransferOrderWithLines>;
+  shipTransferOrder(id: string, userId: string | null): Promise<TransferOrderWithLines>;
+  receiveTransferOrder(id: string, receipts: TransferReceipt[], userId: string | null): Promise<TransferOrderWithLines>;
+  cancelTransferOrder(id: string): Promise<TransferOrderWithLines>;
+
+  // Suppliers
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplierById(id: string): Promise<Supplier | null>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier>;
+  deleteSupplier(id: string): Promise<void>;
+
+  // Purchase orders
+  createPurchaseOrder(order: InsertPurchaseOrder, lines: PurchaseOrderLineInput[]): Promise<PurchaseOrderWithLines>;
+  getPurchaseOrders(status?: PurchaseOrderStatus): Promise<PurchaseOrderWithLines[]>;
+  getPurchaseOrderById(id: string): Promise<PurchaseOrderWithLines | null>;
+  updatePurchaseOrder(id: string, changes: PurchaseOrderChanges): Promise<PurchaseOrderWithLines>;
+  sendPurchaseOrder(id: string, userId: string | null): Promise<PurchaseOrderWithLines>;
+  // Books the received quantities into the order's warehouse, one lot per receipt line
+  receivePurchaseOrder(id: string, receipt: PurchaseReceipt, userId: string | null): Promise<PurchaseOrderWithLines>;
+  closePurchaseOrder(id: string, userId: string | null): Promise<PurchaseOrderWithLines>;
+  deletePurchaseOrder(id: string): Promise<void>;
+
+  // Stocktakes
+  createStocktake(stocktake: InsertStocktake): Promise<StocktakeWithLines>;
+  getStocktakes(status?: StocktakeStatus): Promise<StocktakeWithLines[]>;
+  getStocktakeById(id: string): Promise<StocktakeWithLines | null>;
+  // A null quantity clears the count
+  countStocktakeLine(id: string, lineId: string, countedQuantity: number | null, userId: string | null): Promise<StocktakeLine>;
+  // Posts the approved variances as adjustments and closes the session
+  postStocktake(id: string, approvals: StocktakeApproval[], userId: string | null): Promise<StocktakeWithLines>;
+  cancelStocktake(id: string): Promise<StocktakeWithLines>;
+
+  // Bins
+  getBins(warehouseId: string): Promise<WarehouseBin[]>;
+  getBinById(id: string): Promise<WarehouseBin | null>;
+  createBin(bin: InsertWarehouseBin): Promise<WarehouseBin>;
+  // Renaming a bin relocates the stock records that name it
+  updateBin(id: string, changes: Partial<InsertWarehouseBin>): Promise<WarehouseBin>;
+  deleteBin(id: string): Promise<void>;
+  // Placements with stock in the warehouse's bins
+  getBinStock(warehouseId: string): Promise<BinStock[]>;
+  // Both return the item's placements afterwards
+  putawayStock(inventoryItemId: string, binId: string, quantity: number): Promise<BinStock[]>;
+  moveBinStock(inventoryItemId: string, fromBinId: string, toBinId: string, quantity: number): Promise<BinStock[]>;
+
+  // Products
+  getProducts(search?: string): Promise<ProductWithStock[]>;
+  getProductById(id: string): Promise<Product | null>;
+  getProductBySku(sku: string): Promise<Product | null>;
+  createProduct(product: InsertProduct): Promise<Product>;
+  updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product>;
+  deleteProduct(id: string): Promise<void>;
+
+  // Units of measure
+  getUnits(): Promise<UnitOfMeasure[]>;
+  createUnit(unit: InsertUnitOfMeasure): Promise<UnitOfMeasure>;
+  updateUnit(id: string, changes: Pick<InsertUnitOfMeasure, "name">): Promise<UnitOfMeasure>;
+  // Refused while a product has it as its base unit or a conversion
+  deleteUnit(id: string): Promise<void>;
+  // Every product's conversions when no product is given
+  getUnitConversions(productId?: string): Promise<ProductUnitConversion[]>;
+  // Replaces the product's existing conversion for the same unit
+  saveUnitConversion(productId: string, conversion: UnitConversionInput): Promise<ProductUnitConversion>;
+  deleteUnitConversion(productId: string, id: string): Promise<void>;
+
+  // Stock level defaults
+  getStockLevelDefaults(): Promise<StockLevelDefault[]>;
+  // Replaces the existing default for the same category or warehouse
+  saveStockLevelDefault(levels: InsertStockLevelDefault): Promise<StockLevelDefault>;
+  deleteStockLevelDefault(id: string): Promise<void>;
 
   // Product History
   createProductHistory(history: InsertProductHistory): Promise<ProductHistory>;
-  getProductHistory(inventoryItemId: string): Promise<ProductHistory[]>;
+  getProductHistory(inventoryItemId: string, range?: ProductHistoryRange): Promise<ProductHistoryEntry[]>;
+  // Units issued per inventory item id since the given time
+  getIssuedQuantities(since: Date): Promise<Record<string, number>>;
+  // Space stock takes up per warehouse holding any, or in just the one given
+  getWarehouseStockSpace(warehouseId?: string): Promise<WarehouseStockSpace[]>;
+  // Net change in that space per UTC day (YYYY-MM-DD) since the given time,
+  // over warehouses with a capacity
+  getDailyStockSpaceChanges(since: Date, warehouseId?: string): Promise<Record<string, number>>;
+  // Every history row up to the given time, oldest first
+  getProductHistoryUntil(asOf: Date): Promise<ProductHistory[]>;
+  // Changes whenever an item or its stock history does; keys cached valuations
+  getStockValuationVersion(): Promise<string>;
+  // Every history row after the given time, oldest first
+  getProductHistorySince(since: Date): Promise<ProductHistory[]>;
 
   // Tables
   createTable(table: InsertTable): Promise<DataTable>;
   getTables(): Promise<DataTable[]>;
   getTableById(id: string): Promise<DataTable | null>;
+  updateTable(id: string, table: Partial<InsertTable>): Promise<DataTable>;
   deleteTable(id: string): Promise<void>;
 
   // Table Rows
   createTableRow(row: InsertTableRow): Promise<TableRow>;
-  getTableRows(tableId: string): Promise<TableRow[]>;
+  createTableRows(rows: InsertTableRow[]): Promise<TableRow[]>;
+  getTableRows(tableId: string, options?: TableRowQuery): Promise<TableRow[]>;
+  countTableRows(tableId: string): Promise<number>;
+  getTableRowById(id: string): Promise<TableRow | null>;
+  nextTableRowPosition(tableId: string, after?: number): Promise<number>;
+  updateTableRow(id: string, row: Partial<InsertTableRow>): Promise<TableRow>;
   deleteTableRow(id: string): Promise<void>;
 
   // Captured Images
@@ -62,6 +403,13 @@ export interface IStorage {
   getCapturedImages(): Promise<CapturedImage[]>;
   getCapturedImageById(id: string): Promise<CapturedImage | null>;
   updateCapturedImage(id: string, image: Partial<InsertCapturedImage>): Promise<CapturedImage>;
+  // Marks the next due image job as processing and counts the attempt. Jobs
+  // claimed before staleBefore are taken over; null when nothing is due.
+  claimImageJob(staleBefore: Date): Promise<CapturedImage | null>;
+
+  // System settings
+  getSystemSettings(): Promise<SystemSettings>;
+  updateSystemSettings(changes: Partial<SystemSettings>, userId: string | null): Promise<SystemSettings>;
 
   // Audit Logs
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
@@ -72,6 +420,8 @@ export interface IStorage {
     totalWarehouses: number;
     totalInventoryItems: number;
     lowStockCount: number;
+    // Lots in stock, counted per expiry status
+    expiredCount: number;
     expiringCount: number;
     recentActivity: Array<{
       type: string;
@@ -84,12 +434,32 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<string, User> = new Map();
   private warehouses: Map<string, Warehouse> = new Map();
+  private products: Map<string, Product> = new Map();
   private inventoryItems: Map<string, InventoryItem> = new Map();
+  private inventoryLots: Map<string, InventoryLot[]> = new Map();
+  private stockLevelDefaults: Map<string, StockLevelDefault> = new Map();
   private productHistory: Map<string, ProductHistory[]> = new Map();
+  private transferOrders: Map<string, TransferOrder> = new Map();
+  private transferOrderLines: Map<string, TransferOrderLine[]> = new Map();
+  private suppliers: Map<string, Supplier> = new Map();
+  private purchaseOrders: Map<string, PurchaseOrder> = new Map();
+  private purchaseOrderLines: Map<string, PurchaseOrderLine[]> = new Map();
+  private stocktakes: Map<string, Stocktake> = new Map();
+  private stocktakeLines: Map<string, StocktakeLine[]> = new Map();
+  private warehouseBins: Map<string, WarehouseBin> = new Map();
+  private binStock: Map<string, BinStock> = new Map();
+  private units: Map<string, UnitOfMeasure> = new Map(
+    defaultUnits.map((unit): [string, UnitOfMeasure] => {
+      const id = `uom_${unit.code}`;
+      return [id, { id, ...unit, createdAt: new Date(), updatedAt: new Date() }];
+    })
+  );
+  private unitConversions: Map<string, ProductUnitConversion> = new Map();
   private tables: Map<string, DataTable> = new Map();
   private tableRows: Map<string, TableRow[]> = new Map();
   private capturedImages: Map<string, CapturedImage> = new Map();
   private auditLogs: AuditLog[] = [];
+  private systemSettings: Map<string, unknown> = new Map();
 
   async upsertUser(user: UpsertUser): Promise<User> {
     const existing = this.users.get(user.id);
@@ -129,6 +499,8 @@ export class MemStorage implements IStorage {
       location: warehouse.location ?? null,
       description: warehouse.description ?? null,
       capacity: warehouse.capacity ?? 0,
+      capacityMode: warehouse.capacityMode ?? "units",
+      timezone: warehouse.timezone ?? "UTC",
       createdAt: now,
       updatedAt: now,
     };
@@ -154,32 +526,167 @@ export class MemStorage implements IStorage {
 
   async deleteWarehouse(id: string): Promise<void> {
     this.warehouses.delete(id);
+    for (const levels of Array.from(this.stockLevelDefaults.values())) {
+      if (levels.warehouseId === id) this.stockLevelDefaults.delete(levels.id);
+    }
+    for (const stocktake of Array.from(this.stocktakes.values())) {
+      if (stocktake.warehouseId !== id) continue;
+      this.stocktakes.delete(stocktake.id);
+      this.stocktakeLines.delete(stocktake.id);
+    }
+    for (const bin of Array.from(this.warehouseBins.values())) {
+      if (bin.warehouseId === id) this.removeBin(bin.id);
+    }
+  }
+
+  private async resolveProduct(item: InsertInventoryItem): Promise<Product> {
+    if (item.productId) {
+      const product = this.products.get(item.productId);
+      if (!product) throw new Error("Product not found");
+      return product;
+    }
+    return (await this.getProductBySku(item.sku)) ?? (await this.createProduct(productFromItem(item)));
   }
 
   async createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem> {
-    const id = `inv_${Date.now()}`;
+    const product = await this.resolveProduct(item);
+    const id = `inv_${Date.now()}_${this.inventoryItems.size}`;
     const now = new Date();
     const newItem: InventoryItem = {
       id,
-      name: item.name,
       warehouseId: item.warehouseId,
-      sku: item.sku,
-      category: item.category ?? null,
-      quantity: item.quantity ?? 0,
-      unit: item.unit ?? "pcs",
-      batchNumber: item.batchNumber ?? null,
-      expirationDate: item.expirationDate ? new Date(item.expirationDate) : null,
+      ...productFields(product),
+      quantity: 0,
+      batchNumber: null,
+      expirationDate: null,
       location: item.location ?? null,
-      description: item.description ?? null,
+      minQuantity: item.minQuantity ?? null,
+      reorderPoint: item.reorderPoint ?? null,
+      maxQuantity: item.maxQuantity ?? null,
       createdAt: now,
       updatedAt: now,
     };
     this.inventoryItems.set(id, newItem);
-    return newItem;
+    if (!item.quantity) return newItem;
+    return this.changeStock(newItem, item.quantity, {
+      into: { lotNumber: item.batchNumber, expirationDate: item.expirationDate ? new Date(item.expirationDate) : null },
+    }).item;
   }
 
-  async getInventoryItems(): Promise<InventoryItem[]> {
-    return Array.from(this.inventoryItems.values());
+  private changeStock(
+    item: InventoryItem,
+    delta: number,
+    options: LotOptions = {}
+  ): { item: InventoryItem; steps: StockStep[] } {
+    const lots = [...(this.inventoryLots.get(item.id) || [])];
+    const now = new Date();
+    const applied = planLotChanges(lots, delta, options).map((change) => {
+      if (change.lot) {
+        const lot = { ...change.lot, quantity: change.lot.quantity + change.quantity, updatedAt: now };
+        lots[lots.indexOf(change.lot)] = lot;
+        return { lot, quantity: change.quantity };
+      }
+      const lot: InventoryLot = {
+        id: `${item.id}_lot_${lots.length}`,
+        inventoryItemId: item.id,
+        lotNumber: change.values.lotNumber ?? null,
+        expirationDate: change.values.expirationDate ?? null,
+        quantity: change.quantity,
+        quarantinedAt: null,
+        receivedAt: change.values.receivedAt ?? now,
+        createdAt: now,
+        updatedAt: now,
+      };
+      lots.push(lot);
+      return { lot, quantity: change.quantity };
+    });
+    this.inventoryLots.set(item.id, lots);
+    const updated = { ...item, ...lotSummary(lots), updatedAt: now };
+    this.inventoryItems.set(item.id, updated);
+    for (const { placement, quantity } of trimBinStock(this.placementsOf(item.id), updated.quantity)) {
+      this.binStock.set(placement.id, { ...placement, quantity, updatedAt: now });
+    }
+    return { item: updated, steps: stockSteps(item.quantity, applied) };
+  }
+
+  private placementsOf(inventoryItemId: string): BinStock[] {
+    return Array.from(this.binStock.values()).filter(
+      (placement) => placement.inventoryItemId === inventoryItemId && placement.quantity > 0
+    );
+  }
+
+  async getInventoryLots(inventoryItemId: string): Promise<InventoryLot[]> {
+    return (this.inventoryLots.get(inventoryItemId) || []).filter((lot) => lot.quantity > 0).sort(compareFefo);
+  }
+
+  async getInventoryItems(filters: InventoryFilters = {}): Promise<InventoryItem[]> {
+    const settings = await this.getSystemSettings();
+    const expiresBy = expiryCutoff(settings);
+    const expiredBefore = startOfExpiryDay();
+    const terms = filters.q?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+    const expiry = (item: InventoryItem) => (item.expirationDate ? new Date(item.expirationDate) : null);
+    const levelDefaults = Array.from(this.stockLevelDefaults.values());
+    return Array.from(this.inventoryItems.values()).filter((item) => {
+      const expiresAt = expiry(item);
+      const text = [item.name, item.sku, item.category, item.description].join(" ").toLowerCase();
+      return (
+        (!filters.warehouseId || item.warehouseId === filters.warehouseId) &&
+        (!filters.category || item.category === filters.category) &&
+        (!filters.lowStock || isLowStock(item.quantity, resolveStockLevels(item, levelDefaults, settings.lowStockThreshold))) &&
+        (!filters.expiring || (!!expiresAt && expiresAt >= expiredBefore && expiresAt <= expiresBy)) &&
+        (!filters.expired || (!!expiresAt && expiresAt < expiredBefore)) &&
+        (filters.minQuantity === undefined || item.quantity >= filters.minQuantity) &&
+        (filters.maxQuantity === undefined || item.quantity <= filters.maxQuantity) &&
+        (!filters.expiresFrom || (!!expiresAt && expiresAt >= filters.expiresFrom)) &&
+        (!filters.expiresTo || (!!expiresAt && expiresAt <= filters.expiresTo)) &&
+        terms.every((term) => text.includes(term))
+      );
+    });
+  }
+
+  async queryInventoryItems(query: InventoryQuery): Promise<InventoryPage> {
+    const { sort = "name", order = "asc", limit, offset = 0 } = query;
+    const direction = order === "asc" ? 1 : -1;
+    type SortKey = [value: string | number | null, id: string];
+    const sortKey = (item: InventoryItem): SortKey => {
+      const value = item[sort];
+      return [value instanceof Date ? value.getTime() : value, item.id];
+    };
+    // Nulls sort last in either direction, matching the database ordering
+    const compare = ([left, leftId]: SortKey, [right, rightId]: SortKey) => {
+      if (left === null || right === null) {
+        if (left !== right) return left === null ? 1 : -1;
+      } else if (left !== right) {
+        return (left < right ? -1 : 1) * direction;
+      }
+      return (leftId < rightId ? -1 : leftId > rightId ? 1 : 0) * direction;
+    };
+
+    const matching = (await this.getInventoryItems(query)).sort((a, b) => compare(sortKey(a), sortKey(b)));
+    let start = offset;
+    if (query.cursor) {
+      const [value, id] = decodeInventoryCursor(query.cursor);
+      const isDate = sort === "expirationDate" || sort === "createdAt" || sort === "updatedAt";
+      const cursorKey: SortKey = [isDate && typeof value === "string" ? new Date(value).getTime() : value, id];
+      start = matching.findIndex((item) => compare(sortKey(item), cursorKey) > 0);
+      if (start === -1) start = matching.length;
+    }
+
+    const items = matching.slice(start, start + limit);
+    const hasMore = start + limit < matching.length;
+    return {
+      items,
+      total: matching.length,
+      nextCursor: hasMore && items.length > 0 ? encodeInventoryCursor(items[items.length - 1], sort) : null,
+    };
+  }
+
+  async getInventoryCategories(): Promise<string[]> {
+    const categories = new Set<string>();
+    for (const item of Array.from(this.inventoryItems.values())) {
+      if (item.category) categories.add(item.category);
+    }
+    return Array.from(categories).sort();
   }
 
   async getInventoryItemById(id: string): Promise<InventoryItem | null> {
@@ -192,44 +699,946 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getInventoryItemsBySku(sku: string): Promise<InventoryItem[]> {
+    const wanted = sku.toLowerCase();
+    return Array.from(this.inventoryItems.values()).filter((item) => item.sku.toLowerCase() === wanted);
+  }
+
+  async getInventoryItemsByLotNumber(lotNumber: string): Promise<InventoryItem[]> {
+    return Array.from(this.inventoryItems.values()).filter((item) =>
+      (this.inventoryLots.get(item.id) || []).some((lot) => lot.lotNumber === lotNumber && lot.quantity > 0)
+    );
+  }
+
   async updateInventoryItem(id: string, item: Partial<InsertInventoryItem>): Promise<InventoryItem> {
     const existing = this.inventoryItems.get(id);
     if (!existing) throw new Error("Inventory item not found");
-    const updated = {
-      ...existing,
-      ...item,
-      expirationDate: item.expirationDate ? new Date(item.expirationDate) : existing.expirationDate,
-      updatedAt: new Date(),
-    };
+    const relink =
+      (item.productId !== undefined && item.productId !== existing.productId) ||
+      (item.sku !== undefined && item.sku !== existing.sku);
+    const product = relink
+      ? await this.resolveProduct({ ...existing, ...item, productId: item.productId })
+      : await this.updateProduct(existing.productId, productChanges(existing, item));
+    let updated = { ...existing, ...stockChanges(item), ...productFields(product), updatedAt: new Date() };
+    const lots = this.inventoryLots.get(id) || [];
+    const shown = nextLot(lots);
+    const lotChanges = lotFieldChanges(existing, item);
+    if (lotChanges && shown) {
+      const edited = lots.map((lot) => (lot.id === shown.id ? { ...lot, ...lotChanges, updatedAt: new Date() } : lot));
+      this.inventoryLots.set(id, edited);
+      updated = { ...updated, ...lotSummary(edited) };
+    }
     this.inventoryItems.set(id, updated);
-    return updated;
+    // Bins belong to one warehouse; stock moved to another starts out unplaced
+    if (updated.warehouseId !== existing.warehouseId) {
+      for (const placement of this.placementsOf(id)) this.binStock.delete(placement.id);
+    }
+    if (item.quantity === undefined || item.quantity === updated.quantity) return updated;
+    // Increases go to the lot the record shows; decreases are FEFO
+    return this.changeStock(
+      updated,
+      item.quantity - updated.quantity,
+      shown ? { lotId: shown.id } : { into: lotChanges ?? {} }
+    ).item;
   }
 
   async deleteInventoryItem(id: string): Promise<void> {
     this.inventoryItems.delete(id);
+    for (const placement of this.placementsOf(id)) this.binStock.delete(placement.id);
   }
 
-  async getLowStockItems(threshold = 10): Promise<InventoryItem[]> {
-    return Array.from(this.inventoryItems.values()).filter(
-      (item) => item.quantity < threshold
+  async getLowStockItems(): Promise<InventoryItem[]> {
+    return this.getInventoryItems({ lowStock: true });
+  }
+
+  async getInventoryLotById(id: string): Promise<InventoryLot | null> {
+    for (const lots of Array.from(this.inventoryLots.values())) {
+      const lot = lots.find((candidate) => candidate.id === id);
+      if (lot) return lot;
+    }
+    return null;
+  }
+
+  async getExpiryLots(expiresBy: Date): Promise<LotWithItem[]> {
+    const result: LotWithItem[] = [];
+    for (const [itemId, lots] of Array.from(this.inventoryLots)) {
+      const item = this.inventoryItems.get(itemId);
+      if (!item) continue;
+      for (const lot of lots) {
+        if (lot.quantity > 0 && lot.expirationDate && new Date(lot.expirationDate) <= expiresBy) {
+          result.push({ lot, item });
+        }
+      }
+    }
+    return result;
+  }
+
+  async setLotQuarantine(id: string, quarantined: boolean): Promise<InventoryLot> {
+    const lot = await this.getInventoryLotById(id);
+    if (!lot) throw new Error("Lot not found");
+    const item = this.inventoryItems.get(lot.inventoryItemId);
+    if (!item) throw new Error("Inventory item not found");
+    const now = new Date();
+    const updated = { ...lot, quarantinedAt: quarantined ? (lot.quarantinedAt ?? now) : null, updatedAt: now };
+    const lots = (this.inventoryLots.get(item.id) || []).map((candidate) => (candidate.id === id ? updated : candidate));
+    this.inventoryLots.set(item.id, lots);
+    this.inventoryItems.set(item.id, { ...item, ...lotSummary(lots), updatedAt: now });
+    return updated;
+  }
+
+  async importInventoryItems(
+    operations: InventoryImportOperation[],
+    userId: string | null
+  ): Promise<{ created: number; updated: number }> {
+    let created = 0;
+    let updated = 0;
+    for (const operation of operations) {
+      const item =
+        operation.action === "create"
+          ? await this.createInventoryItem(operation.item)
+          : await this.updateInventoryItem(operation.item.id, operation.changes);
+      const previousQuantity = operation.action === "create" ? 0 : operation.item.quantity;
+      const entry = importHistoryEntry(operation, item, previousQuantity, userId);
+      if (entry) await this.createProductHistory(entry);
+      if (operation.action === "create") created++;
+      else updated++;
+    }
+    return { created, updated };
+  }
+
+  async applyStockMovement(movement: StockMovement, userId: string | null): Promise<StockMovementResult> {
+    const item = this.inventoryItems.get(movement.itemId);
+    if (!item) throw new Error("Inventory item not found");
+    const delta = movementDelta(movement);
+    if (item.quantity + delta < 0) throw new Error(insufficientStockMessage(item, delta));
+
+    let destination: InventoryItem | undefined;
+    if (movement.type === "transfer") {
+      if (movement.toWarehouseId === item.warehouseId) {
+        throw new Error("Cannot transfer stock to the same warehouse");
+      }
+      if (!this.warehouses.has(movement.toWarehouseId)) throw new Error("Destination warehouse not found");
+      destination =
+        Array.from(this.inventoryItems.values()).find(
+          (candidate) => candidate.warehouseId === movement.toWarehouseId && candidate.productId === item.productId
+        ) ?? (await this.createInventoryItem(transferDestinationItem(item, movement.toWarehouseId)));
+    }
+
+    const source = this.changeStock(item, delta, movementLotOptions(movement));
+    const rows = stepHistory(item.id, source.steps, {
+      actionType: movementActions[movement.type],
+      reasonCode: movement.type === "adjust" ? movement.reasonCode : null,
+      relatedItemId: destination?.id ?? null,
+      unitCost: movement.type === "receive" ? movement.unitCost ?? null : null,
+      userId,
+      notes: movement.notes,
+    });
+    // Each lot taken from the source arrives as the same lot at the destination
+    let received = destination;
+    for (const step of destination ? source.steps : []) {
+      const arrival = this.changeStock(received!, -step.quantityChange, { into: lotIdentity(step.lot) });
+      received = arrival.item;
+      rows.push(
+        ...stepHistory(destination!.id, arrival.steps, {
+          actionType: "transfer_in",
+          relatedItemId: item.id,
+          userId,
+          notes: movement.notes,
+        })
+      );
+    }
+    const history: ProductHistory[] = [];
+    for (const row of rows) history.push(await this.createProductHistory(row));
+    return { items: received ? [source.item, received] : [source.item], history };
+  }
+
+  private withLines(order: TransferOrder): TransferOrderWithLines {
+    return { ...order, lines: this.transferOrderLines.get(order.id) || [] };
+  }
+
+  private setTransferLines(orderId: string, sourceWarehouseId: string, lines: TransferOrderLineInput[]) {
+    const items = checkTransferLines(sourceWarehouseId, lines, Array.from(this.inventoryItems.values()));
+    this.transferOrderLines.set(
+      orderId,
+      transferLineValues(orderId, lines, items).map((line, index) => ({
+        ...line,
+        id: `tol_${Date.now()}_${index}`,
+        lots: [],
+        destinationItemId: null,
+        receivedQuantity: null,
+        discrepancyReason: null,
+      }))
     );
   }
 
-  async getExpiringItems(daysAhead = 30): Promise<InventoryItem[]> {
-    const futureDate = new Date();
-    futureDate.setDate(futureDate.getDate() + daysAhead);
-    return Array.from(this.inventoryItems.values()).filter(
-      (item) => item.expirationDate && new Date(item.expirationDate) <= futureDate
+  private getTransferOrderForUpdate(id: string, status: TransferOrderStatus, action: string): TransferOrder {
+    const order = this.transferOrders.get(id);
+    if (!order) throw new Error("Transfer order not found");
+    if (order.status !== status) throw new Error(`Only ${status} transfers can be ${action}`);
+    return order;
+  }
+
+  async createTransferOrder(order: InsertTransferOrder, lines: TransferOrderLineInput[]): Promise<TransferOrderWithLines> {
+    if (!this.warehouses.has(order.destinationWarehouseId)) throw new Error("Destination warehouse not found");
+    const id = `to_${Date.now()}`;
+    const now = new Date();
+    const created: TransferOrder = {
+      id,
+      sourceWarehouseId: order.sourceWarehouseId,
+      destinationWarehouseId: order.destinationWarehouseId,
+      status: "draft",
+      notes: order.notes ?? null,
+      createdBy: order.createdBy ?? null,
+      shippedBy: null,
+      shippedAt: null,
+      receivedBy: null,
+      receivedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.setTransferLines(id, order.sourceWarehouseId, lines);
+    this.transferOrders.set(id, created);
+    return this.withLines(created);
+  }
+
+  async getTransferOrders(status?: TransferOrderStatus): Promise<TransferOrderWithLines[]> {
+    return Array.from(this.transferOrders.values())
+      .filter((order) => !status || order.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((order) => this.withLines(order));
+  }
+
+  async getTransferOrderById(id: string): Promise<TransferOrderWithLines | null> {
+    const order = this.transferOrders.get(id);
+    return order ? this.withLines(order) : null;
+  }
+
+  async updateTransferOrder(
+    id: string,
+    changes: { notes?: string; lines?: TransferOrderLineInput[] }
+  ): Promise<TransferOrderWithLines> {
+    const order = this.getTransferOrderForUpdate(id, "draft", "edited");
+    if (changes.lines) {
+      this.setTransferLines(id, order.sourceWarehouseId, changes.lines);
+    }
+    const updated = { ...order, notes: changes.notes ?? order.notes, updatedAt: new Date() };
+    this.transferOrders.set(id, updated);
+    return this.withLines(updated);
+  }
+
+  async shipTransferOrder(id: string, userId: string | null): Promise<TransferOrderWithLines> {
+    const order = this.getTransferOrderForUpdate(id, "draft", "shipped");
+    const lines = this.transferOrderLines.get(id) || [];
+    const items = checkTransferLines(order.sourceWarehouseId, lines, Array.from(this.inventoryItems.values()));
+    for (const line of lines) {
+      const item = items.get(line.inventoryItemId)!;
+      if (item.quantity < line.quantity) throw new Error(insufficientStockMessage(item, -line.quantity));
+    }
+
+    const shippedLines: TransferOrderLine[] = [];
+    for (const line of lines) {
+      const { steps } = this.changeStock(items.get(line.inventoryItemId)!, -line.quantity);
+      for (const row of stepHistory(line.inventoryItemId, steps, {
+        actionType: "transfer_out",
+        transferOrderId: id,
+        userId,
+        notes: order.notes,
+      })) {
+        await this.createProductHistory(row);
+      }
+      shippedLines.push({ ...line, lots: steps.map(lotAllocation) });
+    }
+
+    this.transferOrderLines.set(id, shippedLines);
+    const shipped: TransferOrder = { ...order, status: "shipped", shippedBy: userId, shippedAt: new Date(), updatedAt: new Date() };
+    this.transferOrders.set(id, shipped);
+    return this.withLines(shipped);
+  }
+
+  async receiveTransferOrder(id: string, receipts: TransferReceipt[], userId: string | null): Promise<TransferOrderWithLines> {
+    const order = this.getTransferOrderForUpdate(id, "shipped", "received");
+    const lines = this.transferOrderLines.get(id) || [];
+    const receiptsByLine = checkTransferReceipts(lines, receipts);
+
+    const receivedLines: TransferOrderLine[] = [];
+    for (const line of lines) {
+      const receipt = receiptsByLine.get(line.id)!;
+      const source = this.inventoryItems.get(line.inventoryItemId);
+      if (!source) throw new Error(`Inventory item ${line.inventoryItemId} not found`);
+      const destination =
+        Array.from(this.inventoryItems.values()).find(
+          (item) => item.warehouseId === order.destinationWarehouseId && item.productId === source.productId
+        ) ?? (await this.createInventoryItem(transferDestinationItem(source, order.destinationWarehouseId)));
+
+      // Book in the shipped lots, then correct them to what was counted
+      let current = destination;
+      const rows: InsertProductHistory[] = [];
+      const bookedLots: string[] = [];
+      for (const { quantity, ...lot } of lineLots(line, order.shippedAt)) {
+        const arrival = this.changeStock(current, quantity, { into: lot });
+        current = arrival.item;
+        bookedLots.push(...arrival.steps.map((step) => step.lot.id));
+        rows.push(
+          ...stepHistory(destination.id, arrival.steps, {
+            actionType: "transfer_in",
+            relatedItemId: source.id,
+            transferOrderId: id,
+            userId,
+            notes: order.notes,
+          })
+        );
+      }
+
+      const difference = receipt.receivedQuantity - line.quantity;
+      if (difference !== 0) {
+        const counted = this.changeStock(current, difference, { lotId: bookedLots[0], fromLots: bookedLots });
+        rows.push(
+          ...stepHistory(destination.id, counted.steps, {
+            actionType: "adjust",
+            reasonCode: receipt.discrepancyReason,
+            transferOrderId: id,
+            userId,
+            notes: discrepancyNote(line, receipt.receivedQuantity),
+          })
+        );
+      }
+      for (const row of rows) await this.createProductHistory(row);
+
+      receivedLines.push({
+        ...line,
+        destinationItemId: destination.id,
+        receivedQuantity: receipt.receivedQuantity,
+        discrepancyReason: difference !== 0 ? receipt.discrepancyReason ?? null : null,
+      });
+    }
+
+    this.transferOrderLines.set(id, receivedLines);
+    const received: TransferOrder = { ...order, status: "received", receivedBy: userId, receivedAt: new Date(), updatedAt: new Date() };
+    this.transferOrders.set(id, received);
+    return this.withLines(received);
+  }
+
+  async cancelTransferOrder(id: string): Promise<TransferOrderWithLines> {
+    const order = this.getTransferOrderForUpdate(id, "draft", "cancelled");
+    const cancelled: TransferOrder = { ...order, status: "cancelled", updatedAt: new Date() };
+    this.transferOrders.set(id, cancelled);
+    return this.withLines(cancelled);
+  }
+
+  async getSuppliers(): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSupplierById(id: string): Promise<Supplier | null> {
+    return this.suppliers.get(id) || null;
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const id = `sup_${Date.now()}_${this.suppliers.size}`;
+    const now = new Date();
+    const created: Supplier = {
+      id,
+      name: supplier.name,
+      contactName: supplier.contactName ?? null,
+      email: supplier.email ?? null,
+      phone: supplier.phone ?? null,
+      address: supplier.address ?? null,
+      notes: supplier.notes ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.suppliers.set(id, created);
+    return created;
+  }
+
+  async updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier> {
+    const existing = this.suppliers.get(id);
+    if (!existing) throw new Error("Supplier not found");
+    const updated = { ...existing, ...supplier, id, updatedAt: new Date() };
+    this.suppliers.set(id, updated);
+    return updated;
+  }
+
+  async deleteSupplier(id: string): Promise<void> {
+    const supplier = this.suppliers.get(id);
+    if (!supplier) throw new Error("Supplier not found");
+    const orders = Array.from(this.purchaseOrders.values()).filter((order) => order.supplierId === id);
+    if (orders.length > 0) {
+      throw new Error(`Cannot delete ${supplier.name} while it has ${orders.length} purchase order(s)`);
+    }
+    this.suppliers.delete(id);
+  }
+
+  private withPurchaseLines(order: PurchaseOrder): PurchaseOrderWithLines {
+    return { ...order, lines: this.purchaseOrderLines.get(order.id) || [] };
+  }
+
+  private setPurchaseLines(orderId: string, lines: PurchaseOrderLineInput[]) {
+    const products = checkPurchaseLines(lines, Array.from(this.products.values()));
+    this.purchaseOrderLines.set(
+      orderId,
+      purchaseLineValues(orderId, lines, products).map((line, index) => ({
+        ...line,
+        id: `pol_${Date.now()}_${index}`,
+        receivedQuantity: 0,
+        inventoryItemId: null,
+      }))
     );
   }
 
+  private checkPurchaseParties(order: { supplierId?: string; warehouseId?: string }) {
+    if (order.supplierId && !this.suppliers.has(order.supplierId)) throw new Error("Supplier not found");
+    if (order.warehouseId && !this.warehouses.has(order.warehouseId)) throw new Error("Warehouse not found");
+  }
+
+  private getPurchaseOrderForUpdate(id: string, statuses: PurchaseOrderStatus[], action: string): PurchaseOrder {
+    const order = this.purchaseOrders.get(id);
+    if (!order) throw new Error("Purchase order not found");
+    return checkPurchaseOrderStatus(order, statuses, action);
+  }
+
+  async createPurchaseOrder(order: InsertPurchaseOrder, lines: PurchaseOrderLineInput[]): Promise<PurchaseOrderWithLines> {
+    this.checkPurchaseParties(order);
+    const id = `po_${Date.now()}`;
+    const now = new Date();
+    const created: PurchaseOrder = {
+      id,
+      supplierId: order.supplierId,
+      warehouseId: order.warehouseId,
+      status: "draft",
+      expectedAt: order.expectedAt ?? null,
+      notes: order.notes ?? null,
+      createdBy: order.createdBy ?? null,
+      sentBy: null,
+      sentAt: null,
+      closedBy: null,
+      closedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.setPurchaseLines(id, lines);
+    this.purchaseOrders.set(id, created);
+    return this.withPurchaseLines(created);
+  }
+
+  async getPurchaseOrders(status?: PurchaseOrderStatus): Promise<PurchaseOrderWithLines[]> {
+    return Array.from(this.purchaseOrders.values())
+      .filter((order) => !status || order.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((order) => this.withPurchaseLines(order));
+  }
+
+  async getPurchaseOrderById(id: string): Promise<PurchaseOrderWithLines | null> {
+    const order = this.purchaseOrders.get(id);
+    return order ? this.withPurchaseLines(order) : null;
+  }
+
+  async updatePurchaseOrder(id: string, changes: PurchaseOrderChanges): Promise<PurchaseOrderWithLines> {
+    const order = this.getPurchaseOrderForUpdate(id, ["draft"], "edited");
+    const { lines, ...fields } = changes;
+    this.checkPurchaseParties(fields);
+    if (lines) this.setPurchaseLines(id, lines);
+    const updated: PurchaseOrder = {
+      ...order,
+      supplierId: fields.supplierId ?? order.supplierId,
+      warehouseId: fields.warehouseId ?? order.warehouseId,
+      expectedAt: fields.expectedAt !== undefined ? fields.expectedAt : order.expectedAt,
+      notes: fields.notes ?? order.notes,
+      updatedAt: new Date(),
+    };
+    this.purchaseOrders.set(id, updated);
+    return this.withPurchaseLines(updated);
+  }
+
+  async sendPurchaseOrder(id: string, userId: string | null): Promise<PurchaseOrderWithLines> {
+    const order = this.getPurchaseOrderForUpdate(id, ["draft"], "sent");
+    const sent: PurchaseOrder = { ...order, status: "sent", sentBy: userId, sentAt: new Date(), updatedAt: new Date() };
+    this.purchaseOrders.set(id, sent);
+    return this.withPurchaseLines(sent);
+  }
+
+  async receivePurchaseOrder(id: string, receipt: PurchaseReceipt, userId: string | null): Promise<PurchaseOrderWithLines> {
+    const order = this.getPurchaseOrderForUpdate(id, ["sent", "partially_received"], "received");
+    const lines = this.purchaseOrderLines.get(id) || [];
+    const linesById = checkPurchaseReceipt(lines, receipt);
+
+    for (const entry of receipt.lines) {
+      const line = linesById.get(entry.lineId)!;
+      const item =
+        Array.from(this.inventoryItems.values()).find(
+          (candidate) => candidate.warehouseId === order.warehouseId && candidate.productId === line.productId
+        ) ?? (await this.createInventoryItem(purchaseReceiptItem(line, order.warehouseId)));
+      const { steps } = this.changeStock(item, entry.quantity, {
+        into: { lotNumber: entry.lotNumber, expirationDate: entry.expirationDate },
+      });
+      for (const row of stepHistory(item.id, steps, {
+        actionType: "in",
+        purchaseOrderId: id,
+        unitCost: line.unitCost,
+        userId,
+        notes: purchaseReceiptNote(line, entry.quantity, receipt.notes),
+      })) {
+        await this.createProductHistory(row);
+      }
+      linesById.set(line.id, { ...line, receivedQuantity: line.receivedQuantity + entry.quantity, inventoryItemId: item.id });
+    }
+
+    const receivedLines = lines.map((line) => linesById.get(line.id)!);
+    this.purchaseOrderLines.set(id, receivedLines);
+    const status = receiptStatus(receivedLines, receipt.closeShort);
+    const now = new Date();
+    const received: PurchaseOrder = {
+      ...order,
+      status,
+      closedBy: status === "closed" ? userId : null,
+      closedAt: status === "closed" ? now : null,
+      updatedAt: now,
+    };
+    this.purchaseOrders.set(id, received);
+    return this.withPurchaseLines(received);
+  }
+
+  async closePurchaseOrder(id: string, userId: string | null): Promise<PurchaseOrderWithLines> {
+    const order = this.getPurchaseOrderForUpdate(id, ["sent", "partially_received"], "closed");
+    const closed: PurchaseOrder = { ...order, status: "closed", closedBy: userId, closedAt: new Date(), updatedAt: new Date() };
+    this.purchaseOrders.set(id, closed);
+    return this.withPurchaseLines(closed);
+  }
+
+  async deletePurchaseOrder(id: string): Promise<void> {
+    this.getPurchaseOrderForUpdate(id, ["draft"], "deleted");
+    this.purchaseOrders.delete(id);
+    this.purchaseOrderLines.delete(id);
+  }
+
+  private withStocktakeLines(stocktake: Stocktake): StocktakeWithLines {
+    return { ...stocktake, lines: this.stocktakeLines.get(stocktake.id) || [] };
+  }
+
+  private getStocktakeForUpdate(id: string, action: string): Stocktake {
+    const stocktake = this.stocktakes.get(id);
+    if (!stocktake) throw new Error("Stocktake not found");
+    if (stocktake.status !== "counting") throw new Error(`Only stocktakes still counting can be ${action}`);
+    return stocktake;
+  }
+
+  async createStocktake(stocktake: InsertStocktake): Promise<StocktakeWithLines> {
+    if (!this.warehouses.has(stocktake.warehouseId)) throw new Error("Warehouse not found");
+    const items = stocktakeScope(Array.from(this.inventoryItems.values()), stocktake);
+    if (items.length === 0) throw new Error("No stock matches the stocktake scope");
+    const id = `st_${Date.now()}`;
+    const now = new Date();
+    const created: Stocktake = {
+      id,
+      warehouseId: stocktake.warehouseId,
+      location: stocktake.location ?? null,
+      category: stocktake.category ?? null,
+      status: "counting",
+      notes: stocktake.notes ?? null,
+      createdBy: stocktake.createdBy ?? null,
+      postedBy: null,
+      postedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.stocktakes.set(id, created);
+    this.stocktakeLines.set(
+      id,
+      stocktakeLineValues(id, items).map((line, index) => ({
+        ...line,
+        id: `stl_${Date.now()}_${index}`,
+        countedQuantity: null,
+        countedBy: null,
+        countedAt: null,
+        reasonCode: null,
+        postedQuantity: null,
+      }))
+    );
+    return this.withStocktakeLines(created);
+  }
+
+  async getStocktakes(status?: StocktakeStatus): Promise<StocktakeWithLines[]> {
+    return Array.from(this.stocktakes.values())
+      .filter((stocktake) => !status || stocktake.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((stocktake) => this.withStocktakeLines(stocktake));
+  }
+
+  async getStocktakeById(id: string): Promise<StocktakeWithLines | null> {
+    const stocktake = this.stocktakes.get(id);
+    return stocktake ? this.withStocktakeLines(stocktake) : null;
+  }
+
+  async countStocktakeLine(
+    id: string,
+    lineId: string,
+    countedQuantity: number | null,
+    userId: string | null
+  ): Promise<StocktakeLine> {
+    this.getStocktakeForUpdate(id, "counted");
+    const lines = this.stocktakeLines.get(id) || [];
+    const index = lines.findIndex((line) => line.id === lineId);
+    if (index === -1) throw new Error("Stocktake line not found");
+    const counted: StocktakeLine = {
+      ...lines[index],
+      countedQuantity,
+      countedBy: countedQuantity === null ? null : userId,
+      countedAt: countedQuantity === null ? null : new Date(),
+    };
+    this.stocktakeLines.set(id, lines.map((line, i) => (i === index ? counted : line)));
+    return counted;
+  }
+
+  async postStocktake(id: string, approvals: StocktakeApproval[], userId: string | null): Promise<StocktakeWithLines> {
+    const stocktake = this.getStocktakeForUpdate(id, "posted");
+    const linesById = checkStocktakeApprovals(this.stocktakeLines.get(id) || [], approvals);
+    // Check every line before changing any stock
+    for (const approval of approvals) {
+      const line = linesById.get(approval.lineId)!;
+      const item = this.inventoryItems.get(line.inventoryItemId);
+      if (!item) throw new Error(`Inventory item ${line.inventoryItemId} not found`);
+      const delta = stocktakeVariance(line)!;
+      if (item.quantity + delta < 0) throw new Error(insufficientStockMessage(item, delta));
+    }
+
+    for (const approval of approvals) {
+      const line = linesById.get(approval.lineId)!;
+      const delta = stocktakeVariance(line)!;
+      const { steps } = this.changeStock(this.inventoryItems.get(line.inventoryItemId)!, delta);
+      for (const row of stepHistory(line.inventoryItemId, steps, {
+        actionType: "adjust",
+        reasonCode: approval.reasonCode,
+        stocktakeId: id,
+        userId,
+        notes: stocktakeNote(line),
+      })) {
+        await this.createProductHistory(row);
+      }
+      linesById.set(line.id, { ...line, reasonCode: approval.reasonCode, postedQuantity: delta });
+    }
+
+    this.stocktakeLines.set(id, Array.from(linesById.values()));
+    const posted: Stocktake = { ...stocktake, status: "posted", postedBy: userId, postedAt: new Date(), updatedAt: new Date() };
+    this.stocktakes.set(id, posted);
+    return this.withStocktakeLines(posted);
+  }
+
+  async cancelStocktake(id: string): Promise<StocktakeWithLines> {
+    const stocktake = this.getStocktakeForUpdate(id, "cancelled");
+    const cancelled: Stocktake = { ...stocktake, status: "cancelled", updatedAt: new Date() };
+    this.stocktakes.set(id, cancelled);
+    return this.withStocktakeLines(cancelled);
+  }
+
+  async getBins(warehouseId: string): Promise<WarehouseBin[]> {
+    return Array.from(this.warehouseBins.values())
+      .filter((bin) => bin.warehouseId === warehouseId)
+      .sort(compareBins);
+  }
+
+  async getBinById(id: string): Promise<WarehouseBin | null> {
+    return this.warehouseBins.get(id) || null;
+  }
+
+  private findBinByCode(warehouseId: string, code: string): WarehouseBin | undefined {
+    return Array.from(this.warehouseBins.values()).find((bin) => bin.warehouseId === warehouseId && bin.code === code);
+  }
+
+  async createBin(bin: InsertWarehouseBin): Promise<WarehouseBin> {
+    const code = binCode(bin);
+    if (this.findBinByCode(bin.warehouseId, code)) throw new Error(duplicateBinMessage(code));
+    const now = new Date();
+    const created: WarehouseBin = {
+      id: `bin_${Date.now()}_${this.warehouseBins.size}`,
+      warehouseId: bin.warehouseId,
+      zone: bin.zone,
+      aisle: bin.aisle,
+      rack: bin.rack,
+      bin: bin.bin,
+      code,
+      description: bin.description ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.warehouseBins.set(created.id, created);
+    return created;
+  }
+
+  async updateBin(id: string, changes: Partial<InsertWarehouseBin>): Promise<WarehouseBin> {
+    const existing = this.warehouseBins.get(id);
+    if (!existing) throw new Error("Bin not found");
+    const merged = { ...existing, ...changes, warehouseId: existing.warehouseId };
+    const code = binCode(merged);
+    const clash = this.findBinByCode(existing.warehouseId, code);
+    if (clash && clash.id !== id) throw new Error(duplicateBinMessage(code));
+    const updated: WarehouseBin = { ...merged, code, updatedAt: new Date() };
+    this.warehouseBins.set(id, updated);
+    if (code !== existing.code) {
+      for (const item of Array.from(this.inventoryItems.values())) {
+        if (item.warehouseId === existing.warehouseId && item.location === existing.code) {
+          this.inventoryItems.set(item.id, { ...item, location: code, updatedAt: updated.updatedAt });
+        }
+      }
+    }
+    return updated;
+  }
+
+  async deleteBin(id: string): Promise<void> {
+    const bin = this.warehouseBins.get(id);
+    if (!bin) throw new Error("Bin not found");
+    if (Array.from(this.binStock.values()).some((placement) => placement.binId === id && placement.quantity > 0)) {
+      throw new Error(`Cannot delete bin ${bin.code} while it holds stock`);
+    }
+    this.removeBin(id);
+  }
+
+  // Drops the bin and its placements; stock records that named it lose their location
+  private removeBin(id: string) {
+    const bin = this.warehouseBins.get(id);
+    if (!bin) return;
+    this.warehouseBins.delete(id);
+    for (const placement of Array.from(this.binStock.values())) {
+      if (placement.binId === id) this.binStock.delete(placement.id);
+    }
+    for (const item of Array.from(this.inventoryItems.values())) {
+      if (item.warehouseId === bin.warehouseId && item.location === bin.code) {
+        this.inventoryItems.set(item.id, { ...item, location: null, updatedAt: new Date() });
+      }
+    }
+  }
+
+  async getBinStock(warehouseId: string): Promise<BinStock[]> {
+    return Array.from(this.binStock.values()).filter(
+      (placement) => placement.quantity > 0 && this.warehouseBins.get(placement.binId)?.warehouseId === warehouseId
+    );
+  }
+
+  private addToBin(inventoryItemId: string, binId: string, quantity: number) {
+    const existing = Array.from(this.binStock.values()).find(
+      (placement) => placement.binId === binId && placement.inventoryItemId === inventoryItemId
+    );
+    if (existing) {
+      this.binStock.set(existing.id, { ...existing, quantity: existing.quantity + quantity, updatedAt: new Date() });
+      return;
+    }
+    const id = `bs_${Date.now()}_${this.binStock.size}`;
+    this.binStock.set(id, { id, binId, inventoryItemId, quantity, updatedAt: new Date() });
+  }
+
+  async putawayStock(inventoryItemId: string, binId: string, quantity: number): Promise<BinStock[]> {
+    const item = this.inventoryItems.get(inventoryItemId);
+    if (!item) throw new Error("Inventory item not found");
+    const bin = this.warehouseBins.get(binId);
+    if (!bin) throw new Error("Bin not found");
+    checkBinMove(item, this.placementsOf(inventoryItemId), bin, quantity);
+    this.addToBin(inventoryItemId, binId, quantity);
+    return this.placementsOf(inventoryItemId);
+  }
+
+  async moveBinStock(inventoryItemId: string, fromBinId: string, toBinId: string, quantity: number): Promise<BinStock[]> {
+    const item = this.inventoryItems.get(inventoryItemId);
+    if (!item) throw new Error("Inventory item not found");
+    const from = this.warehouseBins.get(fromBinId);
+    const to = this.warehouseBins.get(toBinId);
+    if (!from || !to) throw new Error("Bin not found");
+    const placements = this.placementsOf(inventoryItemId);
+    checkBinMove(item, placements, to, quantity, from);
+    const source = placements.find((placement) => placement.binId === fromBinId)!;
+    this.binStock.set(source.id, { ...source, quantity: source.quantity - quantity, updatedAt: new Date() });
+    this.addToBin(inventoryItemId, toBinId, quantity);
+    return this.placementsOf(inventoryItemId);
+  }
+
+  async getProducts(search?: string): Promise<ProductWithStock[]> {
+    const term = search?.trim().toLowerCase();
+    const items = Array.from(this.inventoryItems.values());
+    return Array.from(this.products.values())
+      .filter(
+        (product) =>
+          !term || [product.sku, product.name, product.category].some((value) => value?.toLowerCase().includes(term))
+      )
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((product) => {
+        const stock = items.filter((item) => item.productId === product.id);
+        return {
+          ...product,
+          totalQuantity: stock.reduce((sum, item) => sum + item.quantity, 0),
+          warehouseCount: new Set(stock.map((item) => item.warehouseId)).size,
+        };
+      });
+  }
+
+  async getProductById(id: string): Promise<Product | null> {
+    return this.products.get(id) || null;
+  }
+
+  async getProductBySku(sku: string): Promise<Product | null> {
+    return Array.from(this.products.values()).find((product) => product.sku === sku) || null;
+  }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    if (await this.getProductBySku(product.sku)) throw new Error(duplicateSkuMessage(product.sku));
+    const id = `prod_${Date.now()}_${this.products.size}`;
+    const now = new Date();
+    const newProduct: Product = {
+      id,
+      sku: product.sku,
+      name: product.name,
+      category: product.category ?? null,
+      description: product.description ?? null,
+      unit: product.unit ?? "pcs",
+      unitVolume: product.unitVolume ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.products.set(id, newProduct);
+    return newProduct;
+  }
+
+  async updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product> {
+    const existing = this.products.get(id);
+    if (!existing) throw new Error("Product not found");
+    if (Object.keys(product).length === 0) return existing;
+    if (product.sku && product.sku !== existing.sku && (await this.getProductBySku(product.sku))) {
+      throw new Error(duplicateSkuMessage(product.sku));
+    }
+    const updated = { ...existing, ...product, id, updatedAt: new Date() };
+    this.products.set(id, updated);
+    for (const item of Array.from(this.inventoryItems.values())) {
+      if (item.productId === id) {
+        this.inventoryItems.set(item.id, { ...item, ...productFields(updated), updatedAt: updated.updatedAt });
+      }
+    }
+    return updated;
+  }
+
+  async deleteProduct(id: string): Promise<void> {
+    const product = this.products.get(id);
+    if (!product) throw new Error("Product not found");
+    const stock = Array.from(this.inventoryItems.values()).filter((item) => item.productId === id);
+    if (stock.length > 0) {
+      throw new Error(`Cannot delete ${product.sku} while it has ${stock.length} stock record(s)`);
+    }
+    const ordered = Array.from(this.purchaseOrderLines.values()).some((lines) =>
+      lines.some((line) => line.productId === id)
+    );
+    if (ordered) throw new Error(`Cannot delete ${product.sku} while purchase orders reference it`);
+    this.products.delete(id);
+    for (const conversion of Array.from(this.unitConversions.values())) {
+      if (conversion.productId === id) this.unitConversions.delete(conversion.id);
+    }
+  }
+
+  async getUnits(): Promise<UnitOfMeasure[]> {
+    return Array.from(this.units.values()).sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  async createUnit(unit: InsertUnitOfMeasure): Promise<UnitOfMeasure> {
+    if (Array.from(this.units.values()).some((existing) => existing.code === unit.code)) {
+      throw new Error(duplicateUnitMessage(unit.code));
+    }
+    const now = new Date();
+    const created: UnitOfMeasure = {
+      id: `uom_${Date.now()}_${this.units.size}`,
+      code: unit.code,
+      name: unit.name,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.units.set(created.id, created);
+    return created;
+  }
+
+  async updateUnit(id: string, changes: Pick<InsertUnitOfMeasure, "name">): Promise<UnitOfMeasure> {
+    const existing = this.units.get(id);
+    if (!existing) throw new Error("Unit not found");
+    const updated = { ...existing, name: changes.name, updatedAt: new Date() };
+    this.units.set(id, updated);
+    return updated;
+  }
+
+  async deleteUnit(id: string): Promise<void> {
+    const unit = this.units.get(id);
+    if (!unit) throw new Error("Unit not found");
+    const users = new Set(
+      Array.from(this.products.values())
+        .filter((product) => product.unit === unit.code)
+        .map((product) => product.id)
+    );
+    for (const conversion of Array.from(this.unitConversions.values())) {
+      if (conversion.unit === unit.code) users.add(conversion.productId);
+    }
+    if (users.size > 0) throw new Error(unitInUseMessage(unit, users.size));
+    this.units.delete(id);
+  }
+
+  async getUnitConversions(productId?: string): Promise<ProductUnitConversion[]> {
+    return Array.from(this.unitConversions.values())
+      .filter((conversion) => !productId || conversion.productId === productId)
+      .sort((a, b) => a.factor - b.factor);
+  }
+
+  async saveUnitConversion(productId: string, conversion: UnitConversionInput): Promise<ProductUnitConversion> {
+    const product = this.products.get(productId);
+    if (!product) throw new Error("Product not found");
+    if (conversion.unit === product.unit) throw new Error(baseUnitConversionMessage(product));
+    const existing = Array.from(this.unitConversions.values()).find(
+      (current) => current.productId === productId && current.unit === conversion.unit
+    );
+    const now = new Date();
+    const saved: ProductUnitConversion = existing
+      ? { ...existing, factor: conversion.factor, updatedAt: now }
+      : { id: `uc_${Date.now()}_${this.unitConversions.size}`, productId, ...conversion, createdAt: now, updatedAt: now };
+    this.unitConversions.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteUnitConversion(productId: string, id: string): Promise<void> {
+    if (this.unitConversions.get(id)?.productId !== productId) throw new Error("Unit conversion not found");
+    this.unitConversions.delete(id);
+  }
+
+  async getStockLevelDefaults(): Promise<StockLevelDefault[]> {
+    return Array.from(this.stockLevelDefaults.values());
+  }
+
+  async saveStockLevelDefault(levels: InsertStockLevelDefault): Promise<StockLevelDefault> {
+    const existing = Array.from(this.stockLevelDefaults.values()).find((current) =>
+      levels.category ? current.category === levels.category : current.warehouseId === levels.warehouseId
+    );
+    const now = new Date();
+    const saved: StockLevelDefault = {
+      id: existing?.id ?? `levels_${Date.now()}_${this.stockLevelDefaults.size}`,
+      category: levels.category ?? null,
+      warehouseId: levels.warehouseId ?? null,
+      minQuantity: levels.minQuantity ?? null,
+      reorderPoint: levels.reorderPoint ?? null,
+      maxQuantity: levels.maxQuantity ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.stockLevelDefaults.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteStockLevelDefault(id: string): Promise<void> {
+    this.stockLevelDefaults.delete(id);
+  }
+
   async createProductHistory(history: InsertProductHistory): Promise<ProductHistory> {
-    const id = `hist_${Date.now()}`;
+    const id = `hist_${Date.now()}_${this.productHistory.get(history.inventoryItemId)?.length ?? 0}`;
     const newHistory: ProductHistory = {
       id,
       inventoryItemId: history.inventoryItemId,
       actionType: history.actionType,
+      reasonCode: history.reasonCode ?? null,
+      relatedItemId: history.relatedItemId ?? null,
+      transferOrderId: history.transferOrderId ?? null,
+      purchaseOrderId: history.purchaseOrderId ?? null,
+      stocktakeId: history.stocktakeId ?? null,
+      lotId: history.lotId ?? null,
       quantityChange: history.quantityChange,
+      unitCost: history.unitCost ?? null,
       previousQuantity: history.previousQuantity,
       newQuantity: history.newQuantity,
       userId: history.userId ?? null,
@@ -241,8 +1650,84 @@ export class MemStorage implements IStorage {
     return newHistory;
   }
 
-  async getProductHistory(inventoryItemId: string): Promise<ProductHistory[]> {
-    return this.productHistory.get(inventoryItemId) || [];
+  async getProductHistory(inventoryItemId: string, range: ProductHistoryRange = {}): Promise<ProductHistoryEntry[]> {
+    return (this.productHistory.get(inventoryItemId) || [])
+      .filter(
+        (entry) =>
+          (!range.from || entry.timestamp >= range.from) && (!range.to || entry.timestamp <= range.to)
+      )
+      .map((entry) => {
+        const user = entry.userId ? this.users.get(entry.userId) : undefined;
+        const lot = this.inventoryLots.get(inventoryItemId)?.find((candidate) => candidate.id === entry.lotId);
+        return { ...entry, userName: user ? userDisplayName(user) : null, lotNumber: lot?.lotNumber ?? null };
+      });
+  }
+
+  async getIssuedQuantities(since: Date): Promise<Record<string, number>> {
+    const issued: Record<string, number> = {};
+    for (const [itemId, entries] of Array.from(this.productHistory)) {
+      for (const entry of entries) {
+        if (entry.actionType !== "out" || entry.timestamp < since) continue;
+        issued[itemId] = (issued[itemId] ?? 0) - entry.quantityChange;
+      }
+    }
+    return issued;
+  }
+
+  async getWarehouseStockSpace(warehouseId?: string): Promise<WarehouseStockSpace[]> {
+    const spaces = new Map<string, WarehouseStockSpace>();
+    for (const item of Array.from(this.inventoryItems.values())) {
+      const warehouse = this.warehouses.get(item.warehouseId);
+      if (!warehouse || item.quantity <= 0 || (warehouseId && warehouse.id !== warehouseId)) continue;
+      const space = spaces.get(warehouse.id) ?? { warehouseId: warehouse.id, used: 0, unmeasuredQuantity: 0 };
+      const itemSpace = stockSpace(warehouse.capacityMode, item.quantity, this.products.get(item.productId)?.unitVolume);
+      if (itemSpace === null) space.unmeasuredQuantity += item.quantity;
+      else space.used += itemSpace;
+      spaces.set(warehouse.id, space);
+    }
+    return Array.from(spaces.values());
+  }
+
+  async getDailyStockSpaceChanges(since: Date, warehouseId?: string): Promise<Record<string, number>> {
+    const changes: Record<string, number> = {};
+    for (const [itemId, entries] of Array.from(this.productHistory)) {
+      const item = this.inventoryItems.get(itemId);
+      const warehouse = item && this.warehouses.get(item.warehouseId);
+      if (!item || !warehouse || warehouse.capacity <= 0 || (warehouseId && warehouse.id !== warehouseId)) continue;
+      const unitVolume = this.products.get(item.productId)?.unitVolume;
+      for (const entry of entries) {
+        if (entry.timestamp < since) continue;
+        const day = entry.timestamp.toISOString().slice(0, 10);
+        changes[day] = (changes[day] ?? 0) + (stockSpace(warehouse.capacityMode, entry.quantityChange, unitVolume) ?? 0);
+      }
+    }
+    return changes;
+  }
+
+  async getProductHistoryUntil(asOf: Date): Promise<ProductHistory[]> {
+    return Array.from(this.productHistory.values())
+      .flat()
+      .filter((entry) => entry.timestamp <= asOf)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async getStockValuationVersion(): Promise<string> {
+    const items = Array.from(this.inventoryItems.values());
+    const history = Array.from(this.productHistory.values()).flat();
+    const latest = (times: Date[]) => Math.max(0, ...times.map((time) => time.getTime()));
+    return [
+      items.length,
+      latest(items.map((item) => item.updatedAt)),
+      history.length,
+      latest(history.map((entry) => entry.timestamp)),
+    ].join(":");
+  }
+
+  async getProductHistorySince(since: Date): Promise<ProductHistory[]> {
+    return Array.from(this.productHistory.values())
+      .flat()
+      .filter((entry) => entry.timestamp > since)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 
   async createTable(table: InsertTable): Promise<DataTable> {
@@ -252,6 +1737,7 @@ export class MemStorage implements IStorage {
       id,
       name: table.name,
       description: table.description ?? null,
+      columnsMetadata: table.columnsMetadata ?? { columns: [] },
       createdBy: table.createdBy ?? null,
       createdAt: now,
     };
@@ -267,21 +1753,96 @@ export class MemStorage implements IStorage {
     return this.tables.get(id) || null;
   }
 
+  async updateTable(id: string, table: Partial<InsertTable>): Promise<DataTable> {
+    const existing = this.tables.get(id);
+    if (!existing) throw new Error("Table not found");
+    const updated = { ...existing, ...table, id };
+    this.tables.set(id, updated);
+    const removed = removedColumnIds(existing, updated);
+    if (removed.length > 0) {
+      const rows = this.tableRows.get(id) || [];
+      this.tableRows.set(
+        id,
+        rows.map((row) => ({
+          ...row,
+          data: Object.fromEntries(Object.entries(row.data).filter(([key]) => !removed.includes(key))),
+        }))
+      );
+    }
+    return updated;
+  }
+
   async deleteTable(id: string): Promise<void> {
     this.tables.delete(id);
     this.tableRows.delete(id);
   }
 
   async createTableRow(row: InsertTableRow): Promise<TableRow> {
-    const id = `row_${Date.now()}`;
-    const newRow: TableRow = { id, ...row, createdAt: new Date() };
-    const existing = this.tableRows.get(row.tableId) || [];
-    this.tableRows.set(row.tableId, [...existing, newRow]);
-    return newRow;
+    const [created] = await this.createTableRows([row]);
+    return created;
+  }
+
+  async createTableRows(rows: InsertTableRow[]): Promise<TableRow[]> {
+    const now = Date.now();
+    const created: TableRow[] = [];
+    for (const [index, row] of rows.entries()) {
+      const newRow: TableRow = {
+        id: `row_${now}_${index}`,
+        tableId: row.tableId,
+        data: row.data,
+        position: row.position ?? (await this.nextTableRowPosition(row.tableId)),
+        createdAt: new Date(now),
+      };
+      const existing = this.tableRows.get(row.tableId) || [];
+      this.tableRows.set(row.tableId, [...existing, newRow]);
+      created.push(newRow);
+    }
+    return created;
+  }
+
+  async getTableRows(tableId: string, options: TableRowQuery = {}): Promise<TableRow[]> {
+    const rows = [...(this.tableRows.get(tableId) || [])].sort((a, b) => a.position - b.position);
+    const offset = options.offset ?? 0;
+    return options.limit === undefined
+      ? rows.slice(offset)
+      : rows.slice(offset, offset + options.limit);
   }
 
-  async getTableRows(tableId: string): Promise<TableRow[]> {
-    return this.tableRows.get(tableId) || [];
+  async countTableRows(tableId: string): Promise<number> {
+    return (this.tableRows.get(tableId) || []).length;
+  }
+
+  async getTableRowById(id: string): Promise<TableRow | null> {
+    for (const rows of Array.from(this.tableRows.values())) {
+      const row = rows.find((candidate: TableRow) => candidate.id === id);
+      if (row) return row;
+    }
+    return null;
+  }
+
+  async nextTableRowPosition(tableId: string, after?: number): Promise<number> {
+    const positions = (this.tableRows.get(tableId) || []).map((row: TableRow) => row.position);
+    if (after === undefined) {
+      return positions.length === 0 ? 1 : Math.max(...positions) + 1;
+    }
+    const following = positions.filter((position: number) => position > after);
+    return following.length === 0 ? after + 1 : (after + Math.min(...following)) / 2;
+  }
+
+  async updateTableRow(id: string, row: Partial<InsertTableRow>): Promise<TableRow> {
+    const existing = await this.getTableRowById(id);
+    if (!existing) throw new Error("Table row not found");
+    const updated = {
+      ...existing,
+      data: row.data ?? existing.data,
+      position: row.position ?? existing.position,
+    };
+    const rows = this.tableRows.get(existing.tableId) || [];
+    this.tableRows.set(
+      existing.tableId,
+      rows.map((candidate: TableRow) => (candidate.id === id ? updated : candidate))
+    );
+    return updated;
   }
 
   async deleteTableRow(id: string): Promise<void> {
@@ -304,6 +1865,10 @@ export class MemStorage implements IStorage {
       ocrText: image.ocrText ?? null,
       processedData: image.processedData ?? {},
       processingStatus: image.processingStatus ?? "pending",
+      processingError: image.processingError ?? null,
+      processingAttempts: image.processingAttempts ?? 0,
+      nextAttemptAt: image.nextAttemptAt ?? new Date(),
+      processingStartedAt: image.processingStartedAt ?? null,
       uploadedBy: image.uploadedBy,
       createdAt: new Date(),
     };
@@ -327,6 +1892,26 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async claimImageJob(staleBefore: Date): Promise<CapturedImage | null> {
+    const now = new Date();
+    const [next] = Array.from(this.capturedImages.values())
+      .filter(
+        (image) =>
+          (image.processingStatus === "pending" && image.nextAttemptAt <= now) ||
+          (image.processingStatus === "processing" && !!image.processingStartedAt && image.processingStartedAt < staleBefore)
+      )
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime());
+    if (!next) return null;
+    const claimed: CapturedImage = {
+      ...next,
+      processingStatus: "processing",
+      processingStartedAt: now,
+      processingAttempts: next.processingAttempts + 1,
+    };
+    this.capturedImages.set(next.id, claimed);
+    return claimed;
+  }
+
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
     const id = `log_${Date.now()}`;
     const newLog: AuditLog = {
@@ -343,6 +1928,17 @@ export class MemStorage implements IStorage {
     return newLog;
   }
 
+  async getSystemSettings(): Promise<SystemSettings> {
+    return parseSystemSettings(Array.from(this.systemSettings, ([key, value]) => ({ key, value })));
+  }
+
+  async updateSystemSettings(changes: Partial<SystemSettings>, _userId: string | null): Promise<SystemSettings> {
+    for (const [key, value] of Object.entries(changes)) {
+      this.systemSettings.set(key, value);
+    }
+    return this.getSystemSettings();
+  }
+
   async getAuditLogs(limit = 100): Promise<AuditLog[]> {
     return this.auditLogs.slice(-limit);
   }
@@ -351,13 +1947,17 @@ export class MemStorage implements IStorage {
     const warehouses = await this.getWarehouses();
     const items = await this.getInventoryItems();
     const lowStock = await this.getLowStockItems();
-    const expiring = await this.getExpiringItems();
+    const settings = await this.getSystemSettings();
+    const statuses = (await this.getExpiryLots(expiryCutoff(settings))).map(({ lot }) =>
+      expiryStatus(lot.expirationDate, settings)
+    );
 
     return {
       totalWarehouses: warehouses.length,
       totalInventoryItems: items.length,
       lowStockCount: lowStock.length,
-      expiringCount: expiring.length,
+      expiredCount: statuses.filter((status) => status === "expired").length,
+      expiringCount: statuses.filter((status) => status === "expiring").length,
       recentActivity: this.auditLogs.slice(-5).reverse().map((log) => ({
         type: log.action,
         description: log.action,
@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { TransferOrderLine } from "@shared/schema";
+import { checkTransferReceipts } from "./transfers";
+
+describe("checkTransferReceipts", () => {
+  const line = (id: string, quantity: number) => ({ id, quantity }) as TransferOrderLine;
+  const lines = [line("line-1", 5), line("line-2", 3)];
+
+  it("accepts every line received in full", () => {
+    const receipts = checkTransferReceipts(lines, [
+      { lineId: "line-1", receivedQuantity: 5 },
+      { lineId: "line-2", receivedQuantity: 3 },
+    ]);
+    assert.equal(receipts.get("line-2")?.receivedQuantity, 3);
+  });
+
+  it("requires a reason when a received quantity differs", () => {
+    const short = [
+      { lineId: "line-1", receivedQuantity: 4 },
+      { lineId: "line-2", receivedQuantity: 3 },
+    ];
+    assert.throws(() => checkTransferReceipts(lines, short), /discrepancy reason is required/);
+    assert.doesNotThrow(() =>
+      checkTransferReceipts(lines, [{ ...short[0], discrepancyReason: "damaged" }, short[1]])
+    );
+  });
+
+  it("rejects missing, repeated and unknown lines", () => {
+    assert.throws(() => checkTransferReceipts(lines, [{ lineId: "line-1", receivedQuantity: 5 }]), /Every line/);
+    assert.throws(
+      () =>
+        checkTransferReceipts(lines, [
+          { lineId: "line-1", receivedQuantity: 5 },
+          { lineId: "line-1", receivedQuantity: 5 },
+        ]),
+      /only once/
+    );
+    assert.throws(
+      () =>
+        checkTransferReceipts(lines, [
+          { lineId: "line-1", receivedQuantity: 5 },
+          { lineId: "line-2", receivedQuantity: 3 },
+          { lineId: "line-3", receivedQuantity: 1 },
+        ]),
+      /unknown line/
+    );
+  });
+});
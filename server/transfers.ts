@@ -0,0 +1,88 @@
+import type {
+  AdjustmentReason,
+  InsertInventoryItem,
+  InventoryItem,
+  TransferOrderLine,
+} from "@shared/schema";
+
+/** Stock row created in the destination warehouse when a SKU is first transferred there. */
+export function transferDestinationItem(item: InventoryItem, warehouseId: string): InsertInventoryItem {
+  return {
+    warehouseId,
+    productId: item.productId,
+    name: item.name,
+    sku: item.sku,
+    category: item.category,
+    quantity: 0,
+    unit: item.unit,
+    description: item.description,
+  };
+}
+
+export type TransferOrderLineInput = { inventoryItemId: string; quantity: number };
+
+export type TransferReceipt = {
+  lineId: string;
+  receivedQuantity: number;
+  discrepancyReason?: AdjustmentReason;
+};
+
+/**
+ * Checks that every line references a stock row in the source warehouse.
+ * Returns the referenced items keyed by id.
+ */
+export function checkTransferLines(
+  sourceWarehouseId: string,
+  lines: TransferOrderLineInput[],
+  items: InventoryItem[]
+): Map<string, InventoryItem> {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  for (const line of lines) {
+    const item = itemsById.get(line.inventoryItemId);
+    if (!item) throw new Error(`Inventory item ${line.inventoryItemId} not found`);
+    if (item.warehouseId !== sourceWarehouseId) {
+      throw new Error(`${item.sku} is not stocked in the source warehouse`);
+    }
+  }
+  return itemsById;
+}
+
+/** Matches receipts to lines; a quantity that differs from the shipped one needs a reason. */
+export function checkTransferReceipts(
+  lines: TransferOrderLine[],
+  receipts: TransferReceipt[]
+): Map<string, TransferReceipt> {
+  const receiptsByLine = new Map(receipts.map((receipt) => [receipt.lineId, receipt]));
+  if (receiptsByLine.size !== receipts.length) throw new Error("Each line may be received only once");
+  for (const line of lines) {
+    const receipt = receiptsByLine.get(line.id);
+    if (!receipt) throw new Error("Every line must be received");
+    if (receipt.receivedQuantity !== line.quantity && !receipt.discrepancyReason) {
+      throw new Error("A discrepancy reason is required when the received quantity differs from the shipped quantity");
+    }
+  }
+  if (receiptsByLine.size !== lines.length) throw new Error("Receipt references an unknown line");
+  return receiptsByLine;
+}
+
+export function transferLineValues(
+  transferOrderId: string,
+  lines: TransferOrderLineInput[],
+  items: Map<string, InventoryItem>
+) {
+  return lines.map((line) => {
+    const item = items.get(line.inventoryItemId)!;
+    return {
+      transferOrderId,
+      inventoryItemId: item.id,
+      sku: item.sku,
+      itemName: item.name,
+      unit: item.unit,
+      quantity: line.quantity,
+    };
+  });
+}
+
+export function discrepancyNote(line: TransferOrderLine, receivedQuantity: number): string {
+  return `Transfer discrepancy: received ${receivedQuantity} of ${line.quantity} shipped`;
+}
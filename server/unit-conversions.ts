@@ -0,0 +1,15 @@
+import type { Product, UnitOfMeasure } from "@shared/schema";
+
+export type UnitConversionInput = { unit: string; factor: number };
+
+export function duplicateUnitMessage(code: string): string {
+  return `Unit ${code} already exists`;
+}
+
+export function baseUnitConversionMessage(product: Product): string {
+  return `${product.unit} is already the base unit of ${product.sku}`;
+}
+
+export function unitInUseMessage(unit: UnitOfMeasure, products: number): string {
+  return `Cannot delete unit ${unit.code} while ${products} product(s) use it`;
+}
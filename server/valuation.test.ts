@@ -0,0 +1,153 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { InventoryItem, ProductHistory } from "@shared/schema";
+import { valueStock, type ValuationOptions } from "./valuation";
+
+const asOf = new Date("2026-03-31T00:00:00Z");
+let nextId = 0;
+
+function item(id: string, quantity: number, overrides: Partial<InventoryItem> = {}): InventoryItem {
+  return {
+    id,
+    warehouseId: "warehouse-1",
+    productId: `product-${id}`,
+    name: `Item ${id}`,
+    sku: id.toUpperCase(),
+    category: null,
+    quantity,
+    unit: "pcs",
+    batchNumber: null,
+    expirationDate: null,
+    location: null,
+    description: null,
+    minQuantity: null,
+    reorderPoint: null,
+    maxQuantity: null,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-03-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+function entry(
+  inventoryItemId: string,
+  actionType: ProductHistory["actionType"],
+  quantityChange: number,
+  timestamp: string,
+  overrides: Partial<ProductHistory> = {}
+): ProductHistory {
+  return {
+    id: `history-${++nextId}`,
+    inventoryItemId,
+    actionType,
+    reasonCode: null,
+    relatedItemId: null,
+    transferOrderId: null,
+    purchaseOrderId: null,
+    stocktakeId: null,
+    lotId: null,
+    quantityChange,
+    unitCost: null,
+    previousQuantity: 0,
+    newQuantity: 0,
+    userId: null,
+    notes: null,
+    timestamp: new Date(timestamp),
+    ...overrides,
+  };
+}
+
+function lineFor(items: InventoryItem[], history: ProductHistory[], options: Partial<ValuationOptions> = {}) {
+  const valuation = valueStock(items, history, { method: "fifo", asOf, ...options });
+  return { valuation, line: (id: string) => valuation.lines.find((line) => line.inventoryItemId === id) };
+}
+
+describe("valueStock", () => {
+  const receipts = [
+    entry("a", "in", 10, "2026-02-01T10:00:00Z", { unitCost: 2 }),
+    entry("a", "in", 10, "2026-02-02T10:00:00Z", { unitCost: 3 }),
+    entry("a", "out", -15, "2026-02-03T10:00:00Z"),
+  ];
+
+  it("consumes the oldest receipts first under FIFO", () => {
+    const { line } = lineFor([item("a", 5)], receipts);
+    assert.equal(line("a")?.value, 15);
+    assert.equal(line("a")?.unitCost, 3);
+  });
+
+  it("issues at the running average under weighted average", () => {
+    const { line } = lineFor([item("a", 5)], receipts, { method: "weighted_average" });
+    assert.equal(line("a")?.value, 12.5);
+    assert.equal(line("a")?.unitCost, 2.5);
+  });
+
+  it("counts opening stock without a cost and takes it first", () => {
+    const history = [
+      entry("a", "in", 4, "2026-02-01T10:00:00Z", { unitCost: 5, previousQuantity: 6, newQuantity: 10 }),
+      entry("a", "out", -3, "2026-02-02T10:00:00Z"),
+    ];
+    const { line } = lineFor([item("a", 7)], history);
+    assert.equal(line("a")?.uncostedQuantity, 3);
+    assert.equal(line("a")?.value, 20);
+  });
+
+  it("carries the cost layers a transfer took to the destination item", () => {
+    // Both sides share a timestamp; the destination row comes first to check replay order
+    const history = [
+      entry("a", "in", 10, "2026-02-01T10:00:00Z", { unitCost: 2 }),
+      entry("a", "in", 10, "2026-02-02T10:00:00Z", { unitCost: 4 }),
+      entry("b", "transfer_in", 12, "2026-02-03T10:00:00Z", { relatedItemId: "a" }),
+      entry("a", "transfer_out", -12, "2026-02-03T10:00:00Z", { relatedItemId: "b" }),
+    ];
+    const { valuation, line } = lineFor([item("a", 8), item("b", 12, { warehouseId: "warehouse-2" })], history);
+    assert.equal(line("a")?.value, 32);
+    assert.equal(line("b")?.value, 10 * 2 + 2 * 4);
+    assert.equal(valuation.inTransitValue, 0);
+  });
+
+  it("pairs transfer order rows by order and keeps unreceived stock in transit", () => {
+    const history = [
+      entry("a", "in", 10, "2026-02-01T10:00:00Z", { unitCost: 2 }),
+      entry("a", "in", 10, "2026-02-02T10:00:00Z", { unitCost: 5 }),
+      entry("a", "transfer_out", -6, "2026-02-03T10:00:00Z", { relatedItemId: "b", transferOrderId: "order-1" }),
+      entry("a", "transfer_out", -6, "2026-02-04T10:00:00Z", { relatedItemId: "b", transferOrderId: "order-2" }),
+      entry("b", "transfer_in", 6, "2026-02-05T10:00:00Z", { relatedItemId: "a", transferOrderId: "order-2" }),
+      entry("b", "transfer_in", 4, "2026-02-06T10:00:00Z", { relatedItemId: "a", transferOrderId: "order-1" }),
+    ];
+    const { valuation, line } = lineFor([item("a", 8), item("b", 10, { warehouseId: "warehouse-2" })], history);
+    // order-2 took the last 4 units at 2 and 2 units at 5; order-1 delivered 4 of its 6 units at 2
+    assert.equal(line("b")?.value, 4 * 2 + 2 * 5 + 4 * 2);
+    assert.equal(valuation.inTransitValue, 2 * 2);
+    assert.equal(valuation.totalValue, 8 * 5 + 26);
+  });
+
+  it("adds a transfer that arrives without a shipped side as uncosted stock", () => {
+    const history = [entry("b", "transfer_in", 5, "2026-02-01T10:00:00Z", { relatedItemId: "a" })];
+    const { line } = lineFor([item("b", 5)], history);
+    assert.equal(line("b")?.uncostedQuantity, 5);
+    assert.equal(line("b")?.value, 0);
+  });
+
+  it("values the total of a receipt entered in a larger unit at its entered cost", () => {
+    // A box of 3 received at 10 per box costs 10 / 3 per base unit
+    const history = [entry("a", "in", 3, "2026-02-01T10:00:00Z", { unitCost: 10 / 3 })];
+    const { line } = lineFor([item("a", 3)], history);
+    assert.equal(line("a")?.value, 10);
+    assert.equal(line("a")?.unitCost, 3.3333);
+  });
+
+  it("ignores history after asOf and items created after it", () => {
+    const history = [
+      entry("a", "in", 10, "2026-02-01T10:00:00Z", { unitCost: 2 }),
+      entry("a", "in", 10, "2026-04-02T10:00:00Z", { unitCost: 3 }),
+    ];
+    const items = [
+      item("a", 20, { updatedAt: new Date("2026-04-02T10:00:00Z") }),
+      item("c", 5, { createdAt: new Date("2026-04-01T00:00:00Z") }),
+    ];
+    const { valuation, line } = lineFor(items, history);
+    assert.equal(line("a")?.quantity, 10);
+    assert.equal(line("c"), undefined);
+    assert.equal(valuation.totalValue, 20);
+  });
+});
@@ -0,0 +1,205 @@
+import type {
+  InventoryItem,
+  ProductHistory,
+  ProductHistoryAction,
+  StockValuation,
+  StockValuationLine,
+} from "@shared/schema";
+import type { ValuationMethod } from "@shared/system-settings";
+
+// A quantity of stock at one unit cost; null for stock that arrived without one
+type CostLayer = { quantity: number; unitCost: number | null };
+
+export type ValuationOptions = {
+  method: ValuationMethod;
+  asOf: Date;
+  warehouseId?: string;
+  category?: string;
+};
+
+/**
+ * Stock of one item as cost layers, oldest first. FIFO keeps a layer per
+ * receipt; weighted average merges every costed receipt into one layer at the
+ * running average. Uncosted stock is always taken first.
+ */
+class CostPool {
+  private layers: CostLayer[] = [];
+
+  constructor(private method: ValuationMethod) {}
+
+  get quantity(): number {
+    return this.layers.reduce((sum, layer) => sum + layer.quantity, 0);
+  }
+
+  // Cost for additions that carry none: the average, or the latest receipt's under FIFO
+  private currentCost(): number | null {
+    const costed = this.layers.filter((layer) => layer.unitCost !== null);
+    return costed.length > 0 ? costed[costed.length - 1].unitCost : null;
+  }
+
+  add(quantity: number, unitCost: number | null) {
+    const cost = unitCost ?? this.currentCost();
+    if (cost === null || this.method === "fifo") {
+      this.layers.push({ quantity, unitCost: cost });
+      return;
+    }
+    const uncosted = this.layers.filter((layer) => layer.unitCost === null);
+    const costed = [...this.layers.filter((layer) => layer.unitCost !== null), { quantity, unitCost: cost }];
+    const total = costed.reduce((sum, layer) => sum + layer.quantity, 0);
+    const value = costed.reduce((sum, layer) => sum + layer.quantity * layer.unitCost!, 0);
+    this.layers = [...uncosted, { quantity: total, unitCost: total > 0 ? value / total : cost }];
+  }
+
+  take(quantity: number): CostLayer[] {
+    return takeLayers(this.layers, quantity);
+  }
+
+  value(): { value: number; costedQuantity: number; uncostedQuantity: number } {
+    let value = 0;
+    let costedQuantity = 0;
+    let uncostedQuantity = 0;
+    for (const layer of this.layers) {
+      if (layer.unitCost === null) {
+        uncostedQuantity += layer.quantity;
+      } else {
+        value += layer.quantity * layer.unitCost;
+        costedQuantity += layer.quantity;
+      }
+    }
+    return { value, costedQuantity, uncostedQuantity };
+  }
+}
+
+// Removes up to `quantity` from the front of the layers; a shortfall is simply not returned
+function takeLayers(layers: CostLayer[], quantity: number): CostLayer[] {
+  const taken: CostLayer[] = [];
+  let remaining = quantity;
+  while (remaining > 0 && layers.length > 0) {
+    const layer = layers[0];
+    const take = Math.min(layer.quantity, remaining);
+    taken.push({ quantity: take, unitCost: layer.unitCost });
+    remaining -= take;
+    if (take === layer.quantity) {
+      layers.shift();
+    } else {
+      layer.quantity -= take;
+    }
+  }
+  return taken;
+}
+
+// Rows of one transaction share a timestamp; stock must leave a warehouse before it arrives
+const actionOrder: Record<ProductHistoryAction, number> = {
+  transfer_out: 0,
+  out: 1,
+  in: 2,
+  transfer_in: 3,
+  adjust: 4,
+};
+
+// Pairs the two sides of a transfer: by order and source item, or by source and destination item
+function transitKey(entry: ProductHistory): string {
+  const [source, destination] =
+    entry.actionType === "transfer_out"
+      ? [entry.inventoryItemId, entry.relatedItemId]
+      : [entry.relatedItemId, entry.inventoryItemId];
+  return entry.transferOrderId ? `${entry.transferOrderId}:${source}` : `${source}>${destination}`;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Values stock as of a point in time by replaying product history. Receipts
+ * add cost layers, removals consume them, and transfers carry the layers they
+ * took to the destination item. Stock with no known cost (opening quantities,
+ * receipts recorded without a cost) is counted but adds no value.
+ */
+export function valueStock(
+  items: InventoryItem[],
+  history: ProductHistory[],
+  options: ValuationOptions
+): StockValuation {
+  const pools = new Map<string, CostPool>();
+  const inTransit = new Map<string, CostLayer[]>();
+  const poolFor = (entry: ProductHistory) => {
+    let pool = pools.get(entry.inventoryItemId);
+    if (!pool) {
+      pool = new CostPool(options.method);
+      if (entry.previousQuantity > 0) pool.add(entry.previousQuantity, null);
+      pools.set(entry.inventoryItemId, pool);
+    }
+    return pool;
+  };
+
+  const entries = history
+    .filter((entry) => new Date(entry.timestamp) <= options.asOf)
+    .sort(
+      (a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() ||
+        actionOrder[a.actionType] - actionOrder[b.actionType]
+    );
+  for (const entry of entries) {
+    const pool = poolFor(entry);
+    if (entry.quantityChange > 0) {
+      if (entry.actionType !== "transfer_in") {
+        pool.add(entry.quantityChange, entry.unitCost);
+        continue;
+      }
+      const shipped = takeLayers(inTransit.get(transitKey(entry)) ?? [], entry.quantityChange);
+      const arrived = shipped.reduce((sum, layer) => sum + layer.quantity, 0);
+      for (const layer of shipped) pool.add(layer.quantity, layer.unitCost);
+      if (arrived < entry.quantityChange) pool.add(entry.quantityChange - arrived, null);
+    } else if (entry.quantityChange < 0) {
+      const taken = pool.take(-entry.quantityChange);
+      if (entry.actionType === "transfer_out") {
+        const key = transitKey(entry);
+        inTransit.set(key, [...(inTransit.get(key) ?? []), ...taken]);
+      }
+    }
+  }
+
+  const lines: StockValuationLine[] = [];
+  for (const item of items) {
+    if (options.warehouseId && item.warehouseId !== options.warehouseId) continue;
+    if (options.category && item.category !== options.category) continue;
+    if (new Date(item.createdAt) > options.asOf) continue;
+
+    const pool = pools.get(item.id) ?? new CostPool(options.method);
+    // Once the item is unchanged since asOf its stored quantity is authoritative
+    if (new Date(item.updatedAt) <= options.asOf && pool.quantity !== item.quantity) {
+      if (pool.quantity < item.quantity) {
+        pool.add(item.quantity - pool.quantity, null);
+      } else {
+        pool.take(pool.quantity - item.quantity);
+      }
+    }
+    if (pool.quantity <= 0) continue;
+
+    const { value, costedQuantity, uncostedQuantity } = pool.value();
+    lines.push({
+      inventoryItemId: item.id,
+      warehouseId: item.warehouseId,
+      sku: item.sku,
+      name: item.name,
+      category: item.category,
+      unit: item.unit,
+      quantity: pool.quantity,
+      value: roundMoney(value),
+      unitCost: costedQuantity > 0 ? Math.round((value / costedQuantity) * 10000) / 10000 : null,
+      uncostedQuantity,
+    });
+  }
+
+  const inTransitValue = Array.from(inTransit.values())
+    .flat()
+    .reduce((sum, layer) => sum + layer.quantity * (layer.unitCost ?? 0), 0);
+  return {
+    asOf: options.asOf.toISOString(),
+    method: options.method,
+    lines: lines.sort((a, b) => b.value - a.value || a.name.localeCompare(b.name)),
+    totalValue: roundMoney(lines.reduce((sum, line) => sum + line.value, 0)),
+    inTransitValue: roundMoney(inTransitValue),
+  };
+}
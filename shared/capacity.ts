@@ -0,0 +1,89 @@
+import type {
+  CapacityMode,
+  CapacityTrendPoint,
+  Warehouse,
+  WarehouseStockSpace,
+  WarehouseUtilization,
+} from "./schema";
+
+export const capacityModeLabels: Record<CapacityMode, string> = {
+  units: "Units on hand",
+  volume: "Unit volume",
+};
+
+type CapacityWarehouse = Pick<Warehouse, "id" | "capacity" | "capacityMode">;
+
+function roundSpace(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percentOf(used: number, capacity: number): number | null {
+  return capacity > 0 ? Math.round((used / capacity) * 1000) / 10 : null;
+}
+
+/** Space a quantity of one product takes up; null when its volume is unknown. */
+export function stockSpace(mode: CapacityMode, quantity: number, unitVolume: number | null | undefined): number | null {
+  if (mode === "units") return quantity;
+  return unitVolume ? quantity * unitVolume : null;
+}
+
+/** `space` is the warehouse's row from storage; none means it holds no stock. */
+export function warehouseUtilization(
+  warehouse: CapacityWarehouse,
+  space: Pick<WarehouseStockSpace, "used" | "unmeasuredQuantity"> | undefined
+): WarehouseUtilization {
+  const used = space?.used ?? 0;
+  return {
+    warehouseId: warehouse.id,
+    mode: warehouse.capacityMode,
+    capacity: warehouse.capacity,
+    used: roundSpace(used),
+    percent: percentOf(used, warehouse.capacity),
+    unmeasuredQuantity: space?.unmeasuredQuantity ?? 0,
+  };
+}
+
+/**
+ * Warning for a receipt that would take a warehouse over its capacity, or
+ * null when it fits. Receipts are never refused for lack of space.
+ */
+export function capacityWarning(
+  warehouse: Pick<Warehouse, "name">,
+  utilization: WarehouseUtilization,
+  addedSpace: number
+): string | null {
+  if (utilization.capacity <= 0) return null;
+  const total = utilization.used + addedSpace;
+  if (addedSpace <= 0 || total <= utilization.capacity) return null;
+  return `Receipt takes ${warehouse.name} over capacity: ${roundSpace(total)} of ${utilization.capacity} (${percentOf(total, utilization.capacity)}%)`;
+}
+
+/**
+ * Daily utilization of the given warehouses over the last `days` days,
+ * oldest first. Each point is the space in use at the end of that day, found
+ * by taking the net change recorded on each later day (keyed YYYY-MM-DD, UTC)
+ * off the current space; capacities and unit volumes are the current ones.
+ * Warehouses without a capacity are left out.
+ */
+export function capacityTrend(
+  warehouses: CapacityWarehouse[],
+  spaces: WarehouseStockSpace[],
+  dailyChanges: Record<string, number>,
+  days: number,
+  now = new Date()
+): CapacityTrendPoint[] {
+  const limited = new Set(warehouses.filter((warehouse) => warehouse.capacity > 0).map((warehouse) => warehouse.id));
+  const capacity = warehouses
+    .filter((warehouse) => limited.has(warehouse.id))
+    .reduce((sum, warehouse) => sum + warehouse.capacity, 0);
+  let used = spaces.filter((space) => limited.has(space.warehouseId)).reduce((sum, space) => sum + space.used, 0);
+
+  const points: CapacityTrendPoint[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - offset));
+    const date = day.toISOString().slice(0, 10);
+    points.push({ date, used: roundSpace(used), capacity, percent: percentOf(used, capacity) });
+    used -= dailyChanges[date] ?? 0;
+  }
+  return points.reverse();
+}
@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { daysRemaining, expiryStatus, startOfExpiryDay } from "./expiry";
+
+const now = new Date("2026-03-10T15:30:00Z");
+const settings = { expiryWarningDays: 30 };
+
+describe("expiry", () => {
+  it("starts the expiry day at UTC midnight", () => {
+    assert.equal(startOfExpiryDay(now).toISOString(), "2026-03-10T00:00:00.000Z");
+  });
+
+  it("counts whole days, 0 on the expiry date itself", () => {
+    assert.equal(daysRemaining("2026-03-10T00:00:00Z", now), 0);
+    assert.equal(daysRemaining("2026-03-12T00:00:00Z", now), 2);
+    assert.equal(daysRemaining("2026-03-09T23:59:00Z", now), -1);
+  });
+
+  it("treats stock expiring today as expiring, not expired", () => {
+    assert.equal(expiryStatus("2026-03-10T00:00:00Z", settings, now), "expiring");
+    assert.equal(expiryStatus("2026-03-09T00:00:00Z", settings, now), "expired");
+  });
+
+  it("warns only within the configured window", () => {
+    assert.equal(expiryStatus("2026-04-09T00:00:00Z", settings, now), "expiring");
+    assert.equal(expiryStatus("2026-04-20T00:00:00Z", settings, now), null);
+    assert.equal(expiryStatus(null, settings, now), null);
+  });
+});
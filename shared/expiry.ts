@@ -0,0 +1,31 @@
+import { expiryCutoff, type SystemSettings } from "./system-settings";
+
+// Stock past its expiry date, or due to expire within the warning window
+export const expiryStatuses = ["expired", "expiring"] as const;
+export type ExpiryStatus = (typeof expiryStatuses)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the current UTC day. Expiry dates are calendar days, so stock
+ * expiring today is still good and only counts as expired from tomorrow.
+ */
+export function startOfExpiryDay(now = new Date()): Date {
+  return new Date(Math.floor(now.getTime() / DAY_MS) * DAY_MS);
+}
+
+/** Whole days until the expiry date; 0 on the day itself, negative once expired. */
+export function daysRemaining(expirationDate: Date | string, now = new Date()): number {
+  return Math.floor(new Date(expirationDate).getTime() / DAY_MS) - Math.floor(now.getTime() / DAY_MS);
+}
+
+export function expiryStatus(
+  expirationDate: Date | string | null,
+  settings: Pick<SystemSettings, "expiryWarningDays">,
+  now = new Date()
+): ExpiryStatus | null {
+  if (!expirationDate) return null;
+  const expiresAt = new Date(expirationDate);
+  if (expiresAt < startOfExpiryDay(now)) return "expired";
+  return expiresAt <= expiryCutoff(settings, now) ? "expiring" : null;
+}
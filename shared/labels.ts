@@ -0,0 +1,86 @@
+// What a label sheet can be printed for. Items and lots are picked from
+// the inventory list, so both take inventory item ids; bins are picked per
+// warehouse and take warehouse ids, printing every bin in each.
+export const labelKinds = ["items", "lots", "bins"] as const;
+export type LabelKind = (typeof labelKinds)[number];
+
+export const labelSymbologies = ["code128", "ean13", "qr"] as const;
+export type LabelSymbology = (typeof labelSymbologies)[number];
+
+export const labelSymbologyNames: Record<LabelSymbology, string> = {
+  code128: "Code 128",
+  ean13: "EAN-13 (12-13 digit codes only)",
+  qr: "QR code",
+};
+
+// Sheet geometry in PDF points (1/72 in), measured from the top-left corner
+export interface LabelTemplate {
+  name: string;
+  pageSize: [number, number];
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginLeft: number;
+  marginTop: number;
+  // Distance between the left (top) edges of neighbouring labels
+  columnPitch: number;
+  rowPitch: number;
+}
+
+export const labelTemplates = {
+  "avery-5160": {
+    name: "Avery 5160 · 30 per Letter sheet, 2⅝ × 1 in",
+    pageSize: [612, 792],
+    columns: 3,
+    rows: 10,
+    labelWidth: 189,
+    labelHeight: 72,
+    marginLeft: 13.5,
+    marginTop: 36,
+    columnPitch: 198,
+    rowPitch: 72,
+  },
+  "avery-5163": {
+    name: "Avery 5163 · 10 per Letter sheet, 4 × 2 in",
+    pageSize: [612, 792],
+    columns: 2,
+    rows: 5,
+    labelWidth: 288,
+    labelHeight: 144,
+    marginLeft: 11.25,
+    marginTop: 36,
+    columnPitch: 301.5,
+    rowPitch: 144,
+  },
+  "avery-l7160": {
+    name: "Avery L7160 · 21 per A4 sheet, 63.5 × 38.1 mm",
+    pageSize: [595.28, 841.89],
+    columns: 3,
+    rows: 7,
+    labelWidth: 180,
+    labelHeight: 108,
+    marginLeft: 20.4,
+    marginTop: 42.9,
+    columnPitch: 187.2,
+    rowPitch: 108,
+  },
+  "thermal-4x6": {
+    name: "Thermal roll · 4 × 6 in, one per page",
+    pageSize: [288, 432],
+    columns: 1,
+    rows: 1,
+    labelWidth: 288,
+    labelHeight: 432,
+    marginLeft: 0,
+    marginTop: 0,
+    columnPitch: 288,
+    rowPitch: 432,
+  },
+} satisfies Record<string, LabelTemplate>;
+
+export type LabelTemplateId = keyof typeof labelTemplates;
+export const labelTemplateIds = Object.keys(labelTemplates) as [LabelTemplateId, ...LabelTemplateId[]];
+
+export const MAX_LABEL_COPIES = 100;
+export const MAX_LABELS = 2000;
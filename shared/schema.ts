@@ -1,19 +1,70 @@
 import { relations } from "drizzle-orm";
 import {
   boolean,
+  doublePrecision,
   integer,
   jsonb,
   pgTable,
   text,
   timestamp,
+  unique,
   uuid,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  tableColumnsMetadataSchema,
+  type TableColumnsMetadata,
+} from "./table-columns";
+import { stockLevelOrderError } from "./stock-levels";
+import type { ValuationMethod } from "./system-settings";
+import type { ExpiryStatus } from "./expiry";
 
 export const userRoles = ["super_admin", "admin", "manager", "viewer"] as const;
 export type UserRole = (typeof userRoles)[number];
 
+export const productHistoryActions = ["in", "out", "adjust", "transfer_in", "transfer_out"] as const;
+export type ProductHistoryAction = (typeof productHistoryActions)[number];
+
+export const adjustmentReasons = [
+  "count_correction",
+  "damaged",
+  "expired",
+  "lost",
+  "found",
+  "other",
+] as const;
+export type AdjustmentReason = (typeof adjustmentReasons)[number];
+
+export const transferOrderStatuses = ["draft", "shipped", "received", "cancelled"] as const;
+export type TransferOrderStatus = (typeof transferOrderStatuses)[number];
+
+export const purchaseOrderStatuses = ["draft", "sent", "partially_received", "closed"] as const;
+export type PurchaseOrderStatus = (typeof purchaseOrderStatuses)[number];
+
+export const stocktakeStatuses = ["counting", "posted", "cancelled"] as const;
+export type StocktakeStatus = (typeof stocktakeStatuses)[number];
+
+// AI extraction of an uploaded image runs as a background job: pending until a
+// worker claims it, back to pending between retries, failed once they run out
+export const imageProcessingStatuses = ["pending", "processing", "completed", "failed"] as const;
+export type ImageProcessingStatus = (typeof imageProcessingStatuses)[number];
+
+// How a warehouse's capacity is measured: units on hand, or their total unit volume
+export const capacityModes = ["units", "volume"] as const;
+export type CapacityMode = (typeof capacityModes)[number];
+
+export const inventorySortFields = [
+  "name",
+  "sku",
+  "category",
+  "quantity",
+  "expirationDate",
+  "createdAt",
+  "updatedAt",
+] as const;
+export type InventorySortField = (typeof inventorySortFields)[number];
+
 export const users = pgTable("users", {
   id: text("id").primaryKey(),
   email: text("email"),
@@ -30,16 +81,66 @@ export const warehouses = pgTable("warehouses", {
   name: text("name").notNull(),
   location: text("location"),
   description: text("description"),
+  // Zero means the warehouse has no capacity limit
   capacity: integer("capacity").default(0).notNull(),
+  capacityMode: text("capacity_mode", { enum: capacityModes }).notNull().default("units"),
+  // IANA time zone name
+  timezone: text("timezone").notNull().default("UTC"),
+  createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+});
+
+// Catalog master data; stock per warehouse lives in inventoryItems
+export const products = pgTable("products", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  sku: text("sku").notNull().unique(),
+  name: text("name").notNull(),
+  category: text("category"),
+  description: text("description"),
+  unit: text("unit").default("pcs").notNull(),
+  // Space one unit takes up in warehouses that measure capacity by volume
+  unitVolume: doublePrecision("unit_volume"),
   createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
 });
 
+// Units stock can be counted in; products.unit and inventoryItems.unit hold a code from here
+export const unitsOfMeasure = pgTable("units_of_measure", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  code: text("code").notNull().unique(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+});
+
+// Other units a product can be moved in, e.g. 1 box = 12 of its base unit
+// (products.unit); quantities are always stored in the base unit
+export const productUnitConversions = pgTable(
+  "product_unit_conversions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    productId: uuid("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    unit: text("unit").notNull(),
+    // Base units in one of `unit`
+    factor: integer("factor").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.productId, table.unit)]
+);
+
 export const inventoryItems = pgTable("inventory_items", {
   id: uuid("id").defaultRandom().primaryKey(),
   warehouseId: uuid("warehouse_id")
     .notNull()
     .references(() => warehouses.id, { onDelete: "cascade" }),
+  productId: uuid("product_id")
+    .notNull()
+    .references(() => products.id, { onDelete: "restrict" }),
+  // name, sku, category, unit and description are copies of the product's,
+  // kept in sync by storage so lists can search and sort without a join
   name: text("name").notNull(),
   sku: text("sku").notNull(),
   category: text("category"),
@@ -49,17 +150,103 @@ export const inventoryItems = pgTable("inventory_items", {
   expirationDate: timestamp("expiration_date", { withTimezone: false }),
   location: text("location"),
   description: text("description"),
+  // Null levels fall back to the category's, then the warehouse's default
+  minQuantity: integer("min_quantity"),
+  reorderPoint: integer("reorder_point"),
+  maxQuantity: integer("max_quantity"),
   createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
 });
 
+// Default stock levels for every item in a category or in a warehouse;
+// exactly one of category and warehouseId is set
+export const stockLevelDefaults = pgTable(
+  "stock_level_defaults",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    category: text("category"),
+    warehouseId: uuid("warehouse_id").references(() => warehouses.id, { onDelete: "cascade" }),
+    minQuantity: integer("min_quantity"),
+    reorderPoint: integer("reorder_point"),
+    maxQuantity: integer("max_quantity"),
+    createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.category), unique().on(table.warehouseId)]
+);
+
+// Stock of an item split by lot; the item's quantity is the sum of its lots
+// and its batchNumber/expirationDate mirror the lot that is picked next (FEFO)
+export const inventoryLots = pgTable("inventory_lots", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  inventoryItemId: uuid("inventory_item_id")
+    .notNull()
+    .references(() => inventoryItems.id, { onDelete: "cascade" }),
+  // Null for stock received without a lot number
+  lotNumber: text("lot_number"),
+  expirationDate: timestamp("expiration_date", { withTimezone: false }),
+  quantity: integer("quantity").default(0).notNull(),
+  // Set while the lot is quarantined; its stock stays on hand but isn't picked
+  quarantinedAt: timestamp("quarantined_at", { withTimezone: false }),
+  receivedAt: timestamp("received_at", { withTimezone: false }).defaultNow().notNull(),
+  createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+});
+
+// Storage locations within a warehouse, addressed zone -> aisle -> rack -> bin
+export const warehouseBins = pgTable(
+  "warehouse_bins",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    warehouseId: uuid("warehouse_id")
+      .notNull()
+      .references(() => warehouses.id, { onDelete: "cascade" }),
+    zone: text("zone").notNull(),
+    aisle: text("aisle").notNull(),
+    rack: text("rack").notNull(),
+    bin: text("bin").notNull(),
+    // ZONE-AISLE-RACK-BIN; the value inventoryItems.location holds in warehouses with bins
+    code: text("code").notNull(),
+    description: text("description"),
+    createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.warehouseId, table.code)]
+);
+
+// Units of an item put away in a bin; whatever the bins don't hold is unplaced
+export const binStock = pgTable(
+  "bin_stock",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    binId: uuid("bin_id")
+      .notNull()
+      .references(() => warehouseBins.id, { onDelete: "cascade" }),
+    inventoryItemId: uuid("inventory_item_id")
+      .notNull()
+      .references(() => inventoryItems.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.binId, table.inventoryItemId)]
+);
+
 export const productHistory = pgTable("product_history", {
   id: uuid("id").defaultRandom().primaryKey(),
   inventoryItemId: uuid("inventory_item_id")
     .notNull()
     .references(() => inventoryItems.id, { onDelete: "cascade" }),
-  actionType: text("action_type").notNull(),
+  actionType: text("action_type", { enum: productHistoryActions }).notNull(),
+  reasonCode: text("reason_code", { enum: adjustmentReasons }),
+  // The other side of a transfer
+  relatedItemId: uuid("related_item_id").references(() => inventoryItems.id, { onDelete: "set null" }),
+  transferOrderId: uuid("transfer_order_id").references(() => transferOrders.id, { onDelete: "set null" }),
+  purchaseOrderId: uuid("purchase_order_id").references(() => purchaseOrders.id, { onDelete: "set null" }),
+  stocktakeId: uuid("stocktake_id").references(() => stocktakes.id, { onDelete: "set null" }),
+  lotId: uuid("lot_id").references(() => inventoryLots.id, { onDelete: "set null" }),
   quantityChange: integer("quantity_change").notNull(),
+  // Cost per unit of received stock; valuation replays history to cost what is on hand
+  unitCost: doublePrecision("unit_cost"),
   previousQuantity: integer("previous_quantity").notNull(),
   newQuantity: integer("new_quantity").notNull(),
   userId: text("user_id"),
@@ -67,10 +254,159 @@ export const productHistory = pgTable("product_history", {
   timestamp: timestamp("timestamp", { withTimezone: false }).defaultNow().notNull(),
 });
 
+export type TransferLotAllocation = {
+  lotNumber: string | null;
+  expirationDate: string | null;
+  receivedAt: string;
+  quantity: number;
+};
+
+export const transferOrders = pgTable("transfer_orders", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  sourceWarehouseId: uuid("source_warehouse_id")
+    .notNull()
+    .references(() => warehouses.id, { onDelete: "restrict" }),
+  destinationWarehouseId: uuid("destination_warehouse_id")
+    .notNull()
+    .references(() => warehouses.id, { onDelete: "restrict" }),
+  status: text("status", { enum: transferOrderStatuses }).notNull().default("draft"),
+  notes: text("notes"),
+  createdBy: text("created_by"),
+  shippedBy: text("shipped_by"),
+  shippedAt: timestamp("shipped_at", { withTimezone: false }),
+  receivedBy: text("received_by"),
+  receivedAt: timestamp("received_at", { withTimezone: false }),
+  createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+});
+
+export const transferOrderLines = pgTable("transfer_order_lines", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  transferOrderId: uuid("transfer_order_id")
+    .notNull()
+    .references(() => transferOrders.id, { onDelete: "cascade" }),
+  // Stock row in the source warehouse
+  inventoryItemId: uuid("inventory_item_id")
+    .notNull()
+    .references(() => inventoryItems.id, { onDelete: "restrict" }),
+  // Snapshot of the item when the line was written, for the transfer document
+  sku: text("sku").notNull(),
+  itemName: text("item_name").notNull(),
+  unit: text("unit").notNull(),
+  quantity: integer("quantity").notNull(),
+  // Lots picked when the transfer shipped, recreated at the destination on receipt
+  lots: jsonb("lots").$type<TransferLotAllocation[]>().default([]).notNull(),
+  // Set on receipt
+  destinationItemId: uuid("destination_item_id").references(() => inventoryItems.id, { onDelete: "set null" }),
+  receivedQuantity: integer("received_quantity"),
+  discrepancyReason: text("discrepancy_reason", { enum: adjustmentReasons }),
+});
+
+export const suppliers = pgTable("suppliers", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").notNull(),
+  contactName: text("contact_name"),
+  email: text("email"),
+  phone: text("phone"),
+  address: text("address"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+});
+
+// Purchase orders bring stock in from a supplier:
+// draft -> sent -> partially received -> closed
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  supplierId: uuid("supplier_id")
+    .notNull()
+    .references(() => suppliers.id, { onDelete: "restrict" }),
+  // Warehouse the goods are delivered to
+  warehouseId: uuid("warehouse_id")
+    .notNull()
+    .references(() => warehouses.id, { onDelete: "restrict" }),
+  status: text("status", { enum: purchaseOrderStatuses }).notNull().default("draft"),
+  expectedAt: timestamp("expected_at", { withTimezone: false }),
+  notes: text("notes"),
+  createdBy: text("created_by"),
+  sentBy: text("sent_by"),
+  sentAt: timestamp("sent_at", { withTimezone: false }),
+  closedBy: text("closed_by"),
+  closedAt: timestamp("closed_at", { withTimezone: false }),
+  createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+});
+
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  purchaseOrderId: uuid("purchase_order_id")
+    .notNull()
+    .references(() => purchaseOrders.id, { onDelete: "cascade" }),
+  productId: uuid("product_id")
+    .notNull()
+    .references(() => products.id, { onDelete: "restrict" }),
+  // Snapshot of the product when the line was written, for the order document
+  sku: text("sku").notNull(),
+  itemName: text("item_name").notNull(),
+  unit: text("unit").notNull(),
+  quantity: integer("quantity").notNull(),
+  unitCost: doublePrecision("unit_cost").notNull(),
+  // Running total over all receipts; may exceed quantity after an accepted over-receipt
+  receivedQuantity: integer("received_quantity").default(0).notNull(),
+  // Stock row in the order's warehouse, set on the first receipt
+  inventoryItemId: uuid("inventory_item_id").references(() => inventoryItems.id, { onDelete: "set null" }),
+});
+
+// Stock counts: expected quantities are frozen when the session is created,
+// and approved variances are posted as adjustments against current stock
+export const stocktakes = pgTable("stocktakes", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  warehouseId: uuid("warehouse_id")
+    .notNull()
+    .references(() => warehouses.id, { onDelete: "cascade" }),
+  // Optional scope within the warehouse
+  location: text("location"),
+  category: text("category"),
+  status: text("status", { enum: stocktakeStatuses }).notNull().default("counting"),
+  notes: text("notes"),
+  createdBy: text("created_by"),
+  postedBy: text("posted_by"),
+  postedAt: timestamp("posted_at", { withTimezone: false }),
+  createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+});
+
+export const stocktakeLines = pgTable("stocktake_lines", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  stocktakeId: uuid("stocktake_id")
+    .notNull()
+    .references(() => stocktakes.id, { onDelete: "cascade" }),
+  inventoryItemId: uuid("inventory_item_id")
+    .notNull()
+    .references(() => inventoryItems.id, { onDelete: "cascade" }),
+  // Snapshot of the item when the session was created
+  sku: text("sku").notNull(),
+  itemName: text("item_name").notNull(),
+  unit: text("unit").notNull(),
+  location: text("location"),
+  expectedQuantity: integer("expected_quantity").notNull(),
+  // Null until counted
+  countedQuantity: integer("counted_quantity"),
+  countedBy: text("counted_by"),
+  countedAt: timestamp("counted_at", { withTimezone: false }),
+  // Set when the variance is posted; unapproved variances keep them null
+  reasonCode: text("reason_code", { enum: adjustmentReasons }),
+  postedQuantity: integer("posted_quantity"),
+});
+
 export const tables = pgTable("tables", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: text("name").notNull(),
   description: text("description"),
+  columnsMetadata: jsonb("columns_metadata")
+    .$type<TableColumnsMetadata>()
+    .default({ columns: [] })
+    .notNull(),
   createdBy: text("created_by"),
   createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
 });
@@ -81,6 +417,7 @@ export const tableRows = pgTable("table_rows", {
     .notNull()
     .references(() => tables.id, { onDelete: "cascade" }),
   data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+  position: doublePrecision("position").default(0).notNull(),
   createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
 });
 
@@ -91,7 +428,13 @@ export const capturedImages = pgTable("captured_images", {
   metadata: jsonb("metadata").$type<Record<string, unknown>>().default({}).notNull(),
   ocrText: text("ocr_text"),
   processedData: jsonb("processed_data").$type<Record<string, unknown>>().default({}).notNull(),
-  processingStatus: text("processing_status").notNull().default("pending"),
+  processingStatus: text("processing_status", { enum: imageProcessingStatuses }).notNull().default("pending"),
+  // Message of the last failed attempt, kept while retries are pending
+  processingError: text("processing_error"),
+  processingAttempts: integer("processing_attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at", { withTimezone: false }).defaultNow().notNull(),
+  // When a worker claimed the job; a stale claim means the worker died
+  processingStartedAt: timestamp("processing_started_at", { withTimezone: false }),
   uploadedBy: text("uploaded_by").notNull(),
   createdAt: timestamp("created_at", { withTimezone: false }).defaultNow().notNull(),
 });
@@ -107,12 +450,52 @@ export const auditLogs = pgTable("audit_logs", {
   timestamp: timestamp("timestamp", { withTimezone: false }).defaultNow().notNull(),
 });
 
+// One row per changed setting; keys and value types live in system-settings.ts
+export const systemSettings = pgTable("system_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at", { withTimezone: false }).defaultNow().notNull(),
+});
+
 export const usersRelations = relations(users, (helpers) => ({
   tables: helpers.many(tables, { relationName: "table_creator" }),
 }));
 
 export const warehouseRelations = relations(warehouses, (helpers) => ({
   inventoryItems: helpers.many(inventoryItems),
+  bins: helpers.many(warehouseBins),
+}));
+
+export const warehouseBinRelations = relations(warehouseBins, (helpers) => ({
+  warehouse: helpers.one(warehouses, {
+    fields: [warehouseBins.warehouseId],
+    references: [warehouses.id],
+  }),
+  stock: helpers.many(binStock),
+}));
+
+export const binStockRelations = relations(binStock, (helpers) => ({
+  bin: helpers.one(warehouseBins, {
+    fields: [binStock.binId],
+    references: [warehouseBins.id],
+  }),
+  inventoryItem: helpers.one(inventoryItems, {
+    fields: [binStock.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+}));
+
+export const productRelations = relations(products, (helpers) => ({
+  inventoryItems: helpers.many(inventoryItems),
+  unitConversions: helpers.many(productUnitConversions),
+}));
+
+export const productUnitConversionRelations = relations(productUnitConversions, (helpers) => ({
+  product: helpers.one(products, {
+    fields: [productUnitConversions.productId],
+    references: [products.id],
+  }),
 }));
 
 export const inventoryRelations = relations(inventoryItems, (helpers) => ({
@@ -120,7 +503,60 @@ export const inventoryRelations = relations(inventoryItems, (helpers) => ({
     fields: [inventoryItems.warehouseId],
     references: [warehouses.id],
   }),
+  product: helpers.one(products, {
+    fields: [inventoryItems.productId],
+    references: [products.id],
+  }),
   history: helpers.many(productHistory),
+  lots: helpers.many(inventoryLots),
+}));
+
+export const inventoryLotRelations = relations(inventoryLots, (helpers) => ({
+  inventoryItem: helpers.one(inventoryItems, {
+    fields: [inventoryLots.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+}));
+
+export const transferOrderRelations = relations(transferOrders, (helpers) => ({
+  lines: helpers.many(transferOrderLines),
+}));
+
+export const transferOrderLineRelations = relations(transferOrderLines, (helpers) => ({
+  transferOrder: helpers.one(transferOrders, {
+    fields: [transferOrderLines.transferOrderId],
+    references: [transferOrders.id],
+  }),
+}));
+
+export const supplierRelations = relations(suppliers, (helpers) => ({
+  purchaseOrders: helpers.many(purchaseOrders),
+}));
+
+export const purchaseOrderRelations = relations(purchaseOrders, (helpers) => ({
+  supplier: helpers.one(suppliers, {
+    fields: [purchaseOrders.supplierId],
+    references: [suppliers.id],
+  }),
+  lines: helpers.many(purchaseOrderLines),
+}));
+
+export const purchaseOrderLineRelations = relations(purchaseOrderLines, (helpers) => ({
+  purchaseOrder: helpers.one(purchaseOrders, {
+    fields: [purchaseOrderLines.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+}));
+
+export const stocktakeRelations = relations(stocktakes, (helpers) => ({
+  lines: helpers.many(stocktakeLines),
+}));
+
+export const stocktakeLineRelations = relations(stocktakeLines, (helpers) => ({
+  stocktake: helpers.one(stocktakes, {
+    fields: [stocktakeLines.stocktakeId],
+    references: [stocktakes.id],
+  }),
 }));
 
 export const tableRelations = relations(tables, (helpers) => ({
@@ -141,10 +577,127 @@ export type UpsertUser = Pick<
 >;
 export type Warehouse = typeof warehouses.$inferSelect;
 export type InsertWarehouse = typeof warehouses.$inferInsert;
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = typeof products.$inferInsert;
+export type ProductWithStock = Product & { totalQuantity: number; warehouseCount: number };
+export type UnitOfMeasure = typeof unitsOfMeasure.$inferSelect;
+export type InsertUnitOfMeasure = typeof unitsOfMeasure.$inferInsert;
+export type ProductUnitConversion = typeof productUnitConversions.$inferSelect;
+export type InsertProductUnitConversion = typeof productUnitConversions.$inferInsert;
 export type InventoryItem = typeof inventoryItems.$inferSelect;
-export type InsertInventoryItem = typeof inventoryItems.$inferInsert;
+// Without a productId the stock record joins the catalog product with the same
+// SKU, which is created from the record's own fields if it doesn't exist yet
+export type InsertInventoryItem = Omit<typeof inventoryItems.$inferInsert, "productId"> & { productId?: string };
+export type StockLevelDefault = typeof stockLevelDefaults.$inferSelect;
+export type InsertStockLevelDefault = typeof stockLevelDefaults.$inferInsert;
+export type WarehouseBin = typeof warehouseBins.$inferSelect;
+export type InsertWarehouseBin = Omit<typeof warehouseBins.$inferInsert, "code">;
+export type BinStock = typeof binStock.$inferSelect;
+export type InventoryLot = typeof inventoryLots.$inferSelect;
+export type InsertInventoryLot = typeof inventoryLots.$inferInsert;
 export type ProductHistory = typeof productHistory.$inferSelect;
 export type InsertProductHistory = typeof productHistory.$inferInsert;
+export type TransferOrder = typeof transferOrders.$inferSelect;
+export type InsertTransferOrder = typeof transferOrders.$inferInsert;
+export type TransferOrderLine = typeof transferOrderLines.$inferSelect;
+export type InsertTransferOrderLine = typeof transferOrderLines.$inferInsert;
+export type TransferOrderWithLines = TransferOrder & { lines: TransferOrderLine[] };
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = typeof suppliers.$inferInsert;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = typeof purchaseOrders.$inferInsert;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+export type InsertPurchaseOrderLine = typeof purchaseOrderLines.$inferInsert;
+export type PurchaseOrderWithLines = PurchaseOrder & { lines: PurchaseOrderLine[] };
+export type Stocktake = typeof stocktakes.$inferSelect;
+export type InsertStocktake = typeof stocktakes.$inferInsert;
+export type StocktakeLine = typeof stocktakeLines.$inferSelect;
+export type StocktakeWithLines = Stocktake & { lines: StocktakeLine[] };
+export type ProductHistoryEntry = ProductHistory & { userName: string | null; lotNumber: string | null };
+export type ReplenishmentSuggestion = {
+  inventoryItemId: string;
+  warehouseId: string;
+  sku: string;
+  name: string;
+  category: string | null;
+  unit: string;
+  quantity: number;
+  // Units issued during the usage window
+  issued: number;
+  averageDailyUsage: number;
+  // Null when nothing was issued in the window
+  daysOfCover: number | null;
+  safetyStock: number;
+  reorderPoint: number;
+  targetLevel: number;
+  suggestedQuantity: number;
+};
+export type StockValuationLine = {
+  inventoryItemId: string;
+  warehouseId: string;
+  sku: string;
+  name: string;
+  category: string | null;
+  unit: string;
+  quantity: number;
+  value: number;
+  // Value per costed unit; null when none of the quantity has a cost
+  unitCost: number | null;
+  // Units received without a cost, e.g. opening stock; they add nothing to the value
+  uncostedQuantity: number;
+};
+export type StockValuation = {
+  asOf: string;
+  method: ValuationMethod;
+  lines: StockValuationLine[];
+  totalValue: number;
+  // Shipped on transfer orders but not yet received; not narrowed by warehouse or category
+  inTransitValue: number;
+};
+// Space stock takes up in one warehouse, measured in its capacity mode
+export type WarehouseStockSpace = {
+  warehouseId: string;
+  used: number;
+  // Units of products with no unit volume, left out of a volume-mode total
+  unmeasuredQuantity: number;
+};
+export type WarehouseUtilization = {
+  warehouseId: string;
+  mode: CapacityMode;
+  capacity: number;
+  used: number;
+  // Share of capacity in use; null for warehouses without a capacity
+  percent: number | null;
+  // Units of products with no unit volume, left out of a volume-mode total
+  unmeasuredQuantity: number;
+};
+export type CapacityTrendPoint = {
+  date: string;
+  used: number;
+  capacity: number;
+  percent: number | null;
+};
+// A lot in stock that has expired or expires within the window asked for
+export type ExpiryLot = {
+  lot: InventoryLot;
+  item: InventoryItem;
+  daysRemaining: number;
+  status: ExpiryStatus;
+};
+// Items matching a scanned or typed code
+export type InventoryLookup = {
+  code: string;
+  matchedBy: "sku" | "lot";
+  items: InventoryItem[];
+};
+// What the upload page polls for while an image is processed
+export type ImageProcessingState = {
+  id: string;
+  processingStatus: ImageProcessingStatus;
+  processingError: string | null;
+  attempts: number;
+  extractedData: Record<string, unknown>;
+};
 export type Table = typeof tables.$inferSelect;
 export type InsertTable = typeof tables.$inferInsert;
 export type TableRow = typeof tableRows.$inferSelect;
@@ -167,11 +720,50 @@ const dateOrNull = z
 export const insertWarehouseSchema = createInsertSchema(warehouses, {
   name: z.string().min(1, "Name is required"),
   capacity: z.number().int().nonnegative().default(0),
+  capacityMode: z.enum(capacityModes).default("units"),
+  timezone: z
+    .string()
+    .trim()
+    .default("UTC")
+    .transform((zone) => zone || "UTC")
+    .refine((zone) => {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone: zone });
+        return true;
+      } catch {
+        return false;
+      }
+    }, "Unknown time zone"),
   location: z.string().optional(),
   description: z.string().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertProductSchema = createInsertSchema(products, {
+  sku: z.string().trim().min(1, "SKU is required"),
+  name: z.string().trim().min(1, "Name is required"),
+  category: z.string().optional(),
+  description: z.string().optional(),
+  unit: z.string().trim().min(1).default("pcs"),
+  unitVolume: z.number().positive().nullable().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertUnitOfMeasureSchema = createInsertSchema(unitsOfMeasure, {
+  code: z.string().trim().min(1, "Code is required").max(16),
+  name: z.string().trim().min(1, "Name is required"),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+
+// Codes are referenced by products and stock records, so only the name can change
+export const updateUnitOfMeasureSchema = insertUnitOfMeasureSchema.pick({ name: true });
+
+export const saveUnitConversionSchema = z.object({
+  unit: z.string().trim().min(1),
+  factor: z.number().int().min(2, "A unit must hold at least 2 base units"),
 });
 
+const stockLevel = z.number().int().nonnegative().nullable().optional();
+
 export const insertInventoryItemSchema = createInsertSchema(inventoryItems, {
+  productId: z.string().optional(),
   name: z.string().min(1, "Name is required"),
   sku: z.string().min(1, "SKU is required"),
   quantity: z.number().int().nonnegative().default(0),
@@ -180,11 +772,50 @@ export const insertInventoryItemSchema = createInsertSchema(inventoryItems, {
   expirationDate: dateOrNull,
   location: z.string().optional(),
   description: z.string().optional(),
+  minQuantity: stockLevel,
+  reorderPoint: stockLevel,
+  maxQuantity: stockLevel,
 });
 
+export const insertStockLevelDefaultSchema = createInsertSchema(stockLevelDefaults, {
+  category: z.string().trim().min(1).optional(),
+  warehouseId: z.string().uuid().optional(),
+  minQuantity: stockLevel,
+  reorderPoint: stockLevel,
+  maxQuantity: stockLevel,
+})
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .superRefine((levels, ctx) => {
+    if (!levels.category === !levels.warehouseId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Set either a category or a warehouse" });
+    }
+    const orderError = stockLevelOrderError(levels);
+    if (orderError) ctx.addIssue({ code: z.ZodIssueCode.custom, message: orderError });
+  });
+
+const binSegment = z
+  .string()
+  .trim()
+  .min(1, "Required")
+  .max(16)
+  .regex(/^[A-Za-z0-9]+$/, "Use letters and digits only")
+  .transform((value) => value.toUpperCase());
+
+export const insertWarehouseBinSchema = createInsertSchema(warehouseBins, {
+  warehouseId: z.string().uuid(),
+  zone: binSegment,
+  aisle: binSegment,
+  rack: binSegment,
+  bin: binSegment,
+  description: z.string().optional(),
+}).omit({ id: true, code: true, createdAt: true, updatedAt: true });
+
+export const updateWarehouseBinSchema = insertWarehouseBinSchema.omit({ warehouseId: true }).partial();
+
 export const insertTableSchema = createInsertSchema(tables, {
   name: z.string().min(1, "Name is required"),
   description: z.string().optional(),
+  columnsMetadata: tableColumnsMetadataSchema.default({ columns: [] }),
   createdBy: z.string().optional(),
 });
 
@@ -195,7 +826,7 @@ export const insertTableRowSchema = createInsertSchema(tableRows, {
 export const insertCapturedImageSchema = createInsertSchema(capturedImages, {
   metadata: z.record(z.any()).default({}),
   processedData: z.record(z.any()).default({}),
-  processingStatus: z.string().default("pending"),
+  processingStatus: z.enum(imageProcessingStatuses).default("pending"),
 });
 
 export const insertAuditLogSchema = createInsertSchema(auditLogs, {
@@ -206,6 +837,208 @@ export const insertProductHistorySchema = createInsertSchema(productHistory, {
   notes: z.string().optional(),
 });
 
+const movementQuantity = z.number().int().positive("Quantity must be greater than zero");
+
+// Unit the quantity is given in; defaults to the item's base unit
+const movementUnit = z.string().trim().min(1).optional();
+
+export const receiveStockSchema = z.object({
+  quantity: movementQuantity,
+  unit: movementUnit,
+  // Stock without a lot number or expiry goes to the item's unassigned lot
+  lotNumber: z.string().trim().min(1).optional(),
+  expirationDate: z.coerce.date().optional(),
+  // Per unit the quantity is given in
+  unitCost: z.number().nonnegative("Unit cost cannot be negative").optional(),
+  notes: z.string().optional(),
+});
+
+// Lots are consumed First-Expired-First-Out
+export const issueStockSchema = z.object({
+  quantity: movementQuantity,
+  unit: movementUnit,
+  notes: z.string().optional(),
+});
+
+export const adjustStockSchema = z.object({
+  quantityChange: z
+    .number()
+    .int()
+    .refine((value) => value !== 0, "Quantity change cannot be zero"),
+  unit: movementUnit,
+  reasonCode: z.enum(adjustmentReasons),
+  // Without a lot, removals are FEFO and additions go to the unassigned lot
+  lotId: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+// Sets an item's quantity to what was counted, posting the difference as a count correction
+export const countStockSchema = z.object({
+  countedQuantity: z.number().int().nonnegative("Counted quantity cannot be negative"),
+  notes: z.string().optional(),
+});
+
+// Quarantined lots are held back from issues and transfers until released
+export const lotQuarantineSchema = z.object({
+  quarantined: z.boolean(),
+});
+
+// Writes off everything left in a lot as expired
+export const lotWriteOffSchema = z.object({
+  notes: z.string().optional(),
+});
+
+export const transferStockSchema = z.object({
+  toWarehouseId: z.string().uuid(),
+  quantity: movementQuantity,
+  unit: movementUnit,
+  notes: z.string().optional(),
+});
+
+// Puts unplaced units of an item away into a bin of its warehouse
+export const putawayStockSchema = z.object({
+  binId: z.string(),
+  quantity: movementQuantity,
+});
+
+export const moveBinStockSchema = z
+  .object({
+    fromBinId: z.string(),
+    toBinId: z.string(),
+    quantity: movementQuantity,
+  })
+  .refine((move) => move.fromBinId !== move.toBinId, "Choose a different bin to move to");
+
+const transferLinesSchema = z
+  .array(
+    z.object({
+      inventoryItemId: z.string().uuid(),
+      quantity: movementQuantity,
+    })
+  )
+  .min(1, "Add at least one line")
+  .refine(
+    (lines) => new Set(lines.map((line) => line.inventoryItemId)).size === lines.length,
+    "Each item may appear only once"
+  );
+
+export const createTransferOrderSchema = z
+  .object({
+    sourceWarehouseId: z.string().uuid(),
+    destinationWarehouseId: z.string().uuid(),
+    notes: z.string().optional(),
+    lines: transferLinesSchema,
+  })
+  .refine((order) => order.sourceWarehouseId !== order.destinationWarehouseId, {
+    message: "Source and destination must be different warehouses",
+    path: ["destinationWarehouseId"],
+  });
+
+export const updateTransferOrderSchema = z.object({
+  notes: z.string().optional(),
+  lines: transferLinesSchema.optional(),
+});
+
+export const receiveTransferOrderSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        lineId: z.string(),
+        receivedQuantity: z.number().int().nonnegative(),
+        discrepancyReason: z.enum(adjustmentReasons).optional(),
+      })
+    )
+    .min(1),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers, {
+  name: z.string().trim().min(1, "Name is required"),
+  contactName: z.string().optional(),
+  email: z.union([z.string().email(), z.literal("")]).optional(),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+  notes: z.string().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+
+const purchaseLinesSchema = z
+  .array(
+    z.object({
+      productId: z.string().uuid(),
+      quantity: movementQuantity,
+      unitCost: z.number().nonnegative("Unit cost cannot be negative"),
+    })
+  )
+  .min(1, "Add at least one line")
+  .refine(
+    (lines) => new Set(lines.map((line) => line.productId)).size === lines.length,
+    "Each product may appear only once"
+  );
+
+export const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().uuid(),
+  warehouseId: z.string().uuid(),
+  expectedAt: z.coerce.date().optional(),
+  notes: z.string().optional(),
+  lines: purchaseLinesSchema,
+});
+
+export const updatePurchaseOrderSchema = z.object({
+  supplierId: z.string().uuid().optional(),
+  warehouseId: z.string().uuid().optional(),
+  expectedAt: z.coerce.date().nullable().optional(),
+  notes: z.string().optional(),
+  lines: purchaseLinesSchema.optional(),
+});
+
+export const receivePurchaseOrderSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        lineId: z.string(),
+        quantity: movementQuantity,
+        lotNumber: z.string().trim().min(1).optional(),
+        expirationDate: z.coerce.date().optional(),
+      })
+    )
+    .min(1, "Receive at least one line")
+    .refine(
+      (lines) => new Set(lines.map((line) => line.lineId)).size === lines.length,
+      "Each line may be received only once per receipt"
+    ),
+  // Receiving more than is outstanding on a line must be confirmed
+  acceptOverReceipt: z.boolean().default(false),
+  // Close the order even though lines are still short
+  closeShort: z.boolean().default(false),
+  notes: z.string().optional(),
+});
+
+export const createStocktakeSchema = z.object({
+  warehouseId: z.string().uuid(),
+  location: z.string().trim().min(1).optional(),
+  category: z.string().trim().min(1).optional(),
+  notes: z.string().optional(),
+});
+
+// A null count clears the line
+export const countStocktakeLineSchema = z.object({
+  countedQuantity: z.number().int().nonnegative("Counted quantity cannot be negative").nullable(),
+});
+
+// Lines left out are not posted, whatever their variance
+export const postStocktakeSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        lineId: z.string(),
+        reasonCode: z.enum(adjustmentReasons),
+      })
+    )
+    .refine(
+      (lines) => new Set(lines.map((line) => line.lineId)).size === lines.length,
+      "Each line may be approved only once"
+    ),
+});
+
 export const updateUserRoleSchema = z.object({
   role: z.enum(userRoles),
 });
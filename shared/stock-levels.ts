@@ -0,0 +1,72 @@
+import type { InventoryItem, StockLevelDefault } from "./schema";
+
+// Initial value of the lowStockThreshold system setting
+export const DEFAULT_REORDER_POINT = 10;
+
+export const stockLevelFields = ["minQuantity", "reorderPoint", "maxQuantity"] as const;
+export type StockLevelField = (typeof stockLevelFields)[number];
+
+export const stockLevelLabels: Record<StockLevelField, string> = {
+  minQuantity: "Minimum",
+  reorderPoint: "Reorder point",
+  maxQuantity: "Maximum",
+};
+
+export type StockLevels = {
+  minQuantity: number | null;
+  reorderPoint: number;
+  maxQuantity: number | null;
+};
+
+export type StockStatus = "below_min" | "low" | "ok" | "over";
+
+type StockLevelSubject = Pick<InventoryItem, "category" | "warehouseId" | StockLevelField>;
+
+// Each level falls back on its own: the item's value, then its category's
+// default, then its warehouse's default; the reorder point finally falls back
+// to the system-wide low stock threshold
+export function resolveStockLevels(
+  item: StockLevelSubject,
+  defaults: StockLevelDefault[],
+  lowStockThreshold: number
+): StockLevels {
+  const categoryDefault = item.category
+    ? defaults.find((levels) => levels.category === item.category)
+    : undefined;
+  const warehouseDefault = defaults.find((levels) => levels.warehouseId === item.warehouseId);
+  const level = (field: StockLevelField) =>
+    item[field] ?? categoryDefault?.[field] ?? warehouseDefault?.[field] ?? null;
+
+  return {
+    minQuantity: level("minQuantity"),
+    reorderPoint: level("reorderPoint") ?? lowStockThreshold,
+    maxQuantity: level("maxQuantity"),
+  };
+}
+
+export function stockStatus(quantity: number, levels: StockLevels): StockStatus {
+  if (levels.minQuantity !== null && quantity < levels.minQuantity) return "below_min";
+  if (quantity < levels.reorderPoint) return "low";
+  if (levels.maxQuantity !== null && quantity > levels.maxQuantity) return "over";
+  return "ok";
+}
+
+export function isLowStock(quantity: number, levels: StockLevels) {
+  const status = stockStatus(quantity, levels);
+  return status === "below_min" || status === "low";
+}
+
+// Levels set together must read min <= reorder point <= max
+export function stockLevelOrderError(levels: Partial<Record<StockLevelField, number | null>>): string | null {
+  const { minQuantity, reorderPoint, maxQuantity } = levels;
+  if (minQuantity != null && reorderPoint != null && minQuantity > reorderPoint) {
+    return "Minimum cannot be above the reorder point";
+  }
+  if (reorderPoint != null && maxQuantity != null && reorderPoint > maxQuantity) {
+    return "Reorder point cannot be above the maximum";
+  }
+  if (minQuantity != null && maxQuantity != null && minQuantity > maxQuantity) {
+    return "Minimum cannot be above the maximum";
+  }
+  return null;
+}
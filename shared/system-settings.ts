@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { DEFAULT_REORDER_POINT } from "./stock-levels";
+
+// Vision-capable models the image processing can run on
+export const aiModels = ["gpt-4o", "gpt-4o-mini", "gpt-4.1", "gpt-4.1-mini"] as const;
+export type AiModel = (typeof aiModels)[number];
+
+// How stock on hand is costed: oldest receipts first, or at the running average cost
+export const valuationMethods = ["fifo", "weighted_average"] as const;
+export type ValuationMethod = (typeof valuationMethods)[number];
+
+// Hard cap on any single upload; the settings can only lower it
+export const MAX_UPLOAD_MB = 50;
+
+export const systemSettingsSchema = z.object({
+  // Reorder point for items with no level of their own or from a default
+  lowStockThreshold: z.number().int().nonnegative(),
+  // Items expiring within this many days count as expiring soon
+  expiryWarningDays: z.number().int().min(1).max(365),
+  aiModel: z.enum(aiModels),
+  maxImageUploadMb: z.number().int().min(1).max(MAX_UPLOAD_MB),
+  maxImportFileMb: z.number().int().min(1).max(MAX_UPLOAD_MB),
+  // Unit for new products that don't specify one
+  defaultUnit: z.string().trim().min(1).max(16),
+  valuationMethod: z.enum(valuationMethods),
+});
+
+export type SystemSettings = z.infer<typeof systemSettingsSchema>;
+export type SystemSettingKey = keyof SystemSettings;
+
+export const updateSystemSettingsSchema = systemSettingsSchema
+  .partial()
+  .strict()
+  .refine((changes) => Object.keys(changes).length > 0, "No settings to update");
+
+export const defaultSystemSettings: SystemSettings = {
+  lowStockThreshold: DEFAULT_REORDER_POINT,
+  expiryWarningDays: 30,
+  aiModel: "gpt-4o",
+  maxImageUploadMb: 10,
+  maxImportFileMb: 10,
+  defaultUnit: "pcs",
+  valuationMethod: "fifo",
+};
+
+// The settings every signed-in user's screens depend on
+export type InventorySettings = Pick<
+  SystemSettings,
+  "lowStockThreshold" | "expiryWarningDays" | "defaultUnit" | "maxImageUploadMb" | "maxImportFileMb"
+>;
+
+export function inventorySettings(settings: SystemSettings): InventorySettings {
+  const { lowStockThreshold, expiryWarningDays, defaultUnit, maxImageUploadMb, maxImportFileMb } = settings;
+  return { lowStockThreshold, expiryWarningDays, defaultUnit, maxImageUploadMb, maxImportFileMb };
+}
+
+// Stored values that are unknown or no longer valid fall back to the defaults
+export function parseSystemSettings(stored: Array<{ key: string; value: unknown }>): SystemSettings {
+  const settings: Record<string, unknown> = { ...defaultSystemSettings };
+  const fields = systemSettingsSchema.shape as Record<string, z.ZodTypeAny>;
+  for (const { key, value } of stored) {
+    const parsed = fields[key]?.safeParse(value);
+    if (parsed?.success) settings[key] = parsed.data;
+  }
+  return settings as SystemSettings;
+}
+
+// Items expiring on or before this date are expiring soon
+export function expiryCutoff(settings: Pick<SystemSettings, "expiryWarningDays">, from = new Date()) {
+  const cutoff = new Date(from);
+  cutoff.setDate(cutoff.getDate() + settings.expiryWarningDays);
+  return cutoff;
+}
@@ -0,0 +1,244 @@
+import { z } from "zod";
+
+export const tableColumnTypes = [
+  "text",
+  "number",
+  "date",
+  "boolean",
+  "enum",
+  "reference",
+] as const;
+export type TableColumnType = (typeof tableColumnTypes)[number];
+
+export const MAX_PATTERN_LENGTH = 200;
+
+// True when a repeated group itself contains repetition, as in (a+)+ or
+// (\w*,)*: those can backtrack exponentially on input that almost matches.
+function hasNestedQuantifier(pattern: string): boolean {
+  // Per open group: whether it contains a quantifier
+  const groups: boolean[] = [];
+  // Whether the token just read is a group containing a quantifier
+  let quantifiedGroup = false;
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      i++;
+      quantifiedGroup = false;
+    } else if (inClass) {
+      if (char === "]") inClass = false;
+    } else if (char === "[") {
+      inClass = true;
+      quantifiedGroup = false;
+    } else if (char === "(") {
+      groups.push(false);
+      quantifiedGroup = false;
+    } else if (char === ")") {
+      quantifiedGroup = groups.pop() ?? false;
+      if (quantifiedGroup && groups.length) groups[groups.length - 1] = true;
+    } else if (char === "*" || char === "+" || (char === "{" && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)))) {
+      if (quantifiedGroup) return true;
+      if (groups.length) groups[groups.length - 1] = true;
+      if (char === "{") i = pattern.indexOf("}", i);
+    } else if (char !== "?") {
+      quantifiedGroup = false;
+    }
+  }
+  return false;
+}
+
+/** Why a column's pattern can't be used, or null when it can. */
+export function patternError(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) return `Pattern can be at most ${MAX_PATTERN_LENGTH} characters`;
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    return `Invalid pattern: ${(error as Error).message}`;
+  }
+  if (hasNestedQuantifier(pattern)) {
+    return "Pattern repeats a group that itself repeats, like (a+)+, which can take too long to match";
+  }
+  return null;
+}
+
+export const tableColumnValidationSchema = z.object({
+  required: z.boolean().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  maxLength: z.number().int().positive().optional(),
+  // Compiled and run on every row write, so it is checked when saved
+  pattern: z
+    .string()
+    .superRefine((pattern, ctx) => {
+      const error = patternError(pattern);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    })
+    .optional(),
+  options: z.array(z.string().min(1)).optional(),
+});
+
+export const tableColumnSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    name: z.string().trim().min(1, "Column name is required"),
+    type: z.enum(tableColumnTypes),
+    validation: tableColumnValidationSchema.default({}),
+  })
+  .superRefine((column, ctx) => {
+    if (column.type === "enum" && !column.validation.options?.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["validation", "options"],
+        message: `Enum column "${column.name}" needs at least one option`,
+      });
+    }
+  });
+
+export type TableColumn = z.output<typeof tableColumnSchema> & { id: string };
+export type TableColumnsMetadata = { columns: TableColumn[] };
+
+// Column ids are the keys of `table_rows.data`, so they stay stable across
+// renames and reorders. New columns get the next free `col_<n>` id; storage
+// clears a deleted column's values, so an id handed out again starts empty.
+export const tableColumnsMetadataSchema = z
+  .object({ columns: z.array(tableColumnSchema) })
+  .superRefine(({ columns }, ctx) => {
+    const names = new Set<string>();
+    const ids = new Set<string>();
+    columns.forEach((column, index) => {
+      const name = column.name.toLowerCase();
+      if (names.has(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["columns", index, "name"],
+          message: `Duplicate column name "${column.name}"`,
+        });
+      }
+      names.add(name);
+      if (column.id && ids.has(column.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["columns", index, "id"],
+          message: `Duplicate column id "${column.id}"`,
+        });
+      }
+      if (column.id) ids.add(column.id);
+    });
+  })
+  .transform(({ columns }): TableColumnsMetadata => {
+    const used = new Set(columns.map((column) => column.id).filter(Boolean));
+    let next = 1;
+    return {
+      columns: columns.map((column) => {
+        if (column.id) return column as TableColumn;
+        while (used.has(`col_${next}`)) next++;
+        const id = `col_${next}`;
+        used.add(id);
+        return { ...column, id };
+      }),
+    };
+  });
+
+const emptyToNull = (value: unknown) =>
+  value === undefined || value === null || (typeof value === "string" && value.trim() === "")
+    ? null
+    : value;
+
+const truthy = new Set(["true", "yes", "y", "1"]);
+const falsy = new Set(["false", "no", "n", "0"]);
+
+function columnValueSchema(column: TableColumn): z.ZodTypeAny {
+  const { validation } = column;
+  let schema: z.ZodTypeAny;
+
+  switch (column.type) {
+    case "number": {
+      let number = z.number({ invalid_type_error: "Must be a number" });
+      if (validation.min !== undefined) number = number.min(validation.min);
+      if (validation.max !== undefined) number = number.max(validation.max);
+      schema = z.preprocess(
+        (value) => (typeof value === "string" ? Number(value.replace(/,/g, "")) : value),
+        number.refine(Number.isFinite, "Must be a number")
+      );
+      break;
+    }
+    case "date":
+      schema = z
+        .union([z.string(), z.date()])
+        .transform((value, ctx) => {
+          const parsed = value instanceof Date ? value : new Date(value);
+          if (Number.isNaN(parsed.getTime())) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be a valid date" });
+            return z.NEVER;
+          }
+          return parsed.toISOString();
+        });
+      break;
+    case "boolean":
+      schema = z.preprocess((value) => {
+        if (typeof value !== "string") return value;
+        const normalized = value.trim().toLowerCase();
+        if (truthy.has(normalized)) return true;
+        if (falsy.has(normalized)) return false;
+        return value;
+      }, z.boolean({ invalid_type_error: "Must be true or false" }));
+      break;
+    case "enum":
+      schema = z.enum((validation.options ?? [""]) as [string, ...string[]], {
+        errorMap: () => ({ message: `Must be one of: ${(validation.options ?? []).join(", ")}` }),
+      });
+      break;
+    case "reference":
+      schema = z.string().uuid("Must reference an inventory item");
+      break;
+    default: {
+      let text = z.string({ invalid_type_error: "Must be text" });
+      if (validation.maxLength !== undefined) text = text.max(validation.maxLength);
+      // Definitions saved before patterns were checked may hold unusable ones
+      if (validation.pattern && !patternError(validation.pattern)) {
+        text = text.regex(new RegExp(validation.pattern), "Invalid format");
+      }
+      // Numbers and booleans are stored as their text; objects and arrays are rejected
+      schema = z.preprocess(
+        (value) => (typeof value === "number" || typeof value === "boolean" ? String(value) : value),
+        text
+      );
+    }
+  }
+
+  return validation.required
+    ? z.preprocess(emptyToNull, schema.nullable().refine((value) => value !== null, "Required"))
+    : z.preprocess(emptyToNull, schema.nullable()).optional();
+}
+
+/**
+ * Builds the zod schema a row's `data` must satisfy for the given column
+ * definition. Keys are column ids; unknown keys are rejected.
+ */
+export function buildRowDataSchema(columns: TableColumn[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const column of columns) {
+    shape[column.id] = columnValueSchema(column);
+  }
+  return z.object(shape).strict();
+}
+
+export type RowValidationErrors = {
+  formErrors: string[];
+  fieldErrors: Record<string, string[] | undefined>;
+};
+
+export type RowValidationResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; errors: RowValidationErrors };
+
+export function validateRowData(
+  columns: TableColumn[],
+  data: Record<string, unknown>
+): RowValidationResult {
+  const result = buildRowDataSchema(columns).safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, errors: result.error.flatten() };
+}
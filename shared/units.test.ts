@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { conversionLabel, findUnitCode, unitChoices, unitFactor } from "./units";
+
+const conversions = [
+  { unit: "pallet", factor: 480 },
+  { unit: "box", factor: 12 },
+];
+
+describe("unitFactor", () => {
+  it("is 1 for the base unit and the conversion factor for larger units", () => {
+    assert.equal(unitFactor("pcs", conversions, "pcs"), 1);
+    assert.equal(unitFactor("pcs", conversions, "box"), 12);
+    assert.equal(unitFactor("pcs", conversions, "case"), null);
+  });
+
+  it("converts whole larger units to exact base quantities", () => {
+    // Stock is counted in whole base units; factors are integers, so nothing is rounded away
+    for (const quantity of [1, 7, 1234]) {
+      const base = quantity * unitFactor("pcs", conversions, "pallet")!;
+      assert.ok(Number.isInteger(base));
+      assert.equal(base / 480, quantity);
+    }
+  });
+
+  it("divides a cost per larger unit down without losing cents on the entered quantity", () => {
+    const factor = unitFactor("pcs", [{ unit: "case", factor: 7 }], "case")!;
+    const perBaseUnit = 10 / factor;
+    assert.equal(Math.round(perBaseUnit * factor * 3 * 100) / 100, 30);
+  });
+});
+
+describe("unitChoices", () => {
+  it("lists the base unit first, then larger units from smallest, leaving the input order alone", () => {
+    assert.deepEqual(unitChoices("pcs", conversions), [
+      { unit: "pcs", factor: 1 },
+      { unit: "box", factor: 12 },
+      { unit: "pallet", factor: 480 },
+    ]);
+    assert.equal(conversions[0].unit, "pallet");
+  });
+});
+
+describe("findUnitCode", () => {
+  it("matches regardless of case and surrounding space, returning the registered code", () => {
+    const units = [{ code: "pcs" }, { code: "Box" }];
+    assert.equal(findUnitCode(units, " BOX "), "Box");
+    assert.equal(findUnitCode(units, "crate"), undefined);
+  });
+});
+
+describe("conversionLabel", () => {
+  it("states how many base units one larger unit holds", () => {
+    assert.equal(conversionLabel("pcs", { unit: "box", factor: 12 }), "1 box = 12 pcs");
+  });
+});
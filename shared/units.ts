@@ -0,0 +1,39 @@
+import type { ProductUnitConversion, UnitOfMeasure } from "./schema";
+
+// Seeded by migrations/017 and MemStorage
+export const defaultUnits: Array<Pick<UnitOfMeasure, "code" | "name">> = [
+  { code: "pcs", name: "Pieces" },
+  { code: "box", name: "Box" },
+  { code: "case", name: "Case" },
+  { code: "pallet", name: "Pallet" },
+];
+
+type Conversion = Pick<ProductUnitConversion, "unit" | "factor">;
+
+export type UnitChoice = { unit: string; factor: number };
+
+/** Registered code matching `code` regardless of case, if any. */
+export function findUnitCode(units: Pick<UnitOfMeasure, "code">[], code: string): string | undefined {
+  const wanted = code.trim().toLowerCase();
+  return units.find((unit) => unit.code.toLowerCase() === wanted)?.code;
+}
+
+export function unknownUnitMessage(code: string): string {
+  return `Unknown unit "${code}"; add it to the units of measure first`;
+}
+
+/** Base units in one `unit`, or null when the product has no conversion for it. */
+export function unitFactor(baseUnit: string, conversions: Conversion[], unit: string): number | null {
+  if (unit === baseUnit) return 1;
+  return conversions.find((conversion) => conversion.unit === unit)?.factor ?? null;
+}
+
+/** Units a product's stock can be moved in: its base unit first, then the larger ones. */
+export function unitChoices(baseUnit: string, conversions: Conversion[]): UnitChoice[] {
+  const larger = [...conversions].sort((a, b) => a.factor - b.factor);
+  return [{ unit: baseUnit, factor: 1 }, ...larger.map(({ unit, factor }) => ({ unit, factor }))];
+}
+
+export function conversionLabel(baseUnit: string, conversion: Conversion): string {
+  return `1 ${conversion.unit} = ${conversion.factor} ${baseUnit}`;
+}